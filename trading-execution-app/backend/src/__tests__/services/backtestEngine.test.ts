@@ -0,0 +1,178 @@
+import { BacktestEngine } from '../../services/backtestEngine';
+import { ParsedStrategy } from '../../types';
+
+jest.mock('../../config/database', () => ({
+  databaseService: {
+    all: jest.fn().mockResolvedValue([])
+  }
+}));
+
+// Backtests size from their simulated account, never the live portfolio or paper broker
+jest.mock('../../services/portfolioMonitor', () => ({ portfolioMonitor: {} }));
+jest.mock('../../services/paperBroker', () => ({ paperBroker: {} }));
+jest.mock('../../services/brokerAdapter', () => ({ getBrokerAdapter: jest.fn() }));
+
+const strategy: ParsedStrategy = {
+  id: '1',
+  user_id: 'user',
+  strategy_id: 'strategy-1',
+  strategy_name: 'BTC breakout',
+  description: 'Buy BTC after a 2% hourly move up',
+  asset_1: 'BTC-USD',
+  asset_2: '',
+  favorited_at: '',
+  quality_score: 80,
+  sharpe_ratio: 1.5,
+  total_trades: 10,
+  type: 'momentum',
+  status: 'active',
+  entry_conditions: {
+    type: 'percentage_move',
+    primary_asset: 'BTC-USD',
+    threshold: 2,
+    direction: 'up',
+    timeframe: '1h'
+  },
+  exit_conditions: {
+    stop_loss: { type: 'percentage', value: 2, is_trailing: false },
+    take_profit: { type: 'percentage', value: 5 }
+  },
+  required_assets: ['BTC-USD'],
+  position_size: 100
+};
+
+function buildCsv(prices: number[]): string {
+  const start = Date.parse('2024-01-01T00:00:00Z');
+  const rows = prices.map((price, i) =>
+    `${new Date(start + i * 60000).toISOString()},BTC,${price},${price},${price},${price},1`
+  );
+  return ['timestamp,symbol,open,high,low,close,volume', ...rows].join('\n');
+}
+
+describe('BacktestEngine', () => {
+  const engine = new BacktestEngine();
+
+  it('should replay CSV bars through the entry and exit rules', async () => {
+    const prices = [
+      ...Array(30).fill(100),
+      ...Array(10).fill(103),   // +3% triggers the entry
+      ...Array(10).fill(110)    // clears the 5% take profit
+    ];
+
+    const result = await engine.run(strategy, {
+      csv: buildCsv(prices),
+      initial_capital: 1000,
+      fee_rate: 0,
+      slippage_bps: 0,
+      evaluation_interval_ms: 60000
+    });
+
+    expect(result.bars_processed).toBe(prices.length);
+    expect(result.trades.length).toBeGreaterThan(0);
+
+    const [trade] = result.trades;
+    expect(trade.side).toBe('buy');
+    expect(trade.entry_price).toBe(103);
+    expect(trade.exit_price).toBe(110);
+    expect(trade.exit_reason).toBe('Take profit triggered');
+    expect(trade.pnl).toBeCloseTo((110 - 103) * (100 / 103));
+
+    const totalPnl = result.trades.reduce((sum, t) => sum + t.pnl, 0);
+    expect(result.metrics.final_equity).toBeCloseTo(1000 + totalPnl);
+    expect(result.comparison.reported_sharpe_ratio).toBe(1.5);
+  });
+
+  it('should close open positions at the end of the data', async () => {
+    const prices = [...Array(30).fill(100), ...Array(10).fill(103), ...Array(5).fill(102)];
+
+    const result = await engine.run(strategy, {
+      csv: buildCsv(prices),
+      fee_rate: 0,
+      slippage_bps: 0,
+      evaluation_interval_ms: 60000
+    });
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].exit_reason).toBe('End of backtest');
+    expect(result.metrics.max_drawdown_percent).toBeGreaterThan(0);
+  });
+
+  it('should size entries from the simulated account', async () => {
+    const prices = [...Array(30).fill(100), ...Array(10).fill(103), ...Array(5).fill(102)];
+    const sized: ParsedStrategy = { ...strategy, sizing: { mode: 'percent_equity', value: 10 } };
+    const run = (capital: number) => engine.run(sized, {
+      csv: buildCsv(prices),
+      initial_capital: capital,
+      fee_rate: 0,
+      slippage_bps: 0,
+      evaluation_interval_ms: 60000
+    });
+
+    const [small] = (await run(1000)).trades;
+    const [large] = (await run(5000)).trades;
+
+    expect(small.quantity * small.entry_price).toBeCloseTo(100);
+    expect(large.quantity * large.entry_price).toBeCloseTo(500);
+  });
+
+  it('should scale out across a take-profit ladder', async () => {
+    const laddered: ParsedStrategy = {
+      ...strategy,
+      exit_conditions: {
+        ...strategy.exit_conditions,
+        take_profit_ladder: [
+          { type: 'percentage', value: 2, size_percent: 50 },
+          { type: 'percentage', value: 6, size_percent: 50 }
+        ]
+      }
+    };
+    const prices = [...Array(30).fill(100), ...Array(5).fill(103), ...Array(5).fill(106), ...Array(5).fill(110)];
+
+    const result = await engine.run(laddered, {
+      csv: buildCsv(prices),
+      fee_rate: 0,
+      slippage_bps: 0,
+      evaluation_interval_ms: 60000
+    });
+
+    const [first, second] = result.trades;
+    expect(first.exit_reason).toBe('Take profit level 1 triggered');
+    expect(first.exit_price).toBe(106);
+    expect(first.quantity).toBeCloseTo(50 / 103);
+    expect(second.exit_reason).toBe('Take profit level 2 triggered');
+    expect(second.exit_price).toBe(110);
+    expect(second.quantity).toBeCloseTo(50 / 103);
+  });
+
+  it('should add staged entries and re-average the entry price', async () => {
+    const staged: ParsedStrategy = {
+      ...strategy,
+      entry_conditions: {
+        ...strategy.entry_conditions,
+        scale_in: [
+          { trigger_percent: 0, size_percent: 50 },
+          { trigger_percent: 2, size_percent: 50 }
+        ]
+      }
+    };
+    const prices = [...Array(30).fill(100), ...Array(5).fill(103), ...Array(5).fill(105.5), ...Array(5).fill(110)];
+
+    const result = await engine.run(staged, {
+      csv: buildCsv(prices),
+      fee_rate: 0,
+      slippage_bps: 0,
+      evaluation_interval_ms: 60000
+    });
+
+    const [trade] = result.trades;
+    const firstQuantity = 50 / 103;
+    expect(trade.quantity).toBeCloseTo(firstQuantity * 2);
+    expect(trade.entry_price).toBeCloseTo((103 + 105.5) / 2);
+    expect(trade.exit_reason).toBe('Take profit triggered');
+  });
+
+  it('should reject CSV input without the required columns', async () => {
+    await expect(engine.run(strategy, { csv: 'date,price\n2024-01-01,100' }))
+      .rejects.toThrow('CSV must include timestamp, symbol and close columns');
+  });
+});
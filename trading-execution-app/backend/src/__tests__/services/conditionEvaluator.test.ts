@@ -0,0 +1,255 @@
+import { ConditionEvaluator, InMemoryPendingSignalStore, formatConditionTrace } from '../../services/conditionEvaluator';
+import { TechnicalIndicators } from '../../services/technicalIndicators';
+import { EntryCondition } from '../../types';
+
+describe('ConditionEvaluator delayed signals', () => {
+  const condition: EntryCondition = {
+    type: 'multi_asset_correlation',
+    triggers: [{ asset: 'ETH-USD', direction: 'up', threshold_percent: 2 }],
+    target_asset: 'BTC-USD',
+    action: 'buy',
+    delay_days: 1,
+    timeframe: '1h'
+  };
+
+  let now: Date;
+  let indicators: TechnicalIndicators;
+  let store: InMemoryPendingSignalStore;
+  let evaluator: ConditionEvaluator;
+
+  const tick = (price: number) => indicators.addPriceData('ETH-USD', {
+    timestamp: now, open: price, high: price, low: price, close: price, volume: 1
+  });
+
+  beforeEach(() => {
+    now = new Date('2024-01-01T00:00:00Z');
+    indicators = new TechnicalIndicators({ clock: () => now, useRemoteQuotes: false });
+    store = new InMemoryPendingSignalStore();
+    evaluator = new ConditionEvaluator(indicators, () => now, store);
+  });
+
+  it('should hold the signal for delay_days with a trigger snapshot, then fire once', async () => {
+    tick(100);
+    now = new Date('2024-01-01T00:30:00Z');
+    tick(103);
+
+    expect(await evaluator.evaluate(condition, 'strategy-1')).toBe(false);
+
+    const pending = store.findPending('strategy-1', 'strategy-1:BTC-USD:ETH-USD');
+    expect(pending?.trigger_snapshot).toEqual([
+      expect.objectContaining({ asset: 'ETH-USD', price: 103, percent_move: expect.closeTo(3) })
+    ]);
+
+    // Triggers fading during the wait doesn't cancel the signal
+    now = new Date('2024-01-01T12:00:00Z');
+    tick(100);
+    expect(await evaluator.evaluate(condition, 'strategy-1')).toBe(false);
+
+    now = new Date('2024-01-02T00:30:00Z');
+    tick(100);
+    expect(await evaluator.evaluate(condition, 'strategy-1')).toBe(true);
+
+    // Matured when the delay ends, but still armed until the entry it fires has been submitted
+    expect(pending).toMatchObject({ status: 'matured', resolved_at: now });
+    expect(await evaluator.evaluate(condition, 'strategy-1')).toBe(true);
+
+    await evaluator.consumeMatured('strategy-1');
+    expect(pending?.status).toBe('consumed');
+    expect(await evaluator.evaluate(condition, 'strategy-1')).toBe(false);
+  });
+
+  it('should expire a matured signal no entry uses within the window', async () => {
+    evaluator = new ConditionEvaluator(indicators, () => now, store, 6 * 60 * 60 * 1000);
+    tick(100);
+    now = new Date('2024-01-01T00:30:00Z');
+    tick(103);
+    await evaluator.evaluate(condition, 'strategy-1');
+    const pending = store.findPending('strategy-1', 'strategy-1:BTC-USD:ETH-USD');
+
+    now = new Date('2024-01-02T00:30:00Z');
+    tick(100);
+    expect(await evaluator.evaluate(condition, 'strategy-1')).toBe(true);
+
+    // Nothing entered on it, e.g. because the strategy was still in a position
+    now = new Date('2024-01-02T07:00:00Z');
+    tick(100);
+    expect(await evaluator.evaluate(condition, 'strategy-1')).toBe(false);
+    expect(pending?.status).toBe('expired');
+    expect(store.findPending('strategy-1', 'strategy-1:BTC-USD:ETH-USD')).toBeUndefined();
+
+    await evaluator.consumeMatured('strategy-1');
+    expect(pending?.status).toBe('expired');
+  });
+
+  it('should not re-arm a cancelled signal until its triggers have gone false', async () => {
+    tick(100);
+    now = new Date('2024-01-01T00:30:00Z');
+    tick(103);
+
+    await evaluator.evaluate(condition, 'strategy-1');
+    const pending = store.findPending('strategy-1', 'strategy-1:BTC-USD:ETH-USD');
+    await store.cancel(pending!.id, now);
+
+    // Triggers still hold - the cancellation sticks
+    now = new Date('2024-01-01T00:40:00Z');
+    tick(103);
+    expect(await evaluator.evaluate(condition, 'strategy-1')).toBe(false);
+    expect(store.findPending('strategy-1', 'strategy-1:BTC-USD:ETH-USD')).toBeUndefined();
+
+    now = new Date('2024-01-01T02:00:00Z');
+    tick(103);
+    expect(await evaluator.evaluate(condition, 'strategy-1')).toBe(false);
+
+    now = new Date('2024-01-01T02:30:00Z');
+    tick(106.5);
+    expect(await evaluator.evaluate(condition, 'strategy-1')).toBe(false);
+    expect(store.findPending('strategy-1', 'strategy-1:BTC-USD:ETH-USD')).toBeDefined();
+  });
+
+  it('should track delays per strategy', async () => {
+    tick(100);
+    now = new Date('2024-01-01T00:30:00Z');
+    tick(103);
+
+    await evaluator.evaluate(condition, 'strategy-1');
+    await evaluator.evaluate(condition, 'strategy-2');
+
+    expect(store.findPending('strategy-1', 'strategy-1:BTC-USD:ETH-USD')).toBeDefined();
+    expect(store.findPending('strategy-2', 'strategy-2:BTC-USD:ETH-USD')).toBeDefined();
+  });
+});
+
+describe('ConditionEvaluator condition trees', () => {
+  const move = (asset: string, direction: 'up' | 'down'): EntryCondition => ({
+    type: 'percentage_move', primary_asset: asset, direction, threshold: 2, timeframe: '1h'
+  });
+
+  // (Oil up AND Gold up) OR DXY down
+  const tree: EntryCondition = {
+    type: 'any',
+    target_asset: 'BTC-USD',
+    action: 'buy',
+    conditions: [
+      { type: 'all', conditions: [move('USO', 'up'), move('GLD', 'up')] },
+      move('DXY', 'down')
+    ]
+  };
+
+  let now: Date;
+  let indicators: TechnicalIndicators;
+  let store: InMemoryPendingSignalStore;
+  let evaluator: ConditionEvaluator;
+
+  const prices = (moves: Record<string, number>) => {
+    for (const [asset, percent] of Object.entries(moves)) {
+      now = new Date('2024-01-01T00:00:00Z');
+      indicators.addPriceData(asset, { timestamp: now, open: 100, high: 100, low: 100, close: 100, volume: 1 });
+      now = new Date('2024-01-01T00:30:00Z');
+      const price = 100 + percent;
+      indicators.addPriceData(asset, { timestamp: now, open: price, high: price, low: price, close: price, volume: 1 });
+    }
+  };
+
+  beforeEach(() => {
+    now = new Date('2024-01-01T00:00:00Z');
+    indicators = new TechnicalIndicators({ clock: () => now, useRemoteQuotes: false });
+    store = new InMemoryPendingSignalStore();
+    evaluator = new ConditionEvaluator(indicators, () => now, store);
+  });
+
+  it('should evaluate nested groups and report every node, skipping short-circuited ones', async () => {
+    prices({ USO: 3, GLD: 1, DXY: -3 });
+
+    const trace = await evaluator.evaluateTree(tree, 'strategy-1');
+    expect(trace.result).toBe(true);
+    expect(trace.children![0]).toMatchObject({
+      path: 'entry/0',
+      result: false,
+      children: [
+        { path: 'entry/0/0', label: 'USO up 2% over 1h', result: true },
+        { path: 'entry/0/1', label: 'GLD up 2% over 1h', result: false }
+      ]
+    });
+    expect(trace.children![1]).toMatchObject({ path: 'entry/1', result: true });
+
+    expect(formatConditionTrace(trace)).toBe([
+      '✅ any of 2',
+      '  ❌ all of 2',
+      '    ✅ USO up 2% over 1h',
+      '    ❌ GLD up 2% over 1h',
+      '  ✅ DXY down 2% over 1h'
+    ].join('\n'));
+
+    prices({ USO: 3, GLD: 3, DXY: 0 });
+    const shortCircuited = await evaluator.evaluateTree(tree, 'strategy-1');
+    expect(shortCircuited.result).toBe(true);
+    expect(shortCircuited.children!.map(child => child.result)).toEqual([true, null]);
+  });
+
+  it('should support not and at_least, and reject malformed groups', async () => {
+    prices({ USO: 3, GLD: 3, DXY: 0 });
+    const threeAssets = [move('USO', 'up'), move('GLD', 'up'), move('DXY', 'down')];
+
+    expect(await evaluator.evaluate({ type: 'at_least', min_met: 2, conditions: threeAssets })).toBe(true);
+    expect(await evaluator.evaluate({ type: 'at_least', min_met: 3, conditions: threeAssets })).toBe(false);
+    expect(await evaluator.evaluate({ type: 'not', conditions: [move('DXY', 'down')] })).toBe(true);
+    expect(await evaluator.evaluate({ type: 'not', conditions: [move('USO', 'up')] })).toBe(false);
+
+    expect(await evaluator.evaluate({ type: 'at_least', min_met: 4, conditions: threeAssets })).toBe(false);
+    expect(await evaluator.evaluate({ type: 'not', conditions: threeAssets })).toBe(false);
+    expect(await evaluator.evaluate({ type: 'all', conditions: [] })).toBe(false);
+  });
+
+  it('should treat a leaf without data as unknown, so not() and groups that depend on it never fire', async () => {
+    prices({ USO: 3, GLD: 0 });
+    const noData = move('XYZ', 'up');
+
+    const negated = await evaluator.evaluateTree({ type: 'not', conditions: [noData] });
+    expect(negated).toMatchObject({ result: null, unknown: true, children: [{ result: null, unknown: true }] });
+    expect(await evaluator.evaluate({ type: 'not', conditions: [noData] })).toBe(false);
+    expect(await evaluator.evaluate({ type: 'not', conditions: [{ type: 'all', conditions: [move('USO', 'up'), noData] }] })).toBe(false);
+
+    // Decided whatever the unknown leaf turns out to be
+    expect(await evaluator.evaluate({ type: 'any', conditions: [noData, move('USO', 'up')] })).toBe(true);
+    expect(await evaluator.evaluate({ type: 'not', conditions: [{ type: 'all', conditions: [noData, move('GLD', 'up')] }] })).toBe(true);
+
+    expect(formatConditionTrace(negated)).toBe('❔ not\n  ❔ XYZ up 2% over 1h');
+  });
+
+  it('should treat a multi-asset leaf without data as unknown, delayed or not', async () => {
+    prices({ USO: 3, GLD: 0 });
+    const multiAsset = (assets: string[], delayDays: number): EntryCondition => ({
+      type: 'multi_asset_correlation',
+      triggers: assets.map(asset => ({ asset, direction: 'up' as const, threshold_percent: 2 })),
+      target_asset: 'BTC-USD',
+      action: 'buy',
+      delay_days: delayDays,
+      timeframe: '1h'
+    });
+
+    for (const delayDays of [0, 1]) {
+      const negated = await evaluator.evaluateTree({ type: 'not', conditions: [multiAsset(['USO', 'XYZ'], delayDays)] }, 'strategy-1');
+      expect(negated).toMatchObject({ result: null, unknown: true, children: [{ result: null, unknown: true }] });
+    }
+    expect(store.findPending('strategy-1', 'strategy-1:BTC-USD:USO_XYZ')).toBeUndefined();
+
+    // A trigger known to miss decides it even while another has no data
+    expect(await evaluator.evaluate({ type: 'not', conditions: [multiAsset(['GLD', 'XYZ'], 0)] }, 'strategy-1')).toBe(true);
+  });
+
+  it('should delay a whole group by its delay_days', async () => {
+    prices({ USO: 0, GLD: 0, DXY: -3 });
+    const delayed: EntryCondition = { ...tree, delay_days: 2 };
+
+    expect(await evaluator.evaluate(delayed, 'strategy-1')).toBe(false);
+    expect(store.findPending('strategy-1', 'strategy-1:entry')).toMatchObject({ target_asset: 'BTC-USD', action: 'buy' });
+
+    now = new Date('2024-01-02T00:30:00Z');
+    const waiting = await evaluator.evaluateTree(delayed, 'strategy-1');
+    expect(waiting.result).toBe(false);
+    expect(waiting.children!.map(child => child.result)).toEqual([null, null]);
+
+    now = new Date('2024-01-03T00:30:00Z');
+    expect(await evaluator.evaluate(delayed, 'strategy-1')).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+import { EvaluationScheduler } from '../../services/evaluationScheduler';
+import { marketDataStream } from '../../services/marketDataStream';
+
+jest.mock('../../services/marketDataStream', () => {
+  const { EventEmitter } = require('events');
+  return { marketDataStream: new EventEmitter() };
+});
+
+describe('EvaluationScheduler', () => {
+  let scheduler: EvaluationScheduler;
+  let evaluate: jest.Mock;
+
+  const dependents: Record<string, string[]> = {
+    BTC: ['strategy-1', 'strategy-2'],
+    ETH: ['strategy-2']
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    marketDataStream.removeAllListeners();
+
+    scheduler = new EvaluationScheduler(100);
+    evaluate = jest.fn().mockResolvedValue(undefined);
+    scheduler.register('strategy', {
+      getDependents: symbol => dependents[symbol] || [],
+      evaluate
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should only evaluate strategies that read the quoted symbol', async () => {
+    marketDataStream.emit('quote', { symbol: 'ETH', price: 3000 });
+    marketDataStream.emit('quote', { symbol: 'SOL', price: 150 });
+
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(evaluate).toHaveBeenCalledTimes(1);
+    expect(evaluate).toHaveBeenCalledWith('strategy-2');
+  });
+
+  it('should collapse a burst of quotes into one evaluation per strategy', async () => {
+    for (let i = 0; i < 5; i++) {
+      marketDataStream.emit('quote', { symbol: 'BTC', price: 50000 + i });
+      await jest.advanceTimersByTimeAsync(10);
+    }
+    marketDataStream.emit('quote', { symbol: 'ETH', price: 3000 });
+
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(evaluate).toHaveBeenCalledTimes(2);
+    expect(evaluate.mock.calls.map(call => call[0]).sort()).toEqual(['strategy-1', 'strategy-2']);
+  });
+
+  it('should not overlap evaluations of the same strategy and re-run once after a busy one', async () => {
+    let finish!: () => void;
+    evaluate.mockImplementationOnce(() => new Promise<void>(resolve => { finish = resolve; }));
+
+    const sweep = scheduler.run('strategy', 'strategy-1');
+    scheduler.run('strategy', 'strategy-1');
+    scheduler.run('strategy', 'strategy-1');
+    expect(evaluate).toHaveBeenCalledTimes(1);
+
+    finish();
+    await sweep;
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(evaluate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop debounced evaluations when cancelled', async () => {
+    marketDataStream.emit('quote', { symbol: 'BTC', price: 50000 });
+    scheduler.cancel('strategy');
+
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(evaluate).not.toHaveBeenCalled();
+    expect(scheduler.getStats().pending).toBe(0);
+  });
+});
@@ -0,0 +1,99 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AIParser } from '../../services/aiParser';
+import { FixtureLLMProvider, parseWithRules } from '../../services/fixtureLLMProvider';
+import { descriptionHash, formatStrategyRequest } from '../../services/llmProvider';
+import { LLMResponseCache } from '../../services/llmResponseCache';
+import { validateStrategySpec } from '../../services/strategyDsl';
+
+const description = 'If ETH rises more than 3% in an hour, buy BTC with a 5% trailing stop. 4% take profit, 2 days maximum.';
+
+describe('FixtureLLMProvider', () => {
+  it('should parse common phrasings into a valid spec and report what it filled in', () => {
+    const { spec, provenance } = parseWithRules(description);
+
+    expect(validateStrategySpec(spec).valid).toBe(true);
+    expect(spec.target).toEqual({ asset: 'BTC-USD', action: 'buy' });
+    expect(spec.entry).toEqual({
+      move: { asset: 'ETH-USD', direction: 'up', threshold: { value: 3, unit: 'percent' }, timeframe: '1h' }
+    });
+    expect(spec.exit).toEqual({
+      stop_loss: { distance: { value: 5, unit: 'percent' }, trailing: true },
+      take_profit: { distance: { value: 4, unit: 'percent' } },
+      max_hold: { value: 2, unit: 'days' }
+    });
+    expect(provenance['/entry/move/timeframe']).toBe('verbatim');
+
+    const sparse = parseWithRules('Gold rises 1% or Oil drops 2% on the daily close, sell SPY');
+    expect(sparse.spec.entry).toEqual({ any: [
+      { move: { asset: 'GOLD', direction: 'up', threshold: { value: 1, unit: 'percent' }, timeframe: '1d' } },
+      { move: { asset: 'WTI_CRUDE_OIL', direction: 'down', threshold: { value: 2, unit: 'percent' }, timeframe: '1d' } }
+    ] });
+    expect(sparse.spec.target).toEqual({ asset: 'SPY', action: 'sell' });
+    expect(sparse.provenance['/exit/stop_loss/distance']).toBe('defaulted');
+    expect(sparse.provenance['/exit/take_profit/distance']).toBe('defaulted');
+  });
+
+  it('should answer with a recorded response when the fixture dir has one for the request', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-fixtures-'));
+    const request = formatStrategyRequest(description);
+    fs.writeFileSync(path.join(dir, `${descriptionHash(request)}.json`), JSON.stringify({ response: '{"spec": "recorded"}' }));
+
+    const provider = new FixtureLLMProvider(dir);
+    expect(await provider.complete([{ role: 'user', content: request }])).toBe('{"spec": "recorded"}');
+    expect(JSON.parse(await provider.complete([{ role: 'user', content: formatStrategyRequest('Buy SOL') }])).spec.target)
+      .toEqual({ asset: 'SOL-USD', action: 'buy' });
+
+    expect(await provider.embed('same text')).toEqual(await provider.embed('same text'));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe('AIParser with a provider', () => {
+  it('should parse offline and serve repeats of the same description from the cache', async () => {
+    const provider = new FixtureLLMProvider();
+    const complete = jest.spyOn(provider, 'complete');
+    const parser = new AIParser(provider, new LLMResponseCache({ enabled: true, maxEntries: 10 }));
+
+    const parsed = await parser.parseStrategy(description);
+    expect(parsed.spec?.target.asset).toBe('BTC-USD');
+    expect(parsed.exit_conditions.stop_loss).toEqual({ type: 'percentage', value: 5, is_trailing: true });
+    expect(parsed.parse_report?.provenance['/entry/move/threshold']).toBe('verbatim');
+    expect(complete).toHaveBeenCalledTimes(1);
+
+    // Whitespace and case don't make a new request
+    await parser.parseStrategy(`  ${description.toUpperCase()} `);
+    expect(complete).toHaveBeenCalledTimes(1);
+
+    await parser.parseStrategy(description, undefined, { refresh: true });
+    await parser.parseStrategy(description, 'Use a 10% take profit');
+    expect(complete).toHaveBeenCalledTimes(3);
+  });
+
+  it('should keep cached responses on disk per provider, model and prompt version', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-cache-'));
+    const provider = new FixtureLLMProvider();
+    const hash = descriptionHash(formatStrategyRequest(description));
+
+    const local = { ...provider, name: 'local', model: 'llama3.1:8b' } as any;
+    const cache = new LLMResponseCache({ enabled: true, dir, maxEntries: 10 });
+    await cache.set(provider, 'dsl1-a', hash, 'request', 'response');
+    await cache.set(local, 'dsl1-a', hash, 'request', 'local response');
+
+    const restarted = new LLMResponseCache({ enabled: true, dir, maxEntries: 10 });
+    expect(await restarted.get(provider, 'dsl1-a', hash)).toBe('response');
+    expect(await restarted.get(local, 'dsl1-a', hash)).toBe('local response');
+    expect(await restarted.get({ ...provider, model: 'rules-v2' } as any, 'dsl1-a', hash)).toBeNull();
+    expect(await restarted.get(provider, 'dsl1-b', hash)).toBeNull();
+    expect(await new LLMResponseCache({ enabled: false, dir }).get(provider, 'dsl1-a', hash)).toBeNull();
+    expect(fs.readdirSync(dir).sort()).toEqual([`fixture_rules-v1_dsl1-a_${hash}.json`, `local_llama3.1-8b_dsl1-a_${hash}.json`]);
+
+    fs.rmSync(path.join(dir, `local_llama3.1-8b_dsl1-a_${hash}.json`));
+
+    // Cache files double as fixtures
+    expect(await new FixtureLLMProvider(dir).complete([{ role: 'user', content: formatStrategyRequest(description) }]))
+      .toBe('response');
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
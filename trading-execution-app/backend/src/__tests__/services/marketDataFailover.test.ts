@@ -0,0 +1,145 @@
+import { EventEmitter } from 'events';
+import { MarketDataStream, MarketQuote } from '../../services/marketDataStream';
+import { MarketDataProvider, ProviderQuote } from '../../services/marketDataProvider';
+import { technicalIndicators } from '../../services/technicalIndicators';
+import { MarketDataSource } from '../../types';
+
+jest.mock('../../index', () => ({ io: { emit: jest.fn() } }));
+
+jest.mock('../../services/technicalIndicators', () => ({
+  technicalIndicators: { addPriceData: jest.fn(), setDataQuality: jest.fn() }
+}));
+
+jest.mock('../../services/tradeHistoryService', () => ({
+  tradeHistoryService: { recordMarketData: jest.fn().mockResolvedValue(undefined) }
+}));
+
+jest.mock('../../services/coinbaseService', () => ({
+  coinbaseService: { isConfigured: jest.fn().mockReturnValue(false), getPrice: jest.fn() }
+}));
+
+jest.mock('../../services/notificationService', () => ({
+  notificationService: { sendNotification: jest.fn().mockResolvedValue(undefined) }
+}));
+
+class FakeFeed extends EventEmitter implements MarketDataProvider {
+  connected = false;
+  lastMessage = 0;
+
+  constructor(readonly name: MarketDataSource) {
+    super();
+  }
+
+  async connect() {}
+  disconnect() {}
+  subscribe() {}
+  unsubscribe() {}
+  isConnected() { return this.connected; }
+  getLastMessageTime() { return this.lastMessage; }
+
+  up() {
+    this.connected = true;
+    this.lastMessage = Date.now();
+    this.emit('connected');
+  }
+
+  down() {
+    this.connected = false;
+    this.emit('disconnected');
+  }
+
+  trade(price: number, bid: number, ask: number) {
+    this.lastMessage = Date.now();
+    const quote: ProviderQuote = {
+      symbol: 'BTC', price, bid, ask, timestamp: new Date(), volume: 1000, last_size: 0.1
+    };
+    this.emit('quote', quote);
+  }
+}
+
+describe('MarketDataStream failover', () => {
+  let primary: FakeFeed;
+  let secondary: FakeFeed;
+  let stream: MarketDataStream;
+  let quotes: MarketQuote[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    primary = new FakeFeed('coinbase');
+    secondary = new FakeFeed('polygon');
+    stream = new MarketDataStream([primary, secondary]);
+
+    quotes = [];
+    stream.on('quote', quote => quotes.push(quote));
+  });
+
+  it('should price from the preferred venue and take the best bid and ask across fresh venues', () => {
+    secondary.up();
+    primary.up();
+    expect(stream.getActiveSource()).toBe('coinbase');
+
+    secondary.trade(50010, 50004, 50012);
+    expect(quotes).toHaveLength(0);
+
+    primary.trade(50000, 50000, 50020);
+
+    expect(quotes).toHaveLength(1);
+    expect(quotes[0]).toMatchObject({
+      price: 50000,
+      bid: 50004,
+      ask: 50012,
+      source: 'coinbase',
+      venues: ['polygon', 'coinbase']
+    });
+    expect(technicalIndicators.addPriceData).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail over to the standby without halting and fail back once the primary is healthy', () => {
+    const disconnected = jest.fn();
+    const failover = jest.fn();
+    stream.on('disconnected', disconnected);
+    stream.on('failover', failover);
+
+    primary.up();
+    secondary.up();
+    primary.down();
+
+    expect(stream.getActiveSource()).toBe('polygon');
+    expect(stream.getConnectionStatus()).toBe(true);
+    expect(disconnected).not.toHaveBeenCalled();
+    expect(failover).toHaveBeenCalledWith({ from: 'coinbase', to: 'polygon' });
+
+    secondary.trade(50010, 50000, 50020);
+    expect(quotes[0].source).toBe('polygon');
+
+    // One recent disconnect still leaves the primary above the health threshold
+    primary.up();
+    expect(stream.getActiveSource()).toBe('coinbase');
+  });
+
+  it('should halt only when every venue is down', () => {
+    const disconnected = jest.fn();
+    stream.on('disconnected', disconnected);
+
+    primary.up();
+    secondary.up();
+    primary.down();
+    secondary.down();
+
+    expect(disconnected).toHaveBeenCalledTimes(1);
+    expect(stream.getConnectionStatus()).toBe(false);
+    expect(stream.getActiveSource()).toBeNull();
+  });
+
+  it('should keep a flapping primary on the bench', () => {
+    primary.up();
+    secondary.up();
+    for (let i = 0; i < 3; i++) {
+      primary.down();
+      primary.up();
+    }
+
+    expect(stream.getActiveSource()).toBe('polygon');
+    expect(stream.getProviderHealth().find(p => p.source === 'coinbase')!.score).toBeLessThan(60);
+  });
+});
@@ -0,0 +1,118 @@
+import { EventEmitter } from 'events';
+import { MarketDataStream, MarketQuote } from '../../services/marketDataStream';
+import { MarketDataProvider } from '../../services/marketDataProvider';
+import { SequenceTracker } from '../../services/sequenceTracker';
+import { technicalIndicators } from '../../services/technicalIndicators';
+import { coinbaseService } from '../../services/coinbaseService';
+import { notificationService } from '../../services/notificationService';
+import { tradingConfig } from '../../config/trading';
+
+jest.mock('../../index', () => ({ io: { emit: jest.fn() } }));
+
+jest.mock('../../services/technicalIndicators', () => ({
+  technicalIndicators: { addPriceData: jest.fn(), setDataQuality: jest.fn() }
+}));
+
+jest.mock('../../services/tradeHistoryService', () => ({
+  tradeHistoryService: { recordMarketData: jest.fn().mockResolvedValue(undefined) }
+}));
+
+jest.mock('../../services/coinbaseService', () => ({
+  coinbaseService: { isConfigured: jest.fn(), getPrice: jest.fn() }
+}));
+
+jest.mock('../../services/notificationService', () => ({
+  notificationService: { sendNotification: jest.fn().mockResolvedValue(undefined) }
+}));
+
+class FakeFeed extends EventEmitter implements MarketDataProvider {
+  readonly name = 'coinbase' as const;
+  async connect() {}
+  disconnect() {}
+  subscribe() {}
+  unsubscribe() {}
+  isConnected() { return true; }
+  getLastMessageTime() { return Date.now(); }
+}
+
+function quote(sequence: number, price: number) {
+  return { symbol: 'BTC', price, bid: price - 1, ask: price + 1, timestamp: new Date(), volume: 1000, last_size: 0.1, sequence };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('SequenceTracker', () => {
+  it('should flag skipped and late trade ids per stream', () => {
+    const tracker = new SequenceTracker();
+
+    expect(tracker.checkTradeId('coinbase:BTC', 100)).toEqual({ status: 'ok' });
+    expect(tracker.checkTradeId('coinbase:BTC', 101)).toEqual({ status: 'ok' });
+    expect(tracker.checkTradeId('coinbase:BTC', 105)).toEqual({ status: 'gap', missed: 3 });
+    expect(tracker.checkTradeId('coinbase:BTC', 104)).toEqual({ status: 'out_of_order' });
+    expect(tracker.checkTradeId('coinbase:ETH', 7)).toEqual({ status: 'ok' });
+
+    // Book sequences jump between ticks by design; only going backwards is a problem
+    expect(tracker.checkSequence('coinbase:BTC', 5000)).toEqual({ status: 'ok' });
+    expect(tracker.checkSequence('coinbase:BTC', 5400)).toEqual({ status: 'ok' });
+    expect(tracker.checkSequence('coinbase:BTC', 5400)).toEqual({ status: 'out_of_order' });
+  });
+});
+
+describe('MarketDataStream data quality', () => {
+  let feed: FakeFeed;
+  let stream: MarketDataStream;
+  let quotes: MarketQuote[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    feed = new FakeFeed();
+    stream = new MarketDataStream([feed]);
+    feed.emit('connected');
+
+    quotes = [];
+    stream.on('quote', q => quotes.push(q));
+  });
+
+  it('should drop ticks that arrive out of order', () => {
+    feed.emit('quote', quote(10, 50000));
+    feed.emit('quote', quote(9, 49000));
+
+    expect(quotes.map(q => q.price)).toEqual([50000]);
+    expect(stream.getLatestQuote('BTC')!.price).toBe(50000);
+    expect(stream.getDataQuality()[0].out_of_order).toBe(1);
+  });
+
+  it('should hold a symbol stale after a gap and repair it from a REST snapshot', async () => {
+    (coinbaseService.isConfigured as jest.Mock).mockReturnValue(true);
+    (coinbaseService.getPrice as jest.Mock).mockResolvedValue(50500);
+
+    feed.emit('quote', quote(10, 50000));
+    feed.emit('trade', { symbol: 'BTC', trade_id: 1, sequence: 10 });
+    feed.emit('trade', { symbol: 'BTC', trade_id: 4, sequence: 20 });
+
+    expect(technicalIndicators.setDataQuality).toHaveBeenCalledWith('BTC', false);
+    expect(notificationService.sendNotification).toHaveBeenCalledWith(expect.objectContaining({ title: 'Market Data Gap' }));
+
+    await flush();
+
+    expect(coinbaseService.getPrice).toHaveBeenCalledWith('BTC-USD');
+    expect(stream.getLatestQuote('BTC')!.price).toBe(50500);
+    expect(technicalIndicators.setDataQuality).toHaveBeenLastCalledWith('BTC', true);
+    expect(stream.getDataQuality()[0]).toMatchObject({ status: 'ok', gaps: 1, missed_trades: 2, recovered_by: 'snapshot' });
+  });
+
+  it('should fall back to a run of in-order trades when no snapshot is available', async () => {
+    (coinbaseService.isConfigured as jest.Mock).mockReturnValue(false);
+
+    feed.emit('trade', { symbol: 'BTC', trade_id: 1, sequence: 10 });
+    feed.emit('trade', { symbol: 'BTC', trade_id: 3, sequence: 20 });
+    await flush();
+    expect(stream.getDataQuality()[0].status).toBe('degraded');
+
+    for (let i = 0; i < tradingConfig.marketData.gapRecoveryTrades; i++) {
+      feed.emit('trade', { symbol: 'BTC', trade_id: 4 + i, sequence: 30 + i });
+    }
+
+    expect(stream.getDataQuality()[0]).toMatchObject({ status: 'ok', recovered_by: 'trades' });
+  });
+});
@@ -0,0 +1,80 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MarketDataRecorder, recordingFileName } from '../../services/marketDataRecorder';
+import { MarketDataReplay } from '../../services/marketDataReplay';
+import { MarketClock } from '../../services/marketClock';
+import { WebSocketFeed } from '../../services/marketDataProvider';
+
+class RecordedFeed extends WebSocketFeed {
+  readonly name = 'coinbase' as const;
+  log: string[] = [];
+
+  constructor(private clock: MarketClock) {
+    super();
+  }
+
+  protected getUrl() { return 'wss://unused'; }
+  protected onOpen() {}
+  protected sendSubscription() {}
+
+  protected handleMessage(message: any) {
+    this.log.push(`${message.type}@${this.clock.nowMs()}`);
+  }
+}
+
+describe('MarketDataReplay', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recordings-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function record(frames: Array<[number, string]>) {
+    const recorder = new MarketDataRecorder(true, dir);
+    for (const [t, type] of frames) {
+      recorder.record('coinbase', JSON.stringify({ type }), t);
+    }
+    await recorder.close();
+  }
+
+  it('should write one compressed file per UTC day and replay them in order', async () => {
+    const day1 = Date.parse('2024-03-01T23:59:59Z');
+    const day2 = Date.parse('2024-03-02T00:00:01Z');
+    await record([[day1, 'ticker'], [day2, 'match']]);
+
+    expect(fs.readdirSync(dir).sort()).toEqual([recordingFileName(new Date(day1)), recordingFileName(new Date(day2))]);
+
+    const clock = new MarketClock(true);
+    const feed = new RecordedFeed(clock);
+    const replay = new MarketDataReplay(clock, dir, 'max');
+    await replay.run([feed]);
+
+    expect(feed.log).toEqual([`ticker@${day1}`, `match@${day2}`]);
+    expect(feed.isConnected()).toBe(true);
+    expect(replay.getStatus()).toMatchObject({ state: 'finished', frames: 2, replay_time: new Date(day2) });
+  });
+
+  it('should fire timers at the recorded moment and finish their work before the next frame', async () => {
+    await record([[1000, 'first'], [1100, 'second'], [5000, 'third']]);
+
+    const clock = new MarketClock(true);
+    const feed = new RecordedFeed(clock);
+
+    // Stands in for a debounced evaluation scheduled by the first quote
+    feed.once('connected', () => {
+      clock.setTimeout(async () => {
+        await new Promise(resolve => setImmediate(resolve));
+        feed.log.push(`evaluated@${clock.nowMs()}`);
+      }, 500);
+    });
+
+    await new MarketDataReplay(clock, dir, 'max').run([feed]);
+
+    expect(feed.log).toEqual(['first@1000', 'second@1100', 'evaluated@1500', 'third@5000']);
+  });
+});
@@ -0,0 +1,80 @@
+import { OrderBook, OrderBookService } from '../../services/orderBook';
+
+function book(): OrderBook {
+  const orderBook = new OrderBook('BTC', 'coinbase');
+  orderBook.applySnapshot(
+    [[99, 1], [98, 2], [97, 5]],
+    [[101, 1], [102, 2], [105, 5]]
+  );
+  return orderBook;
+}
+
+describe('OrderBook', () => {
+  it('should apply changes on top of the snapshot and drop zero-size levels', () => {
+    const orderBook = book();
+    orderBook.applyChanges([['sell', 101, 0], ['buy', 99.5, 3]]);
+
+    expect(orderBook.getLevels('ask')[0]).toEqual([102, 2]);
+    expect(orderBook.getLevels('bid')[0]).toEqual([99.5, 3]);
+    expect(orderBook.getMid()).toBeCloseTo(100.75);
+  });
+
+  it('should keep both sides in price order as levels are added, resized and removed', () => {
+    const orderBook = book();
+    orderBook.applyChanges([
+      ['buy', 98.5, 1], ['buy', 96, 4], ['buy', 98, 7], ['buy', 97, 0],
+      ['sell', 103, 1], ['sell', 101.5, 2], ['sell', 105, 0], ['sell', 106, 0]
+    ]);
+
+    expect(orderBook.getLevels('bid')).toEqual([[99, 1], [98.5, 1], [98, 7], [96, 4]]);
+    expect(orderBook.getLevels('ask')).toEqual([[101, 1], [101.5, 2], [102, 2], [103, 1]]);
+  });
+
+  it('should sweep the book to estimate slippage against mid', () => {
+    // $305 buys 1 @ 101 and 2 @ 102: average 101.67 vs mid 100
+    const estimate = book().estimateSlippage('buy', 305)!;
+
+    expect(estimate.fully_fillable).toBe(true);
+    expect(estimate.levels_consumed).toBe(2);
+    expect(estimate.worst_price).toBe(102);
+    expect(estimate.average_price).toBeCloseTo(305 / 3);
+    expect(estimate.slippage_percent).toBeCloseTo((305 / 3 - 100), 5);
+
+    const tooBig = book().estimateSlippage('sell', 10000)!;
+    expect(tooBig.fully_fillable).toBe(false);
+    expect(tooBig.fillable_usd).toBeCloseTo(99 + 196 + 485);
+  });
+
+  it('should size the largest order that stays inside the slippage limit', () => {
+    const orderBook = book();
+    const allowed = orderBook.getMaxNotional('buy', 1.5);
+
+    // Average fill of that notional lands exactly on mid + 1.5%
+    const estimate = orderBook.estimateSlippage('buy', allowed)!;
+    expect(estimate.slippage_percent).toBeCloseTo(1.5, 6);
+    expect(allowed).toBeGreaterThan(101);
+    expect(allowed).toBeLessThan(305);
+  });
+
+  it('should report depth within a band around mid', () => {
+    const depth = book().getDepth(2.5)!;
+
+    expect(depth.mid).toBe(100);
+    expect(depth.spread_percent).toBeCloseTo(2);
+    expect(depth.bid_usd).toBeCloseTo(99 + 196);
+    expect(depth.ask_usd).toBeCloseTo(101 + 204);
+  });
+});
+
+describe('OrderBookService', () => {
+  it('should ignore changes from a venue whose snapshot it does not hold and clear books when a venue drops', () => {
+    const service = new OrderBookService();
+    service.applySnapshot('BTC', 'coinbase', [[99, 1]], [[101, 1]]);
+
+    service.applyChanges('BTC', 'polygon', [['buy', 100, 5]]);
+    expect(service.getBook('BTC-USD')!.getLevels('bid')).toEqual([[99, 1]]);
+
+    service.clear('coinbase');
+    expect(service.getBook('BTC')).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+import { OrderManager } from '../../services/orderManager';
+import { getBrokerAdapter } from '../../services/brokerAdapter';
+import { tradingConfig } from '../../config/trading';
+
+jest.mock('../../index', () => ({ io: { emit: jest.fn() } }));
+
+jest.mock('../../config/database', () => ({
+  databaseService: {
+    run: jest.fn().mockResolvedValue(undefined),
+    all: jest.fn().mockResolvedValue([]),
+    get: jest.fn().mockResolvedValue(null)
+  }
+}));
+
+jest.mock('../../services/technicalIndicators', () => ({
+  technicalIndicators: {
+    getCurrentPrice: jest.fn().mockReturnValue(101)
+  }
+}));
+
+const broker = {
+  name: 'paper',
+  tracksOrders: true,
+  placeOrder: jest.fn(),
+  cancelOrder: jest.fn().mockResolvedValue(true),
+  getOrder: jest.fn(),
+  getFills: jest.fn(),
+  getBalances: jest.fn()
+};
+
+jest.mock('../../services/brokerAdapter', () => ({
+  getBrokerAdapter: jest.fn(() => broker)
+}));
+
+const limitOrder = {
+  side: 'buy' as const,
+  product_id: 'BTC-USD',
+  type: 'limit' as const,
+  price: '100.00',
+  size: '2',
+  client_oid: 'client-1'
+};
+
+const context = { broker: 'paper' as const, strategy_id: 'strategy-1', purpose: 'entry' as const, position_id: 'position-1' };
+
+describe('OrderManager', () => {
+  let manager: OrderManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getBrokerAdapter as jest.Mock).mockReturnValue(broker);
+    manager = new OrderManager();
+  });
+
+  it('should walk an order through partial and full fills', async () => {
+    const fills: number[] = [];
+    manager.on('fill', (_order, delta) => fills.push(delta));
+
+    const order = await manager.createOrder(limitOrder, context);
+    await manager.recordSubmission(order, { success: true, order_id: 'broker-1' });
+    expect(order.status).toBe('open');
+
+    broker.getOrder.mockResolvedValueOnce({ status: 'open', filled_size: 0.5, average_filled_price: 100 });
+    await manager.pollWorkingOrders();
+    expect(order.status).toBe('partially_filled');
+
+    broker.getOrder.mockResolvedValueOnce({ status: 'filled', filled_size: 2, average_filled_price: 99.5 });
+    await manager.pollWorkingOrders();
+    expect(order.status).toBe('filled');
+    expect(order.average_fill_price).toBe(99.5);
+    expect(fills).toEqual([0.5, 1.5]);
+    expect(manager.hasWorkingOrder('strategy-1', 'entry')).toBe(false);
+  });
+
+  it('should close restored paper orders the paper broker lost in a restart', async () => {
+    const row = (id: string, brokerOrderId: string) => ({
+      id, client_oid: id, broker: 'paper', broker_order_id: brokerOrderId, strategy_id: 'strategy-1', purpose: 'entry',
+      product_id: 'BTC-USD', side: 'buy', type: 'limit', status: 'open', size: 2, filled_size: 0, limit_price: 100,
+      created_at: new Date().toISOString(), updated_at: new Date().toISOString()
+    });
+    const { databaseService } = jest.requireMock('../../config/database');
+    databaseService.all.mockResolvedValueOnce([row('lost', 'paper-lost'), row('known', 'paper-known')]);
+    broker.getOrder.mockResolvedValueOnce(null).mockResolvedValueOnce({ status: 'open', filled_size: 0 });
+
+    await manager.initialize();
+    manager.stop();
+
+    expect(manager.getWorkingOrders().map(order => order.id)).toEqual(['known']);
+  });
+
+  it('should expire stale entry limits and reprice the remainder at the market', async () => {
+    const order = await manager.createOrder(limitOrder, context);
+    await manager.recordSubmission(order, { success: true, order_id: 'broker-1', filled_size: '0.5', filled_price: '100' });
+    order.created_at = new Date(Date.now() - tradingConfig.orders.limitTimeoutMs - 1000);
+
+    broker.getOrder.mockResolvedValueOnce({ status: 'open', filled_size: 0.5, average_filled_price: 100 });
+    broker.placeOrder.mockResolvedValueOnce({ success: true, order_id: 'broker-2' });
+    await manager.pollWorkingOrders();
+
+    expect(broker.cancelOrder).toHaveBeenCalledWith('broker-1');
+    expect(order.status).toBe('expired');
+
+    const [replacement] = manager.getWorkingOrders();
+    expect(replacement).toMatchObject({
+      parent_order_id: order.id,
+      position_id: 'position-1',
+      size: 1.5,
+      limit_price: 101,
+      reprice_count: 1,
+      status: 'open'
+    });
+  });
+
+  it('should report orders that end without a fill, unless a repriced replacement takes over', async () => {
+    const unfilled: string[] = [];
+    manager.on('unfilled', order => unfilled.push(order.id));
+
+    const cancelled = await manager.createOrder(limitOrder, context);
+    await manager.recordSubmission(cancelled, { success: true, order_id: 'broker-1' });
+    await manager.cancelOrder(cancelled.id);
+
+    const stale = await manager.createOrder({ ...limitOrder, client_oid: 'client-2' }, context);
+    await manager.recordSubmission(stale, { success: true, order_id: 'broker-2' });
+    stale.created_at = new Date(Date.now() - tradingConfig.orders.limitTimeoutMs - 1000);
+    broker.getOrder.mockResolvedValueOnce({ status: 'open', filled_size: 0 });
+    broker.placeOrder.mockResolvedValueOnce({ success: false, error: 'insufficient funds' });
+    await manager.pollWorkingOrders();
+
+    expect(stale.status).toBe('expired');
+    const [replacement] = unfilled.slice(1);
+    expect(unfilled).toEqual([cancelled.id, replacement]);
+    expect(replacement).not.toBe(stale.id);
+  });
+
+  it('should treat acceptance as a fill on venues without order status', async () => {
+    (getBrokerAdapter as jest.Mock).mockReturnValue({ ...broker, name: 'webhook', tracksOrders: false });
+
+    const order = await manager.createOrder(limitOrder, { ...context, broker: 'webhook' });
+    await manager.recordSubmission(order, { success: true });
+
+    expect(order.status).toBe('filled');
+    expect(order.filled_size).toBe(2);
+    expect(order.average_fill_price).toBe(100);
+  });
+});
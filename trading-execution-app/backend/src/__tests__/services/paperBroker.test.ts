@@ -0,0 +1,187 @@
+import { PaperBroker, paperBroker } from '../../services/paperBroker';
+import { getBrokerAdapter } from '../../services/brokerAdapter';
+import { marketDataStream } from '../../services/marketDataStream';
+import { tradingConfig } from '../../config/trading';
+import { Position } from '../../types';
+
+jest.mock('../../services/marketDataStream', () => ({
+  marketDataStream: {
+    on: jest.fn(),
+    getLatestQuote: jest.fn()
+  }
+}));
+
+jest.mock('../../services/technicalIndicators', () => ({
+  technicalIndicators: {
+    getCurrentPrice: jest.fn().mockReturnValue(null)
+  }
+}));
+
+jest.mock('../../services/coinbaseBroker', () => ({ coinbaseBroker: { name: 'coinbase' } }));
+jest.mock('../../services/webhookBroker', () => ({ webhookBroker: { name: 'webhook' } }));
+
+describe('PaperBroker', () => {
+  let broker: PaperBroker;
+  let quote: (bid: number, ask: number) => void;
+  const getLatestQuote = marketDataStream.getLatestQuote as jest.Mock;
+
+  beforeEach(() => {
+    (marketDataStream.on as jest.Mock).mockClear();
+    broker = new PaperBroker();
+    broker.initialize();
+
+    // Resting orders fill off the quotes the broker listens to
+    const [, onQuote] = (marketDataStream.on as jest.Mock).mock.calls.find(([event]) => event === 'quote');
+    quote = (bid, ask) => onQuote({ symbol: 'BTC', bid, ask });
+    getLatestQuote.mockReturnValue({ symbol: 'BTC', price: 50000, bid: 49990, ask: 50010 });
+  });
+
+  it('should fill market buys at the ask plus slippage and charge taker fees', async () => {
+    const result = await broker.placeOrder({
+      side: 'buy',
+      product_id: 'BTC-USD',
+      type: 'market',
+      size: '0.1'
+    });
+
+    const expectedPrice = 50010 * (1 + tradingConfig.paper.slippageBps / 10000);
+    expect(result.success).toBe(true);
+    expect(parseFloat(result.filled_price!)).toBeCloseTo(expectedPrice);
+
+    const account = broker.getAccount();
+    const fee = expectedPrice * 0.1 * tradingConfig.paper.takerFeeRate;
+    expect(account.cash_balance).toBeCloseTo(tradingConfig.paper.startingCashUSD - expectedPrice * 0.1 - fee);
+    expect(account.fees_paid).toBeCloseTo(fee);
+  });
+
+  it('should rest non-marketable limit orders until the quote crosses', async () => {
+    const result = await broker.placeOrder({
+      side: 'buy',
+      product_id: 'BTC-USD',
+      type: 'limit',
+      price: '49000',
+      size: '0.1'
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.filled_size).toBeUndefined();
+    expect((await broker.getOrder(result.order_id!))?.status).toBe('open');
+
+    quote(48990, 48995);
+
+    const order = await broker.getOrder(result.order_id!);
+    expect(order?.status).toBe('filled');
+    expect(order?.average_filled_price).toBe(49000);
+  });
+
+  it('should hold stop-limits until the stop trips and never fill past the limit', async () => {
+    await broker.placeOrder({ side: 'buy', product_id: 'BTC-USD', type: 'market', size: '0.2' });
+
+    const stop = await broker.placeOrder({
+      side: 'sell', product_id: 'BTC-USD', type: 'stop', size: '0.1', stop_price: '49000', stop_limit_price: '48800'
+    });
+    const gapped = await broker.placeOrder({
+      side: 'sell', product_id: 'BTC-USD', type: 'stop', size: '0.1', stop_price: '49000', stop_limit_price: '48900'
+    });
+    expect(stop.success).toBe(true);
+
+    quote(49500, 49510);
+    expect((await broker.getOrder(stop.order_id!))?.status).toBe('open');
+
+    quote(48850, 48860);
+
+    const filled = await broker.getOrder(stop.order_id!);
+    expect(filled?.status).toBe('filled');
+    expect(filled?.average_filled_price).toBeGreaterThanOrEqual(48800);
+
+    // Tripped, but the market is already below its limit - it rests as a limit
+    const resting = await broker.getOrder(gapped.order_id!);
+    expect(resting?.status).toBe('open');
+    expect(resting?.limit_price).toBe(48900);
+  });
+
+  it('should cancel the rest of an OCO group when one order fills', async () => {
+    await broker.placeOrder({ side: 'buy', product_id: 'BTC-USD', type: 'market', size: '0.1' });
+
+    const stop = await broker.placeOrder({
+      side: 'sell', product_id: 'BTC-USD', type: 'stop', size: '0.1', stop_price: '49000', stop_limit_price: '48800', oco_group: 'position-1'
+    });
+    const takeProfit = await broker.placeOrder({
+      side: 'sell', product_id: 'BTC-USD', type: 'limit', size: '0.1', price: '52500', oco_group: 'position-1'
+    });
+
+    quote(52500, 52510);
+    expect((await broker.getOrder(takeProfit.order_id!))?.status).toBe('filled');
+    expect((await broker.getOrder(stop.order_id!))?.status).toBe('cancelled');
+
+    // The stop can't trip afterwards and sell the position a second time
+    quote(48850, 48860);
+    expect((await broker.getOrder(stop.order_id!))?.status).toBe('cancelled');
+    expect(broker.getAccount().holdings.find(h => h.currency === 'BTC')?.quantity ?? 0).toBeCloseTo(0);
+  });
+
+  it('should realize PnL when a short is covered', async () => {
+    await broker.placeOrder({ side: 'sell', product_id: 'BTC-USD', type: 'market', size: '0.1' });
+
+    getLatestQuote.mockReturnValue({ symbol: 'BTC', price: 48000, bid: 47990, ask: 48010 });
+    await broker.placeOrder({ side: 'buy', product_id: 'BTC-USD', type: 'market', size: '0.1' });
+
+    const slippage = tradingConfig.paper.slippageBps / 10000;
+    const shortPrice = 49990 * (1 - slippage);
+    const coverPrice = 48010 * (1 + slippage);
+    const fees = (shortPrice + coverPrice) * tradingConfig.paper.takerFeeRate;
+
+    const account = broker.getAccount();
+    expect(account.holdings).toHaveLength(0);
+    expect(account.realized_pnl).toBeCloseTo((shortPrice - coverPrice - fees) * 0.1);
+  });
+
+  it('should reject shorts beyond account equity but let longs be sold', async () => {
+    const short = await broker.placeOrder({ side: 'sell', product_id: 'BTC-USD', type: 'market', size: '1' });
+    expect(short.success).toBe(false);
+    expect(short.message).toMatch(/Insufficient paper collateral/);
+
+    await broker.placeOrder({ side: 'buy', product_id: 'BTC-USD', type: 'market', size: '0.15' });
+    const sale = await broker.placeOrder({ side: 'sell', product_id: 'BTC-USD', type: 'market', size: '0.15' });
+    expect(sale.success).toBe(true);
+  });
+
+  it('should rebuild holdings from open paper positions so a restored long closes flat', async () => {
+    broker.restoreHoldings([
+      { asset: 'BTC-USD', side: 'buy', quantity: 0.1, entry_price: 48000 } as Position
+    ]);
+    expect(broker.getAccount().cash_balance).toBeCloseTo(tradingConfig.paper.startingCashUSD - 4800);
+
+    const close = await broker.placeOrder({ side: 'sell', product_id: 'BTC-USD', type: 'market', size: '0.1' });
+    expect(close.success).toBe(true);
+    expect(broker.getAccount().holdings).toHaveLength(0);
+    expect(broker.getAccount().realized_pnl).toBeGreaterThan(0);
+  });
+
+  it('should reject buys that exceed virtual cash', async () => {
+    const result = await broker.placeOrder({
+      side: 'buy',
+      product_id: 'BTC-USD',
+      type: 'market',
+      size: '10'
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/Insufficient paper cash/);
+  });
+});
+
+describe('getBrokerAdapter', () => {
+  it('should send every order to the paper broker during a replay, whatever broker is named', () => {
+    expect(getBrokerAdapter('coinbase').name).toBe('coinbase');
+
+    tradingConfig.replay.path = './recordings';
+    try {
+      expect(getBrokerAdapter('coinbase')).toBe(paperBroker);
+      expect(getBrokerAdapter('webhook')).toBe(paperBroker);
+      expect(getBrokerAdapter()).toBe(paperBroker);
+    } finally {
+      tradingConfig.replay.path = '';
+    }
+  });
+});
@@ -0,0 +1,69 @@
+import { buildParseReport, defaultedParseReport, listSpecFields } from '../../services/parseReport';
+import { StrategySpec } from '../../types';
+
+const description = 'If ETH rises more than 3% in an hour, buy BTC with a 5% trailing stop and take profit quickly.';
+
+const spec: StrategySpec = {
+  dsl_version: 1,
+  name: 'ETH leads BTC',
+  target: { asset: 'BTC-USD', action: 'buy' },
+  entry: { move: { asset: 'ETH-USD', direction: 'up', threshold: { value: 3, unit: 'percent' }, timeframe: '1h' } },
+  exit: {
+    stop_loss: { distance: { value: 0.05, unit: 'fraction' }, trailing: true },
+    take_profit: { distance: { value: 250, unit: 'bps' } }
+  }
+};
+
+const paths = listSpecFields(spec).map(field => field.path);
+
+describe('parse reports', () => {
+  it('should list each reviewable value once, quantities included whole', () => {
+    expect(paths).toEqual([
+      '/target/asset',
+      '/target/action',
+      '/entry/move/asset',
+      '/entry/move/direction',
+      '/entry/move/threshold',
+      '/entry/move/timeframe',
+      '/exit/stop_loss/distance',
+      '/exit/stop_loss/trailing',
+      '/exit/take_profit/distance'
+    ]);
+  });
+
+  it('should check claimed provenance against the description and cap confidence by it', () => {
+    const claimedVerbatim = Object.fromEntries(paths.map(path => [path, 'verbatim']));
+    delete claimedVerbatim['/entry/move/timeframe'];
+
+    const report = buildParseReport(spec, description, {
+      provenance: claimedVerbatim,
+      confidence: 0.95,
+      ambiguities: [
+        { phrase: 'take profit quickly', reason: 'No target given', field: '/exit/take_profit/distance' },
+        { phrase: 'a big move', reason: 'Not in the description' }
+      ]
+    });
+
+    // 3% and 5% (0.05 as a fraction) are in the text; 2.5% is not, so it cannot have been quoted
+    expect(report.provenance['/entry/move/threshold']).toBe('verbatim');
+    expect(report.provenance['/exit/stop_loss/distance']).toBe('verbatim');
+    expect(report.provenance['/exit/take_profit/distance']).toBe('inferred');
+    expect(report.provenance['/entry/move/timeframe']).toBe('inferred');
+    expect(report.provenance['/position_size_usd']).toBe('defaulted');
+
+    expect(report.ambiguities).toEqual([
+      { phrase: 'take profit quickly', reason: 'No target given', field: '/exit/take_profit/distance' }
+    ]);
+
+    // 7 verbatim, 2 inferred and 1 defaulted of 10 fields, less 5% for the ambiguity
+    expect(report.confidence).toBe(0.76);
+  });
+
+  it('should report a spec that was not parsed from the description as entirely defaulted', () => {
+    const report = defaultedParseReport(spec);
+
+    expect(report.confidence).toBe(0);
+    expect(new Set(Object.values(report.provenance))).toEqual(new Set(['defaulted']));
+    expect(Object.keys(report.provenance)).toEqual(paths);
+  });
+});
@@ -0,0 +1,139 @@
+import { PositionSizer } from '../../services/positionSizer';
+import { technicalIndicators } from '../../services/technicalIndicators';
+import { tradeHistoryService } from '../../services/tradeHistoryService';
+import { portfolioMonitor } from '../../services/portfolioMonitor';
+import { paperBroker } from '../../services/paperBroker';
+import { tradingConfig } from '../../config/trading';
+import { ParsedStrategy, PositionSizing } from '../../types';
+
+jest.mock('../../services/technicalIndicators', () => ({
+  technicalIndicators: {
+    calculateATR: jest.fn(),
+    getCandles: jest.fn()
+  }
+}));
+
+jest.mock('../../services/tradeHistoryService', () => ({
+  tradeHistoryService: { getTradeStats: jest.fn() }
+}));
+
+jest.mock('../../services/portfolioMonitor', () => ({
+  portfolioMonitor: { getTotalValue: jest.fn() }
+}));
+
+jest.mock('../../services/brokerAdapter', () => ({
+  getBrokerAdapter: (name?: string) => ({ name: name || 'coinbase' })
+}));
+
+jest.mock('../../services/paperBroker', () => ({
+  paperBroker: { getAccount: jest.fn() }
+}));
+
+function strategy(sizing?: PositionSizing): ParsedStrategy {
+  return {
+    strategy_id: 'strategy-1',
+    position_size: 100,
+    sizing,
+    exit_conditions: {
+      stop_loss: { type: 'atr', value: 1.5, is_trailing: false },
+      take_profit: { type: 'percentage', value: 5 }
+    }
+  } as ParsedStrategy;
+}
+
+describe('PositionSizer', () => {
+  const sizer = new PositionSizer();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (portfolioMonitor.getTotalValue as jest.Mock).mockResolvedValue(20000);
+  });
+
+  it('should keep the flat USD size when no model is configured', async () => {
+    const result = await sizer.calculate(strategy(), 'BTC-USD', 50000);
+
+    expect(result.mode).toBe('fixed_usd');
+    expect(result.notional_usd).toBe(100);
+    expect(result.quantity).toBeCloseTo(0.002);
+  });
+
+  it('should size percent of equity', async () => {
+    const result = await sizer.calculate(strategy({ mode: 'percent_equity', value: 2.5 }), 'BTC-USD', 50000);
+
+    expect(result.notional_usd).toBe(500);
+  });
+
+  it('should size paper strategies from the paper account rather than the portfolio', async () => {
+    (paperBroker.getAccount as jest.Mock).mockReturnValue({ total_value: 8000 });
+
+    const result = await sizer.calculate(
+      { ...strategy({ mode: 'percent_equity', value: 2.5 }), broker: 'paper' },
+      'BTC-USD',
+      50000
+    );
+
+    expect(result.notional_usd).toBe(200);
+    expect(portfolioMonitor.getTotalValue).not.toHaveBeenCalled();
+  });
+
+  it('should size ATR risk so the stop distance loses the configured share of equity', async () => {
+    (technicalIndicators.calculateATR as jest.Mock).mockResolvedValue(1000);
+    (portfolioMonitor.getTotalValue as jest.Mock).mockResolvedValue(2000);
+
+    // $2k equity at 0.5% risks $10; the strategy's 1.5x ATR stop is $1500 away
+    const result = await sizer.calculate(strategy({ mode: 'atr_risk', value: 0.5 }), 'BTC-USD', 50000);
+
+    expect(result.quantity).toBeCloseTo(10 / 1500);
+    expect(result.notional_usd).toBeCloseTo(333.33, 1);
+  });
+
+  it('should risk over a given stop and equity instead of the live account', async () => {
+    const result = await sizer.calculate(strategy({ mode: 'atr_risk', value: 0.5 }), 'BTC-USD', 50000, {
+      equity: 4000,
+      stop_price: 49000
+    });
+
+    // 0.5% of $4,000 lost over a $1,000 stop
+    expect(result.quantity).toBeCloseTo(20 / 1000);
+    expect(technicalIndicators.calculateATR).not.toHaveBeenCalled();
+    expect(portfolioMonitor.getTotalValue).not.toHaveBeenCalled();
+  });
+
+  it('should scale volatility targeting by realized volatility and cap at the max position size', async () => {
+    const closes = Array.from({ length: 49 }, (_, i) => ({ close: 100 * (i % 2 === 0 ? 1 : 1.01) }));
+    (technicalIndicators.getCandles as jest.Mock).mockReturnValue(closes);
+
+    const volatility = sizer.getAnnualizedVolatility('BTC-USD');
+    const result = await sizer.calculate(strategy({ mode: 'volatility_target', value: 10 }), 'BTC-USD', 100);
+    const uncapped = 20000 * 0.1 / volatility;
+
+    expect(result.notional_usd).toBeCloseTo(Math.min(uncapped, tradingConfig.positions.maxPositionSizeUSD), 1);
+  });
+
+  it('should use fractional Kelly once enough trades exist and fall back before that', async () => {
+    (tradeHistoryService.getTradeStats as jest.Mock).mockResolvedValue({
+      total_trades: 40, win_rate: 60, avg_profit: 30, avg_loss: -20
+    });
+
+    // Full Kelly = 0.6 - 0.4 / 1.5 = 0.333; quarter Kelly of $2000 equity = $166.67
+    (portfolioMonitor.getTotalValue as jest.Mock).mockResolvedValue(2000);
+    const result = await sizer.calculate(strategy({ mode: 'kelly', value: 0.25 }), 'BTC-USD', 50000);
+    expect(result.notional_usd).toBeCloseTo(166.67, 1);
+
+    (tradeHistoryService.getTradeStats as jest.Mock).mockResolvedValue({
+      total_trades: 3, win_rate: 100, avg_profit: 30, avg_loss: 0
+    });
+    const fallback = await sizer.calculate(strategy({ mode: 'kelly', value: 0.25 }), 'BTC-USD', 50000);
+    expect(fallback.notional_usd).toBe(100);
+    expect(fallback.detail).toContain('fallback');
+  });
+
+  it('should refuse to trade a strategy with no Kelly edge', async () => {
+    (tradeHistoryService.getTradeStats as jest.Mock).mockResolvedValue({
+      total_trades: 40, win_rate: 30, avg_profit: 10, avg_loss: -20
+    });
+
+    await expect(sizer.calculate(strategy({ mode: 'kelly', value: 0.5 }), 'BTC-USD', 50000))
+      .rejects.toThrow('no position');
+  });
+});
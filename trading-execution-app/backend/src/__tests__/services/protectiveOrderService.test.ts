@@ -0,0 +1,154 @@
+import { ProtectiveOrderService } from '../../services/protectiveOrderService';
+import { tradingConfig } from '../../config/trading';
+import { Position } from '../../types';
+
+jest.mock('../../index', () => ({ io: { emit: jest.fn() } }));
+
+jest.mock('../../config/database', () => ({
+  databaseService: {
+    run: jest.fn().mockResolvedValue(undefined),
+    all: jest.fn().mockResolvedValue([]),
+    get: jest.fn().mockResolvedValue(null)
+  }
+}));
+
+jest.mock('../../services/technicalIndicators', () => ({
+  technicalIndicators: { getCurrentPrice: jest.fn().mockReturnValue(50000) }
+}));
+
+jest.mock('../../services/strategyManager', () => ({
+  strategyManager: { getStrategy: jest.fn() }
+}));
+
+let brokerOrderId = 0;
+const broker = {
+  name: 'paper',
+  tracksOrders: true,
+  supportsStopOrders: true,
+  supportsOcoOrders: true,
+  placeOrder: jest.fn(async () => ({ success: true, order_id: `broker-${++brokerOrderId}` })),
+  cancelOrder: jest.fn().mockResolvedValue(true),
+  getOrder: jest.fn(),
+  getFills: jest.fn(),
+  getBalances: jest.fn()
+};
+
+jest.mock('../../services/brokerAdapter', () => ({
+  getBrokerAdapter: jest.fn(() => broker)
+}));
+
+function position(id: string, overrides: Partial<Position> = {}): Position {
+  return {
+    id,
+    strategy_id: 'strategy-1',
+    asset: 'BTC-USD',
+    side: 'buy',
+    entry_price: 50000,
+    current_price: 50000,
+    quantity: 0.1,
+    trailing_stop_price: 49000,
+    take_profit_price: 52500,
+    status: 'open',
+    entry_time: new Date(),
+    broker: 'paper',
+    ...overrides
+  };
+}
+
+describe('ProtectiveOrderService', () => {
+  const service = new ProtectiveOrderService();
+
+  beforeAll(() => {
+    tradingConfig.protection.nativeStops = true;
+    tradingConfig.protection.nativeTakeProfit = true;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should rest a stop-limit and a take-profit limit once per position', async () => {
+    const open = position('position-1');
+
+    await service.sync(open);
+    await service.sync(open);
+
+    expect(broker.placeOrder).toHaveBeenCalledTimes(2);
+    expect(broker.placeOrder).toHaveBeenCalledWith(expect.objectContaining({
+      side: 'sell',
+      type: 'stop',
+      size: '0.10000000',
+      stop_price: '49000.00',
+      stop_limit_price: (49000 * (1 - tradingConfig.protection.stopLimitOffsetPercent / 100)).toFixed(2)
+    }));
+    expect(broker.placeOrder).toHaveBeenCalledWith(expect.objectContaining({
+      side: 'sell',
+      type: 'limit',
+      price: '52500.00',
+      oco_group: open.id
+    }));
+    expect(service.getOrders(open.id)).toHaveLength(2);
+  });
+
+  it('should cancel and replace the stop when it trails, leaving the take-profit alone', async () => {
+    const open = position('position-2');
+    await service.sync(open);
+    jest.clearAllMocks();
+
+    open.trailing_stop_price = 49500;
+    await service.sync(open);
+
+    expect(broker.cancelOrder).toHaveBeenCalledTimes(1);
+    expect(broker.placeOrder).toHaveBeenCalledTimes(1);
+    expect(broker.placeOrder).toHaveBeenCalledWith(expect.objectContaining({ type: 'stop', stop_price: '49500.00' }));
+
+    const roles = service.getOrders(open.id).map(o => o.metadata?.protective).sort();
+    expect(roles).toEqual(['stop', 'take_profit']);
+  });
+
+  it('should leave take-profit ladders to the monitor', async () => {
+    const laddered = position('position-3', {
+      take_profit_targets: [{ level: 0, price: 51000, size_percent: 50, filled: false }]
+    });
+
+    await service.sync(laddered);
+
+    expect(broker.placeOrder).toHaveBeenCalledTimes(1);
+    expect(broker.placeOrder).toHaveBeenCalledWith(expect.objectContaining({ type: 'stop' }));
+  });
+
+  it('should report when a protective order cannot be cancelled', async () => {
+    const open = position('position-4');
+    await service.sync(open);
+
+    broker.cancelOrder.mockResolvedValueOnce(false);
+
+    expect(await service.cancelAll(open)).toBe(false);
+    expect(service.getOrders(open.id)).toHaveLength(1);
+  });
+
+  it('should rest only the stop on venues without OCO orders', async () => {
+    broker.supportsOcoOrders = false;
+    try {
+      await service.sync(position('position-5'));
+    } finally {
+      broker.supportsOcoOrders = true;
+    }
+
+    expect(broker.placeOrder).toHaveBeenCalledTimes(1);
+    expect(broker.placeOrder).toHaveBeenCalledWith(expect.objectContaining({ type: 'stop', oco_group: undefined }));
+  });
+
+  it('should keep the stop and leave the take-profit to the monitor when the broker refuses it', async () => {
+    const open = position('position-6');
+    broker.placeOrder
+      .mockResolvedValueOnce({ success: true, order_id: 'broker-stop' })
+      .mockResolvedValueOnce({ success: false, message: 'Insufficient balance' } as any);
+
+    await service.sync(open);
+    await service.sync(open);
+
+    expect(broker.placeOrder).toHaveBeenCalledTimes(2);
+    expect(service.getOrders(open.id).map(o => o.metadata?.protective)).toEqual(['stop']);
+  });
+});
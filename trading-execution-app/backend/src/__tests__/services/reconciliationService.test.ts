@@ -0,0 +1,228 @@
+import { ReconciliationService } from '../../services/reconciliationService';
+import { pineconeService } from '../../services/pineconeService';
+import { tradeHistoryService } from '../../services/tradeHistoryService';
+import { coinbaseService } from '../../services/coinbaseService';
+import { portfolioMonitor } from '../../services/portfolioMonitor';
+import { databaseService } from '../../config/database';
+import { Position } from '../../types';
+
+jest.mock('../../index', () => ({ io: { emit: jest.fn() } }));
+
+jest.mock('../../config/database', () => ({
+  databaseService: {
+    insert: jest.fn().mockResolvedValue(1),
+    run: jest.fn().mockResolvedValue(undefined),
+    all: jest.fn().mockResolvedValue([])
+  }
+}));
+
+jest.mock('../../services/pineconeService', () => ({
+  pineconeService: {
+    isPersistent: jest.fn().mockReturnValue(true),
+    getActivePositions: jest.fn(),
+    savePosition: jest.fn().mockResolvedValue(undefined)
+  }
+}));
+
+jest.mock('../../services/tradeHistoryService', () => ({
+  tradeHistoryService: {
+    getOpenTrades: jest.fn(),
+    getTradeById: jest.fn(),
+    recordTrade: jest.fn().mockResolvedValue(1)
+  }
+}));
+
+jest.mock('../../services/coinbaseService', () => ({
+  coinbaseService: {
+    isConfigured: jest.fn().mockReturnValue(true),
+    getBalances: jest.fn()
+  }
+}));
+
+jest.mock('../../services/portfolioMonitor', () => ({
+  portfolioMonitor: {
+    getOpenPositions: jest.fn().mockReturnValue([]),
+    quarantinePosition: jest.fn(),
+    addPosition: jest.fn()
+  }
+}));
+
+jest.mock('../../services/strategyManager', () => ({
+  strategyManager: { getStrategy: jest.fn() }
+}));
+
+jest.mock('../../services/technicalIndicators', () => ({
+  technicalIndicators: { getCurrentPrice: jest.fn().mockReturnValue(null) }
+}));
+
+jest.mock('../../services/complianceLogger', () => ({
+  complianceLogger: { logEvent: jest.fn().mockResolvedValue(undefined) }
+}));
+
+function position(overrides: Partial<Position>): Position {
+  return {
+    id: 'position-1',
+    strategy_id: 'strategy-1',
+    asset: 'BTC-USD',
+    side: 'buy',
+    entry_price: 50000,
+    current_price: 50000,
+    quantity: 0.1,
+    trailing_stop_price: 49000,
+    take_profit_price: 52500,
+    status: 'open',
+    entry_time: new Date(),
+    coinbase_order_id: 'order-1',
+    broker: 'coinbase',
+    ...overrides
+  };
+}
+
+function trade(overrides: any) {
+  return {
+    id: 1,
+    strategy_id: 'strategy-1',
+    symbol: 'BTC-USD',
+    side: 'buy',
+    entry_price: 50000,
+    quantity: 0.1,
+    entry_time: new Date(),
+    status: 'open',
+    order_id: 'order-1',
+    ...overrides
+  };
+}
+
+function balance(currency: string, amount: number, notional: number) {
+  return { currency, balance: amount.toString(), available: amount.toString(), hold: '0', notional_value: notional };
+}
+
+describe('ReconciliationService', () => {
+  let service: ReconciliationService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ReconciliationService();
+  });
+
+  it('should report a clean book when all three sources agree', async () => {
+    (pineconeService.getActivePositions as jest.Mock).mockResolvedValue([position({})]);
+    (tradeHistoryService.getOpenTrades as jest.Mock).mockResolvedValue([trade({})]);
+    (coinbaseService.getBalances as jest.Mock).mockResolvedValue([
+      balance('USD', 1000, 1000),
+      balance('BTC', 0.1, 5000)
+    ]);
+
+    const report = await service.run();
+
+    expect(report.exchange_checked).toBe(true);
+    expect(report.drift).toEqual([]);
+  });
+
+  it('should classify drift between positions, trades and balances', async () => {
+    (pineconeService.getActivePositions as jest.Mock).mockResolvedValue([
+      position({}),
+      position({ id: 'position-2', asset: 'ETH-USD', coinbase_order_id: 'order-2', strategy_id: 'strategy-2' })
+    ]);
+    (tradeHistoryService.getOpenTrades as jest.Mock).mockResolvedValue([
+      trade({ quantity: 0.1 }),
+      trade({ id: 2, symbol: 'SOL-USD', order_id: 'order-3', strategy_id: 'strategy-3' })
+    ]);
+    (coinbaseService.getBalances as jest.Mock).mockResolvedValue([
+      balance('BTC', 0.05, 2500),
+      balance('DOGE', 100, 17)
+    ]);
+
+    const report = await service.run();
+    const types = report.drift.map(d => `${d.type}:${d.asset}`).sort();
+
+    expect(types).toEqual([
+      'missing_position:SOL-USD',
+      'missing_trade_record:ETH-USD',
+      'orphaned_position:ETH-USD',
+      'quantity_mismatch:BTC-USD',
+      'untracked_holding:DOGE-USD'
+    ]);
+  });
+
+  it('should quarantine a position together with its open trade row', async () => {
+    (portfolioMonitor.quarantinePosition as jest.Mock).mockReturnValue(position({}));
+    (tradeHistoryService.getOpenTrades as jest.Mock).mockResolvedValue([trade({ id: 7 })]);
+
+    const record = await service.quarantine({ position_id: 'position-1' });
+    expect(record).toEqual(expect.objectContaining({ position_id: 'position-1', trade_id: 7 }));
+
+    (databaseService.all as jest.Mock).mockResolvedValueOnce([
+      { id: record.id, position_id: 'position-1', trade_id: 7, asset: 'BTC-USD', reason: record.reason, created_at: new Date().toISOString() }
+    ]);
+    (pineconeService.getActivePositions as jest.Mock).mockResolvedValue([position({})]);
+    (coinbaseService.getBalances as jest.Mock).mockResolvedValue([]);
+
+    const report = await service.run();
+    expect(report.drift).toEqual([]);
+    expect(report.open_trades).toBe(0);
+  });
+
+  it('should sum a scaled-in position\'s entry legs and quarantine all of them', async () => {
+    const legs = [
+      trade({ id: 1, quantity: 0.06, metadata: { position_id: 'position-1', leg: 0 } }),
+      trade({ id: 2, quantity: 0.04, order_id: 'order-9', metadata: { position_id: 'position-1', leg: 1 } })
+    ];
+    (pineconeService.getActivePositions as jest.Mock).mockResolvedValue([position({})]);
+    (tradeHistoryService.getOpenTrades as jest.Mock).mockResolvedValue(legs);
+    (coinbaseService.getBalances as jest.Mock).mockResolvedValue([balance('BTC', 0.1, 5000)]);
+
+    expect((await service.run()).drift).toEqual([]);
+
+    (portfolioMonitor.quarantinePosition as jest.Mock).mockReturnValue(position({}));
+    const record = await service.quarantine({ position_id: 'position-1' });
+    expect(record.snapshot.legs.map((leg: any) => leg.id)).toEqual([1, 2]);
+
+    (databaseService.all as jest.Mock).mockResolvedValueOnce([
+      { id: record.id, position_id: 'position-1', trade_id: 1, asset: 'BTC-USD', reason: record.reason, created_at: new Date().toISOString() }
+    ]);
+    (coinbaseService.getBalances as jest.Mock).mockResolvedValue([]);
+    const report = await service.run();
+    expect(report.drift).toEqual([]);
+    expect(report.open_trades).toBe(0);
+  });
+
+  it('should adopt only the untracked part of a holding', async () => {
+    (pineconeService.getActivePositions as jest.Mock).mockResolvedValue([position({ quantity: 0.1 })]);
+    (coinbaseService.getBalances as jest.Mock).mockResolvedValue([balance('BTC', 0.3, 15000)]);
+
+    await expect(service.adopt({ currency: 'BTC', quantity: 0.5 })).rejects.toThrow('untracked');
+
+    const adopted = await service.adopt({ currency: 'btc' });
+
+    expect(adopted.quantity).toBeCloseTo(0.2);
+    expect(adopted.entry_price).toBe(50000);
+    expect(adopted.strategy_id).toBe('reconciliation-adopted');
+    expect(adopted.trailing_stop_price).toBeLessThan(adopted.entry_price);
+    expect(adopted.take_profit_price).toBeGreaterThan(adopted.entry_price);
+    expect(portfolioMonitor.addPosition).toHaveBeenCalledWith(adopted);
+  });
+
+  it('should close an adopted position\'s trade row when the position exits', async () => {
+    (pineconeService.getActivePositions as jest.Mock).mockResolvedValue([]);
+    (coinbaseService.getBalances as jest.Mock).mockResolvedValue([balance('BTC', 0.2, 10000)]);
+
+    const adopted = await service.adopt({ currency: 'BTC' });
+    const [recorded] = (tradeHistoryService.recordTrade as jest.Mock).mock.calls[0];
+    expect(recorded.metadata.position_id).toBe(adopted.id);
+
+    // Exit legs are looked up the way the trades query does: by position id, else by entry order id
+    const rows = [{ ...recorded, id: 9, entry_time: recorded.entry_time.toISOString(), metadata: JSON.stringify(recorded.metadata) }];
+    (databaseService.all as jest.Mock).mockImplementationOnce(async (_sql: string, [positionId, orderId]: any[]) =>
+      rows.filter(row => JSON.parse(row.metadata).position_id === positionId || (row.order_id && row.order_id === orderId))
+    );
+
+    const { TradeHistoryService } = jest.requireActual('../../services/tradeHistoryService');
+    await new TradeHistoryService().recordExitLeg(adopted, adopted.quantity, 55000, new Date(), 'Take profit triggered');
+
+    expect(databaseService.run).toHaveBeenCalledWith(
+      expect.stringContaining('UPDATE trades'),
+      expect.arrayContaining(['closed', 9])
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import { RiskEngine } from '../../services/riskEngine';
+import { portfolioMonitor } from '../../services/portfolioMonitor';
+import { technicalIndicators } from '../../services/technicalIndicators';
+import { complianceLogger } from '../../services/complianceLogger';
+import { paperBroker } from '../../services/paperBroker';
+import { tradingConfig } from '../../config/trading';
+import { Position } from '../../types';
+
+jest.mock('../../config/database', () => ({
+  databaseService: {
+    run: jest.fn().mockResolvedValue(undefined),
+    get: jest.fn().mockResolvedValue(null)
+  }
+}));
+
+jest.mock('../../services/portfolioMonitor', () => ({
+  portfolioMonitor: {
+    getOpenPositions: jest.fn(),
+    getTotalValue: jest.fn()
+  }
+}));
+
+jest.mock('../../services/orderManager', () => ({
+  orderManager: { getWorkingOrders: jest.fn().mockReturnValue([]) }
+}));
+
+jest.mock('../../services/technicalIndicators', () => ({
+  technicalIndicators: {
+    getCurrentPrice: jest.fn(),
+    calculateCorrelation: jest.fn()
+  }
+}));
+
+jest.mock('../../services/brokerAdapter', () => ({
+  getBrokerAdapter: (name?: string) => ({ name: name || 'coinbase' })
+}));
+
+jest.mock('../../services/paperBroker', () => ({
+  paperBroker: { getAccount: jest.fn() }
+}));
+
+jest.mock('../../services/complianceLogger', () => ({
+  complianceLogger: { logEvent: jest.fn().mockResolvedValue(undefined) }
+}));
+
+function position(asset: string, side: 'buy' | 'sell', notional: number): Position {
+  return {
+    id: `${asset}-${side}`,
+    strategy_id: `strategy-${asset}`,
+    asset,
+    side,
+    entry_price: 100,
+    current_price: 100,
+    quantity: notional / 100,
+    trailing_stop_price: 0,
+    take_profit_price: 0,
+    status: 'open',
+    entry_time: new Date()
+  };
+}
+
+const trade = { strategy_id: 'strategy-new', asset: 'BTC-USD', side: 'buy' as const, notional_usd: 500 };
+
+describe('RiskEngine', () => {
+  let engine: RiskEngine;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (portfolioMonitor.getOpenPositions as jest.Mock).mockReturnValue([]);
+    (portfolioMonitor.getTotalValue as jest.Mock).mockResolvedValue(10000);
+    (technicalIndicators.calculateCorrelation as jest.Mock).mockRejectedValue(new Error('Insufficient data'));
+    engine = new RiskEngine();
+  });
+
+  it('should approve a trade inside every limit', async () => {
+    const decision = await engine.evaluate(trade);
+
+    expect(decision.approved).toBe(true);
+    expect(complianceLogger.logEvent).not.toHaveBeenCalled();
+  });
+
+  it('should reject oversized trades with structured reasons', async () => {
+    (portfolioMonitor.getOpenPositions as jest.Mock).mockReturnValue([position('ETH-USD', 'buy', 2500)]);
+
+    const decision = await engine.evaluate({ ...trade, notional_usd: tradingConfig.positions.maxPositionSizeUSD + 1 });
+    const checks = decision.rejections.map(r => r.check);
+
+    expect(decision.approved).toBe(false);
+    expect(checks).toEqual(expect.arrayContaining(['position_size', 'net_exposure']));
+    expect(complianceLogger.logEvent).toHaveBeenCalledWith(expect.objectContaining({
+      event_type: 'risk_rejection',
+      approval_status: 'rejected'
+    }));
+  });
+
+  it('should count same-direction correlated positions but not hedges', async () => {
+    (portfolioMonitor.getOpenPositions as jest.Mock).mockReturnValue([
+      position('ETH-USD', 'buy', 100),
+      position('SOL-USD', 'buy', 100),
+      position('LTC-USD', 'sell', 100)
+    ]);
+    (technicalIndicators.calculateCorrelation as jest.Mock).mockResolvedValue(0.9);
+
+    const decision = await engine.evaluate(trade);
+    const correlation = decision.rejections.find(r => r.check === 'correlation');
+
+    expect(correlation?.actual).toBe(2);
+  });
+
+  it('should block entries once equity falls too far below its high-water mark', async () => {
+    await engine.recordEquity(10000);
+    (portfolioMonitor.getTotalValue as jest.Mock).mockResolvedValue(8500);
+
+    const decision = await engine.evaluate(trade);
+
+    expect(decision.exposure.drawdown_percent).toBeCloseTo(15);
+    expect(decision.rejections.map(r => r.check)).toContain('drawdown');
+  });
+
+  it('should record repeats of a strategy rejection once per cooldown', async () => {
+    const oversized = { ...trade, notional_usd: tradingConfig.positions.maxPositionSizeUSD + 1 };
+
+    expect((await engine.evaluate(oversized)).approved).toBe(false);
+    expect((await engine.evaluate(oversized)).approved).toBe(false);
+    expect(complianceLogger.logEvent).toHaveBeenCalledTimes(1);
+
+    await engine.evaluate({ ...oversized, strategy_id: 'strategy-other' });
+    expect(complianceLogger.logEvent).toHaveBeenCalledTimes(2);
+  });
+
+  it('should check paper strategies against the paper account and its own high-water mark', async () => {
+    await engine.recordEquity(50000);
+    (paperBroker.getAccount as jest.Mock).mockReturnValue({ total_value: 1000 });
+
+    const decision = await engine.evaluate({ ...trade, notional_usd: 400, broker: 'paper' });
+
+    expect(decision.exposure).toMatchObject({ equity: 1000, drawdown_percent: 0 });
+    expect(decision.rejections.map(r => r.check)).toEqual(['concentration']);
+  });
+
+  it('should block entries when equity is unknown', async () => {
+    (portfolioMonitor.getTotalValue as jest.Mock).mockRejectedValue(new Error('portfolio unavailable'));
+
+    const decision = await engine.evaluate(trade);
+
+    expect(decision.approved).toBe(false);
+    expect(decision.rejections.map(r => r.check)).toEqual(['equity']);
+    expect(complianceLogger.logEvent).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,132 @@
+import { ConditionEvaluator, InMemoryPendingSignalStore } from '../../services/conditionEvaluator';
+import { TechnicalIndicators } from '../../services/technicalIndicators';
+import { buildStrategyFields, evaluateStrategyEntry, toEntryTree, validateStrategySpec } from '../../services/strategyDsl';
+import { ParsedStrategy, SpecCondition, StrategySpec } from '../../types';
+
+function spec(overrides: Partial<StrategySpec> = {}): StrategySpec {
+  return {
+    dsl_version: 1,
+    name: 'ETH leads BTC',
+    target: { asset: 'BTC-USD', action: 'buy' },
+    entry: { move: { asset: 'ETH-USD', direction: 'up', threshold: { value: 2, unit: 'percent' }, timeframe: '1h' } },
+    exit: {
+      stop_loss: { distance: { value: 0.05, unit: 'fraction' }, trailing: true },
+      take_profit: { distance: { value: 250, unit: 'bps' } }
+    },
+    ...overrides
+  };
+}
+
+const move = (asset: string, direction: 'up' | 'down', percent: number): SpecCondition => ({
+  move: { asset, direction, threshold: { value: percent, unit: 'percent' }, timeframe: '1h' }
+});
+
+describe('validateStrategySpec', () => {
+  it('should accept a valid spec and normalize every threshold to percent', () => {
+    const validation = validateStrategySpec(spec({ entry: { all: [move('ETH-USD', 'up', 2), { not: move('SOL-USD', 'down', 1) }] } }));
+    expect(validation.valid).toBe(true);
+
+    const fields = buildStrategyFields(spec());
+    expect(fields.exit_conditions.stop_loss.value).toBe(5);
+    expect(fields.exit_conditions.take_profit.value).toBe(2.5);
+    expect(fields.entry_conditions).toMatchObject({ type: 'strategy_dsl', target_asset: 'BTC-USD', action: 'buy' });
+    expect(fields.required_assets.sort()).toEqual(['BTC-USD', 'ETH-USD']);
+  });
+
+  it('should turn exit signals into condition trees, with a bare correlation leaf checking the correlation alone', () => {
+    const fields = buildStrategyFields(spec({
+      exit: {
+        ...spec().exit,
+        signals: [{
+          name: 'Correlation decay',
+          when: { not: { correlation: { asset: 'BTC-USD', with: 'SOL-USD', min_correlation: 0.7, timeframe: '1d' } } }
+        }]
+      }
+    }));
+
+    expect(fields.exit_conditions.exit_signals).toEqual([{
+      name: 'Correlation decay',
+      condition: {
+        type: 'not',
+        conditions: [expect.objectContaining({
+          type: 'correlation', primary_asset: 'BTC-USD', secondary_asset: 'SOL-USD', threshold: 0,
+          additional_params: { correlation_threshold: 0.7 }
+        })]
+      }
+    }]);
+    expect(fields.required_assets).toContain('SOL-USD');
+  });
+
+  it('should point at the failing node and reject unsupported versions and out-of-range values', () => {
+    const missingTimeframe = validateStrategySpec(spec({
+      entry: { any: [move('ETH-USD', 'up', 2), { move: { asset: 'SOL-USD', direction: 'up', threshold: { value: 2, unit: 'pct' } } } as any] }
+    }));
+    expect(missingTimeframe.valid).toBe(false);
+    expect(!missingTimeframe.valid && missingTimeframe.errors).toEqual(expect.arrayContaining([
+      "/entry/any/1/move must have required property 'timeframe'",
+      '/entry/any/1/move/threshold/unit must be equal to one of the allowed values'
+    ]));
+
+    expect(validateStrategySpec({ ...spec(), dsl_version: 2 })).toEqual({
+      valid: false,
+      errors: ['Unsupported dsl_version 2 (supported: 1)']
+    });
+
+    const wideStop = validateStrategySpec(spec({
+      exit: { stop_loss: { distance: { value: 0.6, unit: 'fraction' }, trailing: false }, take_profit: { distance: { value: 3, unit: 'percent' } } }
+    }));
+    expect(!wideStop.valid && wideStop.errors).toEqual(['/exit/stop_loss/distance is 60% - must be at most 50%']);
+
+    const overCount = validateStrategySpec(spec({ entry: { at_least: { count: 3, of: [move('ETH-USD', 'up', 2), move('SOL-USD', 'up', 2)] } } }));
+    expect(!overCount.valid && overCount.errors).toEqual(['/entry/at_least/count is 3 but only 2 conditions are listed']);
+  });
+});
+
+describe('compiled strategy specs', () => {
+  let now: Date;
+  let indicators: TechnicalIndicators;
+  let evaluator: ConditionEvaluator;
+
+  const tick = (asset: string, price: number) => indicators.addPriceData(asset, {
+    timestamp: now, open: price, high: price, low: price, close: price, volume: 1
+  });
+
+  beforeEach(() => {
+    now = new Date('2024-01-01T00:00:00Z');
+    indicators = new TechnicalIndicators({ clock: () => now, useRemoteQuotes: false });
+    evaluator = new ConditionEvaluator(indicators, () => now, new InMemoryPendingSignalStore());
+
+    tick('ETH-USD', 100);
+    tick('SOL-USD', 100);
+    now = new Date('2024-01-01T00:30:00Z');
+    tick('ETH-USD', 103);
+    tick('SOL-USD', 100.2);
+  });
+
+  it('should combine leaves with AND, OR, NOT and at_least', async () => {
+    const evaluate = (node: SpecCondition) => evaluator.evaluate(toEntryTree(node), 'strategy-1');
+
+    expect(await evaluate({ all: [move('ETH-USD', 'up', 2), { not: move('SOL-USD', 'up', 1) }] })).toBe(true);
+    expect(await evaluate({ all: [move('ETH-USD', 'up', 2), move('SOL-USD', 'up', 1)] })).toBe(false);
+    expect(await evaluate({ any: [move('ETH-USD', 'up', 5), move('SOL-USD', 'up', 0.1)] })).toBe(true);
+    expect(await evaluate({ not: { any: [move('ETH-USD', 'down', 1), move('SOL-USD', 'down', 1)] } })).toBe(true);
+    expect(await evaluate({ at_least: { count: 2, of: [move('ETH-USD', 'up', 2), move('SOL-USD', 'up', 0.1), move('SOL-USD', 'up', 1)] } })).toBe(true);
+  });
+
+  it('should hold a met spec for delay_days before entering', async () => {
+    const strategy = {
+      strategy_id: 'strategy-1',
+      spec: spec({ delay_days: 1 }),
+      entry_conditions: buildStrategyFields(spec({ delay_days: 1 })).entry_conditions
+    } as ParsedStrategy;
+
+    expect(await evaluateStrategyEntry(strategy, evaluator)).toBe(false);
+
+    now = new Date('2024-01-02T01:00:00Z');
+    expect(await evaluateStrategyEntry(strategy, evaluator)).toBe(true);
+
+    // Used up once the entry has been submitted
+    await evaluator.consumeMatured('strategy-1');
+    expect(await evaluateStrategyEntry(strategy, evaluator)).toBe(false);
+  });
+});
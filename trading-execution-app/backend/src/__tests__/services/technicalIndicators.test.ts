@@ -0,0 +1,139 @@
+import { TechnicalIndicators } from '../../services/technicalIndicators';
+import { ConditionEvaluator } from '../../services/conditionEvaluator';
+import { polygonService } from '../../services/polygonService';
+import { EntryCondition } from '../../types';
+
+jest.mock('../../services/polygonService', () => ({
+  polygonService: {
+    getAggregates: jest.fn(),
+    fetchQuote: jest.fn()
+  }
+}));
+
+function loadCloses(indicators: TechnicalIndicators, symbol: string, closes: number[], fromMinute: number = 0) {
+  const start = Date.parse('2024-01-01T00:00:00Z');
+  closes.forEach((close, i) => indicators.addPriceData(symbol, {
+    timestamp: new Date(start + (fromMinute + i) * 60000),
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 10
+  }));
+}
+
+describe('TechnicalIndicators', () => {
+  let indicators: TechnicalIndicators;
+
+  beforeEach(() => {
+    indicators = new TechnicalIndicators({ useRemoteQuotes: false });
+  });
+
+  it('should calculate moving averages and bands', async () => {
+    loadCloses(indicators, 'BTC-USD', [1, 2, 3, 4, 5]);
+
+    expect(await indicators.calculateSMA('BTC-USD', 5)).toBe(3);
+    expect(await indicators.calculateSMA('BTC-USD', 2, '1m', 1)).toBe(3.5);
+    // Seeded with SMA(1,2,3) = 2, then k = 0.5
+    expect(await indicators.calculateEMA('BTC-USD', 3)).toBe(4);
+
+    const bands = await indicators.calculateBollingerBands('BTC-USD', 5, 2);
+    expect(bands.middle).toBe(3);
+    expect(bands.upper - bands.middle).toBeCloseTo(2 * Math.sqrt(2));
+  });
+
+  it('should bound RSI and stochastic readings', async () => {
+    loadCloses(indicators, 'BTC-USD', Array.from({ length: 20 }, (_, i) => 100 + i));
+
+    expect(await indicators.calculateRSI('BTC-USD', 14)).toBe(100);
+
+    const stochastic = await indicators.calculateStochastic('BTC-USD', 14, 3);
+    expect(stochastic.k).toBeCloseTo((119 - 105) / (120 - 105) * 100);
+  });
+
+  it('should roll ticks up into OHLCV candles per timeframe', () => {
+    const start = Date.parse('2024-01-01T00:00:00Z');
+    [100, 105, 95, 102].forEach((price, i) => indicators.addPriceData('BTC', {
+      timestamp: new Date(start + i * 20000),
+      open: price,
+      high: price,
+      low: price,
+      close: price,
+      volume: 1
+    }));
+
+    const minutes = indicators.getCandles('BTC', '1m');
+    expect(minutes).toHaveLength(2);
+    expect(minutes[0]).toMatchObject({ open: 100, high: 105, low: 95, close: 95, volume: 3 });
+
+    const fiveMinutes = indicators.getCandles('BTC-USD', '5m');
+    expect(fiveMinutes).toHaveLength(1);
+    expect(fiveMinutes[0]).toMatchObject({ open: 100, high: 105, low: 95, close: 102, volume: 4 });
+  });
+
+  it('should measure daily moves against the candle from a day ago', async () => {
+    const now = new Date('2024-01-02T00:00:00Z');
+    indicators = new TechnicalIndicators({ clock: () => now, useRemoteQuotes: false });
+    loadCloses(indicators, 'BTC-USD', Array.from({ length: 1441 }, (_, i) => 100 + i / 144));
+
+    // 1440 minutes after the first candle the price is 110
+    expect(await indicators.getPercentageMove('BTC-USD', '1d')).toBeCloseTo(10);
+  });
+
+  it('should measure traditional asset daily moves from Polygon session closes', async () => {
+    const now = new Date('2024-01-03T21:00:00Z');
+    const bar = (iso: string, close: number) => ({
+      timestamp: new Date(iso), open: close, high: close, low: close, close, volume: 100
+    });
+
+    (polygonService.getAggregates as jest.Mock).mockImplementation(async (_symbol: string, timeframe: string) =>
+      timeframe === '1d'
+        ? [bar('2024-01-01T00:00:00Z', 490), bar('2024-01-02T00:00:00Z', 500), bar('2024-01-03T00:00:00Z', 505)]
+        : [bar('2024-01-03T14:30:00Z', 498), bar('2024-01-03T20:55:00Z', 505)]
+    );
+
+    indicators = new TechnicalIndicators({ clock: () => now });
+
+    expect(await indicators.getCurrentPriceAsync('SPY')).toBe(505);
+    expect(await indicators.getPercentageMove('SPY', '1d')).toBeCloseTo(1);
+    expect(indicators.getCandles('SPY', '1d').map(c => c.close)).toEqual([490, 500, 505]);
+  });
+
+  it('should throw when there is not enough history', async () => {
+    loadCloses(indicators, 'BTC-USD', [1, 2, 3]);
+    await expect(indicators.calculateMACD('BTC-USD')).rejects.toThrow('Insufficient data for MACD calculation');
+  });
+});
+
+describe('ConditionEvaluator technical indicators', () => {
+  const condition = (indicator: any): EntryCondition => ({
+    type: 'technical_indicator',
+    primary_asset: 'BTC-USD',
+    additional_params: { indicator }
+  });
+
+  it('should detect a moving average crossover only on the crossing bar', async () => {
+    const indicators = new TechnicalIndicators({ useRemoteQuotes: false });
+    const evaluator = new ConditionEvaluator(indicators);
+    const golden = condition({ name: 'sma_crossover', operator: 'crosses_above', fast_period: 2, slow_period: 4 });
+
+    loadCloses(indicators, 'BTC-USD', [10, 10, 10, 10, 9]);
+    expect(await evaluator.evaluate(golden)).toBe(false);
+
+    loadCloses(indicators, 'BTC-USD', [12], 5);
+    expect(await evaluator.evaluate(golden)).toBe(true);
+
+    loadCloses(indicators, 'BTC-USD', [13], 6);
+    expect(await evaluator.evaluate(golden)).toBe(false);
+    expect(await evaluator.evaluate(condition({ name: 'sma_crossover', operator: 'above', fast_period: 2, slow_period: 4 }))).toBe(true);
+  });
+
+  it('should compare RSI against the configured level', async () => {
+    const indicators = new TechnicalIndicators({ useRemoteQuotes: false });
+    const evaluator = new ConditionEvaluator(indicators);
+    loadCloses(indicators, 'BTC-USD', Array.from({ length: 20 }, (_, i) => 100 - i));
+
+    expect(await evaluator.evaluate(condition({ name: 'rsi', operator: 'below', value: 30 }))).toBe(true);
+    expect(await evaluator.evaluate(condition({ name: 'rsi', operator: 'above', value: 70 }))).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { TradeExecutor } from '../../services/tradeExecutor';
+import { orderManager } from '../../services/orderManager';
+import { portfolioMonitor } from '../../services/portfolioMonitor';
+import { pineconeService } from '../../services/pineconeService';
+import { notificationService } from '../../services/notificationService';
+import { ScaleInPlan } from '../../types';
+
+jest.mock('../../index', () => ({ io: { emit: jest.fn() } }));
+
+jest.mock('../../services/portfolioMonitor', () => ({ portfolioMonitor: {} }));
+jest.mock('../../services/conditionMonitor', () => ({ conditionMonitor: { on: jest.fn() } }));
+jest.mock('../../services/strategyManager', () => ({ strategyManager: {} }));
+jest.mock('../../services/brokerAdapter', () => ({ getBrokerAdapter: jest.fn() }));
+jest.mock('../../services/paperBroker', () => ({ paperBroker: {} }));
+jest.mock('../../services/complianceLogger', () => ({ complianceLogger: {} }));
+
+jest.mock('../../config/database', () => ({
+  databaseService: {
+    run: jest.fn().mockResolvedValue(undefined),
+    all: jest.fn().mockResolvedValue([]),
+    get: jest.fn().mockResolvedValue(null)
+  }
+}));
+
+describe('TradeExecutor entry guard', () => {
+  it('should drop repeat signals for a strategy while its entry is still being placed', async () => {
+    const executor = new TradeExecutor();
+    let placeOrder!: () => void;
+    const enter = jest.fn(() => new Promise<void>(resolve => { placeOrder = resolve; }));
+
+    // Signals arriving a quote apart, while the first is still awaiting portfolio, sizing and risk checks
+    const first = executor.enterOnce('strategy-1', enter);
+    expect(await executor.enterOnce('strategy-1', enter)).toBe(false);
+    expect(await executor.enterOnce('strategy-2', async () => undefined)).toBe(true);
+    expect(enter).toHaveBeenCalledTimes(1);
+
+    placeOrder();
+    expect(await first).toBe(true);
+
+    // Once the entry is working the pre-trade checks take over, so the guard is released
+    expect(await executor.enterOnce('strategy-1', async () => undefined)).toBe(true);
+  });
+
+  it('should release the guard when the entry fails', async () => {
+    const executor = new TradeExecutor();
+
+    await expect(executor.enterOnce('strategy-1', async () => { throw new Error('rejected'); })).rejects.toThrow('rejected');
+    expect(await executor.enterOnce('strategy-1', async () => undefined)).toBe(true);
+  });
+});
+
+describe('TradeExecutor failure alerts', () => {
+  it('should alert once per cooldown while a strategy keeps failing', async () => {
+    jest.spyOn(notificationService, 'sendNotification').mockResolvedValue(undefined as any);
+    const executor = new TradeExecutor();
+    const strategy = (id: string) => ({ strategy_id: id, required_assets: [], entry_conditions: { type: 'percentage_move', target_asset: 'NOPRICE-USD', action: 'buy' } } as any);
+
+    // No price for the asset, so every attempt fails before sizing
+    await expect(executor.executeTrade(strategy('strategy-1'), 'enter', 'test')).rejects.toThrow('No current price');
+    await expect(executor.executeTrade(strategy('strategy-1'), 'enter', 'test')).rejects.toThrow('No current price');
+    await expect(executor.executeTrade(strategy('strategy-2'), 'enter', 'test')).rejects.toThrow('No current price');
+
+    expect(notificationService.sendNotification).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('TradeExecutor scale-in stages', () => {
+  it('should reopen a submitted stage when its order ends without filling', () => {
+    const stages: ScaleInPlan[] = [
+      { stage: 1, trigger_percent: -2, trigger_price: 98, quantity: 0.5, status: 'submitted' },
+      { stage: 2, trigger_percent: -4, trigger_price: 96, quantity: 0.5, status: 'waiting' }
+    ];
+    (portfolioMonitor as any).getOpenPositions = () => [{ id: 'position-1', scale_in_stages: stages }];
+    jest.spyOn(pineconeService, 'savePosition').mockResolvedValue(undefined);
+
+    new TradeExecutor().listenForFills();
+    orderManager.emit('unfilled', { id: 'order-1', purpose: 'entry', position_id: 'position-1', status: 'cancelled', metadata: { leg: 1 } });
+
+    expect(stages.map(stage => stage.status)).toEqual(['waiting', 'waiting']);
+    expect(pineconeService.savePosition).toHaveBeenCalledTimes(1);
+    orderManager.removeAllListeners();
+  });
+});
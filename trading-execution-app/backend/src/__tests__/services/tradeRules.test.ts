@@ -0,0 +1,224 @@
+import { evaluateExit, getTradingAsset } from '../../services/tradeRules';
+import { TechnicalIndicators } from '../../services/technicalIndicators';
+import { ConditionEvaluator } from '../../services/conditionEvaluator';
+import { ConditionTrace, EntryCondition, ExitCondition, ParsedStrategy, Position } from '../../types';
+
+const indicators = {
+  getCandles: jest.fn(),
+  calculateATR: jest.fn()
+} as unknown as TechnicalIndicators;
+
+const entryTime = new Date('2024-01-01T00:00:00Z');
+
+function position(overrides: Partial<Position> = {}): Position {
+  return {
+    id: 'position-1',
+    strategy_id: 'strategy-1',
+    asset: 'BTC-USD',
+    side: 'buy',
+    entry_price: 100,
+    current_price: 100,
+    quantity: 1,
+    trailing_stop_price: 98,
+    initial_stop_price: 98,
+    stop_rule: 'initial',
+    take_profit_price: 120,
+    status: 'open',
+    entry_time: entryTime,
+    ...overrides
+  };
+}
+
+function exits(stopLoss: Partial<ExitCondition['stop_loss']>): ExitCondition {
+  return {
+    stop_loss: { type: 'percentage', value: 2, is_trailing: false, ...stopLoss },
+    take_profit: { type: 'percentage', value: 20 }
+  };
+}
+
+const hoursAfterEntry = (hours: number) => new Date(entryTime.getTime() + hours * 3600000);
+
+describe('evaluateExit stop management', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should move the stop to breakeven once the trigger is reached', async () => {
+    const rules = exits({ breakeven: { trigger_percent: 2, offset_percent: 0.1 } });
+
+    const early = await evaluateExit(indicators, position(), rules, 101.5, hoursAfterEntry(1));
+    expect(early.stop_updated).toBe(false);
+
+    const armed = await evaluateExit(indicators, position(), rules, 102.5, hoursAfterEntry(1));
+    expect(armed.stop_updated).toBe(true);
+    expect(armed.stop_rule).toBe('breakeven');
+    expect(armed.trailing_stop_price).toBeCloseTo(100.1);
+  });
+
+  it('should lock the highest profit tier reached and never loosen the stop', async () => {
+    const rules = exits({
+      profit_lock: [
+        { trigger_percent: 2, lock_percent: 0.5 },
+        { trigger_percent: 5, lock_percent: 3 }
+      ]
+    });
+
+    const decision = await evaluateExit(indicators, position(), rules, 106, hoursAfterEntry(1));
+    expect(decision.stop_rule).toBe('profit_lock');
+    expect(decision.trailing_stop_price).toBeCloseTo(103);
+
+    const locked = position({ trailing_stop_price: 103, stop_rule: 'profit_lock' });
+    const pullback = await evaluateExit(indicators, locked, rules, 103.5, hoursAfterEntry(2));
+    expect(pullback.stop_updated).toBe(false);
+    expect(pullback.trailing_stop_price).toBe(103);
+  });
+
+  it('should hang a chandelier stop off the highest high', async () => {
+    (indicators.getCandles as jest.Mock).mockReturnValue(
+      [104, 110, 107].map(high => ({ high, low: high - 2, close: high - 1 }))
+    );
+    (indicators.calculateATR as jest.Mock).mockResolvedValue(2);
+
+    const decision = await evaluateExit(
+      indicators,
+      position(),
+      exits({ chandelier: { period: 3, multiplier: 3 } }),
+      108,
+      hoursAfterEntry(1)
+    );
+
+    expect(decision.stop_rule).toBe('chandelier');
+    expect(decision.trailing_stop_price).toBe(104);
+    expect(indicators.calculateATR).toHaveBeenCalledWith('BTC-USD', 3);
+  });
+
+  it('should tighten a time-decay stop toward the target and name it on exit', async () => {
+    const rules = exits({ time_decay: { start_after_hours: 1, decay_hours: 2 } });
+
+    const halfway = await evaluateExit(indicators, position(), rules, 100, hoursAfterEntry(2));
+    expect(halfway.stop_rule).toBe('time_decay');
+    expect(halfway.trailing_stop_price).toBeCloseTo(99);
+    expect(halfway.shouldExit).toBe(false);
+
+    const decayed = position({ trailing_stop_price: 99, stop_rule: 'time_decay' });
+    const exit = await evaluateExit(indicators, decayed, rules, 98.9, hoursAfterEntry(2));
+    expect(exit.shouldExit).toBe(true);
+    expect(exit.reason).toBe('Stop loss triggered (time decay stop)');
+  });
+});
+
+describe('evaluateExit strategy exit signals', () => {
+  const reversal: EntryCondition = { type: 'percentage_move', primary_asset: 'ETH-USD', direction: 'down', threshold: 2 };
+  const decay: EntryCondition = {
+    type: 'not',
+    conditions: [{
+      type: 'correlation', primary_asset: 'BTC-USD', secondary_asset: 'ETH-USD', threshold: 0,
+      additional_params: { correlation_threshold: 0.7 }
+    }]
+  };
+  const rules: ExitCondition = {
+    ...exits({}),
+    exit_signals: [{ name: 'ETH reversal', condition: reversal }, { name: 'Correlation decay', condition: decay }]
+  };
+
+  const trace = (result: boolean): ConditionTrace => ({ path: 'exit', type: 'not', label: 'signal', result });
+  const evaluateTree = jest.fn();
+  const evaluator = { evaluateTree } as unknown as ConditionEvaluator;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should close on the first signal that holds with its own reason', async () => {
+    evaluateTree.mockResolvedValueOnce(trace(false)).mockResolvedValueOnce(trace(true));
+
+    const decision = await evaluateExit(indicators, position(), rules, 101, hoursAfterEntry(1), evaluator);
+    expect(decision.shouldExit).toBe(true);
+    expect(decision.reason).toBe('Exit signal triggered: Correlation decay');
+    expect(decision.exit_signal).toEqual(trace(true));
+    expect(evaluateTree).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'not', label: 'Correlation decay' }),
+      'strategy-1',
+      'exit/position-1/1'
+    );
+  });
+
+  it('should leave price exits alone and skip signals once one has fired', async () => {
+    const stopped = await evaluateExit(indicators, position(), rules, 97, hoursAfterEntry(1), evaluator);
+    expect(stopped.reason).toBe('Stop loss triggered');
+    expect(stopped.exit_signal).toBeUndefined();
+    expect(evaluateTree).not.toHaveBeenCalled();
+
+    evaluateTree.mockResolvedValue(trace(false));
+    const held = await evaluateExit(indicators, position(), rules, 101, hoursAfterEntry(1), evaluator);
+    expect(held.shouldExit).toBe(false);
+    expect(evaluateTree).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep the position open when the correlation cannot be computed yet', async () => {
+    // Just after a restart: one tick per asset, far too little history for a correlation
+    const now = hoursAfterEntry(1);
+    const fresh = new TechnicalIndicators({ clock: () => now, useRemoteQuotes: false });
+    for (const asset of ['BTC-USD', 'ETH-USD']) {
+      fresh.addPriceData(asset, { timestamp: now, open: 100, high: 100, low: 100, close: 100, volume: 1 });
+    }
+    await expect(fresh.calculateCorrelation('BTC-USD', 'ETH-USD', 20)).rejects.toThrow('Insufficient data');
+
+    const decision = await evaluateExit(
+      indicators,
+      position(),
+      { ...exits({}), exit_signals: [{ name: 'Correlation decay', condition: decay }] },
+      101,
+      now,
+      new ConditionEvaluator(fresh, () => now)
+    );
+
+    expect(decision.shouldExit).toBe(false);
+    expect(decision.exit_signal).toBeUndefined();
+  });
+});
+
+describe('evaluateExit take-profit ladder', () => {
+  const rules = exits({ is_trailing: true });
+  const ladder = (filled: number) => [
+    { level: 0, price: 103, size_percent: 50, filled: filled > 0 },
+    { level: 1, price: 105, size_percent: 25, filled: filled > 1 }
+  ];
+
+  it('should close only each level\'s share and leave the rest to the stop when levels sum under 100%', async () => {
+    const first = await evaluateExit(indicators, position({ take_profit_targets: ladder(0) }), rules, 103, hoursAfterEntry(1));
+    expect(first.shouldExit).toBe(false);
+    expect(first.scale_out).toEqual(expect.objectContaining({ level: 0, quantity: 0.5 }));
+
+    const last = await evaluateExit(
+      indicators,
+      position({ quantity: 0.5, entered_quantity: 1, take_profit_targets: ladder(1) }),
+      rules,
+      105,
+      hoursAfterEntry(2)
+    );
+    expect(last.shouldExit).toBe(false);
+    expect(last.scale_out).toEqual(expect.objectContaining({ level: 1, quantity: 0.25 }));
+
+    // Every level filled: the remaining quarter rides the trailing stop
+    const remainder = position({ quantity: 0.25, entered_quantity: 1, take_profit_targets: ladder(2), trailing_stop_price: 104 });
+    expect((await evaluateExit(indicators, remainder, rules, 110, hoursAfterEntry(3))).shouldExit).toBe(false);
+    expect(await evaluateExit(indicators, remainder, rules, 103.5, hoursAfterEntry(3))).toEqual(
+      expect.objectContaining({ shouldExit: true, reason: 'Stop loss triggered' })
+    );
+  });
+});
+
+describe('getTradingAsset', () => {
+  const strategy = (entry: Partial<EntryCondition>, requiredAssets: string[]) => ({
+    entry_conditions: { type: 'multi_asset_correlation', ...entry },
+    required_assets: requiredAssets
+  } as ParsedStrategy);
+
+  it('should trade the target rather than the first trigger asset', () => {
+    // Specs list their triggers first: "ETH rises 3%, buy BTC" has required_assets [ETH, BTC]
+    expect(getTradingAsset(strategy({ target_asset: 'BTC-USD' }, ['ETH-USD', 'BTC-USD']))).toBe('BTC-USD');
+    expect(getTradingAsset(strategy({ type: 'percentage_move', primary_asset: 'SOL-USD' }, ['ETH-USD', 'SOL-USD']))).toBe('SOL-USD');
+    expect(getTradingAsset(strategy({}, ['ETH-USD', 'BTC-USD']))).toBe('ETH-USD');
+  });
+});
@@ -4,6 +4,7 @@ process.env.COINBASE_API_KEY = 'test-key';
 process.env.COINBASE_API_SECRET = 'test-secret';
 process.env.POLYGON_API_KEY = 'test-polygon-key';
 process.env.OPENAI_API_KEY = 'test-openai-key';
+process.env.LLM_PROVIDER = 'fixture'; // Tests parse offline
 process.env.PINECONE_API_KEY = 'test-pinecone-key';
 process.env.PINECONE_FAVORITES_INDEX = 'test-favorites';
 process.env.PINECONE_EXECUTION_INDEX = 'test-execution';
@@ -128,6 +128,80 @@ export class DatabaseService {
         details TEXT, -- JSON string
         source TEXT NOT NULL,
         timestamp DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
+      // Price Aggregates Table (Polygon bars cached for traditional assets)
+      `CREATE TABLE IF NOT EXISTS price_aggregates (
+        symbol TEXT NOT NULL,
+        timeframe TEXT NOT NULL,
+        timestamp DATETIME NOT NULL, -- Bar start
+        open REAL NOT NULL,
+        high REAL NOT NULL,
+        low REAL NOT NULL,
+        close REAL NOT NULL,
+        volume REAL DEFAULT 0,
+        source TEXT NOT NULL DEFAULT 'polygon',
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (symbol, timeframe, timestamp)
+      )`,
+
+      // Pending Signals Table (delay_days entries waiting to mature)
+      `CREATE TABLE IF NOT EXISTS pending_signals (
+        id TEXT PRIMARY KEY,
+        strategy_id TEXT NOT NULL,
+        signal_key TEXT NOT NULL,
+        target_asset TEXT,
+        action TEXT,
+        delay_days REAL NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('pending', 'matured', 'consumed', 'expired', 'cancelled')),
+        triggered_at DATETIME NOT NULL,
+        matures_at DATETIME NOT NULL,
+        resolved_at DATETIME,
+        trigger_snapshot TEXT, -- JSON string
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
+      // Orders Table (lifecycle tracked by OrderManager)
+      `CREATE TABLE IF NOT EXISTS orders (
+        id TEXT PRIMARY KEY,
+        client_oid TEXT NOT NULL,
+        broker TEXT NOT NULL,
+        broker_order_id TEXT,
+        strategy_id TEXT NOT NULL,
+        position_id TEXT,
+        purpose TEXT NOT NULL CHECK (purpose IN ('entry', 'exit')),
+        product_id TEXT NOT NULL,
+        side TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+        type TEXT NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('new', 'open', 'partially_filled', 'filled', 'cancelled', 'rejected', 'expired')),
+        size REAL NOT NULL,
+        filled_size REAL DEFAULT 0,
+        average_fill_price REAL,
+        limit_price REAL,
+        parent_order_id TEXT,
+        reprice_count INTEGER DEFAULT 0,
+        metadata TEXT, -- JSON string
+        last_error TEXT,
+        created_at DATETIME NOT NULL,
+        updated_at DATETIME NOT NULL
+      )`,
+
+      // Positions and trades set aside by reconciliation
+      `CREATE TABLE IF NOT EXISTS reconciliation_quarantine (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        position_id TEXT,
+        trade_id INTEGER,
+        asset TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        snapshot TEXT, -- JSON string
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
+      // Risk engine state that must survive restarts (e.g. equity high-water mark)
+      `CREATE TABLE IF NOT EXISTS risk_state (
+        key TEXT PRIMARY KEY,
+        value REAL NOT NULL,
+        updated_at DATETIME NOT NULL
       )`
     ];
 
@@ -140,7 +214,10 @@ export class DatabaseService {
       'CREATE INDEX IF NOT EXISTS idx_market_data_symbol ON market_data(symbol)',
       'CREATE INDEX IF NOT EXISTS idx_market_data_timestamp ON market_data(timestamp)',
       'CREATE INDEX IF NOT EXISTS idx_strategy_performance_strategy_id ON strategy_performance(strategy_id)',
-      'CREATE INDEX IF NOT EXISTS idx_system_events_timestamp ON system_events(timestamp)'
+      'CREATE INDEX IF NOT EXISTS idx_system_events_timestamp ON system_events(timestamp)',
+      'CREATE INDEX IF NOT EXISTS idx_pending_signals_status ON pending_signals(status)',
+      'CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status)',
+      'CREATE INDEX IF NOT EXISTS idx_orders_position_id ON orders(position_id)'
     ];
 
     // Create tables
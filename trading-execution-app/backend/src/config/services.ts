@@ -1,4 +1,10 @@
 // Services configuration
+import dotenv from 'dotenv';
+import { LLMProviderName } from '../types';
+
+// Services such as the AI parser are constructed on import, before index.ts loads .env
+dotenv.config();
+
 export const servicesConfig = {
   coinbase: {
     apiKey: process.env.COINBASE_API_KEY!,
@@ -14,9 +20,22 @@ export const servicesConfig = {
     executionIndex: process.env.PINECONE_EXECUTION_INDEX!,
   },
   openai: {
+    provider: (process.env.LLM_PROVIDER || 'openai') as LLMProviderName,
     apiKey: process.env.OPENAI_API_KEY!,
-    model: 'gpt-4',
+    model: process.env.OPENAI_MODEL || 'gpt-4',
     embeddingModel: 'text-embedding-ada-002',
+    local: {
+      baseUrl: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1', // Ollama; llama.cpp serves on :8080/v1
+      apiKey: process.env.LOCAL_LLM_API_KEY || 'local', // Most local servers ignore it, but the client requires one
+      model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+      embeddingModel: process.env.LOCAL_LLM_EMBEDDING_MODEL || 'nomic-embed-text',
+    },
+    fixtureDir: process.env.LLM_FIXTURE_DIR, // Recorded responses the fixture provider answers with, by request hash
+    cache: {
+      enabled: process.env.LLM_CACHE !== 'false',
+      dir: process.env.LLM_CACHE_DIR, // Unset keeps the cache in memory only
+      maxEntries: parseInt(process.env.LLM_CACHE_MAX_ENTRIES || '500'),
+    },
   },
   polygon: {
     apiKey: process.env.POLYGON_API_KEY!,
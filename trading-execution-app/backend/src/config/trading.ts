@@ -1,18 +1,75 @@
 // Trading configuration
+import { BrokerName, MarketDataSource, ReplaySpeed, Timeframe } from '../types';
+
 export const tradingConfig = {
   webhook: {
     url: process.env.WEBHOOK_URL!,
     timeout: 30000, // 30 seconds
     retries: 3,
   },
+  broker: {
+    // A replay re-runs recorded market data through live strategies, so it must never reach a real broker
+    default: (process.env.MARKET_DATA_REPLAY ? 'paper' : process.env.BROKER || 'webhook') as BrokerName,
+  },
+  paper: {
+    startingCashUSD: parseFloat(process.env.PAPER_STARTING_CASH_USD || '10000'),
+    slippageBps: parseFloat(process.env.PAPER_SLIPPAGE_BPS || '5'),
+    makerFeeRate: parseFloat(process.env.PAPER_MAKER_FEE_RATE || '0.004'),
+    takerFeeRate: parseFloat(process.env.PAPER_TAKER_FEE_RATE || '0.006'),
+  },
+  marketData: {
+    providers: (process.env.MARKET_DATA_PROVIDERS || 'coinbase,polygon').split(',').map(name => name.trim()) as MarketDataSource[], // Preference order
+    staleAfterMs: parseInt(process.env.MARKET_DATA_STALE_MS || '5000'), // Silence after which a venue counts as stale
+    minHealthScore: parseFloat(process.env.MARKET_DATA_MIN_HEALTH_SCORE || '60'),
+    healthCheckIntervalMs: 2000,
+    gapRecoveryTrades: parseInt(process.env.GAP_RECOVERY_TRADES || '10'), // In-order trades that clear a gap when the REST snapshot fails
+    gapAlertCooldownMs: parseInt(process.env.GAP_ALERT_COOLDOWN_MS || '300000'), // Per symbol
+  },
+  recording: {
+    enabled: process.env.MARKET_DATA_RECORD === 'true', // Raw venue frames, one gzipped JSONL file per UTC day
+    dir: process.env.MARKET_DATA_RECORD_DIR || './recordings',
+  },
+  replay: {
+    path: process.env.MARKET_DATA_REPLAY || '', // Recording file or directory; set to replay instead of connecting to venues
+    speed: (process.env.MARKET_DATA_REPLAY_SPEED || '1') as ReplaySpeed, // 1, 10 or max
+  },
+  liquidity: {
+    maxSlippagePercent: parseFloat(process.env.MAX_SLIPPAGE_PERCENT || '0.25'), // Expected impact vs mid allowed for an entry
+    slippageAction: (process.env.SLIPPAGE_ACTION || 'resize') as 'resize' | 'reject',
+    minResizePercent: parseFloat(process.env.MIN_RESIZE_PERCENT || '25'), // Below this share of the intended size, reject instead
+    depthPercent: parseFloat(process.env.LIQUIDITY_DEPTH_PERCENT || '1'), // Band around mid reported as depth
+    bookMaxAgeMs: 10000,
+  },
+  orders: {
+    pollIntervalMs: parseInt(process.env.ORDER_POLL_INTERVAL_MS || '5000'),
+    limitTimeoutMs: parseInt(process.env.LIMIT_ORDER_TIMEOUT_MS || '60000'),
+    maxReprices: parseInt(process.env.LIMIT_ORDER_MAX_REPRICES || '2'),
+  },
+  protection: {
+    nativeStops: process.env.NATIVE_STOP_ORDERS === 'true', // Rest stop-limits at the broker instead of relying on the monitor alone
+    nativeTakeProfit: process.env.NATIVE_TAKE_PROFIT_ORDERS !== 'false', // Pair the stop with a take-profit limit (one cancels the other)
+    stopLimitOffsetPercent: parseFloat(process.env.STOP_LIMIT_OFFSET_PERCENT || '0.5'), // Limit price beyond the stop
+  },
+  sizing: {
+    volatilityTimeframe: '1h' as Timeframe,
+    volatilityLookback: parseInt(process.env.SIZING_VOLATILITY_LOOKBACK || '48'), // candles
+    kellyMinTrades: parseInt(process.env.SIZING_KELLY_MIN_TRADES || '20'),
+  },
+  reconciliation: {
+    quantityTolerancePercent: parseFloat(process.env.RECONCILIATION_TOLERANCE_PERCENT || '1'),
+  },
   positions: {
     defaultSizeUSD: parseInt(process.env.POSITION_SIZE_USD || '100'),
-    maxPositions: 10,
-    maxPositionSizeUSD: 1000,
+    maxPositions: parseInt(process.env.MAX_POSITIONS || '10'),
+    maxPositionSizeUSD: parseFloat(process.env.MAX_POSITION_SIZE_USD || '1000'),
   },
   monitoring: {
     checkIntervalMs: parseInt(process.env.CHECK_INTERVAL_MS || '5000'),
+    evaluationDebounceMs: parseInt(process.env.EVALUATION_DEBOUNCE_MS || '250'), // Quotes within this window share one evaluation
+    sweepIntervalMs: parseInt(process.env.EVALUATION_SWEEP_INTERVAL_MS || '15000'), // Full pass for time-based rules and unstreamed assets
     maxRetries: parseInt(process.env.MAX_RETRIES || '3'),
+    candleBackfillHours: parseInt(process.env.CANDLE_BACKFILL_HOURS || '48'),
+    maturedSignalTtlHours: parseFloat(process.env.MATURED_SIGNAL_TTL_HOURS || '24'), // A matured delay_days signal no entry has used expires after this
   },
   circuitBreaker: {
     maxDailyTrades: 50,
@@ -22,6 +79,13 @@ export const tradingConfig = {
   risk: {
     defaultStopLossPercent: 2,
     defaultTakeProfitPercent: 5,
-    maxDrawdownPercent: 10,
+    maxDrawdownPercent: parseFloat(process.env.MAX_DRAWDOWN_PERCENT || '10'),
+    maxGrossExposureUSD: parseFloat(process.env.MAX_GROSS_EXPOSURE_USD || '5000'),
+    maxNetExposureUSD: parseFloat(process.env.MAX_NET_EXPOSURE_USD || '3000'),
+    maxAssetConcentrationPercent: parseFloat(process.env.MAX_ASSET_CONCENTRATION_PERCENT || '25'), // of equity
+    correlationThreshold: parseFloat(process.env.CORRELATION_THRESHOLD || '0.7'),
+    maxCorrelatedPositions: parseInt(process.env.MAX_CORRELATED_POSITIONS || '2'),
+    correlationPeriod: 20,
+    rejectionAlertCooldownMs: parseInt(process.env.REJECTION_ALERT_COOLDOWN_MS || '300000'), // Per strategy
   },
 }; 
\ No newline at end of file
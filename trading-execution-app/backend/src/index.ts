@@ -20,7 +20,16 @@ import { circuitBreaker } from './services/circuitBreaker';
 import { complianceLogger } from './services/complianceLogger';
 import { notificationService } from './services/notificationService';
 import { polygonService } from './services/polygonService';
+import { paperBroker } from './services/paperBroker';
+import { getBrokerAdapter } from './services/brokerAdapter';
+import { pendingSignalService } from './services/pendingSignalService';
+import { orderManager } from './services/orderManager';
+import { reconciliationService } from './services/reconciliationService';
+import { protectiveOrderService } from './services/protectiveOrderService';
+import { riskEngine } from './services/riskEngine';
+import { getEntrySide, getTradingAsset } from './services/tradeRules';
 import { databaseService } from './config/database';
+import { tradingConfig } from './config/trading';
 import { tradeHistoryService } from './services/tradeHistoryService';
 import { getMetrics } from './monitoring/metrics';
 
@@ -101,6 +110,9 @@ async function initializeServices() {
     await databaseService.initialize();
     logger.info('Database service initialized');
 
+    // Delayed signals must be restored before conditions are evaluated again
+    await pendingSignalService.initialize();
+
     // 2. Pinecone second (needed by other services)
     await pineconeService.initialize();
     logger.info('Pinecone service initialized');
@@ -113,20 +125,51 @@ async function initializeServices() {
     await strategyManager.initialize();
     logger.info('Strategy Manager initialized');
 
-    // 5. Market Data Stream
+    // 5. Market Data Stream - candles are rebuilt from recorded ticks before live data arrives.
+    // A replay warms up from its own frames instead, since stored ticks are newer than the replayed ones.
+    if (!tradingConfig.replay.path) {
+      await technicalIndicators.backfill();
+    }
     await marketDataStream.connect();
     logger.info('Market Data Stream connected');
 
+    // Paper broker matches resting orders against the live quote stream
+    paperBroker.initialize();
+
     // 6. Polygon Service (for traditional assets)
     await polygonService.initialize();
     logger.info('Polygon Service initialized');
 
     // 7. Portfolio Monitor
+    await riskEngine.initialize();
     await portfolioMonitor.initialize();
     logger.info('Portfolio Monitor initialized');
 
+    // The paper account is in memory only; rebuild what its open positions hold
+    paperBroker.restoreHoldings(
+      portfolioMonitor.getOpenPositions().filter(position => getBrokerAdapter(position.broker).name === 'paper')
+    );
+
+    // Surface drift between persisted positions, trade rows and exchange balances left by a crash.
+    // A replay trades on the paper broker, so neither this nor the stop restore below may touch the exchange.
+    const isReplay = !!tradingConfig.replay.path;
+    if (!isReplay) {
+      await reconciliationService.run().catch(error => {
+        logger.error('Startup reconciliation failed:', error);
+      });
+    }
+
     // 8. Trade Executor
-    // Depends on portfolio monitor being initialized
+    // Depends on portfolio monitor being initialized; positions follow fills reported by the order manager
+    tradeExecutor.listenForFills();
+    await orderManager.initialize();
+
+    // Restore resting exchange stops for positions opened before a restart (or before NATIVE_STOP_ORDERS was on)
+    for (const position of isReplay ? [] : portfolioMonitor.getOpenPositions()) {
+      await protectiveOrderService.sync(position).catch(error => {
+        logger.error(`Failed to restore protective orders for ${position.id}:`, error);
+      });
+    }
     logger.info('Trade Executor ready');
 
     // 9. Condition Monitor
@@ -136,35 +179,44 @@ async function initializeServices() {
     // Set up entry signal handler with circuit breaker checks
     conditionMonitor.on('entry_signal', async (signal) => {
       try {
-        // Check circuit breaker first
-        if (!circuitBreaker.isActive()) {
-          logger.warn('Circuit breaker is tripped - skipping trade');
-          return;
-        }
-
-        // Check daily loss
-        if (await circuitBreaker.checkDailyLoss()) {
-          return;
-        }
-
-        // Log trade decision for compliance
-        await complianceLogger.logTradeDecision(
-          signal,
-          marketDataStream.getCurrentPrices(),
-          {
-            activeStrategies: strategyManager.getActiveStrategies().length,
-            openPositions: portfolioMonitor.getOpenPositions().length,
-            dailyPnl: (await portfolioMonitor.getPortfolio()).daily_pnl,
-            circuitBreakerStatus: circuitBreaker.isActive()
+        // One entry per strategy at a time; repeat signals while it is being placed are dropped
+        await tradeExecutor.enterOnce(signal.strategy.strategy_id, async () => {
+          // Check circuit breaker first
+          if (!circuitBreaker.isActive()) {
+            logger.warn('Circuit breaker is tripped - skipping trade');
+            return;
+          }
+
+          // Check daily loss
+          if (await circuitBreaker.checkDailyLoss()) {
+            return;
           }
-        );
-
-        // Execute trade
-        await tradeExecutor.executeTrade(
-          signal.strategy,
-          'enter',
-          'Entry conditions met'
-        );
+
+          // Log trade decision for compliance
+          await complianceLogger.logTradeDecision(
+            {
+              ...signal,
+              strategy_id: signal.strategy.strategy_id,
+              asset: getTradingAsset(signal.strategy),
+              side: getEntrySide(signal.strategy),
+              notional_usd: signal.strategy.position_size
+            },
+            marketDataStream.getCurrentPrices(),
+            {
+              activeStrategies: strategyManager.getActiveStrategies().length,
+              openPositions: portfolioMonitor.getOpenPositions().length,
+              dailyPnl: (await portfolioMonitor.getPortfolio()).daily_pnl,
+              circuitBreakerStatus: circuitBreaker.isActive()
+            }
+          );
+
+          // Execute trade
+          await tradeExecutor.executeTrade(
+            signal.strategy,
+            'enter',
+            'Entry conditions met'
+          );
+        });
       } catch (error: any) {
         logger.error('Failed to execute entry trade:', error);
         circuitBreaker.recordFailedTrade(signal.strategy.strategy_id);
@@ -9,6 +9,12 @@ export const tradingMetrics = {
     labelNames: ['strategy', 'side', 'status']
   }),
 
+  marketDataSequenceIssues: new Counter({
+    name: 'market_data_sequence_issues_total',
+    help: 'Market data messages found missing (gap) or late (out_of_order)',
+    labelNames: ['symbol', 'source', 'type']
+  }),
+
   // Histograms
   tradeLatency: new Histogram({
     name: 'trade_execution_duration_seconds',
@@ -18,8 +24,9 @@ export const tradingMetrics = {
 
   conditionCheckDuration: new Histogram({
     name: 'condition_check_duration_seconds',
-    help: 'Time to check all strategy conditions',
-    buckets: [0.01, 0.05, 0.1, 0.5, 1]
+    help: 'Time to evaluate one strategy or position',
+    labelNames: ['kind'],
+    buckets: [0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1]
   }),
 
   // Gauges
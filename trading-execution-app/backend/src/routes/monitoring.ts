@@ -6,6 +6,10 @@ import { polygonService } from '../services/polygonService';
 import { databaseService } from '../config/database';
 import { tradeHistoryService } from '../services/tradeHistoryService';
 import { complianceLogger } from '../services/complianceLogger';
+import { pendingSignalService } from '../services/pendingSignalService';
+import { orderBookService } from '../services/orderBook';
+import { marketDataRecorder } from '../services/marketDataRecorder';
+import { marketDataReplay } from '../services/marketDataReplay';
 import { logger } from '../utils/logger';
 
 const router = express.Router();
@@ -39,7 +43,12 @@ router.get('/status', async (req, res) => {
   res.json({
     market_data: {
       connected: marketDataStream.getConnectionStatus(),
-      subscribed_symbols: marketDataStream.getSubscribedSymbols()
+      subscribed_symbols: marketDataStream.getSubscribedSymbols(),
+      active_source: marketDataStream.getActiveSource(),
+      providers: marketDataStream.getProviderHealth(),
+      data_quality: marketDataStream.getDataQuality(),
+      recording: marketDataRecorder.getStats(),
+      replay: marketDataReplay.isEnabled() ? marketDataReplay.getStatus() : null
     },
     monitoring: {
       active: isMonitoring,
@@ -136,6 +145,28 @@ router.get('/prices', async (req, res) => {
   res.json({ prices });
 });
 
+// Get L2 depth around mid and, with ?notional=, the expected slippage of a market order that size
+router.get('/orderbook/:symbol', (req, res) => {
+  const { symbol } = req.params;
+  const side = req.query.side === 'sell' ? 'sell' : 'buy';
+  const notional = req.query.notional ? parseFloat(req.query.notional as string) : undefined;
+  const withinPercent = req.query.within ? parseFloat(req.query.within as string) : undefined;
+
+  if ((notional !== undefined && !(notional > 0)) || (withinPercent !== undefined && !(withinPercent > 0))) {
+    return res.status(400).json({ error: 'notional and within must be positive numbers' });
+  }
+
+  const depth = orderBookService.getDepth(symbol, withinPercent);
+  if (!depth) {
+    return res.status(404).json({ error: `No live order book for ${symbol}` });
+  }
+
+  return res.json({
+    depth,
+    slippage: notional ? orderBookService.estimateSlippage(symbol, side, notional) : undefined
+  });
+});
+
 // Subscribe to market data for specific symbols
 router.post('/subscribe', async (req, res) => {
   try {
@@ -247,6 +278,46 @@ router.get('/compliance/audit/:strategy_id', async (req, res) => {
   }
 });
 
+// Get delayed signals (pending by default)
+router.get('/pending-signals', async (req, res) => {
+  try {
+    const { strategy_id, status, limit } = req.query;
+
+    const signals = await pendingSignalService.getSignals({
+      strategy_id: strategy_id as string | undefined,
+      status: status === 'all' ? undefined : (status as any) || 'pending',
+      limit: limit ? parseInt(limit as string) : undefined
+    });
+
+    res.json({ signals });
+  } catch (error) {
+    logger.error('Failed to get pending signals:', error);
+    res.status(500).json({ error: 'Failed to get pending signals' });
+  }
+});
+
+// Cancel a delayed signal before it matures
+router.post('/pending-signals/:id/cancel', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const signal = await pendingSignalService.cancel(id);
+    res.json({ message: 'Pending signal cancelled', signal });
+  } catch (error: any) {
+    logger.error('Failed to cancel pending signal:', error);
+    res.status(404).json({ error: error.message });
+  }
+});
+
+// Per-node results of a strategy's latest entry evaluation
+router.get('/conditions/:strategy_id', (req, res) => {
+  const evaluation = conditionMonitor.getConditionTrace(req.params.strategy_id);
+  if (!evaluation) {
+    return res.status(404).json({ error: 'Strategy has not been evaluated yet' });
+  }
+
+  return res.json(evaluation);
+});
+
 // Get database statistics
 router.get('/database/stats', async (req, res) => {
   try {
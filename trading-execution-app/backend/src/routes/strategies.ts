@@ -1,5 +1,6 @@
 import express from 'express';
 import { strategyManager } from '../services/strategyManager';
+import { backtestEngine } from '../services/backtestEngine';
 import { logger } from '../utils/logger';
 import { z } from 'zod';
 
@@ -9,7 +10,69 @@ const router = express.Router();
 const ApproveStrategySchema = z.object({
   stop_loss_percent: z.number().min(0.1).max(50),
   take_profit_percent: z.number().min(0.1).max(100),
-  position_size: z.number().min(1).optional()
+  position_size: z.number().min(1).optional(),
+  broker: z.enum(['webhook', 'coinbase', 'paper']).optional(),
+  sizing: z.discriminatedUnion('mode', [
+    z.object({ mode: z.literal('fixed_usd'), value: z.number().min(1) }),
+    z.object({ mode: z.literal('percent_equity'), value: z.number().gt(0).max(100) }),
+    z.object({
+      mode: z.literal('atr_risk'),
+      value: z.number().gt(0).max(10),
+      atr_multiplier: z.number().gt(0).optional()
+    }),
+    z.object({ mode: z.literal('volatility_target'), value: z.number().gt(0).max(200) }),
+    z.object({
+      mode: z.literal('kelly'),
+      value: z.number().gt(0).max(1),
+      min_trades: z.number().int().min(1).optional()
+    })
+  ]).optional(),
+  take_profit_ladder: z.array(z.object({
+    type: z.enum(['percentage', 'atr']),
+    value: z.number().gt(0),
+    size_percent: z.number().gt(0).max(100)
+  })).max(10).optional()
+    .refine(ladder => !ladder || ladder.reduce((sum, level) => sum + level.size_percent, 0) <= 100, {
+      message: 'Take-profit ladder sizes cannot exceed 100%'
+    }),
+  stop_rules: z.object({
+    breakeven: z.object({
+      trigger_percent: z.number().gt(0),
+      offset_percent: z.number().min(0).optional()
+    }).optional(),
+    profit_lock: z.array(z.object({
+      trigger_percent: z.number().gt(0),
+      lock_percent: z.number().min(0)
+    }).refine(tier => tier.lock_percent < tier.trigger_percent, {
+      message: 'Locked profit must be below its trigger'
+    })).max(10).optional(),
+    chandelier: z.object({
+      period: z.number().int().min(2).max(200),
+      multiplier: z.number().gt(0).max(10)
+    }).optional(),
+    time_decay: z.object({
+      start_after_hours: z.number().min(0),
+      decay_hours: z.number().gt(0),
+      target_percent: z.number().optional()
+    }).optional()
+  }).optional(),
+  scale_in: z.array(z.object({
+    trigger_percent: z.number().min(-50).max(50),
+    size_percent: z.number().gt(0).max(100)
+  })).min(2).max(10).optional()
+    .refine(stages => !stages || Math.abs(stages.reduce((sum, stage) => sum + stage.size_percent, 0) - 100) < 0.01, {
+      message: 'Scale-in stage sizes must add up to 100%'
+    })
+});
+
+const BacktestSchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  initial_capital: z.number().positive().optional(),
+  fee_rate: z.number().min(0).max(0.1).optional(),
+  slippage_bps: z.number().min(0).max(1000).optional(),
+  evaluation_interval_ms: z.number().int().min(1000).optional(),
+  csv: z.string().optional()
 });
 
 // Get all strategies
@@ -125,4 +188,37 @@ router.post('/:id/reparse', async (req, res) => {
   }
 });
 
+// Backtest strategy against stored or imported market data
+router.post('/:id/backtest', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const strategy = strategyManager.getStrategy(id);
+
+    if (!strategy) {
+      return res.status(404).json({ error: 'Strategy not found' });
+    }
+
+    const validation = BacktestSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: validation.error
+      });
+    }
+
+    const { from, to, ...options } = validation.data;
+    const result = await backtestEngine.run(strategy, {
+      ...options,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined
+    });
+
+    return res.json({ backtest: result });
+  } catch (error: any) {
+    logger.error('Failed to backtest strategy:', error);
+    return res.status(400).json({ error: error.message });
+  }
+});
+
 export default router; 
\ No newline at end of file
@@ -1,6 +1,10 @@
 import express from 'express';
 import { tradeExecutor } from '../services/tradeExecutor';
 import { portfolioMonitor } from '../services/portfolioMonitor';
+import { orderManager } from '../services/orderManager';
+import { reconciliationService } from '../services/reconciliationService';
+import { riskEngine } from '../services/riskEngine';
+import { tradingConfig } from '../config/trading';
 import { logger } from '../utils/logger';
 
 const router = express.Router();
@@ -48,6 +52,102 @@ router.post('/positions/:id/close', async (req, res) => {
   }
 });
 
+// Current exposure against the risk engine's limits
+router.get('/risk', async (_req, res) => {
+  try {
+    const exposure = await riskEngine.getExposure();
+    res.json({
+      exposure,
+      limits: {
+        ...tradingConfig.risk,
+        maxPositions: tradingConfig.positions.maxPositions,
+        maxPositionSizeUSD: tradingConfig.positions.maxPositionSizeUSD
+      }
+    });
+  } catch (error) {
+    logger.error('Failed to get risk exposure:', error);
+    res.status(500).json({ error: 'Failed to retrieve risk exposure' });
+  }
+});
+
+// Get order lifecycle history
+router.get('/orders', async (req, res) => {
+  try {
+    const { strategy_id, position_id, status, limit } = req.query;
+
+    const orders = await orderManager.getOrders({
+      strategy_id: strategy_id as string | undefined,
+      position_id: position_id as string | undefined,
+      status: status as any,
+      limit: limit ? parseInt(limit as string) : undefined
+    });
+
+    res.json({ orders });
+  } catch (error) {
+    logger.error('Failed to get orders:', error);
+    res.status(500).json({ error: 'Failed to retrieve orders' });
+  }
+});
+
+// Cancel a working order
+router.post('/orders/:id/cancel', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const order = await orderManager.cancelOrder(id);
+    res.json({ message: 'Order cancelled', order });
+  } catch (error: any) {
+    logger.error('Failed to cancel order:', error);
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Compare Pinecone positions, open trades and exchange balances
+router.get('/reconciliation', async (_req, res) => {
+  try {
+    const report = await reconciliationService.run();
+    res.json(report);
+  } catch (error) {
+    logger.error('Reconciliation failed:', error);
+    res.status(500).json({ error: 'Reconciliation failed' });
+  }
+});
+
+// Set an orphaned position or trade row aside
+router.post('/reconciliation/quarantine', async (req, res) => {
+  try {
+    const { position_id, trade_id, reason } = req.body;
+    const record = await reconciliationService.quarantine({
+      position_id,
+      trade_id: trade_id !== undefined ? parseInt(trade_id) : undefined,
+      reason
+    });
+    res.json({ message: 'Quarantined', record });
+  } catch (error: any) {
+    logger.error('Failed to quarantine:', error);
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Track an exchange holding that no position accounts for
+router.post('/reconciliation/adopt', async (req, res) => {
+  try {
+    const { currency, strategy_id, quantity } = req.body;
+    if (!currency) {
+      return res.status(400).json({ error: 'currency is required' });
+    }
+
+    const position = await reconciliationService.adopt({
+      currency,
+      strategy_id,
+      quantity: quantity !== undefined ? parseFloat(quantity) : undefined
+    });
+    return res.json({ message: 'Holding adopted', position });
+  } catch (error: any) {
+    logger.error('Failed to adopt holding:', error);
+    return res.status(400).json({ error: error.message });
+  }
+});
+
 // Emergency close all positions (KILL SWITCH)
 router.post('/emergency/close-all', async (req, res) => {
   try {
@@ -69,8 +169,8 @@ router.post('/emergency/close-all', async (req, res) => {
 // Sync with Coinbase
 router.post('/sync', async (req, res) => {
   try {
-    await portfolioMonitor.syncWithCoinbase();
-    res.json({ message: 'Sync completed' });
+    const report = await portfolioMonitor.syncWithCoinbase();
+    res.json({ message: 'Sync completed', report });
   } catch (error) {
     logger.error('Sync failed:', error);
     res.status(500).json({ error: 'Sync failed' });
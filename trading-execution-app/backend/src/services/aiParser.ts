@@ -1,189 +1,159 @@
-import OpenAI from 'openai';
+import crypto from 'crypto';
 import { logger } from '../utils/logger';
-import { Strategy, ParsedStrategy } from '../types';
-import dotenv from 'dotenv';
+import { Strategy, ParsedStrategy, ParseReport, StrategySpec } from '../types';
+import { STRATEGY_DSL_VERSION, buildStrategyFields, strategySpecSchema, validateStrategySpec } from './strategyDsl';
+import { ClaimedReport, buildParseReport, defaultedParseReport } from './parseReport';
+import { LLMMessage, LLMProvider, createLLMProvider, descriptionHash, formatStrategyRequest } from './llmProvider';
+import { LLMResponseCache, llmResponseCache } from './llmResponseCache';
 
-// Ensure environment variables are loaded
-dotenv.config();
+const SPEC_PROMPT = `You are an expert trading strategy parser. Translate strategy descriptions into strategy DSL version 1.
 
-class AIParser {
-  private openai: OpenAI | null = null;
-  private isDemoMode = false;
+Return ONLY a JSON object of the form
+{"spec": <spec>, "provenance": {...}, "confidence": <0-1>, "ambiguities": [{"phrase": "...", "reason": "...", "field": "..."}]}
+where <spec> validates against this JSON Schema:
+${JSON.stringify(strategySpecSchema)}
 
-  constructor() {
-    // Initialize OpenAI if API key is available
-    try {
-      logger.info(`🔍 AI Parser checking environment: OPENAI_API_KEY = ${process.env.OPENAI_API_KEY ? 'Found (' + process.env.OPENAI_API_KEY.substring(0, 20) + '...)' : 'NOT FOUND'}`);
-      
-      if (process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY.trim() !== '') {
-        this.openai = new OpenAI({
-          apiKey: process.env.OPENAI_API_KEY
-        });
-        logger.info('✅ AI Parser initialized with OpenAI API key');
-      } else {
-        logger.warn('⚠️ OpenAI API key not configured - AI Parser running in demo mode');
-        this.isDemoMode = true;
-      }
-    } catch (error) {
-      logger.warn('⚠️ Failed to initialize OpenAI, running in demo mode:', error);
-      this.isDemoMode = true;
-    }
+Report honestly on the spec, because a person reviews it before any money is traded:
+- provenance: for every value in spec, keyed by JSON pointer ("/target/asset", "/entry/all/0/move/threshold",
+  "/exit/stop_loss/distance"; a {"value", "unit"} quantity is one value), where it came from:
+  "verbatim" = stated in the description, "inferred" = reasoned from it, "defaulted" = the description says nothing about it
+- confidence: how sure you are that the spec trades what the description means
+- ambiguities: phrases copied exactly from the description that could reasonably mean more than one thing
+  ("a big move", "shortly after", "when oil spikes"), each with the reason and the spec field it affects
+
+Entry conditions are a tree. Combine nodes with {"all": [...]} (AND), {"any": [...]} (OR), {"not": {...}} (NOT)
+and {"at_least": {"count": n, "of": [...]}} (n of the listed conditions).
+Leaves are:
+- {"move": {...}}: asset moved in direction by more than threshold over timeframe
+- {"correlation": {...}}: "with" moved by more than "move" while its correlation with "asset" is at least min_correlation (e.g. "r=0.92" = 0.92);
+  without "move" it holds on the correlation alone, so {"not": {"correlation": ...}} means the correlation has decayed
+- {"indicator": {...}}: technical indicator on asset's timeframe candles
+
+Every threshold and distance is {"value": number, "unit": "percent" | "fraction" | "bps"}. Use the unit the description uses:
+"2%" = {"value": 2, "unit": "percent"}, "0.02" of price = {"value": 0.02, "unit": "fraction"}, "50bps" = {"value": 50, "unit": "bps"}.
+Every leaf states its timeframe; use "1d" for daily closes and "1h" when the description gives none for a move.
+
+PARSING RULES:
+- "WTI Crude Oil" → "WTI_CRUDE_OIL", "SPY Daily Close" → "SPY", "QQQ Daily Close" → "QQQ", crypto as pairs ("BTC-USD")
+- target is the asset traded; "buy X the next day" → "delay_days": 1
+- "3 days maximum" → "max_hold": {"value": 3, "unit": "days"}
+- Exits on conditions rather than price ("exit if ETH reverses", "close when the correlation breaks down") → "exit": {"signals": [{"name": "ETH reversal", "when": <condition>}]}
+- Indicators use only the fields that apply:
+  - "RSI(14) below 30" → {"name": "rsi", "operator": "below", "value": 30, "period": 14}
+  - "50/200 SMA golden cross" → {"name": "sma_crossover", "operator": "crosses_above", "fast_period": 50, "slow_period": 200}
+  - "MACD crosses below signal" → {"name": "macd", "operator": "crosses_below"} (set "value": 0 for zero-line crosses)
+  - "price closes below lower Bollinger Band" → {"name": "bollinger_bands", "operator": "below", "band": "lower", "period": 20, "std_dev": 2}
+  - "price reclaims VWAP" → {"name": "vwap", "operator": "crosses_above"}
+  - "Stochastic %K crosses above %D" → {"name": "stochastic", "operator": "crosses_above", "period": 14, "signal_period": 3} (set "value" to compare %K with a level)`;
+
+// Part of the cache key, so a prompt or DSL change never serves parses made for the old one
+const PROMPT_VERSION = `dsl${STRATEGY_DSL_VERSION}-${crypto.createHash('sha256').update(SPEC_PROMPT).digest('hex').substring(0, 12)}`;
+
+const FALLBACK_MULTI_ASSET_SPEC: StrategySpec = {
+  dsl_version: 1,
+  name: 'Multi-Asset Momentum',
+  target: { asset: 'BTC-USD', action: 'buy' },
+  entry: {
+    all: ['WTI_CRUDE_OIL', 'SPY', 'QQQ'].map(asset => ({
+      move: { asset, direction: 'up' as const, threshold: { value: 2, unit: 'percent' as const }, timeframe: '1d' as const }
+    }))
+  },
+  delay_days: 1,
+  exit: {
+    stop_loss: { distance: { value: 2, unit: 'percent' }, trailing: true },
+    take_profit: { distance: { value: 3, unit: 'percent' } },
+    max_hold: { value: 3, unit: 'days' }
+  },
+  position_size_usd: 100
+};
+
+const FALLBACK_SINGLE_ASSET_SPEC: StrategySpec = {
+  dsl_version: 1,
+  name: 'Momentum',
+  target: { asset: 'BTC-USD', action: 'buy' },
+  entry: {
+    move: { asset: 'BTC-USD', direction: 'up', threshold: { value: 2, unit: 'percent' }, timeframe: '1d' }
+  },
+  exit: {
+    stop_loss: { distance: { value: 2, unit: 'percent' }, trailing: true },
+    take_profit: { distance: { value: 3, unit: 'percent' } },
+    max_hold: { value: 3, unit: 'days' }
+  },
+  position_size_usd: 100
+};
+
+export class AIParser {
+  constructor(
+    private provider: LLMProvider = createLLMProvider(),
+    private cache: LLMResponseCache = llmResponseCache
+  ) {
+    logger.info(`✅ AI Parser using the ${provider.name} provider (${provider.model})`);
   }
 
-  async parseStrategy(strategyInput: Strategy | string, comments?: string): Promise<ParsedStrategy> {
+  // refresh skips the cache, for re-parses where the user wants a new answer to the same text
+  async parseStrategy(
+    strategyInput: Strategy | string,
+    comments?: string,
+    options: { refresh?: boolean } = {}
+  ): Promise<ParsedStrategy> {
     // Determine strategy text to parse
     const strategyText = typeof strategyInput === 'string' ? strategyInput : strategyInput.description;
     
     // Extract basic info from input
     const inputStrategy = typeof strategyInput !== 'string' ? strategyInput : null;
     const strategyId = inputStrategy?.strategy_id || `strategy_${Date.now()}`;
-    const userId = inputStrategy?.user_id || 'default-user';
-
-    if (this.isDemoMode) {
-      logger.warn('AI Parser in demo mode - using demo parsing');
-      // Return demo parsed strategy using description string
-      return {
-        id: strategyId,
-        strategy_id: strategyId,
-        strategy_name: 'Demo Parsed Strategy',
-        description: strategyText,
-        asset_1: 'BTC-USD',
-        asset_2: 'ETH-USD',
-        user_id: userId,
-        status: 'pending',
-        favorited_at: new Date().toISOString(),
-        quality_score: 0.80,
-        sharpe_ratio: 1.1,
-        total_trades: 15,
-        type: 'technical',
-        entry_conditions: {
-          type: 'technical_indicator',
-          primary_asset: 'BTC-USD',
-          threshold: 0.02,
-          direction: 'up',
-          timeframe: '1h'
-        },
-        exit_conditions: {
-          stop_loss: {
-            type: 'percentage',
-            value: 0.05,
-            is_trailing: true
-          },
-          take_profit: {
-            type: 'percentage',
-            value: 0.10
-          }
-        },
-        required_assets: ['BTC-USD'],
-        position_size: 100
-      };
-    }
 
-    if (!this.openai) {
-      throw new Error('OpenAI not initialized');
-    }
+    const request = formatStrategyRequest(strategyText, comments);
+    const hash = descriptionHash(request);
 
     try {
-      logger.info(`🧠 Parsing strategy with OpenAI: ${strategyText.substring(0, 100)}...`);
-      
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert trading strategy parser. Extract precise trading conditions from strategy descriptions.
-
-CRITICAL: For multi-asset strategies with "WHEN A AND B AND C" patterns, use multi_asset_correlation type.
-
-Return ONLY valid JSON with this structure:
-{
-  "strategy_name": "Clear strategy name",
-  "entry_conditions": {
-    "type": "multi_asset_correlation" | "single_correlation" | "technical_indicator",
-    
-    // FOR MULTI-ASSET (WHEN X AND Y AND Z):
-    "triggers": [
-      {"asset": "WTI_CRUDE_OIL", "direction": "up", "threshold_percent": null},
-      {"asset": "SPY", "direction": "up", "threshold_percent": null},
-      {"asset": "QQQ", "direction": "up", "threshold_percent": null}
-    ],
-    "target_asset": "BTC-USD",
-    "action": "buy",
-    "delay_days": 1,
-    
-    // FOR SINGLE ASSET:
-    "primary_asset": "BTC-USD", 
-    "threshold": 0.02,
-    "direction": "up",
-    "timeframe": "1d"
-  },
-  "exit_conditions": {
-    "stop_loss": {
-      "type": "percentage",
-      "value": 2.0,
-      "is_trailing": true
-    },
-    "take_profit": {
-      "type": "percentage",
-      "value": 3.0
-    },
-    "max_hold_days": 3
-  },
-  "required_assets": ["WTI_CRUDE_OIL", "SPY", "QQQ", "BTC-USD"],
-  "position_size": 100
-}
+      const cached = options.refresh ? null : await this.cache.get(this.provider, PROMPT_VERSION, hash);
+      if (cached) {
+        const parsed = this.parseResponse(cached);
+        const validation = validateStrategySpec(parsed.spec);
+        if (validation.valid) {
+          logger.info(`♻️ Using cached ${this.provider.name} parse for ${strategyId}`);
+          return this.fromValidSpec(strategyInput, strategyId, validation.spec, parsed.claimed, comments);
+        }
+      }
 
-PARSING RULES:
-- "WTI Crude Oil" → "WTI_CRUDE_OIL"
-- "SPY Daily Close" → "SPY" 
-- "QQQ Daily Close" → "QQQ"
-- Look for stop loss percentages (e.g. "2.0x ATR" = 2.0)
-- Look for take profit percentages (e.g. "3.0x ATR" = 3.0)
-- Extract hold periods (e.g. "3 days maximum" = 3)
-- If correlation mentioned, extract value (e.g. "r=0.92" = 0.92)`
-          },
-          {
-            role: 'user',
-            content: `Parse this trading strategy: "${strategyText}"${comments ? `\n\nAdditional clarifications: ${comments}` : ''}`
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 2000
-      });
-
-      const response = completion.choices[0].message.content;
-      if (!response) {
-        throw new Error('Empty response from OpenAI');
+      logger.info(`🧠 Parsing strategy with ${this.provider.name}: ${strategyText.substring(0, 100)}...`);
+
+      const messages: LLMMessage[] = [
+        { role: 'system', content: SPEC_PROMPT },
+        { role: 'user', content: request }
+      ];
+
+      let response = await this.complete(messages);
+      let parsed = this.parseResponse(response);
+      let validation = validateStrategySpec(parsed.spec);
+
+      // One correction round: the model fixes its own spec far more reliably than we could guess
+      if (!validation.valid) {
+        logger.warn(`⚠️ Parsed spec failed validation, asking for a correction: ${validation.errors.join('; ')}`);
+        messages.push(
+          { role: 'assistant', content: response },
+          { role: 'user', content: `That spec is invalid:\n- ${validation.errors.join('\n- ')}\nReturn the corrected response, in the same format, and nothing else.` }
+        );
+        response = await this.complete(messages);
+        parsed = this.parseResponse(response);
+        validation = validateStrategySpec(parsed.spec);
       }
 
-      logger.info(`🧠 OpenAI response: ${response.substring(0, 200)}...`);
-
-      const parsedData = JSON.parse(response);
-
-      const strategy: ParsedStrategy = {
-        id: strategyId,
-        strategy_id: strategyId,
-        strategy_name: parsedData.strategy_name || `Parsed Strategy ${strategyId}`,
-        description: strategyText,
-        user_id: userId,
-        status: 'pending',
-        favorited_at: inputStrategy?.favorited_at || new Date().toISOString(),
-        quality_score: inputStrategy?.quality_score || 0.80,
-        sharpe_ratio: inputStrategy?.sharpe_ratio || 1.1,
-        total_trades: inputStrategy?.total_trades || 15,
-        type: parsedData.type || 'correlation',
-        asset_1: parsedData.required_assets?.[0] || 'BTC-USD',
-        asset_2: parsedData.required_assets?.[1] || 'USD',
-        entry_conditions: parsedData.entry_conditions,
-        exit_conditions: parsedData.exit_conditions,
-        required_assets: parsedData.required_assets || ['BTC-USD'],
-        position_size: parsedData.position_size || 100
-      };
+      if (!validation.valid) {
+        logger.error(`❌ Parsed spec for ${strategyId} is still invalid - it will need re-parsing before approval`);
+        return {
+          ...this.fromSpec(strategyInput, strategyId, null),
+          spec_errors: validation.errors
+        };
+      }
 
-      logger.info(`✅ Strategy parsed successfully: ${strategy.strategy_name}`);
-      return strategy;
+      // Only valid answers are kept; an invalid one is worth asking again next time
+      await this.cache.set(this.provider, PROMPT_VERSION, hash, request, response);
+
+      return this.fromValidSpec(strategyInput, strategyId, validation.spec, parsed.claimed, comments);
     } catch (error) {
-      logger.error('❌ Failed to parse strategy with OpenAI:', error);
+      logger.error(`❌ Failed to parse strategy with ${this.provider.name}:`, error);
       
       // Fallback: Create reasonable parsed strategy from description
       logger.info('🔧 Using fallback parsing...');
@@ -191,58 +161,92 @@ PARSING RULES:
       // Detect if this is a multi-asset strategy
       const isMultiAsset = strategyText.toLowerCase().includes(' and ') && 
                           (strategyText.includes('oil') || strategyText.includes('spy') || strategyText.includes('qqq'));
-      
-      const fallbackStrategy: ParsedStrategy = {
-        id: strategyId,
-        strategy_id: strategyId,
-        strategy_name: this.extractStrategyName(strategyText),
-        description: strategyText,
-        user_id: userId,
-        status: 'pending',
-        favorited_at: inputStrategy?.favorited_at || new Date().toISOString(),
-        quality_score: inputStrategy?.quality_score || 0.80,
-        sharpe_ratio: inputStrategy?.sharpe_ratio || 1.1,
-        total_trades: inputStrategy?.total_trades || 15,
-        type: 'correlation',
-        asset_1: 'BTC-USD',
-        asset_2: 'USD',
-        entry_conditions: isMultiAsset ? {
-          type: 'multi_asset_correlation',
-          triggers: [
-            {asset: 'WTI_CRUDE_OIL', direction: 'up', threshold_percent: null},
-            {asset: 'SPY', direction: 'up', threshold_percent: null},
-            {asset: 'QQQ', direction: 'up', threshold_percent: null}
-          ],
-          target_asset: 'BTC-USD',
-          action: 'buy',
-          delay_days: 1
-        } : {
-          type: 'single_correlation',
-          primary_asset: 'BTC-USD',
-          threshold: 0.02,
-          direction: 'up',
-          timeframe: '1d'
-        },
-        exit_conditions: {
-          stop_loss: {
-            type: 'percentage',
-            value: 2.0,
-            is_trailing: true
-          },
-          take_profit: {
-            type: 'percentage',
-            value: 3.0
-          },
-          max_hold_days: 3
-        },
-        required_assets: isMultiAsset ? ['WTI_CRUDE_OIL', 'SPY', 'QQQ', 'BTC-USD'] : ['BTC-USD'],
-        position_size: 100
+
+      const fallbackSpec: StrategySpec = {
+        ...(isMultiAsset ? FALLBACK_MULTI_ASSET_SPEC : FALLBACK_SINGLE_ASSET_SPEC),
+        name: this.extractStrategyName(strategyText)
       };
-      
-      return fallbackStrategy;
+      return this.fromSpec(strategyInput, strategyId, fallbackSpec, defaultedParseReport(fallbackSpec));
+    }
+  }
+
+  private async complete(messages: LLMMessage[]): Promise<string> {
+    return this.provider.complete(messages, { temperature: 0.1, maxTokens: 2000 });
+  }
+
+  private fromValidSpec(
+    strategyInput: Strategy | string,
+    strategyId: string,
+    spec: StrategySpec,
+    claimed: ClaimedReport,
+    comments?: string
+  ): ParsedStrategy {
+    // Clarifications count as part of the description when checking what was quoted
+    const strategyText = typeof strategyInput === 'string' ? strategyInput : strategyInput.description;
+    const sourceText = comments ? `${strategyText}\n${comments}` : strategyText;
+    const report = buildParseReport(spec, sourceText, claimed);
+
+    const strategy = this.fromSpec(strategyInput, strategyId, spec, report);
+    logger.info(`✅ Strategy parsed successfully: ${strategy.strategy_name} (confidence ${report.confidence}, ${report.ambiguities.length} ambiguous phrase(s))`);
+    return strategy;
+  }
+
+  // Models sometimes wrap JSON in a code fence
+  private parseJson(response: string): unknown {
+    const fenced = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+    try {
+      return JSON.parse(fenced ? fenced[1] : response);
+    } catch {
+      return null;
     }
   }
 
+  // The model answers with the spec and its report; a bare spec is accepted with nothing claimed
+  private parseResponse(response: string): { spec: unknown; claimed: ClaimedReport } {
+    const json = this.parseJson(response) as any;
+    if (json && typeof json === 'object' && 'spec' in json) {
+      const { spec, ...claimed } = json;
+      return { spec, claimed };
+    }
+    return { spec: json, claimed: {} };
+  }
+
+  // A null spec (failed validation) leaves the strategy pending with nothing to evaluate
+  private fromSpec(
+    strategyInput: Strategy | string,
+    strategyId: string,
+    spec: StrategySpec | null,
+    parseReport?: ParseReport
+  ): ParsedStrategy {
+    const inputStrategy = typeof strategyInput !== 'string' ? strategyInput : null;
+    const strategyText = inputStrategy ? inputStrategy.description : strategyInput as string;
+    const fields = spec ? buildStrategyFields(spec) : {
+      entry_conditions: { type: 'strategy_dsl' as const },
+      exit_conditions: { stop_loss: { type: 'percentage' as const, value: 0, is_trailing: false }, take_profit: { type: 'percentage' as const, value: 0 } },
+      required_assets: [],
+      position_size: 100
+    };
+
+    return {
+      id: strategyId,
+      strategy_id: strategyId,
+      strategy_name: spec?.name || `Parsed Strategy ${strategyId}`,
+      description: strategyText,
+      user_id: inputStrategy?.user_id || 'default-user',
+      status: 'pending',
+      favorited_at: inputStrategy?.favorited_at || new Date().toISOString(),
+      quality_score: inputStrategy?.quality_score || 0.80,
+      sharpe_ratio: inputStrategy?.sharpe_ratio || 1.1,
+      total_trades: inputStrategy?.total_trades || 15,
+      type: inputStrategy?.type || 'correlation',
+      asset_1: fields.required_assets[0] || 'BTC-USD',
+      asset_2: fields.required_assets[1] || 'USD',
+      ...fields,
+      spec: spec || undefined,
+      parse_report: parseReport
+    };
+  }
+
   private extractStrategyName(description: string): string {
     const desc = description.toLowerCase();
     if (desc.includes('crude oil') && desc.includes('defi') && desc.includes('gold')) {
@@ -260,35 +264,9 @@ PARSING RULES:
     }
   }
 
-  private extractTrigger(description: string): string {
-    if (description.includes('correlation')) {
-      const match = description.match(/r=([0-9.]+)/);
-      const correlation = match ? match[1] : '0.90';
-      return `Strong correlation (r=${correlation}) movement trigger`;
-    } else if (description.includes('>2%')) {
-      return 'Price movement >2% in same direction';
-    } else {
-      return 'Multiple indicator alignment';
-    }
-  }
-
   async generateEmbedding(text: string): Promise<number[]> {
-    if (this.isDemoMode) {
-      // Return demo embedding vector
-      return new Array(1536).fill(0).map(() => Math.random() * 0.1);
-    }
-
-    if (!this.openai) {
-      throw new Error('OpenAI not initialized');
-    }
-
     try {
-      const response = await this.openai.embeddings.create({
-        model: 'text-embedding-ada-002',
-        input: text
-      });
-
-      return response.data[0].embedding;
+      return await this.provider.embed(text);
     } catch (error) {
       logger.error('Failed to generate embedding:', error);
       throw new Error(`Embedding generation failed: ${error}`);
@@ -296,37 +274,22 @@ PARSING RULES:
   }
 
   async validateStrategy(strategy: Strategy): Promise<boolean> {
-    if (this.isDemoMode) {
-      logger.info(`Demo mode: Would validate strategy ${strategy.id}`);
-      return true;
-    }
-
-    if (!this.openai) {
-      throw new Error('OpenAI not initialized');
-    }
-
     try {
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a trading strategy validator. Analyze the strategy and return "VALID" or "INVALID" with a brief explanation.'
-          },
-          {
-            role: 'user',
-            content: JSON.stringify(strategy, null, 2)
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 200
-      });
-
-      const response = completion.choices[0].message.content;
-      const isValid = response?.toLowerCase().includes('valid');
+      const response = await this.provider.complete([
+        {
+          role: 'system',
+          content: 'You are a trading strategy validator. Analyze the strategy and return "VALID" or "INVALID" with a brief explanation.'
+        },
+        {
+          role: 'user',
+          content: JSON.stringify(strategy, null, 2)
+        }
+      ], { temperature: 0.1, maxTokens: 200 });
+
+      const isValid = response.toLowerCase().includes('valid');
       
       logger.info(`Strategy validation result: ${isValid ? 'VALID' : 'INVALID'}`);
-      return isValid || false;
+      return isValid;
     } catch (error) {
       logger.error('Failed to validate strategy:', error);
       return false;
@@ -334,4 +297,4 @@ PARSING RULES:
   }
 }
 
-export const aiParser = new AIParser(); 
\ No newline at end of file
+export const aiParser = new AIParser();
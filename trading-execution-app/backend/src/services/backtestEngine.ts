@@ -0,0 +1,394 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { databaseService } from '../config/database';
+import { tradingConfig } from '../config/trading';
+import { ParsedStrategy, Position } from '../types';
+import { TechnicalIndicators } from './technicalIndicators';
+import { PriceData } from './candleAggregator';
+import { ConditionEvaluator, flattenConditions } from './conditionEvaluator';
+import { evaluateStrategyEntry } from './strategyDsl';
+import { calculatePnl } from './tradeHistoryService';
+import { PositionSizer } from './positionSizer';
+import {
+  getEntrySide,
+  getTradingAsset,
+  calculateStopLoss,
+  calculateTakeProfit,
+  evaluateExit,
+  evaluateScaleIn,
+  buildTakeProfitTargets,
+  buildScaleInPlan,
+  getInitialEntryFraction
+} from './tradeRules';
+
+export interface BacktestOptions {
+  from?: Date;
+  to?: Date;
+  initial_capital?: number;
+  fee_rate?: number;              // Charged on each side of a trade
+  slippage_bps?: number;
+  evaluation_interval_ms?: number;
+  csv?: string;                   // timestamp,symbol,open,high,low,close,volume - replaces market_data
+}
+
+export interface BacktestTrade {
+  side: 'buy' | 'sell';
+  asset: string;
+  entry_time: Date;
+  exit_time: Date;
+  entry_price: number;
+  exit_price: number;
+  quantity: number;
+  pnl: number;
+  fees: number;
+  return_percent: number;
+  exit_reason: string;
+}
+
+export interface BacktestMetrics {
+  final_equity: number;
+  total_return_percent: number;
+  sharpe_ratio: number;
+  max_drawdown_percent: number;
+  win_rate: number;
+  total_trades: number;
+}
+
+export interface BacktestResult {
+  strategy_id: string;
+  from: Date | null;
+  to: Date | null;
+  bars_processed: number;
+  trades: BacktestTrade[];
+  equity_curve: Array<{ timestamp: Date; equity: number }>;
+  metrics: BacktestMetrics;
+  comparison: {
+    reported_sharpe_ratio: number;
+    reported_quality_score: number;
+    sharpe_difference: number;
+  };
+}
+
+interface BarEvent {
+  symbol: string;
+  bar: PriceData;
+}
+
+const DEFAULT_LOOKBACK_DAYS = 7;
+const MAX_ROWS = 200000;
+const MAX_EQUITY_POINTS = 500;
+const YEAR_MS = 365 * 86400000;
+
+// Replays stored ticks (or imported bars) through the live entry evaluators and exit rules
+export class BacktestEngine {
+
+  async run(strategy: ParsedStrategy, options: BacktestOptions = {}): Promise<BacktestResult> {
+    const initialCapital = options.initial_capital ?? tradingConfig.paper.startingCashUSD;
+    const feeRate = options.fee_rate ?? tradingConfig.paper.takerFeeRate;
+    const slippage = (options.slippage_bps ?? tradingConfig.paper.slippageBps) / 10000;
+    const intervalMs = options.evaluation_interval_ms ?? tradingConfig.monitoring.checkIntervalMs;
+
+    const assets = this.getStrategyAssets(strategy);
+    const events = options.csv
+      ? this.parseCsv(options.csv, assets)
+      : await this.loadMarketData(assets, options);
+
+    logger.info(`🧪 Backtesting ${strategy.strategy_id} over ${events.length} bars (${assets.join(', ')})`);
+
+    // Simulated clock drives both indicator lookbacks and delay_days
+    let simNow = events.length > 0 ? events[0].bar.timestamp : new Date();
+    const clock = () => simNow;
+    const indicators = new TechnicalIndicators({ clock, useRemoteQuotes: false });
+    const evaluator = new ConditionEvaluator(indicators, clock);
+    const sizer = new PositionSizer(indicators);
+
+    const tradingAsset = getTradingAsset(strategy);
+    const span = events.length > 1
+      ? events[events.length - 1].bar.timestamp.getTime() - events[0].bar.timestamp.getTime()
+      : 0;
+    const sampleIntervalMs = Math.max(intervalMs, span / MAX_EQUITY_POINTS);
+
+    const trades: BacktestTrade[] = [];
+    const equityCurve: Array<{ timestamp: Date; equity: number }> = [];
+    let cash = initialCapital;
+    let position: Position | null = null;
+    let entryFees = 0;
+    let lastEvaluation = 0;
+    let lastSample = 0;
+    let highWaterMark = initialCapital;
+    let maxDrawdown = 0;
+
+    // Closes all of the position, or a slice of it for take-profit ladders
+    const closePosition = (price: number, reason: string, quantity?: number) => {
+      const open = position!;
+      const closed = quantity ?? open.quantity;
+      const exitPrice = open.side === 'buy' ? price * (1 - slippage) : price * (1 + slippage);
+      const exitFees = exitPrice * closed * feeRate;
+      const legEntryFees = entryFees * closed / open.quantity;
+      const fees = legEntryFees + exitFees;
+      const pnl = calculatePnl(open.side, open.entry_price, exitPrice, closed) - fees;
+
+      cash += pnl;
+      trades.push({
+        side: open.side,
+        asset: open.asset,
+        entry_time: open.entry_time,
+        exit_time: simNow,
+        entry_price: open.entry_price,
+        exit_price: exitPrice,
+        quantity: closed,
+        pnl,
+        fees,
+        return_percent: (pnl / (open.entry_price * closed)) * 100,
+        exit_reason: reason
+      });
+
+      if (quantity === undefined) {
+        position = null;
+      } else {
+        open.quantity -= closed;
+        entryFees -= legEntryFees;
+      }
+    };
+
+    for (const event of events) {
+      simNow = event.bar.timestamp;
+      indicators.addPriceData(event.symbol, event.bar);
+
+      if (simNow.getTime() - lastEvaluation < intervalMs) continue;
+      lastEvaluation = simNow.getTime();
+
+      const price = indicators.getCurrentPrice(tradingAsset);
+      if (!price) continue;
+
+      if (position) {
+        const decision = await evaluateExit(indicators, position, strategy.exit_conditions, price, simNow, evaluator);
+        position.trailing_stop_price = decision.trailing_stop_price;
+        position.stop_rule = decision.stop_rule || position.stop_rule;
+        if (decision.shouldExit) {
+          closePosition(price, decision.reason);
+        } else if (decision.scale_out) {
+          position.take_profit_targets![decision.scale_out.level].filled = true;
+          closePosition(price, decision.scale_out.reason, decision.scale_out.quantity);
+        } else {
+          const stage = evaluateScaleIn(position, price);
+          if (stage) {
+            // Staged entries fill at the trigger bar and re-average the entry price
+            const addPrice = position.side === 'buy' ? price * (1 + slippage) : price * (1 - slippage);
+            const total = position.quantity + stage.quantity;
+            position.entry_price = (position.entry_price * position.quantity + addPrice * stage.quantity) / total;
+            position.quantity = total;
+            position.entered_quantity = (position.entered_quantity ?? 0) + stage.quantity;
+            entryFees += addPrice * stage.quantity * feeRate;
+            stage.status = 'filled';
+          }
+        }
+      } else if (await evaluateStrategyEntry(strategy, evaluator)) {
+        const side = getEntrySide(strategy);
+        const entryPrice = side === 'buy' ? price * (1 + slippage) : price * (1 - slippage);
+        const stopPrice = await calculateStopLoss(indicators, entryPrice, strategy.exit_conditions.stop_loss, side, tradingAsset);
+        // Sized like a live entry; with no position open, cash is the simulated account's whole equity
+        const sizing = await sizer.calculate(strategy, tradingAsset, entryPrice, { equity: cash, stop_price: stopPrice });
+        const plannedQuantity = sizing.quantity;
+        const quantity = plannedQuantity * getInitialEntryFraction(strategy.entry_conditions.scale_in);
+        entryFees = entryPrice * quantity * feeRate;
+
+        position = {
+          id: uuidv4(),
+          strategy_id: strategy.strategy_id,
+          asset: tradingAsset,
+          side,
+          entry_price: entryPrice,
+          current_price: price,
+          quantity,
+          trailing_stop_price: stopPrice,
+          initial_stop_price: stopPrice,
+          stop_rule: 'initial',
+          take_profit_price: await calculateTakeProfit(indicators, entryPrice, strategy.exit_conditions.take_profit, side, tradingAsset),
+          status: 'open',
+          entry_time: simNow,
+          entered_quantity: quantity,
+          take_profit_targets: await buildTakeProfitTargets(indicators, entryPrice, strategy.exit_conditions.take_profit_ladder, side, tradingAsset),
+          scale_in_stages: buildScaleInPlan(strategy.entry_conditions.scale_in, entryPrice, plannedQuantity, side)
+        };
+        await evaluator.consumeMatured(strategy.strategy_id);
+      }
+
+      // Mark to market
+      const openPosition = position as Position | null;
+      const equity = cash + (openPosition
+        ? calculatePnl(openPosition.side, openPosition.entry_price, price, openPosition.quantity) - entryFees
+        : 0);
+
+      highWaterMark = Math.max(highWaterMark, equity);
+      maxDrawdown = Math.max(maxDrawdown, (highWaterMark - equity) / highWaterMark);
+
+      if (simNow.getTime() - lastSample >= sampleIntervalMs) {
+        equityCurve.push({ timestamp: simNow, equity });
+        lastSample = simNow.getTime();
+      }
+    }
+
+    if (position) {
+      const lastPrice = indicators.getCurrentPrice(tradingAsset);
+      if (lastPrice) {
+        closePosition(lastPrice, 'End of backtest');
+      }
+    }
+    equityCurve.push({ timestamp: simNow, equity: cash });
+
+    const sharpe = this.calculateSharpe(equityCurve);
+    const wins = trades.filter(t => t.pnl > 0).length;
+
+    return {
+      strategy_id: strategy.strategy_id,
+      from: events.length > 0 ? events[0].bar.timestamp : null,
+      to: events.length > 0 ? events[events.length - 1].bar.timestamp : null,
+      bars_processed: events.length,
+      trades,
+      equity_curve: equityCurve,
+      metrics: {
+        final_equity: cash,
+        total_return_percent: ((cash - initialCapital) / initialCapital) * 100,
+        sharpe_ratio: sharpe,
+        max_drawdown_percent: maxDrawdown * 100,
+        win_rate: trades.length > 0 ? (wins / trades.length) * 100 : 0,
+        total_trades: trades.length
+      },
+      comparison: {
+        reported_sharpe_ratio: strategy.sharpe_ratio,
+        reported_quality_score: strategy.quality_score,
+        sharpe_difference: sharpe - (strategy.sharpe_ratio || 0)
+      }
+    };
+  }
+
+  // Annualized from the spacing of the equity samples (crypto trades 365 days a year)
+  calculateSharpe(equityCurve: Array<{ timestamp: Date; equity: number }>): number {
+    if (equityCurve.length < 3) return 0;
+
+    const returns: number[] = [];
+    for (let i = 1; i < equityCurve.length; i++) {
+      returns.push((equityCurve[i].equity - equityCurve[i - 1].equity) / equityCurve[i - 1].equity);
+    }
+
+    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+    const stdDev = Math.sqrt(variance);
+    if (stdDev === 0) return 0;
+
+    const spanMs = equityCurve[equityCurve.length - 1].timestamp.getTime() - equityCurve[0].timestamp.getTime();
+    const periodMs = spanMs / returns.length;
+    if (periodMs <= 0) return 0;
+
+    return (mean / stdDev) * Math.sqrt(YEAR_MS / periodMs);
+  }
+
+  private getStrategyAssets(strategy: ParsedStrategy): string[] {
+    const assets = new Set<string>(strategy.required_assets || []);
+
+    assets.add(getTradingAsset(strategy));
+    const exitSignals = strategy.exit_conditions?.exit_signals || [];
+    const conditions = [strategy.entry_conditions, ...exitSignals.map(signal => signal.condition)].flatMap(flattenConditions);
+
+    for (const condition of conditions) {
+      if (condition.primary_asset) assets.add(condition.primary_asset);
+      if (condition.secondary_asset) assets.add(condition.secondary_asset);
+      condition.triggers?.forEach(trigger => assets.add(trigger.asset));
+    }
+
+    return Array.from(assets);
+  }
+
+  private async loadMarketData(assets: string[], options: BacktestOptions): Promise<BarEvent[]> {
+    const to = options.to || new Date();
+    const from = options.from || new Date(to.getTime() - DEFAULT_LOOKBACK_DAYS * 86400000);
+
+    // market_data stores Coinbase products by base symbol (BTC-USD is recorded as BTC)
+    const symbolMap = new Map<string, string[]>();
+    for (const asset of assets) {
+      for (const stored of [asset, asset.replace('-USD', '')]) {
+        symbolMap.set(stored, [...(symbolMap.get(stored) || []), asset].filter((a, i, arr) => arr.indexOf(a) === i));
+      }
+    }
+
+    const storedSymbols = Array.from(symbolMap.keys());
+    const rows = await databaseService.all(
+      `SELECT symbol, price, timestamp FROM market_data
+       WHERE symbol IN (${storedSymbols.map(() => '?').join(', ')})
+         AND timestamp >= ? AND timestamp <= ?
+       ORDER BY timestamp ASC
+       LIMIT ?`,
+      [...storedSymbols, from.toISOString(), to.toISOString(), MAX_ROWS]
+    );
+
+    if (rows.length === MAX_ROWS) {
+      logger.warn(`Backtest data truncated to ${MAX_ROWS} rows - narrow the date range`);
+    }
+
+    const events: BarEvent[] = [];
+    for (const row of rows) {
+      const timestamp = new Date(row.timestamp);
+      for (const symbol of symbolMap.get(row.symbol) || []) {
+        events.push({
+          symbol,
+          bar: {
+            timestamp,
+            open: row.price,
+            high: row.price,
+            low: row.price,
+            close: row.price,
+            volume: 0 // market_data.volume is the rolling 24h volume, not the trade size
+          }
+        });
+      }
+    }
+
+    return events;
+  }
+
+  private parseCsv(csv: string, assets: string[]): BarEvent[] {
+    const lines = csv.trim().split(/\r?\n/);
+    const header = lines.shift()?.split(',').map(h => h.trim().toLowerCase()) || [];
+    const column = (name: string) => header.indexOf(name);
+
+    if (column('timestamp') < 0 || column('symbol') < 0 || column('close') < 0) {
+      throw new Error('CSV must include timestamp, symbol and close columns');
+    }
+
+    const events: BarEvent[] = [];
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      const cells = line.split(',').map(c => c.trim());
+      const value = (name: string) => column(name) >= 0 ? parseFloat(cells[column(name)]) : NaN;
+      const raw = cells[column('timestamp')];
+      const timestamp = /^\d+$/.test(raw) ? new Date(parseInt(raw)) : new Date(raw);
+      const close = value('close');
+
+      if (isNaN(timestamp.getTime()) || !Number.isFinite(close)) {
+        throw new Error(`Invalid CSV row: ${line}`);
+      }
+
+      // Accept either BTC or BTC-USD for a strategy that references the other form
+      const csvSymbol = cells[column('symbol')];
+      const symbol = assets.find(a => a === csvSymbol || a.replace('-USD', '') === csvSymbol) || csvSymbol;
+
+      events.push({
+        symbol,
+        bar: {
+          timestamp,
+          open: Number.isFinite(value('open')) ? value('open') : close,
+          high: Number.isFinite(value('high')) ? value('high') : close,
+          low: Number.isFinite(value('low')) ? value('low') : close,
+          close,
+          volume: Number.isFinite(value('volume')) ? value('volume') : 0
+        }
+      });
+    }
+
+    return events.sort((a, b) => a.bar.timestamp.getTime() - b.bar.timestamp.getTime());
+  }
+}
+
+export const backtestEngine = new BacktestEngine();
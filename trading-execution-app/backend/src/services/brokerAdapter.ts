@@ -0,0 +1,53 @@
+import { logger } from '../utils/logger';
+import { tradingConfig } from '../config/trading';
+import {
+  BrokerName,
+  TradeOrder,
+  TradeResult,
+  BrokerOrderStatus,
+  BrokerFill,
+  BrokerBalance
+} from '../types';
+import { webhookBroker } from './webhookBroker';
+import { coinbaseBroker } from './coinbaseBroker';
+import { paperBroker } from './paperBroker';
+
+// Common surface for every execution venue
+export interface BrokerAdapter {
+  readonly name: BrokerName;
+  readonly tracksOrders: boolean; // false when the venue can't report order status or fills
+  readonly supportsStopOrders: boolean; // Accepts resting 'stop' orders (stop_price + stop_limit_price)
+  readonly supportsOcoOrders: boolean; // Links orders by oco_group, so two exits for the same quantity can rest together
+  placeOrder(order: TradeOrder): Promise<TradeResult>;
+  cancelOrder(orderId: string): Promise<boolean>;
+  getOrder(orderId: string): Promise<BrokerOrderStatus | null>;
+  getFills(orderId?: string): Promise<BrokerFill[]>;
+  getBalances(): Promise<BrokerBalance[]>;
+}
+
+const adapters: Record<BrokerName, BrokerAdapter> = {
+  webhook: webhookBroker,
+  coinbase: coinbaseBroker,
+  paper: paperBroker
+};
+
+export function getBrokerAdapter(name?: BrokerName): BrokerAdapter {
+  // A replay never reaches a real venue, whatever broker a strategy or restored position names
+  if (tradingConfig.replay.path) {
+    return paperBroker;
+  }
+
+  const brokerName = name || tradingConfig.broker.default;
+  const adapter = adapters[brokerName];
+
+  if (!adapter) {
+    logger.warn(`Unknown broker "${brokerName}" - falling back to webhook`);
+    return webhookBroker;
+  }
+
+  return adapter;
+}
+
+export function getAvailableBrokers(): BrokerName[] {
+  return Object.keys(adapters) as BrokerName[];
+}
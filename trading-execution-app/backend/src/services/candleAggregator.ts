@@ -0,0 +1,86 @@
+import { Timeframe } from '../types';
+
+export interface PriceData {
+  timestamp: Date;   // Bucket start for candles
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export const TIMEFRAMES: Timeframe[] = ['1m', '5m', '1h', '4h', '1d'];
+
+export const TIMEFRAME_MS: Record<Timeframe, number> = {
+  '1m': 60000,
+  '5m': 300000,
+  '1h': 3600000,
+  '4h': 14400000,
+  '1d': 86400000
+};
+
+// Enough 1m candles to look back a full day
+const MAX_CANDLES: Record<Timeframe, number> = {
+  '1m': 1500,
+  '5m': 1000,
+  '1h': 720,
+  '4h': 500,
+  '1d': 365
+};
+
+// Rolls ticks (or finer bars) up into UTC-aligned OHLCV candles for every timeframe
+export class CandleAggregator {
+  private candles: Map<string, Map<Timeframe, PriceData[]>> = new Map();
+
+  addBar(symbol: string, bar: PriceData) {
+    if (!this.candles.has(symbol)) {
+      this.candles.set(symbol, new Map(TIMEFRAMES.map(tf => [tf, [] as PriceData[]])));
+    }
+
+    const series = this.candles.get(symbol)!;
+    for (const timeframe of TIMEFRAMES) {
+      this.mergeBar(series.get(timeframe)!, bar, timeframe);
+    }
+  }
+
+  // Oldest first; the last candle is still forming
+  getCandles(symbol: string, timeframe: Timeframe): PriceData[] {
+    return this.candles.get(symbol)?.get(timeframe) || [];
+  }
+
+  hasSymbol(symbol: string): boolean {
+    return this.candles.has(symbol);
+  }
+
+  private mergeBar(candles: PriceData[], bar: PriceData, timeframe: Timeframe) {
+    const bucketMs = TIMEFRAME_MS[timeframe];
+    const bucketStart = Math.floor(bar.timestamp.getTime() / bucketMs) * bucketMs;
+    const last = candles[candles.length - 1];
+
+    if (last && last.timestamp.getTime() === bucketStart) {
+      last.high = Math.max(last.high, bar.high);
+      last.low = Math.min(last.low, bar.low);
+      last.close = bar.close;
+      last.volume += bar.volume;
+      return;
+    }
+
+    // Late ticks for an already closed bucket are dropped
+    if (last && last.timestamp.getTime() > bucketStart) {
+      return;
+    }
+
+    candles.push({
+      timestamp: new Date(bucketStart),
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume
+    });
+
+    if (candles.length > MAX_CANDLES[timeframe]) {
+      candles.shift();
+    }
+  }
+}
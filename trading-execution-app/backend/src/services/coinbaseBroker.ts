@@ -0,0 +1,121 @@
+import { logger } from '../utils/logger';
+import { TradeOrder, TradeResult, BrokerOrderStatus, BrokerFill, BrokerBalance } from '../types';
+import { BrokerAdapter } from './brokerAdapter';
+import { coinbaseService } from './coinbaseService';
+
+const PRIME_STATUS_MAP: Record<string, BrokerOrderStatus['status']> = {
+  PENDING: 'open',
+  OPEN: 'open',
+  FILLED: 'filled',
+  CANCELLED: 'cancelled',
+  EXPIRED: 'cancelled',
+  FAILED: 'rejected'
+};
+
+// Places orders directly through the Coinbase Prime REST API
+export class CoinbaseBroker implements BrokerAdapter {
+  readonly name = 'coinbase' as const;
+  readonly tracksOrders = true;
+  readonly supportsStopOrders = true;
+  readonly supportsOcoOrders = false; // Each order holds the full quantity, so a second exit would be refused
+
+  async placeOrder(order: TradeOrder): Promise<TradeResult> {
+    if (!coinbaseService.isConfigured()) {
+      throw new Error('Coinbase credentials are missing - cannot place order');
+    }
+
+    // Prime only offers stops as stop-limits
+    if (order.type === 'stop' && (!order.stop_price || !order.stop_limit_price)) {
+      return { success: false, message: 'Coinbase stop orders need stop_price and stop_limit_price' };
+    }
+
+    const response = await coinbaseService.placeOrder({
+      product_id: order.product_id,
+      side: order.side,
+      type: order.type === 'stop' ? 'stop_limit' : order.type,
+      client_order_id: order.client_oid || `${Date.now()}`,
+      base_quantity: order.size,
+      quote_value: order.funds,
+      limit_price: order.type === 'stop' ? order.stop_limit_price : order.price,
+      stop_price: order.stop_price
+    });
+
+    const orderId = response?.order_id;
+    if (!orderId) {
+      return { success: false, message: response?.message || 'Coinbase did not return an order id' };
+    }
+
+    // Market orders usually fill immediately; report what we know so far
+    const status = await this.getOrder(orderId).catch(error => {
+      logger.warn(`Could not fetch status for Coinbase order ${orderId}:`, error);
+      return null;
+    });
+
+    return {
+      success: status?.status !== 'rejected',
+      order_id: orderId,
+      message: status?.status === 'rejected' ? 'Order rejected by Coinbase' : undefined,
+      filled_size: status && status.filled_size > 0 ? status.filled_size.toString() : undefined,
+      filled_price: status?.average_filled_price ? status.average_filled_price.toString() : undefined
+    };
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    try {
+      await coinbaseService.cancelOrder(orderId);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async getOrder(orderId: string): Promise<BrokerOrderStatus | null> {
+    const order = await coinbaseService.getOrder(orderId);
+    if (!order) return null;
+
+    return {
+      order_id: order.id,
+      client_oid: order.client_order_id,
+      product_id: order.product_id,
+      side: order.side?.toLowerCase() === 'sell' ? 'sell' : 'buy',
+      type: order.type === 'STOP_LIMIT' ? 'stop' : order.type?.toLowerCase() === 'limit' ? 'limit' : 'market',
+      status: PRIME_STATUS_MAP[order.status] || 'open',
+      size: parseFloat(order.base_quantity || '0'),
+      filled_size: parseFloat(order.filled_quantity || '0'),
+      average_filled_price: order.average_filled_price ? parseFloat(order.average_filled_price) : undefined,
+      limit_price: order.limit_price ? parseFloat(order.limit_price) : undefined,
+      stop_price: order.stop_price ? parseFloat(order.stop_price) : undefined,
+      created_at: new Date(order.created_at)
+    };
+  }
+
+  async getFills(orderId?: string): Promise<BrokerFill[]> {
+    if (!orderId) {
+      // Prime only exposes fills per order
+      return [];
+    }
+
+    const fills = await coinbaseService.getOrderFills(orderId);
+    return fills.map(fill => ({
+      order_id: fill.order_id,
+      product_id: fill.product_id,
+      side: fill.side?.toLowerCase() === 'sell' ? 'sell' : 'buy',
+      price: parseFloat(fill.price),
+      size: parseFloat(fill.filled_quantity),
+      fee: parseFloat(fill.commission || '0'),
+      timestamp: new Date(fill.time)
+    }));
+  }
+
+  async getBalances(): Promise<BrokerBalance[]> {
+    const balances = await coinbaseService.getBalances();
+    return balances.map(balance => ({
+      currency: balance.currency,
+      balance: parseFloat(balance.balance),
+      available: parseFloat(balance.available),
+      hold: parseFloat(balance.hold)
+    }));
+  }
+}
+
+export const coinbaseBroker = new CoinbaseBroker();
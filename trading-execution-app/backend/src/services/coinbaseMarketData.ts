@@ -0,0 +1,128 @@
+import { logger } from '../utils/logger';
+import { WebSocketFeed } from './marketDataProvider';
+
+interface CoinbaseTickerMessage {
+  type: 'ticker';
+  sequence: number;
+  product_id: string;
+  price: string;
+  open_24h: string;
+  volume_24h: string;
+  low_24h: string;
+  high_24h: string;
+  volume_30d: string;
+  best_bid: string;
+  best_ask: string;
+  side: 'buy' | 'sell';
+  time: string;
+  trade_id: number;
+  last_size: string;
+}
+
+interface CoinbaseL2Snapshot {
+  type: 'snapshot';
+  product_id: string;
+  bids: [string, string][];
+  asks: [string, string][];
+}
+
+interface CoinbaseL2Update {
+  type: 'l2update';
+  product_id: string;
+  changes: ['buy' | 'sell', string, string][];
+  time: string;
+}
+
+// Sent for every match; the first message after subscribing is a last_match
+interface CoinbaseMatchMessage {
+  type: 'match' | 'last_match';
+  trade_id: number;
+  sequence: number;
+  product_id: string;
+}
+
+// Coinbase Exchange public ticker, matches and L2 book feed
+export class CoinbaseMarketData extends WebSocketFeed {
+  readonly name = 'coinbase' as const;
+
+  protected getUrl(): string {
+    return 'wss://ws-feed.exchange.coinbase.com';
+  }
+
+  protected onOpen(): void {
+    // No auth on the public feed
+    this.markConnected();
+  }
+
+  protected sendSubscription(action: 'subscribe' | 'unsubscribe', productIds: string[]): void {
+    logger.info(`📊 ${action === 'subscribe' ? 'Subscribing to' : 'Unsubscribing from'} ${productIds.length} Coinbase products: ${productIds.join(', ')}`);
+
+    // Heartbeats keep the feed's liveness visible even when a product goes quiet.
+    // level2_batch is the unauthenticated level2 channel: same messages, batched every 50ms.
+    // Tickers fold cascading matches together, so gaps are only visible on the matches channel.
+    this.send({ type: action, channels: ['ticker', 'heartbeat', 'level2_batch', 'matches'], product_ids: productIds });
+  }
+
+  protected handleMessage(message: any): void {
+    switch (message.type) {
+      case 'ticker':
+        this.processTicker(message as CoinbaseTickerMessage);
+        break;
+      case 'match':
+      case 'last_match':
+        this.processMatch(message as CoinbaseMatchMessage);
+        break;
+      case 'snapshot':
+        this.processSnapshot(message as CoinbaseL2Snapshot);
+        break;
+      case 'l2update':
+        this.processL2Update(message as CoinbaseL2Update);
+        break;
+      case 'subscriptions':
+        logger.info('📋 Subscription confirmed:', message.channels);
+        break;
+      case 'error':
+        logger.error('📱 Coinbase websocket error message:', message);
+        break;
+    }
+  }
+
+  private processTicker(ticker: CoinbaseTickerMessage): void {
+    this.emit('quote', {
+      symbol: ticker.product_id.replace('-USD', ''), // Convert BTC-USD to BTC
+      price: parseFloat(ticker.price),
+      bid: parseFloat(ticker.best_bid),
+      ask: parseFloat(ticker.best_ask),
+      timestamp: new Date(ticker.time),
+      volume: parseFloat(ticker.volume_24h),
+      last_size: parseFloat(ticker.last_size) || 0,
+      sequence: ticker.sequence
+    });
+  }
+
+  private processMatch(match: CoinbaseMatchMessage): void {
+    this.emit('trade', {
+      symbol: match.product_id.replace('-USD', ''),
+      trade_id: match.trade_id,
+      sequence: match.sequence
+    });
+  }
+
+  private processSnapshot(snapshot: CoinbaseL2Snapshot): void {
+    const levels = (rows: [string, string][]) => rows.map(([price, size]) => [parseFloat(price), parseFloat(size)] as [number, number]);
+
+    this.emit('book', {
+      symbol: snapshot.product_id.replace('-USD', ''),
+      snapshot: { bids: levels(snapshot.bids), asks: levels(snapshot.asks) }
+    });
+  }
+
+  private processL2Update(update: CoinbaseL2Update): void {
+    this.emit('book', {
+      symbol: update.product_id.replace('-USD', ''),
+      changes: update.changes.map(([side, price, size]) => [side, parseFloat(price), parseFloat(size)])
+    });
+  }
+}
+
+export const coinbaseMarketData = new CoinbaseMarketData();
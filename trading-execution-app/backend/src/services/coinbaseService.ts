@@ -235,6 +235,93 @@ export class CoinbaseService {
     }
   }
 
+  private getPortfolioId(): string {
+    if (!process.env.COINBASE_PORTFOLIO_ID) {
+      throw new Error('COINBASE_PORTFOLIO_ID is required for trading portfolio access');
+    }
+    return process.env.COINBASE_PORTFOLIO_ID;
+  }
+
+  async placeOrder(order: {
+    product_id: string;
+    side: 'buy' | 'sell';
+    type: 'market' | 'limit' | 'stop_limit';
+    client_order_id: string;
+    base_quantity?: string;
+    quote_value?: string;
+    limit_price?: string;
+    stop_price?: string;
+  }): Promise<any> {
+    const portfolioId = this.getPortfolioId();
+    const requestPath = `/v1/portfolios/${portfolioId}/order`;
+    const body = JSON.stringify({
+      portfolio_id: portfolioId,
+      product_id: order.product_id,
+      side: order.side.toUpperCase(),
+      type: order.type.toUpperCase(),
+      client_order_id: order.client_order_id,
+      base_quantity: order.base_quantity,
+      quote_value: order.quote_value,
+      limit_price: order.limit_price,
+      stop_price: order.stop_price,
+      time_in_force: order.type === 'market' ? 'IMMEDIATE_OR_CANCEL' : 'GOOD_UNTIL_CANCELLED'
+    });
+    const headers = {
+      ...this.getHeaders('POST', requestPath, body),
+      'Content-Type': 'application/json'
+    };
+
+    try {
+      const response = await axios.post(`${this.baseUrl}${requestPath}`, body, { headers });
+      return response.data;
+    } catch (error: any) {
+      logger.error(`Failed to place Coinbase order for ${order.product_id}:`, error.response?.data || error.message);
+      throw error;
+    }
+  }
+
+  async cancelOrder(orderId: string): Promise<any> {
+    const portfolioId = this.getPortfolioId();
+    const requestPath = `/v1/portfolios/${portfolioId}/orders/${orderId}/cancel`;
+    const headers = this.getHeaders('POST', requestPath);
+
+    try {
+      const response = await axios.post(`${this.baseUrl}${requestPath}`, undefined, { headers });
+      return response.data;
+    } catch (error: any) {
+      logger.error(`Failed to cancel Coinbase order ${orderId}:`, error.response?.data || error.message);
+      throw error;
+    }
+  }
+
+  async getOrder(orderId: string): Promise<any> {
+    const portfolioId = this.getPortfolioId();
+    const requestPath = `/v1/portfolios/${portfolioId}/orders/${orderId}`;
+    const headers = this.getHeaders('GET', requestPath);
+
+    try {
+      const response = await axios.get(`${this.baseUrl}${requestPath}`, { headers });
+      return response.data?.order || null;
+    } catch (error: any) {
+      logger.error(`Failed to get Coinbase order ${orderId}:`, error.response?.data || error.message);
+      throw error;
+    }
+  }
+
+  async getOrderFills(orderId: string): Promise<any[]> {
+    const portfolioId = this.getPortfolioId();
+    const requestPath = `/v1/portfolios/${portfolioId}/orders/${orderId}/fills`;
+    const headers = this.getHeaders('GET', requestPath);
+
+    try {
+      const response = await axios.get(`${this.baseUrl}${requestPath}`, { headers });
+      return response.data?.fills || [];
+    } catch (error: any) {
+      logger.error(`Failed to get fills for Coinbase order ${orderId}:`, error.response?.data || error.message);
+      throw error;
+    }
+  }
+
   isConfigured(): boolean {
     return !!(this.apiKey && this.apiSecret && this.passphrase);
   }
@@ -2,7 +2,9 @@ import fs from 'fs';
 import path from 'path';
 import { logger } from '../utils/logger';
 import { databaseService } from '../config/database';
+import { tradingConfig } from '../config/trading';
 import { TradeSignal } from '../types';
+import { orderBookService } from './orderBook';
 
 export interface ComplianceEvent {
   id?: number;
@@ -92,7 +94,7 @@ export class ComplianceLogger {
   ): Promise<void> {
     const riskAssessment = {
       volatility: this.calculateVolatility(marketData),
-      liquidity_check: this.checkLiquidity(signal.asset),
+      liquidity_check: this.checkLiquidity(signal.asset, signal.side, signal.notional_usd || tradingConfig.positions.defaultSizeUSD),
       position_sizing: this.validatePositionSize(signal, systemState),
       market_conditions: this.assessMarketConditions(marketData),
       strategy_health: this.checkStrategyHealth(signal.strategy_id, systemState)
@@ -267,10 +269,19 @@ export class ComplianceLogger {
     return count > 0 ? totalVolatility / count : 0;
   }
 
-  private checkLiquidity(asset: string): boolean {
-    // Major crypto assets are considered liquid
-    const liquidAssets = ['BTC', 'ETH', 'BTC-USD', 'ETH-USD'];
-    return liquidAssets.includes(asset);
+  private checkLiquidity(asset: string, side: 'buy' | 'sell', notionalUsd: number) {
+    const depth = orderBookService.getDepth(asset);
+    if (!depth) {
+      return { liquid: false, reason: 'No live order book' };
+    }
+
+    // Liquid when the visible book fills the order within the slippage limit
+    const estimate = orderBookService.estimateSlippage(asset, side, notionalUsd);
+    const liquid = !!estimate
+      && estimate.fully_fillable
+      && estimate.slippage_percent <= tradingConfig.liquidity.maxSlippagePercent;
+
+    return { liquid, depth, estimate };
   }
 
   private validatePositionSize(signal: TradeSignal, systemState: any): boolean {
@@ -0,0 +1,678 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { TechnicalIndicators } from './technicalIndicators';
+import { ConditionTrace, EntryCondition, IndicatorCondition, PendingSignal, TriggerSnapshot } from '../types';
+import { tradingConfig } from '../config/trading';
+
+// Where delay_days signals wait to mature - persisted for live trading, in memory for backtests.
+// A signal is marked matured when its delay ends and stays armed until the entry it fires has been
+// submitted (consumed), so a failed entry retries; one left unused past its window expires.
+export interface PendingSignalStore {
+  // The signal still waiting or matured but unused for this key
+  findPending(strategyId: string, signalKey: string): PendingSignal | undefined;
+  findMatured(strategyId: string): PendingSignal[];
+  createPending(signal: Omit<PendingSignal, 'id' | 'status'>): Promise<PendingSignal>;
+  markMatured(id: string, maturedAt: Date): Promise<void>;
+  markConsumed(id: string, consumedAt: Date): Promise<void>;
+  expire(id: string, expiredAt: Date): Promise<void>;
+  // A cancelled signal doesn't re-arm until its triggers have gone false
+  isCancelled(strategyId: string, signalKey: string): boolean;
+  clearCancelled(strategyId: string, signalKey: string): void;
+}
+
+export class InMemoryPendingSignalStore implements PendingSignalStore {
+  private signals: Map<string, PendingSignal> = new Map();
+  private cancelled: Set<string> = new Set();
+
+  findPending(strategyId: string, signalKey: string): PendingSignal | undefined {
+    return Array.from(this.signals.values()).find(s =>
+      isArmed(s) && s.strategy_id === strategyId && s.signal_key === signalKey
+    );
+  }
+
+  findMatured(strategyId: string): PendingSignal[] {
+    return Array.from(this.signals.values()).filter(s =>
+      s.status === 'matured' && s.strategy_id === strategyId
+    );
+  }
+
+  async createPending(signal: Omit<PendingSignal, 'id' | 'status'>): Promise<PendingSignal> {
+    const pending: PendingSignal = { ...signal, id: uuidv4(), status: 'pending' };
+    this.signals.set(pending.id, pending);
+    return pending;
+  }
+
+  async markMatured(id: string, maturedAt: Date): Promise<void> {
+    this.resolve(id, 'matured', maturedAt);
+  }
+
+  async markConsumed(id: string, consumedAt: Date): Promise<void> {
+    this.resolve(id, 'consumed', consumedAt);
+  }
+
+  async expire(id: string, expiredAt: Date): Promise<void> {
+    this.resolve(id, 'expired', expiredAt);
+  }
+
+  private resolve(id: string, status: PendingSignal['status'], at: Date): void {
+    const signal = this.signals.get(id);
+    if (signal && isArmed(signal)) {
+      signal.status = status;
+      signal.resolved_at = at;
+    }
+  }
+
+  async cancel(id: string, cancelledAt: Date = new Date()): Promise<void> {
+    const signal = this.signals.get(id);
+    if (signal && isArmed(signal)) {
+      signal.status = 'cancelled';
+      signal.resolved_at = cancelledAt;
+      this.cancelled.add(cancellationKey(signal.strategy_id, signal.signal_key));
+    }
+  }
+
+  isCancelled(strategyId: string, signalKey: string): boolean {
+    return this.cancelled.has(cancellationKey(strategyId, signalKey));
+  }
+
+  clearCancelled(strategyId: string, signalKey: string): void {
+    this.cancelled.delete(cancellationKey(strategyId, signalKey));
+  }
+}
+
+export function cancellationKey(strategyId: string, signalKey: string): string {
+  return `${strategyId}|${signalKey}`;
+}
+
+// Waiting out its delay, or matured and not yet used by an entry
+export function isArmed(signal: PendingSignal): boolean {
+  return signal.status === 'pending' || signal.status === 'matured';
+}
+
+// Uses up the matured signals behind a strategy's entry; called once the entry has been submitted
+export async function consumeMaturedSignals(store: PendingSignalStore, strategyId: string, now: Date): Promise<void> {
+  for (const signal of store.findMatured(strategyId)) {
+    await store.markConsumed(signal.id, now);
+  }
+}
+
+// Entry-condition evaluators shared by the live ConditionMonitor and the backtest engine
+export class ConditionEvaluator {
+  constructor(
+    private indicators: TechnicalIndicators,
+    private clock: () => Date = () => new Date(),
+    private signals: PendingSignalStore = new InMemoryPendingSignalStore(),
+    private maturedTtlMs: number = tradingConfig.monitoring.maturedSignalTtlHours * 60 * 60 * 1000
+  ) {}
+
+  // Whether the condition is met; a condition that could not be evaluated is not
+  async evaluate(condition: EntryCondition, strategyId: string = 'unassigned'): Promise<boolean> {
+    if (isConditionGroup(condition)) {
+      return (await this.evaluateTree(condition, strategyId)).result === true;
+    }
+    return (await this.evaluateLeaf(condition, strategyId)) === true;
+  }
+
+  // null when the leaf could not be evaluated (missing data, bad parameters), so not() can't turn it into a signal
+  private async evaluateLeaf(condition: EntryCondition, strategyId: string): Promise<boolean | null> {
+    switch (condition.type) {
+      case 'percentage_move':
+        return await this.checkPercentageMove(condition);
+        
+      case 'correlation':
+        return await this.checkCorrelation(condition);
+        
+      case 'single_correlation':
+        return await this.checkSingleCorrelation(condition);
+        
+      case 'multi_asset_correlation':
+        return await this.checkMultiAssetCorrelation(condition, strategyId);
+        
+      case 'technical_indicator':
+        return await this.checkTechnicalIndicator(condition);
+
+      case 'strategy_dsl':
+        logger.error('strategy_dsl entries are evaluated from the compiled spec - use evaluateStrategyEntry');
+        return null;
+        
+      default:
+        logger.warn(`Unknown condition type: ${condition.type}`);
+        return null;
+    }
+  }
+
+  // Evaluates a condition and reports every node's result. Groups stop at the first child that decides
+  // them, so later children come back with a null result instead of being evaluated. A node that could
+  // not be evaluated is unknown: a group holds or fails only if it would whatever its unknown children
+  // turned out to be, and is unknown otherwise, so not() over missing data never fires.
+  async evaluateTree(condition: EntryCondition, strategyId: string = 'unassigned', path: string = 'entry'): Promise<ConditionTrace> {
+    const trace: ConditionTrace = { path, type: condition.type, label: describeCondition(condition), result: null };
+
+    if (!isConditionGroup(condition)) {
+      trace.result = await this.evaluateLeaf(condition, strategyId);
+      if (trace.result === null) trace.unknown = true;
+      return trace;
+    }
+
+    const children = condition.conditions || [];
+    const needed = requiredChildren(condition);
+    if (needed === null) {
+      logger.error(`Invalid ${condition.type} condition at ${path} - ${describeGroupError(condition)}`);
+      trace.unknown = true;
+      return trace;
+    }
+
+    trace.children = children.map((child, index) => ({
+      path: `${path}/${index}`,
+      type: child.type,
+      label: describeCondition(child),
+      result: null
+    }));
+
+    const decide = async (): Promise<boolean | null> => {
+      let met = 0;
+      let unknown = 0;
+      for (let index = 0; index < children.length; index++) {
+        const child = await this.evaluateTree(children[index], strategyId, `${path}/${index}`);
+        trace.children![index] = child;
+        if (child.result === true) met++;
+        if (child.unknown) unknown++;
+
+        const remaining = children.length - index - 1;
+        if (met >= needed || met + unknown + remaining < needed) break;
+      }
+
+      const held = met >= needed ? true : met + unknown < needed ? false : null;
+      return condition.type === 'not' && held !== null ? !held : held;
+    };
+
+    const delayDays = condition.delay_days || 0;
+    trace.result = delayDays > 0
+      ? await this.evaluateDelayed(strategyId, `${strategyId}:${path}`, delayDays, condition, async () => {
+        const held = await decide();
+        return held === null ? null : held ? [] : false;
+      })
+      : await decide();
+    if (trace.result === null) trace.unknown = true;
+
+    return trace;
+  }
+
+  private async checkPercentageMove(condition: EntryCondition): Promise<boolean | null> {
+    if (!condition.primary_asset || condition.threshold === undefined) {
+      logger.error('Invalid percentage move condition - missing primary_asset or threshold');
+      return null;
+    }
+
+    try {
+      const percentMove = await this.indicators.getPercentageMove(
+        condition.primary_asset,
+        condition.timeframe || '1h'
+      );
+
+      let conditionMet = false;
+      
+      switch (condition.direction) {
+        case 'up':
+          conditionMet = percentMove > condition.threshold;
+          break;
+        case 'down':
+          conditionMet = percentMove < -condition.threshold;
+          break;
+        case 'any':
+          conditionMet = Math.abs(percentMove) > condition.threshold;
+          break;
+        default:
+          conditionMet = Math.abs(percentMove) > condition.threshold;
+      }
+
+      if (conditionMet) {
+        logger.info(`Percentage move condition met: ${condition.primary_asset} moved ${percentMove.toFixed(2)}%`);
+      }
+
+      return conditionMet;
+    } catch (error) {
+      logger.error('Error checking percentage move:', error);
+      return null;
+    }
+  }
+
+  private async checkCorrelation(condition: EntryCondition): Promise<boolean | null> {
+    if (!condition.secondary_asset || !condition.additional_params?.correlation_threshold || condition.threshold === undefined) {
+      logger.error('Invalid correlation condition - missing required fields');
+      return null;
+    }
+
+    try {
+      // First check correlation threshold
+      const primaryAsset = condition.primary_asset || 'BTC';
+      const correlation = await this.indicators.calculateCorrelation(
+        primaryAsset,
+        condition.secondary_asset,
+        20 // 20 period correlation
+      );
+
+      if (Math.abs(correlation) < condition.additional_params.correlation_threshold) {
+        return false; // Correlation not strong enough
+      }
+
+      // A zero threshold checks the correlation alone, e.g. under not() to exit when it decays
+      if (condition.threshold === 0) {
+        return true;
+      }
+
+      // Then check for the percentage move
+      const percentMove = await this.indicators.getPercentageMove(
+        condition.secondary_asset,
+        condition.timeframe || '1h'
+      );
+
+      const moveConditionMet = Math.abs(percentMove) > condition.threshold;
+
+      if (moveConditionMet) {
+        logger.info(`Correlation condition met: ${condition.secondary_asset} moved ${percentMove.toFixed(2)}% with correlation ${correlation.toFixed(3)}`);
+      }
+
+      return moveConditionMet;
+    } catch (error) {
+      logger.error('Error checking correlation:', error);
+      return null;
+    }
+  }
+
+  private async checkSingleCorrelation(condition: EntryCondition): Promise<boolean | null> {
+    if (!condition.secondary_asset || !condition.threshold) {
+      logger.error('Invalid single correlation condition - missing secondary_asset or threshold');
+      return null;
+    }
+
+    try {
+      // Check correlation threshold if specified
+      if (condition.additional_params?.correlation_threshold) {
+        const correlation = await this.indicators.calculateCorrelation(
+          condition.primary_asset || condition.target_asset || 'BTC',
+          condition.secondary_asset,
+          20 // 20 period correlation
+        );
+
+        if (Math.abs(correlation) < condition.additional_params.correlation_threshold) {
+          return false; // Correlation not strong enough
+        }
+      }
+
+      // Check for the percentage move
+      const percentMove = await this.indicators.getPercentageMove(
+        condition.secondary_asset,
+        condition.timeframe || '1h'
+      );
+
+      const moveConditionMet = Math.abs(percentMove) > condition.threshold;
+
+      if (moveConditionMet) {
+        logger.info(`Single correlation condition met: ${condition.secondary_asset} moved ${percentMove.toFixed(2)}%`);
+      }
+
+      return moveConditionMet;
+    } catch (error) {
+      logger.error('Error checking single correlation:', error);
+      return null;
+    }
+  }
+
+  private async checkMultiAssetCorrelation(condition: EntryCondition, strategyId: string): Promise<boolean | null> {
+    if (!condition.triggers || !Array.isArray(condition.triggers) || condition.triggers.length === 0) {
+      logger.error('Invalid multi asset correlation condition - missing triggers');
+      return null;
+    }
+
+    const signalKey = `${strategyId}:${condition.target_asset}:${condition.triggers.map(t => t.asset).join('_')}`;
+
+    return this.evaluateDelayed(strategyId, signalKey, condition.delay_days || 0, condition, async () => {
+      try {
+        // Check all triggers first
+        const triggerResults = await Promise.all(
+          condition.triggers!.map(async (trigger) => {
+            if (!trigger.asset) {
+              logger.warn('Trigger missing asset name');
+              return null;
+            }
+
+            // Traditional assets pull Polygon aggregates into the candle history first
+            if (['WTI_CRUDE_OIL', 'GOLD', 'SPY', 'QQQ'].includes(trigger.asset)) {
+              const currentPrice = await this.indicators.getCurrentPriceAsync(trigger.asset);
+              if (!currentPrice) {
+                logger.warn(`No price data available for ${trigger.asset}`);
+                return null;
+              }
+            }
+
+            let percentMove: number;
+            try {
+              percentMove = await this.indicators.getPercentageMove(trigger.asset, condition.timeframe || '1h');
+            } catch (error: any) {
+              logger.warn(`No price move available for ${trigger.asset}: ${error.message}`);
+              return null;
+            }
+
+            const threshold = trigger.threshold_percent || 2.0; // Default 2% threshold
+            
+            let conditionMet = false;
+            switch (trigger.direction) {
+              case 'up':
+                conditionMet = percentMove > threshold;
+                break;
+              case 'down':
+                conditionMet = percentMove < -threshold;
+                break;
+              default:
+                conditionMet = Math.abs(percentMove) > threshold;
+            }
+
+            if (!conditionMet) {
+              return false;
+            }
+
+            logger.info(`Multi-asset trigger met: ${trigger.asset} moved ${percentMove.toFixed(2)}% ${trigger.direction}`);
+
+            const snapshot: TriggerSnapshot = {
+              asset: trigger.asset,
+              direction: trigger.direction,
+              threshold_percent: threshold,
+              percent_move: percentMove,
+              price: this.indicators.getCurrentPrice(trigger.asset)
+            };
+            return snapshot;
+          })
+        );
+
+        // All triggers must be met for multi-asset condition; one that is known to miss decides it
+        if (triggerResults.some(result => result === false)) {
+          return false;
+        }
+        if (triggerResults.some(result => result === null)) {
+          return null;
+        }
+
+        logger.info(`All multi-asset triggers met for target: ${condition.target_asset}`);
+        return triggerResults as TriggerSnapshot[];
+      } catch (error) {
+        logger.error('Error checking multi asset correlation:', error);
+        return null;
+      }
+    });
+  }
+
+  // Reports a met condition only once it has held off for delayDays; a signal already waiting matures on
+  // schedule whatever the condition does now, and keeps reporting met until consumeMatured, or until it
+  // has gone unused for longer than the matured window and expires. A cancelled
+  // signal only re-arms once check has come back unmet. check returns what triggered it, false when unmet,
+  // or null when it could not be evaluated - which is passed through so not() can't turn it into a signal.
+  async evaluateDelayed(
+    strategyId: string,
+    signalKey: string,
+    delayDays: number,
+    target: Pick<EntryCondition, 'target_asset' | 'action'>,
+    check: () => Promise<TriggerSnapshot[] | false | null>
+  ): Promise<boolean | null> {
+    const now = this.clock();
+
+    if (delayDays > 0) {
+      const pending = this.signals.findPending(strategyId, signalKey);
+      if (pending && now.getTime() - pending.matures_at.getTime() > this.maturedTtlMs) {
+        // Left unused too long to still stand for the move that triggered it; a fresh trigger starts over
+        await this.signals.expire(pending.id, now);
+        logger.warn(`Matured signal ${signalKey} expired unused after ${(this.maturedTtlMs / 3600000).toFixed(0)}h`);
+      } else if (pending) {
+        if (now >= pending.matures_at) {
+          if (pending.status === 'pending') {
+            await this.signals.markMatured(pending.id, now);
+            logger.info(`Delay period of ${delayDays} days has passed for ${target.target_asset}`);
+          }
+          // Consumed by consumeMatured once the entry is in, not here
+          return true;
+        }
+
+        const daysSinceTriggered = (now.getTime() - pending.triggered_at.getTime()) / (1000 * 60 * 60 * 24);
+        logger.info(`Waiting for delay: ${daysSinceTriggered.toFixed(1)}/${delayDays} days for ${target.target_asset}`);
+        return false;
+      }
+    }
+
+    const snapshot = await check();
+    if (snapshot === null) {
+      return null;
+    }
+
+    const cancelled = delayDays > 0 && this.signals.isCancelled(strategyId, signalKey);
+    if (!snapshot) {
+      if (cancelled) {
+        this.signals.clearCancelled(strategyId, signalKey);
+        logger.info(`Triggers cleared for cancelled signal ${signalKey} - re-armed`);
+      }
+      return false;
+    }
+
+    if (cancelled) {
+      return false;
+    }
+
+    if (delayDays > 0) {
+      await this.signals.createPending({
+        strategy_id: strategyId,
+        signal_key: signalKey,
+        target_asset: target.target_asset,
+        action: target.action,
+        delay_days: delayDays,
+        triggered_at: now,
+        matures_at: new Date(now.getTime() + delayDays * 24 * 60 * 60 * 1000),
+        trigger_snapshot: snapshot
+      });
+      logger.info(`Entry met for ${target.target_asset}, starting ${delayDays} day delay`);
+      return false;
+    }
+
+    return true;
+  }
+
+  async consumeMatured(strategyId: string): Promise<void> {
+    await consumeMaturedSignals(this.signals, strategyId, this.clock());
+  }
+
+  private async checkTechnicalIndicator(condition: EntryCondition): Promise<boolean | null> {
+    const indicator = condition.additional_params?.indicator;
+    if (!condition.primary_asset || !indicator?.name || !indicator.operator) {
+      logger.error('Invalid technical indicator condition - missing primary_asset or additional_params.indicator');
+      return null;
+    }
+
+    try {
+      const current = await this.getIndicatorReading(condition.primary_asset, indicator, 0);
+      let conditionMet: boolean;
+
+      switch (indicator.operator) {
+        case 'above':
+          conditionMet = current.line > current.reference;
+          break;
+        case 'below':
+          conditionMet = current.line < current.reference;
+          break;
+        case 'crosses_above': {
+          const previous = await this.getIndicatorReading(condition.primary_asset, indicator, 1);
+          conditionMet = previous.line <= previous.reference && current.line > current.reference;
+          break;
+        }
+        case 'crosses_below': {
+          const previous = await this.getIndicatorReading(condition.primary_asset, indicator, 1);
+          conditionMet = previous.line >= previous.reference && current.line < current.reference;
+          break;
+        }
+        default:
+          logger.warn(`Unknown indicator operator: ${indicator.operator}`);
+          return null;
+      }
+
+      if (conditionMet) {
+        logger.info(
+          `Technical indicator condition met: ${condition.primary_asset} ${indicator.name} ` +
+          `${current.line.toFixed(2)} ${indicator.operator} ${current.reference.toFixed(2)}`
+        );
+      }
+
+      return conditionMet;
+    } catch (error) {
+      logger.error('Error checking technical indicator:', error);
+      return null;
+    }
+  }
+
+  // Reduces every indicator to a line compared against a reference (see IndicatorCondition)
+  private async getIndicatorReading(
+    asset: string,
+    indicator: IndicatorCondition,
+    offset: number
+  ): Promise<{ line: number; reference: number }> {
+    const timeframe = indicator.timeframe || '1m';
+
+    switch (indicator.name) {
+      case 'rsi':
+        return {
+          line: await this.indicators.calculateRSI(asset, indicator.period || 14, timeframe, offset),
+          reference: indicator.value ?? 30
+        };
+
+      case 'sma_crossover':
+        return {
+          line: await this.indicators.calculateSMA(asset, indicator.fast_period || 50, timeframe, offset),
+          reference: await this.indicators.calculateSMA(asset, indicator.slow_period || 200, timeframe, offset)
+        };
+
+      case 'ema_crossover':
+        return {
+          line: await this.indicators.calculateEMA(asset, indicator.fast_period || 12, timeframe, offset),
+          reference: await this.indicators.calculateEMA(asset, indicator.slow_period || 26, timeframe, offset)
+        };
+
+      case 'macd': {
+        const macd = await this.indicators.calculateMACD(
+          asset,
+          indicator.fast_period || 12,
+          indicator.slow_period || 26,
+          indicator.signal_period || 9,
+          timeframe,
+          offset
+        );
+        return { line: macd.macd, reference: indicator.value ?? macd.signal };
+      }
+
+      case 'bollinger_bands': {
+        const bands = await this.indicators.calculateBollingerBands(
+          asset,
+          indicator.period || 20,
+          indicator.std_dev || 2,
+          timeframe,
+          offset
+        );
+        const defaultBand = indicator.operator === 'below' || indicator.operator === 'crosses_above' ? 'lower' : 'upper';
+        return {
+          line: await this.indicators.calculateSMA(asset, 1, timeframe, offset), // Close as of offset
+          reference: bands[indicator.band || defaultBand]
+        };
+      }
+
+      case 'vwap':
+        return {
+          line: await this.indicators.calculateSMA(asset, 1, timeframe, offset),
+          reference: await this.indicators.calculateVWAP(asset, indicator.period, timeframe, offset)
+        };
+
+      case 'stochastic': {
+        const stochastic = await this.indicators.calculateStochastic(
+          asset,
+          indicator.period || 14,
+          indicator.signal_period || 3,
+          timeframe,
+          offset
+        );
+        return { line: stochastic.k, reference: indicator.value ?? stochastic.d };
+      }
+
+      default:
+        throw new Error(`Unknown indicator: ${(indicator as IndicatorCondition).name}`);
+    }
+  }
+}
+
+export function isConditionGroup(condition: EntryCondition): boolean {
+  return ['all', 'any', 'not', 'at_least'].includes(condition.type);
+}
+
+// How many children must be true for the group to hold (not: how many it wraps), or null if malformed
+function requiredChildren(condition: EntryCondition): number | null {
+  const count = condition.conditions?.length || 0;
+
+  switch (condition.type) {
+    case 'all':
+      return count > 0 ? count : null;
+    case 'any':
+      return count > 0 ? 1 : null;
+    case 'not':
+      return count === 1 ? 1 : null;
+    case 'at_least': {
+      const minMet = condition.min_met;
+      return minMet !== undefined && Number.isInteger(minMet) && minMet >= 1 && minMet <= count ? minMet : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function describeGroupError(condition: EntryCondition): string {
+  const count = condition.conditions?.length || 0;
+  if (condition.type === 'not') return `needs exactly one child, has ${count}`;
+  if (condition.type === 'at_least' && count > 0) return `min_met ${condition.min_met} must be a whole number from 1 to ${count}`;
+  return 'missing conditions';
+}
+
+// Short readable form of a node for traces and logs
+export function describeCondition(condition: EntryCondition): string {
+  if (condition.label) return condition.label;
+
+  const count = condition.conditions?.length || 0;
+  const indicator = condition.additional_params?.indicator;
+
+  switch (condition.type) {
+    case 'all':
+      return `all of ${count}`;
+    case 'any':
+      return `any of ${count}`;
+    case 'not':
+      return 'not';
+    case 'at_least':
+      return `at least ${condition.min_met} of ${count}`;
+    case 'percentage_move':
+      return `${condition.primary_asset} ${condition.direction || 'any'} ${condition.threshold}% over ${condition.timeframe || '1h'}`;
+    case 'correlation':
+    case 'single_correlation':
+      return condition.threshold
+        ? `${condition.primary_asset} ${condition.threshold}% move with ${condition.secondary_asset}`
+        : `${condition.primary_asset} correlated with ${condition.secondary_asset} at ${condition.additional_params?.correlation_threshold}`;
+    case 'multi_asset_correlation':
+      return `${(condition.triggers || []).map(trigger => `${trigger.asset} ${trigger.direction}`).join(' & ')} -> ${condition.action} ${condition.target_asset}`;
+    case 'technical_indicator':
+      return `${condition.primary_asset} ${indicator?.name} ${indicator?.operator}${indicator?.value !== undefined ? ` ${indicator.value}` : ''}`;
+    default:
+      return condition.type;
+  }
+}
+
+// Every node in a condition tree, root first
+export function flattenConditions(condition: EntryCondition): EntryCondition[] {
+  return [condition, ...(condition.conditions || []).flatMap(flattenConditions)];
+}
+
+// One line per node, indented by depth: ✅ met, ❌ not met, ❔ unknown (data missing), ⏭️ not evaluated
+export function formatConditionTrace(trace: ConditionTrace, depth: number = 0): string {
+  const mark = trace.unknown ? '❔' : trace.result === null ? '⏭️' : trace.result ? '✅' : '❌';
+  const line = `${'  '.repeat(depth)}${mark} ${trace.label}`;
+  return [line, ...(trace.children || []).map(child => formatConditionTrace(child, depth + 1))].join('\n');
+}
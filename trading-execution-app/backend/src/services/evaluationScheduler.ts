@@ -0,0 +1,111 @@
+import { logger } from '../utils/logger';
+import { tradingConfig } from '../config/trading';
+import { tradingMetrics } from '../monitoring/metrics';
+import { marketDataStream } from './marketDataStream';
+import { marketClock, ClockTimer } from './marketClock';
+
+export type EvaluationKind = 'strategy' | 'position';
+
+export interface EvaluationTarget {
+  getDependents(symbol: string): string[]; // Ids whose evaluation reads this symbol
+  evaluate(id: string): Promise<void>;
+}
+
+// Strategies and positions name pairs ('BTC-USD'); the stream publishes base symbols ('BTC')
+export function baseSymbol(asset: string): string {
+  return asset.replace('-USD', '').toUpperCase();
+}
+
+// Re-evaluates only the strategies and positions that read a symbol when a quote for it arrives.
+// Bursts of quotes collapse into one evaluation, and the same id is never evaluated twice at once.
+export class EvaluationScheduler {
+  private targets: Map<EvaluationKind, EvaluationTarget> = new Map();
+  private pending: Map<string, ClockTimer> = new Map();
+  private running: Map<string, Promise<void>> = new Map();
+  private rerun: Set<string> = new Set();
+  private listening = false;
+
+  constructor(private debounceMs: number = tradingConfig.monitoring.evaluationDebounceMs) {}
+
+  register(kind: EvaluationKind, target: EvaluationTarget): void {
+    this.targets.set(kind, target);
+
+    if (!this.listening) {
+      this.listening = true;
+      marketDataStream.on('quote', (quote: { symbol: string }) => this.handleQuote(quote.symbol));
+    }
+  }
+
+  handleQuote(symbol: string): void {
+    const base = baseSymbol(symbol);
+
+    for (const [kind, target] of this.targets) {
+      for (const id of target.getDependents(base)) {
+        this.schedule(kind, id);
+      }
+    }
+  }
+
+  // Runs at most debounceMs after the first quote of a burst; later quotes in the window ride along
+  schedule(kind: EvaluationKind, id: string): void {
+    const key = `${kind}:${id}`;
+    if (this.pending.has(key)) return;
+
+    this.pending.set(key, marketClock.setTimeout(() => {
+      this.pending.delete(key);
+      return this.run(kind, id);
+    }, this.debounceMs));
+  }
+
+  // Evaluates now, or once more after the evaluation already in flight for this id
+  run(kind: EvaluationKind, id: string): Promise<void> {
+    const key = `${kind}:${id}`;
+    const inFlight = this.running.get(key);
+    if (inFlight) {
+      this.rerun.add(key);
+      return inFlight;
+    }
+
+    const evaluation = this.evaluate(kind, id).finally(() => {
+      this.running.delete(key);
+      if (this.rerun.delete(key)) {
+        this.schedule(kind, id);
+      }
+    });
+
+    this.running.set(key, evaluation);
+    return evaluation;
+  }
+
+  // Drops evaluations that are waiting out their debounce (e.g. when monitoring halts)
+  cancel(kind: EvaluationKind): void {
+    for (const [key, timer] of this.pending) {
+      if (!key.startsWith(`${kind}:`)) continue;
+      marketClock.clear(timer);
+      this.pending.delete(key);
+    }
+  }
+
+  getStats() {
+    return {
+      pending: this.pending.size,
+      running: this.running.size
+    };
+  }
+
+  private async evaluate(kind: EvaluationKind, id: string): Promise<void> {
+    const target = this.targets.get(kind);
+    if (!target) return;
+
+    const endTimer = tradingMetrics.conditionCheckDuration.startTimer({ kind });
+    try {
+      await target.evaluate(id);
+    } catch (error) {
+      logger.error(`Error evaluating ${kind} ${id}:`, error);
+    } finally {
+      endTimer();
+    }
+  }
+}
+
+export const evaluationScheduler = new EvaluationScheduler();
@@ -0,0 +1,207 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { FieldProvenance, SpecCondition, SpecQuantity, StrategySpec } from '../types';
+import { LLMMessage, LLMProvider, descriptionHash, readStrategyRequest } from './llmProvider';
+
+// Same size as text-embedding-ada-002, which the Pinecone indexes are built for
+const EMBEDDING_DIMENSIONS = 1536;
+
+const CRYPTO_TICKERS = new Set(['BTC', 'ETH', 'SOL', 'DOGE', 'ADA', 'XRP', 'AVAX', 'LINK', 'LTC', 'DOT', 'MATIC']);
+
+const ASSET_NAMES: Record<string, string> = {
+  'wti crude oil': 'WTI_CRUDE_OIL',
+  'crude oil': 'WTI_CRUDE_OIL',
+  oil: 'WTI_CRUDE_OIL',
+  bitcoin: 'BTC-USD',
+  ethereum: 'ETH-USD',
+  solana: 'SOL-USD',
+  gold: 'GOLD'
+};
+
+// Tickers must be upper case so ordinary words never read as assets
+const ASSET = '(WTI [Cc]rude [Oo]il|[Cc]rude [Oo]il|[Bb]itcoin|[Ee]thereum|[Ss]olana|[Gg]old|[Oo]il|[A-Z][A-Z0-9]{1,5}(?:-USD)?)';
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+
+const UP_WORDS = ['rises', 'rallies', 'gains', 'jumps', 'climbs', 'is up', 'goes up', 'moves up', 'up'];
+const DOWN_WORDS = ['falls', 'drops', 'declines', 'is down', 'goes down', 'moves down', 'down'];
+
+const MOVE_PATTERN = new RegExp(
+  `${ASSET}\\s+(?:price\\s+)?(${[...UP_WORDS, ...DOWN_WORDS, 'moves'].join('|')})\\s+(?:by\\s+)?(?:more than\\s+|over\\s+|at least\\s+|>\\s*)?${NUMBER}\\s*%`,
+  'g'
+);
+const TARGET_PATTERN = new RegExp(`\\b(buy|sell|short|long|Buy|Sell|Short|Long|BUY|SELL)\\s+(?:some\\s+)?${ASSET}`);
+const STOP_PATTERN = new RegExp(`${NUMBER}\\s*%\\s*(?:trailing\\s+)?stop|stop(?:[- ]loss)?\\s+(?:at|of)\\s+${NUMBER}\\s*%`, 'i');
+const TAKE_PROFIT_PATTERN = new RegExp(
+  `${NUMBER}\\s*%\\s*(?:take[- ]profit|profit target|target)|(?:take[- ]profit|profit target|target)\\s+(?:at|of)\\s+${NUMBER}\\s*%`,
+  'i'
+);
+const MAX_HOLD_PATTERN = /(\d+)\s*(hour|day)s?\s*(?:max(?:imum)?|hold)|(?:max(?:imum)?\s+hold(?:ing)?(?:\s+period)?(?:\s+of)?|hold\s+for(?:\s+up\s+to)?|exit\s+after)\s+(\d+)\s*(hour|day)s?/i;
+
+// Timeframe phrases looked for just after a move
+const TIMEFRAME_PATTERNS: Array<[RegExp, '1h' | '4h' | '1d']> = [
+  [/\b(?:in|within|over)\s+(?:an|one|1)\s+hour\b|\b1h\b|\bhourly\b/i, '1h'],
+  [/\b(?:in|within|over)\s+(?:4|four)\s+hours\b|\b4h\b/i, '4h'],
+  [/\b(?:in|within|over)\s+(?:a|one|1)\s+day\b|\b1d\b|\bdaily\b|\bclose\b/i, '1d']
+];
+
+export interface RuleBasedParse {
+  spec: StrategySpec;
+  provenance: Record<string, FieldProvenance>;
+  confidence: number;
+  ambiguities: [];
+}
+
+function toAsset(token: string): string {
+  const named = ASSET_NAMES[token.toLowerCase()];
+  if (named) return named;
+  return CRYPTO_TICKERS.has(token) ? `${token}-USD` : token;
+}
+
+function percent(value: string): SpecQuantity {
+  return { value: parseFloat(value), unit: 'percent' };
+}
+
+// Deterministic parse of the common phrasings ("ETH rises 3% in an hour", "buy BTC", "5% trailing stop",
+// "3 days maximum"). Whatever the text doesn't state is filled in and reported as defaulted.
+export function parseWithRules(description: string, comments?: string): RuleBasedParse {
+  const text = comments ? `${description}\n${comments}` : description;
+  const provenance: Record<string, FieldProvenance> = {};
+
+  const moves: SpecCondition[] = [];
+  const moveSources: Array<{ timeframe: FieldProvenance }> = [];
+  for (const match of text.matchAll(MOVE_PATTERN)) {
+    const [, asset, verb, threshold] = match;
+    const after = text.slice((match.index || 0) + match[0].length, (match.index || 0) + match[0].length + 40);
+    const stated = TIMEFRAME_PATTERNS.find(([pattern]) => pattern.test(after));
+    const daily = /\bdaily\b|\bclose\b/i.test(text);
+
+    moves.push({
+      move: {
+        asset: toAsset(asset),
+        direction: UP_WORDS.includes(verb) ? 'up' : DOWN_WORDS.includes(verb) ? 'down' : 'any',
+        threshold: percent(threshold),
+        timeframe: stated ? stated[1] : daily ? '1d' : '1h'
+      }
+    });
+    moveSources.push({ timeframe: stated ? 'verbatim' : daily ? 'inferred' : 'defaulted' });
+  }
+
+  const target = text.match(TARGET_PATTERN);
+  const targetAsset = target ? toAsset(target[2]) : 'BTC-USD';
+  const action = target && /^(sell|short)$/i.test(target[1]) ? 'sell' : 'buy';
+  provenance['/target/asset'] = target ? 'verbatim' : 'defaulted';
+  provenance['/target/action'] = target ? (/^(buy|sell)$/i.test(target[1]) ? 'verbatim' : 'inferred') : 'defaulted';
+
+  let entry: SpecCondition;
+  if (moves.length === 0) {
+    entry = { move: { asset: targetAsset, direction: 'up', threshold: percent('2'), timeframe: '1d' } };
+    for (const field of ['asset', 'direction', 'threshold', 'timeframe']) {
+      provenance[`/entry/move/${field}`] = 'defaulted';
+    }
+  } else {
+    const group = /\bor\b/i.test(description) && !/\band\b/i.test(description) ? 'any' : 'all';
+    entry = moves.length === 1 ? moves[0] : group === 'any' ? { any: moves } : { all: moves };
+    moves.forEach((_, i) => {
+      const base = moves.length === 1 ? '/entry' : `/entry/${group}/${i}`;
+      provenance[`${base}/move/asset`] = 'verbatim';
+      provenance[`${base}/move/direction`] = 'verbatim';
+      provenance[`${base}/move/threshold`] = 'verbatim';
+      provenance[`${base}/move/timeframe`] = moveSources[i].timeframe;
+    });
+  }
+
+  const stop = text.match(STOP_PATTERN);
+  const trailing = /\btrailing\b/i.test(text);
+  provenance['/exit/stop_loss/distance'] = stop ? 'verbatim' : 'defaulted';
+  provenance['/exit/stop_loss/trailing'] = stop && trailing ? 'verbatim' : 'defaulted';
+
+  const takeProfit = text.match(TAKE_PROFIT_PATTERN);
+  provenance['/exit/take_profit/distance'] = takeProfit ? 'verbatim' : 'defaulted';
+
+  const maxHold = text.match(MAX_HOLD_PATTERN);
+  if (maxHold) provenance['/exit/max_hold'] = 'verbatim';
+
+  const delayed = /\bnext day\b/i.test(text);
+  if (delayed) provenance['/delay_days'] = 'inferred';
+
+  const firstSentence = description.split('.')[0].trim();
+  const spec: StrategySpec = {
+    dsl_version: 1,
+    name: firstSentence.length > 50 ? `${firstSentence.substring(0, 47)}...` : firstSentence || 'Rule-based strategy',
+    target: { asset: targetAsset, action },
+    entry,
+    ...(delayed && { delay_days: 1 }),
+    exit: {
+      stop_loss: { distance: percent(stop ? stop[1] || stop[2] : '2'), trailing: stop ? trailing : true },
+      take_profit: { distance: percent(takeProfit ? takeProfit[1] || takeProfit[2] : '3') },
+      ...(maxHold && {
+        max_hold: {
+          value: parseInt(maxHold[1] || maxHold[3]),
+          unit: (maxHold[2] || maxHold[4]).toLowerCase() === 'hour' ? 'hours' as const : 'days' as const
+        }
+      })
+    }
+  };
+
+  // Rules only catch the common phrasings, so never claim more than an even chance
+  return { spec, provenance, confidence: 0.5, ambiguities: [] };
+}
+
+// Offline provider for development and tests: answers with a recorded response when one exists for the
+// request, otherwise with parseWithRules. Never calls out, and the same request always gets the same answer.
+export class FixtureLLMProvider implements LLMProvider {
+  readonly name = 'fixture' as const;
+  readonly model = 'rules-v1';
+
+  constructor(private fixtureDir?: string) {}
+
+  async complete(messages: LLMMessage[]): Promise<string> {
+    // The first request decides the answer; a correction round gets the same one
+    const request = messages.find(message => message.role === 'user')?.content || '';
+
+    const recorded = this.readFixture(request);
+    if (recorded) {
+      return recorded;
+    }
+
+    const strategyRequest = readStrategyRequest(request);
+    if (!strategyRequest) {
+      return 'VALID - the fixture provider does not review strategies';
+    }
+
+    return JSON.stringify(parseWithRules(strategyRequest.description, strategyRequest.comments));
+  }
+
+  // Stable pseudo-random vector seeded by the text, so similar-search results repeat between runs
+  async embed(text: string): Promise<number[]> {
+    let seed = crypto.createHash('sha256').update(text).digest().readUInt32LE(0);
+    return Array.from({ length: EMBEDDING_DIMENSIONS }, () => {
+      seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+      return (seed / 2 ** 32) * 0.1;
+    });
+  }
+
+  // Fixtures use the response cache's file format, so cached responses can be copied in as fixtures.
+  // A fixture is <hash>.json, or a cache file (<provider>_<model>_<prompt version>_<hash>.json) for the request.
+  private readFixture(request: string): string | null {
+    if (!this.fixtureDir) return null;
+
+    const hash = descriptionHash(request);
+    let file = path.join(this.fixtureDir, `${hash}.json`);
+    try {
+      if (!fs.existsSync(file)) {
+        if (!fs.existsSync(this.fixtureDir)) return null;
+        const cached = fs.readdirSync(this.fixtureDir).find(name => name.endsWith(`_${hash}.json`));
+        if (!cached) return null;
+        file = path.join(this.fixtureDir, cached);
+      }
+      const fixture = JSON.parse(fs.readFileSync(file, 'utf8'));
+      return typeof fixture.response === 'string' ? fixture.response : null;
+    } catch (error) {
+      logger.error(`❌ Failed to read LLM fixture ${file}:`, error);
+      return null;
+    }
+  }
+}
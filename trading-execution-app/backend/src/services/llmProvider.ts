@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import OpenAI from 'openai';
+import { logger } from '../utils/logger';
+import { servicesConfig } from '../config/services';
+import { LLMProviderName } from '../types';
+import { FixtureLLMProvider } from './fixtureLLMProvider';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// Common surface for every model the parser can talk to
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string; // Part of the cache key, so a model change never serves another model's answers
+  complete(messages: LLMMessage[], options?: LLMCompletionOptions): Promise<string>;
+  embed(text: string): Promise<number[]>;
+}
+
+// Opening of every strategy parse request; the fixture provider recognizes requests by it
+export const STRATEGY_REQUEST_PREFIX = 'Parse this trading strategy: ';
+
+export function formatStrategyRequest(description: string, comments?: string): string {
+  return `${STRATEGY_REQUEST_PREFIX}"${description.trim()}"${comments ? `\n\nAdditional clarifications: ${comments.trim()}` : ''}`;
+}
+
+export function readStrategyRequest(request: string): { description: string; comments?: string } | null {
+  const match = request.match(/^Parse this trading strategy: "([\s\S]*)"(?:\n\nAdditional clarifications: ([\s\S]*))?$/);
+  return match ? { description: match[1], comments: match[2] } : null;
+}
+
+// Cache and fixture key for a request; whitespace and case differences don't make a new request
+export function descriptionHash(request: string): string {
+  const normalized = request.trim().replace(/\s+/g, ' ').toLowerCase();
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+// OpenAI itself, or any server speaking its chat completions API (Ollama, llama.cpp, vLLM, LM Studio)
+export class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    readonly name: LLMProviderName,
+    private client: OpenAI,
+    readonly model: string,
+    private embeddingModel: string
+  ) {}
+
+  async complete(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages,
+      temperature: options.temperature ?? 0.1,
+      max_tokens: options.maxTokens ?? 2000
+    });
+
+    const response = completion.choices[0]?.message.content;
+    if (!response) {
+      throw new Error(`Empty response from ${this.name} model ${this.model}`);
+    }
+
+    logger.info(`🧠 ${this.name} response: ${response.substring(0, 200)}...`);
+    return response;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await this.client.embeddings.create({
+      model: this.embeddingModel,
+      input: text
+    });
+
+    return response.data[0].embedding;
+  }
+}
+
+export function createLLMProvider(name: LLMProviderName = servicesConfig.openai.provider): LLMProvider {
+  const config = servicesConfig.openai;
+
+  switch (name) {
+    case 'openai':
+      if (!config.apiKey || config.apiKey.trim() === '') {
+        logger.warn('⚠️ OpenAI API key not configured - parsing with the offline fixture provider');
+        return new FixtureLLMProvider(config.fixtureDir);
+      }
+      return new OpenAICompatibleProvider('openai', new OpenAI({ apiKey: config.apiKey }), config.model, config.embeddingModel);
+
+    case 'local':
+      logger.info(`🖥️ Using local model ${config.local.model} at ${config.local.baseUrl}`);
+      return new OpenAICompatibleProvider(
+        'local',
+        new OpenAI({ apiKey: config.local.apiKey, baseURL: config.local.baseUrl }),
+        config.local.model,
+        config.local.embeddingModel
+      );
+
+    case 'fixture':
+      return new FixtureLLMProvider(config.fixtureDir);
+
+    default:
+      logger.warn(`Unknown LLM provider "${name}" - falling back to the fixture provider`);
+      return new FixtureLLMProvider(config.fixtureDir);
+  }
+}
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { servicesConfig } from '../config/services';
+import { LLMProvider } from './llmProvider';
+
+// One file per request; the fixture provider reads the same format
+interface CachedResponse {
+  provider: string;
+  model: string;
+  prompt_version: string;
+  request: string;
+  response: string;
+  cached_at: string;
+}
+
+export interface LLMResponseCacheOptions {
+  enabled?: boolean;
+  dir?: string;
+  maxEntries?: number;
+}
+
+// Parsed responses by description hash, so the same strategy text is only sent to the model once.
+// Entries are per provider, model and prompt version; with a dir they survive restarts.
+export class LLMResponseCache {
+  private entries: Map<string, string> = new Map();
+  private enabled: boolean;
+  private dir?: string;
+  private maxEntries: number;
+
+  constructor(options: LLMResponseCacheOptions = {}) {
+    this.enabled = options.enabled ?? servicesConfig.openai.cache.enabled;
+    this.dir = options.dir ?? servicesConfig.openai.cache.dir;
+    this.maxEntries = options.maxEntries ?? servicesConfig.openai.cache.maxEntries;
+  }
+
+  async get(provider: LLMProvider, promptVersion: string, hash: string): Promise<string | null> {
+    if (!this.enabled) return null;
+
+    const key = this.key(provider, promptVersion, hash);
+    const cached = this.entries.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    if (!this.dir) return null;
+
+    try {
+      const entry: CachedResponse = JSON.parse(await fs.promises.readFile(this.file(provider, promptVersion, hash), 'utf8'));
+      if (entry.provider !== provider.name || entry.model !== provider.model || entry.prompt_version !== promptVersion) {
+        return null;
+      }
+      this.remember(key, entry.response);
+      return entry.response;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error(`❌ Failed to read cached LLM response ${hash}:`, error);
+      }
+      return null;
+    }
+  }
+
+  async set(provider: LLMProvider, promptVersion: string, hash: string, request: string, response: string): Promise<void> {
+    if (!this.enabled) return;
+
+    const key = this.key(provider, promptVersion, hash);
+    this.remember(key, response);
+    if (!this.dir) return;
+
+    const entry: CachedResponse = {
+      provider: provider.name,
+      model: provider.model,
+      prompt_version: promptVersion,
+      request,
+      response,
+      cached_at: new Date().toISOString()
+    };
+
+    try {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      await fs.promises.writeFile(this.file(provider, promptVersion, hash), JSON.stringify(entry, null, 2));
+    } catch (error) {
+      logger.error(`❌ Failed to write cached LLM response ${hash}:`, error);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private key(provider: LLMProvider, promptVersion: string, hash: string): string {
+    return `${provider.name}:${provider.model}:${promptVersion}:${hash}`;
+  }
+
+  // <provider>_<model>_<prompt version>_<hash>.json; characters a file name can't hold (e.g. "llama3.1:8b") become "-"
+  private file(provider: LLMProvider, promptVersion: string, hash: string): string {
+    const name = [provider.name, provider.model, promptVersion, hash].map(part => part.replace(/[^A-Za-z0-9.-]/g, '-'));
+    return path.join(this.dir!, `${name.join('_')}.json`);
+  }
+
+  // Oldest entry goes first once the cache is full
+  private remember(key: string, response: string): void {
+    this.entries.delete(key);
+    this.entries.set(key, response);
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+}
+
+export const llmResponseCache = new LLMResponseCache();
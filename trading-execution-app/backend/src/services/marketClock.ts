@@ -0,0 +1,119 @@
+import { logger } from '../utils/logger';
+import { tradingConfig } from '../config/trading';
+
+// Time source for everything that reacts to market data. Live it is the wall clock; during a replay it
+// follows the recorded frames, and timers fire when the replayed time passes them rather than in real time.
+export interface ClockTimer {
+  id: number;
+}
+
+interface ScheduledTimer {
+  id: number;
+  due: number;
+  intervalMs: number | null;
+  callback: () => unknown;
+}
+
+export class MarketClock {
+  private current: number | null = null; // Simulated time; null until the first frame sets it
+  private nextId = 1;
+  private liveTimers: Map<number, NodeJS.Timeout> = new Map();
+  private scheduled: Map<number, ScheduledTimer> = new Map();
+
+  constructor(private simulated: boolean = false) {}
+
+  isSimulated(): boolean {
+    return this.simulated;
+  }
+
+  nowMs(): number {
+    return this.simulated && this.current !== null ? this.current : Date.now();
+  }
+
+  now(): Date {
+    return new Date(this.nowMs());
+  }
+
+  setTimeout(callback: () => unknown, ms: number): ClockTimer {
+    return this.schedule(callback, ms, null);
+  }
+
+  setInterval(callback: () => unknown, ms: number): ClockTimer {
+    return this.schedule(callback, ms, ms);
+  }
+
+  clear(timer: ClockTimer | null): void {
+    if (!timer) return;
+
+    const live = this.liveTimers.get(timer.id);
+    if (live) {
+      clearTimeout(live);
+      this.liveTimers.delete(timer.id);
+    }
+    this.scheduled.delete(timer.id);
+  }
+
+  // Moves simulated time forward, firing due timers in order and waiting for any work they start,
+  // so everything a live process would have done before this moment is done before the next frame
+  async advanceTo(time: number): Promise<void> {
+    if (!this.simulated) return;
+
+    if (this.current === null) {
+      // Timers set before the first frame were measured from the wall clock; rebase them onto replay time
+      const wallNow = Date.now();
+      for (const timer of this.scheduled.values()) {
+        timer.due = time + Math.max(0, timer.due - wallNow);
+      }
+      this.current = time;
+      return;
+    }
+
+    while (true) {
+      const next = this.nextDue(time);
+      if (!next) break;
+
+      this.current = next.due;
+      if (next.intervalMs !== null) {
+        next.due += next.intervalMs;
+      } else {
+        this.scheduled.delete(next.id);
+      }
+      try {
+        await next.callback();
+      } catch (error) {
+        logger.error('Error in timer during replay:', error);
+      }
+    }
+
+    this.current = Math.max(this.current, time);
+  }
+
+  private nextDue(limit: number): ScheduledTimer | null {
+    let next: ScheduledTimer | null = null;
+    for (const timer of this.scheduled.values()) {
+      if (timer.due <= limit && (!next || timer.due < next.due)) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+
+  private schedule(callback: () => unknown, ms: number, intervalMs: number | null): ClockTimer {
+    const id = this.nextId++;
+
+    if (this.simulated) {
+      this.scheduled.set(id, { id, due: this.nowMs() + ms, intervalMs, callback });
+    } else if (intervalMs !== null) {
+      this.liveTimers.set(id, setInterval(callback, ms));
+    } else {
+      this.liveTimers.set(id, setTimeout(() => {
+        this.liveTimers.delete(id);
+        callback();
+      }, ms));
+    }
+
+    return { id };
+  }
+}
+
+export const marketClock = new MarketClock(!!tradingConfig.replay.path);
@@ -0,0 +1,229 @@
+import WebSocket from 'ws';
+import { EventEmitter } from 'events';
+import { logger } from '../utils/logger';
+import { MarketDataSource } from '../types';
+import { BookLevel } from './orderBook';
+import { marketClock } from './marketClock';
+import { marketDataRecorder } from './marketDataRecorder';
+
+// One trade print from a venue, with the venue's top of book at that moment
+export interface ProviderQuote {
+  symbol: string; // Base symbol, e.g. BTC
+  price: number;
+  bid: number;
+  ask: number;
+  timestamp: Date;
+  volume: number; // 24h volume where the venue reports it
+  last_size: number;
+  sequence?: number;
+}
+
+// L2 book message: a full snapshot, or changes to apply on top of the last one (size 0 removes the level)
+export interface ProviderBookUpdate {
+  symbol: string;
+  snapshot?: { bids: BookLevel[]; asks: BookLevel[] };
+  changes?: Array<['buy' | 'sell', number, number]>;
+}
+
+// One match on a venue whose trade ids run consecutively per product, so skipped messages show up as gaps
+export interface ProviderTrade {
+  symbol: string;
+  trade_id: number;
+  sequence: number;
+}
+
+// Common surface for every market data venue. Emits 'quote' (ProviderQuote), 'book' (ProviderBookUpdate)
+// where the venue streams depth, 'trade' (ProviderTrade) where it numbers trades, 'connected' and 'disconnected'.
+export interface MarketDataProvider extends EventEmitter {
+  readonly name: MarketDataSource;
+  connect(): Promise<void>;
+  disconnect(): void;
+  subscribe(symbols: string[]): void;
+  unsubscribe(symbols: string[]): void;
+  isConnected(): boolean;
+  getLastMessageTime(): number;
+}
+
+export function toProductId(symbol: string): string {
+  return symbol.includes('-') ? symbol : `${symbol}-USD`;
+}
+
+// Connection handling shared by websocket venues: backoff reconnects that never give up, and a stale-feed watchdog
+export abstract class WebSocketFeed extends EventEmitter implements MarketDataProvider {
+  abstract readonly name: MarketDataSource;
+
+  protected ws: WebSocket | null = null;
+  protected symbols: Set<string> = new Set();
+  private connected = false;
+  private stopped = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private lastMessage = 0;
+
+  protected abstract getUrl(): string;
+  protected abstract onOpen(): void; // Authenticate and/or subscribe
+  protected abstract sendSubscription(action: 'subscribe' | 'unsubscribe', productIds: string[]): void;
+  protected abstract handleMessage(message: any): void;
+
+  async connect(): Promise<void> {
+    this.stopped = false;
+
+    try {
+      logger.info(`🏦 Connecting to ${this.name} market data feed...`);
+      this.ws = new WebSocket(this.getUrl());
+
+      this.ws.on('open', () => {
+        logger.info(`✅ Connected to ${this.name} market data feed`);
+        this.lastMessage = Date.now();
+        this.startHeartbeat();
+        this.onOpen();
+      });
+
+      this.ws.on('message', (data: Buffer) => {
+        const frame = data.toString();
+        marketDataRecorder.record(this.name, frame);
+        this.ingest(frame);
+      });
+
+      this.ws.on('error', (error) => {
+        logger.error(`❌ ${this.name} websocket error:`, error);
+        this.handleDisconnection();
+      });
+
+      this.ws.on('close', (code, reason) => {
+        logger.warn(`📱 ${this.name} websocket closed: ${code} - ${reason}`);
+        this.handleDisconnection();
+      });
+    } catch (error) {
+      logger.error(`❌ Failed to connect to ${this.name} market data feed:`, error);
+      this.handleDisconnection();
+    }
+  }
+
+  disconnect(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.teardown();
+    logger.info(`🔌 Disconnected from ${this.name} market data feed`);
+  }
+
+  subscribe(symbols: string[]): void {
+    const added = symbols.map(toProductId).filter(id => !this.symbols.has(id));
+    added.forEach(id => this.symbols.add(id));
+
+    if (added.length > 0 && this.isOpen()) {
+      this.sendSubscription('subscribe', added);
+    }
+  }
+
+  unsubscribe(symbols: string[]): void {
+    const removed = symbols.map(toProductId).filter(id => this.symbols.has(id));
+    removed.forEach(id => this.symbols.delete(id));
+
+    if (removed.length > 0 && this.isOpen()) {
+      this.sendSubscription('unsubscribe', removed);
+    }
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  // Every frame passes through here, whether it came off the socket or out of a recording
+  ingest(frame: string): void {
+    this.lastMessage = marketClock.nowMs();
+    try {
+      this.handleMessage(JSON.parse(frame));
+    } catch (error) {
+      logger.error(`Error parsing ${this.name} message:`, error);
+    }
+  }
+
+  // Replay drives the feed from recorded frames; no socket is opened and nothing reconnects
+  startReplay(): void {
+    this.stopped = true;
+    this.lastMessage = marketClock.nowMs();
+    this.markConnected();
+  }
+
+  getLastMessageTime(): number {
+    return this.lastMessage;
+  }
+
+  // Subclasses call this once the venue has accepted the session (after auth, where there is one)
+  protected markConnected(): void {
+    this.connected = true;
+    this.reconnectAttempts = 0;
+    if (this.symbols.size > 0) {
+      this.sendSubscription('subscribe', Array.from(this.symbols));
+    }
+    this.emit('connected');
+  }
+
+  protected send(message: object): void {
+    if (this.isOpen()) {
+      this.ws!.send(JSON.stringify(message));
+    }
+  }
+
+  protected isOpen(): boolean {
+    return !!this.ws && this.ws.readyState === WebSocket.OPEN;
+  }
+
+  protected handleDisconnection(): void {
+    const wasConnected = this.connected;
+    this.teardown();
+
+    if (wasConnected) {
+      this.emit('disconnected');
+    }
+
+    if (this.stopped || this.reconnectTimer) return;
+
+    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
+    this.reconnectAttempts++;
+    logger.info(`🔄 Reconnecting to ${this.name} in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private teardown(): void {
+    this.connected = false;
+
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.removeAllListeners();
+      ws.on('error', () => undefined); // A socket closed mid-handshake still reports an error
+      if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
+        ws.close();
+      }
+    }
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+    }
+
+    this.heartbeatInterval = setInterval(() => {
+      // If no message received in 30 seconds, consider the connection stale
+      if (Date.now() - this.lastMessage > 30000) {
+        logger.warn(`❤️ No messages from ${this.name} in 30s, reconnecting`);
+        this.handleDisconnection();
+      }
+    }, 10000);
+  }
+}
@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { logger } from '../utils/logger';
+import { tradingConfig } from '../config/trading';
+import { MarketDataSource } from '../types';
+
+// One line of a recording: a websocket frame exactly as the venue sent it
+export interface RecordedFrame {
+  t: number; // Receive time, epoch ms
+  source: MarketDataSource;
+  frame: string;
+}
+
+const FLUSH_INTERVAL_MS = 1000;
+
+export function recordingFileName(date: Date): string {
+  return `market-data-${date.toISOString().slice(0, 10)}.jsonl.gz`;
+}
+
+// Writes raw frames from every venue to one gzipped JSONL file per UTC day, in arrival order,
+// so a replay sees the venues interleaved exactly as the live stream did
+export class MarketDataRecorder {
+  private gzip: zlib.Gzip | null = null;
+  private out: fs.WriteStream | null = null;
+  private currentFile: string | null = null;
+  private flushInterval: NodeJS.Timeout | null = null;
+  private frames = 0;
+
+  constructor(
+    private enabled: boolean = tradingConfig.recording.enabled,
+    private dir: string = tradingConfig.recording.dir
+  ) {}
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  record(source: MarketDataSource, frame: string, receivedAt: number = Date.now()): void {
+    if (!this.enabled) return;
+
+    try {
+      const file = path.join(this.dir, recordingFileName(new Date(receivedAt)));
+      if (file !== this.currentFile) {
+        this.open(file);
+      }
+
+      const line: RecordedFrame = { t: receivedAt, source, frame };
+      this.gzip!.write(JSON.stringify(line) + '\n');
+      this.frames++;
+    } catch (error) {
+      logger.error('Failed to record market data frame:', error);
+    }
+  }
+
+  getStats() {
+    return {
+      enabled: this.enabled,
+      file: this.currentFile,
+      frames: this.frames
+    };
+  }
+
+  close(): Promise<void> {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+
+    const gzip = this.gzip;
+    const out = this.out;
+    this.gzip = null;
+    this.out = null;
+    this.currentFile = null;
+    if (!gzip || !out) return Promise.resolve();
+
+    // Resolves once the last compressed bytes are on disk, not just out of the compressor
+    return new Promise(resolve => {
+      out.once('finish', resolve);
+      out.once('error', () => resolve());
+      gzip.end();
+    });
+  }
+
+  private open(file: string): void {
+    // Each day's file gets its own gzip member; appending after a restart adds another member,
+    // which gunzip reads straight through
+    this.close();
+    fs.mkdirSync(this.dir, { recursive: true });
+
+    const gzip = zlib.createGzip();
+    const out = fs.createWriteStream(file, { flags: 'a' });
+    gzip.pipe(out);
+    gzip.on('error', error => logger.error('Market data recording compression error:', error));
+    out.on('error', error => logger.error(`Market data recording write error (${file}):`, error));
+
+    this.gzip = gzip;
+    this.out = out;
+    this.currentFile = file;
+
+    // Frames buffered in the compressor are lost if the process dies, and the moments before
+    // a crash are the ones worth replaying
+    this.flushInterval = setInterval(() => this.gzip?.flush(), FLUSH_INTERVAL_MS);
+
+    logger.info(`🎙️ Recording market data to ${file}`);
+  }
+}
+
+export const marketDataRecorder = new MarketDataRecorder();
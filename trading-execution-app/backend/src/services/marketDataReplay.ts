@@ -0,0 +1,135 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import readline from 'readline';
+import { logger } from '../utils/logger';
+import { tradingConfig } from '../config/trading';
+import { MarketDataSource, ReplaySpeed, ReplayStatus } from '../types';
+import { MarketDataProvider, WebSocketFeed } from './marketDataProvider';
+import { MarketClock, marketClock } from './marketClock';
+import { RecordedFrame } from './marketDataRecorder';
+
+const YIELD_EVERY_FRAMES = 100;
+
+// A recording file, or every recording in a directory in date order
+export function listRecordings(target: string): string[] {
+  if (!fs.statSync(target).isDirectory()) {
+    return [target];
+  }
+
+  return fs.readdirSync(target)
+    .filter(name => name.endsWith('.jsonl.gz'))
+    .sort()
+    .map(name => path.join(target, name));
+}
+
+export async function* readRecording(files: string[]): AsyncGenerator<RecordedFrame> {
+  for (const file of files) {
+    const lines = readline.createInterface({
+      input: fs.createReadStream(file).pipe(zlib.createGunzip()),
+      crlfDelay: Infinity
+    });
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        yield JSON.parse(line) as RecordedFrame;
+      } catch (error) {
+        // A process killed mid-write leaves a truncated last line
+        logger.warn(`Skipping unreadable line in ${file}:`, error);
+      }
+    }
+  }
+}
+
+// Feeds recorded venue frames back through each feed's ingest path, with the market clock following
+// the recording. Timers set by the monitors fire at the recorded moments and their evaluations finish
+// before the next frame, so decisions come out the same at any speed.
+export class MarketDataReplay {
+  private status: ReplayStatus;
+  private stopped = false;
+
+  constructor(
+    private clock: MarketClock = marketClock,
+    private target: string = tradingConfig.replay.path,
+    private speed: ReplaySpeed = tradingConfig.replay.speed
+  ) {
+    this.status = { path: target, speed, state: 'idle', frames: 0, replay_time: null, started_at: null };
+  }
+
+  isEnabled(): boolean {
+    return !!this.target;
+  }
+
+  getStatus(): ReplayStatus {
+    return { ...this.status };
+  }
+
+  stop(): void {
+    this.stopped = true;
+  }
+
+  async run(providers: MarketDataProvider[]): Promise<void> {
+    const feeds = new Map<MarketDataSource, WebSocketFeed>();
+    for (const provider of providers) {
+      if (provider instanceof WebSocketFeed) {
+        feeds.set(provider.name, provider);
+      }
+    }
+
+    this.stopped = false;
+    this.status = { ...this.status, state: 'running', frames: 0, started_at: new Date() };
+    const skipped = new Set<string>();
+    let previous: number | null = null;
+
+    try {
+      const files = listRecordings(this.target);
+      logger.info(`⏪ Replaying ${files.length} market data recording(s) from ${this.target} at ${this.speed === 'max' ? 'max' : `${this.speed}x`} speed`);
+
+      for await (const recorded of readRecording(files)) {
+        if (this.stopped) break;
+
+        if (previous !== null && this.speed !== 'max') {
+          await this.wait((recorded.t - previous) / parseFloat(this.speed));
+        }
+        previous = recorded.t;
+
+        await this.clock.advanceTo(recorded.t);
+
+        const feed = feeds.get(recorded.source);
+        if (!feed) {
+          if (!skipped.has(recorded.source)) {
+            skipped.add(recorded.source);
+            logger.warn(`Recording contains ${recorded.source} frames but that venue is not configured - skipping them`);
+          }
+          continue;
+        }
+
+        if (!feed.isConnected()) {
+          feed.startReplay();
+        }
+        feed.ingest(recorded.frame);
+
+        this.status.frames++;
+        this.status.replay_time = this.clock.now();
+
+        // Keeps the API and socket clients responsive while replaying flat out
+        if (this.speed === 'max' && this.status.frames % YIELD_EVERY_FRAMES === 0) {
+          await new Promise(resolve => setImmediate(resolve));
+        }
+      }
+
+      this.status.state = 'finished';
+      logger.info(`⏹️ Replay finished: ${this.status.frames} frames up to ${this.status.replay_time?.toISOString() ?? 'n/a'}`);
+    } catch (error) {
+      this.status.state = 'failed';
+      logger.error('❌ Market data replay failed:', error);
+    }
+  }
+
+  private wait(ms: number): Promise<void> {
+    return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+  }
+}
+
+export const marketDataReplay = new MarketDataReplay();
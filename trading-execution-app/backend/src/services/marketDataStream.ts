@@ -1,11 +1,22 @@
-import WebSocket from 'ws';
 import { logger } from '../utils/logger';
 import { io } from '../index';
 import { technicalIndicators } from './technicalIndicators';
 import { tradeHistoryService } from './tradeHistoryService';
 import { EventEmitter } from 'events';
-
-interface MarketQuote {
+import { tradingConfig } from '../config/trading';
+import { tradingMetrics } from '../monitoring/metrics';
+import { DataQuality, MarketDataSource, ProviderHealth } from '../types';
+import { MarketDataProvider, ProviderBookUpdate, ProviderQuote, ProviderTrade, toProductId } from './marketDataProvider';
+import { orderBookService } from './orderBook';
+import { SequenceTracker } from './sequenceTracker';
+import { coinbaseService } from './coinbaseService';
+import { notificationService } from './notificationService';
+import { coinbaseMarketData } from './coinbaseMarketData';
+import { polygonMarketData } from './polygonMarketData';
+import { marketClock, ClockTimer } from './marketClock';
+import { marketDataReplay } from './marketDataReplay';
+
+export interface MarketQuote {
   symbol: string;
   price: number;
   bid: number;
@@ -13,170 +24,366 @@ interface MarketQuote {
   timestamp: Date;
   volume: number;
   sequence?: number;
+  source: MarketDataSource;   // Venue whose trade set the price
+  venues: MarketDataSource[]; // Venues whose book fed the consolidated bid/ask
+}
+
+interface ProviderState {
+  provider: MarketDataProvider;
+  disconnects: number[];
+  errorRate: number;
 }
 
-interface CoinbaseTickerMessage {
-  type: 'ticker';
-  sequence: number;
-  product_id: string;
-  price: string;
-  open_24h: string;
-  volume_24h: string;
-  low_24h: string;
-  high_24h: string;
-  volume_30d: string;
-  best_bid: string;
-  best_ask: string;
-  side: 'buy' | 'sell';
-  time: string;
-  trade_id: number;
-  last_size: string;
+interface VenueQuote {
+  quote: ProviderQuote;
+  received_at: number;
 }
 
+const DISCONNECT_WINDOW_MS = 10 * 60 * 1000;
+
+function createProviders(): MarketDataProvider[] {
+  const available: Record<MarketDataSource, MarketDataProvider | null> = {
+    coinbase: coinbaseMarketData,
+    // Replayed Polygon frames need no API key
+    polygon: polygonMarketData.isConfigured() || marketDataReplay.isEnabled() ? polygonMarketData : null
+  };
+
+  return tradingConfig.marketData.providers.flatMap(name => {
+    if (!(name in available)) {
+      logger.warn(`Unknown market data provider "${name}" - ignored`);
+      return [];
+    }
+    if (!available[name]) {
+      logger.info(`Market data provider ${name} not configured - skipped`);
+      return [];
+    }
+    return [available[name]!];
+  });
+}
+
+// Consolidates every configured venue into one quote stream. The healthiest venue in preference order
+// drives prices and candles; the others stay connected as warm standbys and contribute to the best bid/ask.
 export class MarketDataStream extends EventEmitter {
-  private ws: WebSocket | null = null;
+  private providers: ProviderState[];
+  private activeSource: MarketDataSource | null = null;
   private subscribedSymbols: Set<string> = new Set();
   private isConnected = false;
   private lastQuotes: Map<string, MarketQuote> = new Map();
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private heartbeatInterval: NodeJS.Timeout | null = null;
-  private lastHeartbeat = Date.now();
+  private venueQuotes: Map<string, Map<MarketDataSource, VenueQuote>> = new Map();
+  private healthInterval: ClockTimer | null = null;
+  private sequences = new SequenceTracker();
+  private dataQuality: Map<string, DataQuality> = new Map();
+  private tradesSinceGap: Map<string, number> = new Map();
+  private recovering: Set<string> = new Set();
+  private lastGapAlert: Map<string, number> = new Map();
+
+  constructor(providers: MarketDataProvider[] = createProviders()) {
+    super();
+    this.providers = providers.map(provider => ({ provider, disconnects: [], errorRate: 0 }));
+
+    for (const state of this.providers) {
+      state.provider.on('quote', (quote: ProviderQuote) => this.handleProviderQuote(state, quote));
+      state.provider.on('book', (update: ProviderBookUpdate) => this.handleBookUpdate(state.provider.name, update));
+      state.provider.on('trade', (trade: ProviderTrade) => this.handleProviderTrade(state.provider.name, trade));
+      state.provider.on('connected', () => this.evaluateHealth());
+      state.provider.on('disconnected', () => {
+        state.disconnects.push(marketClock.nowMs());
+        orderBookService.clear(state.provider.name);
+        this.evaluateHealth();
+      });
+    }
+  }
 
   async initialize() {
     await this.connect();
   }
 
   async connect(): Promise<void> {
-    try {
-      logger.info('🏦 Connecting to Coinbase WebSocket feed...');
-      
-      this.ws = new WebSocket('wss://ws-feed.exchange.coinbase.com');
-      
-      this.ws.on('open', () => {
-        logger.info('✅ Connected to Coinbase WebSocket');
-        this.isConnected = true;
-        this.reconnectAttempts = 0;
-        
-        // Subscribe to existing symbols
-        if (this.subscribedSymbols.size > 0) {
-          this.subscribeToWebSocket();
-        }
-        
-        // Auto-subscribe to major crypto pairs
-        this.subscribeToAssets(['BTC-USD', 'ETH-USD', 'DOGE-USD', 'ADA-USD', 'LINK-USD']);
-        
-        // Start heartbeat monitoring
-        this.startHeartbeat();
-        
-        // Notify UI
-        io.emit('market:connected');
-        logger.info('📡 Sent market:connected event to frontend');
-      });
+    // Auto-subscribe to major crypto pairs
+    await this.subscribeToAssets(['BTC-USD', 'ETH-USD', 'DOGE-USD', 'ADA-USD', 'LINK-USD']);
 
-      this.ws.on('message', (data: Buffer) => {
-        try {
-          const message = JSON.parse(data.toString());
-          this.handleMessage(message);
-        } catch (error) {
-          logger.error('Error parsing WebSocket message:', error);
-        }
-      });
+    if (marketDataReplay.isEnabled()) {
+      // Recorded frames stand in for the venues and keep arriving in the background, like a live feed
+      marketDataReplay.run(this.providers.map(({ provider }) => provider));
+    } else {
+      await Promise.all(this.providers.map(({ provider }) => provider.connect()));
+    }
 
-      this.ws.on('error', (error) => {
-        logger.error('❌ WebSocket error:', error);
-        this.handleDisconnection();
-      });
+    // Catches venues that go quiet without closing their socket
+    marketClock.clear(this.healthInterval);
+    this.healthInterval = marketClock.setInterval(() => this.evaluateHealth(), tradingConfig.marketData.healthCheckIntervalMs);
+  }
 
-      this.ws.on('close', (code, reason) => {
-        logger.warn(`📱 WebSocket closed: ${code} - ${reason}`);
-        this.handleDisconnection();
-      });
+  getActiveSource(): MarketDataSource | null {
+    return this.activeSource;
+  }
 
-    } catch (error) {
-      logger.error('❌ Failed to connect to Coinbase WebSocket:', error);
-      this.handleDisconnection();
+  getProviderHealth(): ProviderHealth[] {
+    const now = marketClock.nowMs();
+
+    return this.providers.map(state => {
+      const lastMessage = state.provider.getLastMessageTime();
+      return {
+        source: state.provider.name,
+        connected: state.provider.isConnected(),
+        active: state.provider.name === this.activeSource,
+        score: this.scoreProvider(state, now),
+        last_message_age_ms: lastMessage ? now - lastMessage : null,
+        recent_disconnects: state.disconnects.length,
+        error_rate: state.errorRate
+      };
+    });
+  }
+
+  // 0-100: closed feeds score 0, silent ones lose most of their score, flapping or noisy ones lose some
+  private scoreProvider(state: ProviderState, now: number): number {
+    if (!state.provider.isConnected()) return 0;
+
+    let score = 100;
+
+    if (now - state.provider.getLastMessageTime() > tradingConfig.marketData.staleAfterMs) {
+      score -= 60;
     }
+
+    state.disconnects = state.disconnects.filter(time => now - time < DISCONNECT_WINDOW_MS);
+    score -= Math.min(45, state.disconnects.length * 15);
+    score -= state.errorRate * 40;
+
+    return Math.max(0, Math.round(score));
   }
 
-  private subscribeToWebSocket() {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      logger.warn('WebSocket not ready for subscription');
+  // Picks the first healthy venue in preference order, so a recovered primary is taken back
+  // once its recent disconnects have aged out of the score
+  private evaluateHealth(): void {
+    const now = marketClock.nowMs();
+    const next = this.providers.find(state => this.scoreProvider(state, now) >= tradingConfig.marketData.minHealthScore);
+    const nextSource = next?.provider.name ?? null;
+
+    if (nextSource === this.activeSource) return;
+
+    const previous = this.activeSource;
+    this.activeSource = nextSource;
+
+    if (!nextSource) {
+      this.handleDisconnection();
+      return;
+    }
+
+    if (!previous) {
+      this.isConnected = true;
+      logger.info(`✅ Market data live via ${nextSource}`);
+      this.emit('connected');
+      io.emit('market:connected', { source: nextSource });
       return;
     }
 
-    const productIds = Array.from(this.subscribedSymbols).map(symbol => 
-      symbol.includes('-') ? symbol : `${symbol}-USD`
-    );
+    logger.warn(`🔀 Market data failover: ${previous} → ${nextSource}`);
 
-    const subscribeMessage = {
-      type: 'subscribe',
-      channels: ['ticker'],
-      product_ids: productIds
-    };
+    // Gaps belonged to the old venue's stream; the new venue's quotes start clean
+    for (const quality of this.dataQuality.values()) {
+      if (quality.status === 'degraded') {
+        this.markRecovered(quality.symbol, 'failover');
+      }
+    }
 
-    logger.info(`📊 Subscribing to ${productIds.length} products: ${productIds.join(', ')}`);
-    this.ws.send(JSON.stringify(subscribeMessage));
+    this.emit('failover', { from: previous, to: nextSource });
+    io.emit('market:failover', { from: previous, to: nextSource, providers: this.getProviderHealth() });
   }
 
-  private handleMessage(message: any) {
-    this.lastHeartbeat = Date.now();
+  private handleProviderQuote(state: ProviderState, quote: ProviderQuote) {
+    const source = state.provider.name;
+    const valid = this.validateQuote(quote);
+    state.errorRate = state.errorRate * 0.95 + (valid ? 0 : 0.05);
 
-    if (message.type === 'subscriptions') {
-      logger.info('📋 Subscription confirmed:', message.channels);
+    // Validate data quality
+    if (!valid) {
+      logger.warn(`Invalid ${source} ticker data for ${quote.symbol}`);
       return;
     }
 
-    if (message.type === 'ticker') {
-      this.processTickerMessage(message as CoinbaseTickerMessage);
+    // A late tick would rewind the latest price; drop it
+    if (quote.sequence !== undefined
+      && this.sequences.checkSequence(`${source}:${quote.symbol}`, quote.sequence).status === 'out_of_order') {
+      this.recordOutOfOrder(source, quote.symbol);
       return;
     }
 
-    if (message.type === 'heartbeat') {
-      // Coinbase sends heartbeat messages
-      return;
+    let venues = this.venueQuotes.get(quote.symbol);
+    if (!venues) {
+      venues = new Map();
+      this.venueQuotes.set(quote.symbol, venues);
     }
+    venues.set(source, { quote, received_at: marketClock.nowMs() });
 
-    if (message.type === 'error') {
-      logger.error('📱 WebSocket error message:', message);
-      return;
+    // Standby venues only keep their book warm
+    if (source !== this.activeSource) return;
+
+    this.publishQuote(this.consolidate(quote, source, venues), quote.last_size);
+  }
+
+  private handleProviderTrade(source: MarketDataSource, trade: ProviderTrade) {
+    const check = this.sequences.checkTradeId(`${source}:${trade.symbol}`, trade.trade_id);
+
+    // Only the venue driving prices affects data quality; standby gaps are counted and otherwise ignored
+    if (check.status === 'out_of_order') {
+      this.recordOutOfOrder(source, trade.symbol);
+    } else if (check.status === 'gap') {
+      tradingMetrics.marketDataSequenceIssues.inc({ symbol: trade.symbol, source, type: 'gap' });
+      if (source === this.activeSource) {
+        this.handleGap(source, trade.symbol, check.missed);
+      }
+    } else if (source === this.activeSource) {
+      this.countTradeSinceGap(trade.symbol);
     }
   }
 
-  private processTickerMessage(ticker: CoinbaseTickerMessage) {
-    const symbol = ticker.product_id.replace('-USD', ''); // Convert BTC-USD to BTC
-    const price = parseFloat(ticker.price);
-    const bid = parseFloat(ticker.best_bid);
-    const ask = parseFloat(ticker.best_ask);
-    const volume = parseFloat(ticker.volume_24h);
-
-    const marketQuote: MarketQuote = {
-      symbol: symbol,
-      price: price,
-      bid: bid,
-      ask: ask,
-      timestamp: new Date(ticker.time),
-      volume: volume,
-      sequence: ticker.sequence
-    };
+  private recordOutOfOrder(source: MarketDataSource, symbol: string) {
+    tradingMetrics.marketDataSequenceIssues.inc({ symbol, source, type: 'out_of_order' });
+    if (source === this.activeSource) {
+      this.getQuality(symbol).out_of_order++;
+    }
+  }
 
-    // Validate data quality
-    if (!this.validateQuote(marketQuote)) {
-      logger.warn(`Invalid ticker data for ${ticker.product_id}`);
-      return;
+  // Ticks were skipped: hold the symbol out of the freshness check until a REST snapshot (or a run of
+  // in-order trades, if the snapshot can't be fetched) has caught it up
+  private handleGap(source: MarketDataSource, symbol: string, missed: number) {
+    const quality = this.getQuality(symbol);
+    quality.status = 'degraded';
+    quality.gaps++;
+    quality.missed_trades += missed;
+    quality.last_gap_at = marketClock.now();
+    this.tradesSinceGap.set(symbol, 0);
+
+    technicalIndicators.setDataQuality(symbol, false);
+    logger.warn(`🕳️ ${source} skipped ${missed} trade(s) for ${symbol} - holding it stale until recovered`);
+    io.emit('market:data_quality', quality);
+
+    const lastAlert = this.lastGapAlert.get(symbol) || 0;
+    if (marketClock.nowMs() - lastAlert > tradingConfig.marketData.gapAlertCooldownMs) {
+      this.lastGapAlert.set(symbol, marketClock.nowMs());
+      notificationService.sendNotification({
+        type: 'error',
+        title: 'Market Data Gap',
+        message: `${source} feed skipped ${missed} trade(s) for ${symbol}`,
+        metadata: { ...quality, source },
+        timestamp: marketClock.now()
+      }).catch(error => logger.error('Failed to send gap alert:', error));
+    }
+
+    this.recoverSnapshot(symbol);
+  }
+
+  private async recoverSnapshot(symbol: string) {
+    // A replay can't snapshot the past, so it recovers from the recorded trades instead
+    if (this.recovering.has(symbol) || !coinbaseService.isConfigured() || marketDataReplay.isEnabled()) return;
+    this.recovering.add(symbol);
+
+    try {
+      const price = await coinbaseService.getPrice(toProductId(symbol));
+      if (!(price > 0)) {
+        throw new Error('snapshot returned no price');
+      }
+
+      const now = marketClock.now();
+      const quote = this.lastQuotes.get(symbol);
+      if (quote) {
+        this.lastQuotes.set(symbol, { ...quote, price, timestamp: now });
+      }
+      technicalIndicators.addPriceData(symbol, { timestamp: now, open: price, high: price, low: price, close: price, volume: 0 });
+
+      this.markRecovered(symbol, 'snapshot');
+    } catch (error: any) {
+      logger.warn(`REST snapshot for ${symbol} failed (${error.message}) - waiting for ${tradingConfig.marketData.gapRecoveryTrades} in-order trades`);
+    } finally {
+      this.recovering.delete(symbol);
+    }
+  }
+
+  private countTradeSinceGap(symbol: string) {
+    if (this.dataQuality.get(symbol)?.status !== 'degraded') return;
+
+    const count = (this.tradesSinceGap.get(symbol) || 0) + 1;
+    this.tradesSinceGap.set(symbol, count);
+    if (count >= tradingConfig.marketData.gapRecoveryTrades) {
+      this.markRecovered(symbol, 'trades');
     }
+  }
+
+  private markRecovered(symbol: string, by: DataQuality['recovered_by']) {
+    const quality = this.getQuality(symbol);
+    if (quality.status === 'ok') return;
+
+    quality.status = 'ok';
+    quality.recovered_at = marketClock.now();
+    quality.recovered_by = by;
+    this.tradesSinceGap.delete(symbol);
+
+    technicalIndicators.setDataQuality(symbol, true);
+    logger.info(`✅ ${symbol} market data recovered by ${by}`);
+    io.emit('market:data_quality', quality);
+  }
+
+  private getQuality(symbol: string): DataQuality {
+    let quality = this.dataQuality.get(symbol);
+    if (!quality) {
+      quality = { symbol, status: 'ok', gaps: 0, missed_trades: 0, out_of_order: 0 };
+      this.dataQuality.set(symbol, quality);
+    }
+    return quality;
+  }
+
+  getDataQuality(): DataQuality[] {
+    return Array.from(this.dataQuality.values());
+  }
+
+  // Books are kept from any connected venue that streams depth, active or standby
+  private handleBookUpdate(source: MarketDataSource, update: ProviderBookUpdate) {
+    if (update.snapshot) {
+      orderBookService.applySnapshot(update.symbol, source, update.snapshot.bids, update.snapshot.asks);
+    } else if (update.changes) {
+      orderBookService.applyChanges(update.symbol, source, update.changes);
+    }
+  }
+
+  // Best bid and offer across venues with a fresh book; the trade price and sequence stay the active venue's
+  private consolidate(quote: ProviderQuote, source: MarketDataSource, venues: Map<MarketDataSource, VenueQuote>): MarketQuote {
+    const now = marketClock.nowMs();
+    const fresh = Array.from(venues.entries())
+      .filter(([, venue]) => now - venue.received_at <= tradingConfig.marketData.staleAfterMs);
+
+    const bid = Math.max(...fresh.map(([, venue]) => venue.quote.bid));
+    const ask = Math.min(...fresh.map(([, venue]) => venue.quote.ask));
+
+    // Venues can cross for a moment; use the active venue's own book rather than publish bid >= ask
+    const crossed = bid >= ask;
+
+    return {
+      symbol: quote.symbol,
+      price: quote.price,
+      bid: crossed ? quote.bid : bid,
+      ask: crossed ? quote.ask : ask,
+      timestamp: quote.timestamp,
+      volume: quote.volume,
+      sequence: quote.sequence,
+      source,
+      venues: crossed ? [source] : fresh.map(([venue]) => venue)
+    };
+  }
+
+  private publishQuote(marketQuote: MarketQuote, lastSize: number) {
+    const { symbol, price, bid, ask, volume } = marketQuote;
 
     // Store latest quote
     this.lastQuotes.set(symbol, marketQuote);
 
-    // Update technical indicators
+    // Update technical indicators - each tick is one trade, rolled into candles by size
     technicalIndicators.addPriceData(symbol, {
       timestamp: marketQuote.timestamp,
       open: price,
       high: price,
       low: price,
       close: price,
-      volume: volume
+      volume: lastSize
     });
 
     // Record market data to database (async, non-blocking)
@@ -186,8 +393,8 @@ export class MarketDataStream extends EventEmitter {
       bid, 
       ask, 
       volume, 
-      ticker.sequence, 
-      'coinbase'
+      marketQuote.sequence, 
+      marketQuote.source
     ).catch(error => {
       // Don't log every error to avoid spam, just sample
       if (Math.random() < 0.01) {
@@ -200,7 +407,7 @@ export class MarketDataStream extends EventEmitter {
     io.emit('market:quote', marketQuote);
   }
 
-  private validateQuote(quote: MarketQuote): boolean {
+  private validateQuote(quote: Pick<MarketQuote, 'symbol' | 'price' | 'bid' | 'ask'>): boolean {
     // Data quality checks
     if (quote.price <= 0 || quote.bid <= 0 || quote.ask <= 0) {
       return false;
@@ -220,22 +427,6 @@ export class MarketDataStream extends EventEmitter {
     return true;
   }
 
-  private startHeartbeat() {
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval);
-    }
-
-    this.heartbeatInterval = setInterval(() => {
-      const timeSinceLastHeartbeat = Date.now() - this.lastHeartbeat;
-      
-      // If no message received in 30 seconds, consider connection stale
-      if (timeSinceLastHeartbeat > 30000) {
-        logger.warn('❤️ No heartbeat received, connection may be stale');
-        this.handleDisconnection();
-      }
-    }, 10000); // Check every 10 seconds
-  }
-
   async subscribeToAssets(symbols: string[]) {
     const newSymbols = symbols.filter(s => !this.subscribedSymbols.has(s));
     if (newSymbols.length === 0) return;
@@ -245,10 +436,8 @@ export class MarketDataStream extends EventEmitter {
     
     logger.info(`📊 Subscribed to: ${newSymbols.join(', ')}`);
     
-    // Subscribe via WebSocket if connected
-    if (this.isConnected) {
-      this.subscribeToWebSocket();
-    }
+    // Each venue subscribes now if connected, otherwise once it connects
+    this.providers.forEach(({ provider }) => provider.subscribe(newSymbols));
   }
 
   async unsubscribeFromSymbol(symbol: string) {
@@ -256,35 +445,17 @@ export class MarketDataStream extends EventEmitter {
 
     this.subscribedSymbols.delete(symbol);
     this.lastQuotes.delete(symbol);
+    this.lastQuotes.delete(symbol.replace('-USD', ''));
     
     logger.info(`📊 Unsubscribed from: ${symbol}`);
     
-    // Send unsubscribe message
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      const productId = symbol.includes('-') ? symbol : `${symbol}-USD`;
-      const unsubscribeMessage = {
-        type: 'unsubscribe',
-        channels: ['ticker'],
-        product_ids: [productId]
-      };
-      
-      this.ws.send(JSON.stringify(unsubscribeMessage));
-    }
+    this.providers.forEach(({ provider }) => provider.unsubscribe([symbol]));
   }
 
+  // Every venue is down or unhealthy; each keeps reconnecting on its own
   private handleDisconnection() {
     this.isConnected = false;
-    
-    // Clear heartbeat
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval);
-      this.heartbeatInterval = null;
-    }
-    
-    // Close WebSocket if open
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.close();
-    }
+    this.activeSource = null;
     
     // CRITICAL: Notify all systems immediately
     this.emit('disconnected');
@@ -292,22 +463,9 @@ export class MarketDataStream extends EventEmitter {
     
     // Clear all quotes - DO NOT USE CACHED DATA
     this.lastQuotes.clear();
+    this.venueQuotes.clear();
     
-    logger.error('CRITICAL: Market data disconnected - All trading halted');
-    
-    // Attempt reconnection with exponential backoff
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
-      this.reconnectAttempts++;
-      
-      logger.info(`🔄 Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
-      
-      setTimeout(() => {
-        this.connect();
-      }, delay);
-    } else {
-      logger.error('❌ Max reconnection attempts reached - manual intervention required');
-    }
+    logger.error('CRITICAL: Market data disconnected on every venue - All trading halted');
   }
 
   getLatestQuote(symbol: string): MarketQuote | null {
@@ -318,7 +476,7 @@ export class MarketDataStream extends EventEmitter {
     const quote = this.lastQuotes.get(symbol);
     if (!quote) return false;
     
-    const age = Date.now() - quote.timestamp.getTime();
+    const age = marketClock.nowMs() - quote.timestamp.getTime();
     return age < 5000; // Active if updated within 5 seconds (real-time)
   }
 
@@ -339,7 +497,7 @@ export class MarketDataStream extends EventEmitter {
     });
   }
 
-  unsubscribe(symbol: string, callback: (data: any) => void): void {
+  unsubscribe(_symbol: string, callback: (data: any) => void): void {
     // Legacy method for compatibility
     this.removeListener('quote', callback);
   }
@@ -349,21 +507,23 @@ export class MarketDataStream extends EventEmitter {
   }
 
   disconnect() {
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval);
-      this.heartbeatInterval = null;
-    }
-    
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
+    marketClock.clear(this.healthInterval);
+    this.healthInterval = null;
+    marketDataReplay.stop();
+
+    const symbols = Array.from(this.subscribedSymbols);
+    this.providers.forEach(({ provider }) => {
+      provider.unsubscribe(symbols);
+      provider.disconnect();
+    });
     
     this.isConnected = false;
+    this.activeSource = null;
     this.subscribedSymbols.clear();
     this.lastQuotes.clear();
+    this.venueQuotes.clear();
     
-    logger.info('🔌 Disconnected from Coinbase WebSocket');
+    logger.info('🔌 Disconnected from all market data venues');
   }
 
   getCurrentPrices(): Map<string, MarketQuote> {
@@ -374,7 +534,7 @@ export class MarketDataStream extends EventEmitter {
   async getCurrentPrice(symbol: string): Promise<number | null> {
     const quote = this.lastQuotes.get(symbol);
     if (quote) {
-      const age = Date.now() - quote.timestamp.getTime();
+      const age = marketClock.nowMs() - quote.timestamp.getTime();
       // Real-time data should be very fresh
       if (age < 5000) {
         return quote.price;
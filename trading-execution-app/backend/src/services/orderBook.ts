@@ -0,0 +1,221 @@
+import { logger } from '../utils/logger';
+import { tradingConfig } from '../config/trading';
+import { BookDepth, MarketDataSource, SlippageEstimate } from '../types';
+import { marketClock } from './marketClock';
+
+export type BookLevel = [price: number, size: number];
+
+// Where price sits (or would go) in a best-first price list: descending for bids, ascending for asks
+function bestFirstIndex(prices: number[], price: number, descending: boolean): number {
+  let low = 0;
+  let high = prices.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (descending ? prices[middle] > price : prices[middle] < price) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+// Local copy of one venue's L2 book for a symbol, built from a snapshot plus incremental changes
+export class OrderBook {
+  private bids: Map<number, number> = new Map();
+  private asks: Map<number, number> = new Map();
+  // Prices best first, kept in order as levels change so reading the book never sorts it
+  private bidPrices: number[] = [];
+  private askPrices: number[] = [];
+  updatedAt = 0;
+
+  constructor(readonly symbol: string, readonly source: MarketDataSource) {}
+
+  applySnapshot(bids: BookLevel[], asks: BookLevel[], now: number = marketClock.nowMs()): void {
+    this.bids = new Map(bids.filter(([, size]) => size > 0));
+    this.asks = new Map(asks.filter(([, size]) => size > 0));
+    this.bidPrices = Array.from(this.bids.keys()).sort((a, b) => b - a);
+    this.askPrices = Array.from(this.asks.keys()).sort((a, b) => a - b);
+    this.updatedAt = now;
+  }
+
+  applyChanges(changes: Array<['buy' | 'sell', number, number]>, now: number = marketClock.nowMs()): void {
+    for (const [side, price, size] of changes) {
+      const isBid = side === 'buy';
+      const levels = isBid ? this.bids : this.asks;
+      const prices = isBid ? this.bidPrices : this.askPrices;
+      if (size > 0) {
+        if (!levels.has(price)) {
+          prices.splice(bestFirstIndex(prices, price, isBid), 0, price);
+        }
+        levels.set(price, size);
+      } else if (levels.delete(price)) {
+        prices.splice(bestFirstIndex(prices, price, isBid), 1);
+      }
+    }
+    this.updatedAt = now;
+  }
+
+  // Best price first
+  getLevels(side: 'bid' | 'ask'): BookLevel[] {
+    return Array.from(this.walk(side));
+  }
+
+  getMid(): number | null {
+    if (this.bidPrices.length === 0 || this.askPrices.length === 0) return null;
+    return (this.bidPrices[0] + this.askPrices[0]) / 2;
+  }
+
+  getDepth(withinPercent: number): BookDepth | null {
+    const mid = this.getMid();
+    if (mid === null) return null;
+
+    const band = mid * withinPercent / 100;
+
+    // Full books run to tens of thousands of levels; stop at the first one outside the band
+    const sumUsd = (side: 'bid' | 'ask', inBand: (price: number) => boolean) => {
+      let sum = 0;
+      for (const [price, size] of this.walk(side)) {
+        if (!inBand(price)) break;
+        sum += price * size;
+      }
+      return sum;
+    };
+
+    return {
+      symbol: this.symbol,
+      source: this.source,
+      mid,
+      spread_percent: (this.askPrices[0] - this.bidPrices[0]) / mid * 100,
+      within_percent: withinPercent,
+      bid_usd: sumUsd('bid', price => price >= mid - band),
+      ask_usd: sumUsd('ask', price => price <= mid + band),
+      updated_at: new Date(this.updatedAt)
+    };
+  }
+
+  // Walks the opposite side of the book as a market order of this notional would
+  estimateSlippage(side: 'buy' | 'sell', notionalUsd: number): SlippageEstimate | null {
+    const mid = this.getMid();
+    if (mid === null) return null;
+
+    let remaining = notionalUsd;
+    let quantity = 0;
+    let cost = 0;
+    let worstPrice = mid;
+    let levelsConsumed = 0;
+
+    for (const [price, size] of this.walk(side === 'buy' ? 'ask' : 'bid')) {
+      if (remaining <= 0) break;
+
+      const take = Math.min(size, remaining / price);
+      quantity += take;
+      cost += take * price;
+      remaining -= take * price;
+      worstPrice = price;
+      levelsConsumed++;
+    }
+
+    const averagePrice = quantity > 0 ? cost / quantity : null;
+
+    return {
+      symbol: this.symbol,
+      side,
+      notional_usd: notionalUsd,
+      fillable_usd: cost,
+      fully_fillable: remaining <= 1e-6,
+      mid_price: mid,
+      average_price: averagePrice,
+      worst_price: worstPrice,
+      slippage_percent: averagePrice === null ? 0 : Math.abs(averagePrice - mid) / mid * 100,
+      levels_consumed: levelsConsumed
+    };
+  }
+
+  // Largest notional whose average fill stays within maxSlippagePercent of mid
+  getMaxNotional(side: 'buy' | 'sell', maxSlippagePercent: number): number {
+    const mid = this.getMid();
+    if (mid === null) return 0;
+
+    const direction = side === 'buy' ? 1 : -1;
+    const limit = mid * (1 + direction * maxSlippagePercent / 100); // Highest (buy) / lowest (sell) average allowed
+    let quantity = 0;
+    let cost = 0;
+
+    for (const [price, size] of this.walk(side === 'buy' ? 'ask' : 'bid')) {
+      // Whole level keeps the average inside the limit
+      if (direction * ((cost + price * size) / (quantity + size) - limit) <= 0) {
+        quantity += size;
+        cost += price * size;
+        continue;
+      }
+
+      // Part of this level brings the average exactly to the limit: cost + q*p = limit * (quantity + q)
+      if (direction * (price - limit) > 0) {
+        cost += price * Math.max(0, (limit * quantity - cost) / (price - limit));
+      }
+      break;
+    }
+
+    return cost;
+  }
+
+  // Levels best price first, read in place so callers that stop early never touch the rest
+  private *walk(side: 'bid' | 'ask'): Generator<BookLevel> {
+    const levels = side === 'bid' ? this.bids : this.asks;
+    for (const price of side === 'bid' ? this.bidPrices : this.askPrices) {
+      yield [price, levels.get(price)!];
+    }
+  }
+}
+
+// Books for every symbol a venue streams L2 for; stale books are treated as missing
+export class OrderBookService {
+  private books: Map<string, OrderBook> = new Map();
+
+  applySnapshot(symbol: string, source: MarketDataSource, bids: BookLevel[], asks: BookLevel[]): void {
+    const book = new OrderBook(symbol, source);
+    book.applySnapshot(bids, asks);
+    this.books.set(symbol, book);
+  }
+
+  applyChanges(symbol: string, source: MarketDataSource, changes: Array<['buy' | 'sell', number, number]>): void {
+    const book = this.books.get(symbol);
+
+    // Changes only make sense on top of the same venue's snapshot
+    if (!book || book.source !== source) return;
+    book.applyChanges(changes);
+  }
+
+  // A venue that drops loses its books; the next snapshot after reconnecting rebuilds them
+  clear(source: MarketDataSource): void {
+    for (const [symbol, book] of this.books) {
+      if (book.source === source) {
+        this.books.delete(symbol);
+      }
+    }
+  }
+
+  getBook(symbol: string): OrderBook | null {
+    const book = this.books.get(symbol.replace('-USD', ''));
+    if (!book) return null;
+
+    const age = marketClock.nowMs() - book.updatedAt;
+    if (age > tradingConfig.liquidity.bookMaxAgeMs) {
+      logger.warn(`Order book for ${symbol} is stale (${Math.round(age / 1000)}s old)`);
+      return null;
+    }
+
+    return book;
+  }
+
+  getDepth(symbol: string, withinPercent: number = tradingConfig.liquidity.depthPercent): BookDepth | null {
+    return this.getBook(symbol)?.getDepth(withinPercent) ?? null;
+  }
+
+  estimateSlippage(symbol: string, side: 'buy' | 'sell', notionalUsd: number): SlippageEstimate | null {
+    return this.getBook(symbol)?.estimateSlippage(side, notionalUsd) ?? null;
+  }
+}
+
+export const orderBookService = new OrderBookService();
@@ -0,0 +1,424 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { databaseService } from '../config/database';
+import { tradingConfig } from '../config/trading';
+import { logger } from '../utils/logger';
+import { BrokerName, ManagedOrder, OrderStatus, TradeOrder, TradeResult, BrokerOrderStatus } from '../types';
+import { getBrokerAdapter } from './brokerAdapter';
+import { technicalIndicators } from './technicalIndicators';
+import { ClockTimer, marketClock } from './marketClock';
+import { io } from '../index';
+
+export interface OrderContext {
+  broker: BrokerName;
+  strategy_id: string;
+  purpose: 'entry' | 'exit';
+  position_id?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface OrderFilter {
+  strategy_id?: string;
+  position_id?: string;
+  status?: OrderStatus;
+  limit?: number;
+}
+
+const TERMINAL_STATUSES: OrderStatus[] = ['filled', 'cancelled', 'rejected', 'expired'];
+
+const ALLOWED_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  new: ['open', 'partially_filled', 'filled', 'cancelled', 'rejected'],
+  open: ['partially_filled', 'filled', 'cancelled', 'rejected', 'expired'],
+  partially_filled: ['partially_filled', 'filled', 'cancelled', 'expired'],
+  filled: [],
+  cancelled: [],
+  rejected: [],
+  expired: []
+};
+
+// Order state machine: new → open → partially_filled → filled / cancelled / rejected / expired.
+// Emits 'fill' (order, filledDelta) whenever polling discovers new fills, and 'unfilled' (order) when an
+// order ends without filling anything and no repriced replacement takes its place.
+export class OrderManager extends EventEmitter {
+  private workingOrders: Map<string, ManagedOrder> = new Map();
+  private repricing: Set<string> = new Set();
+  private pollInterval: ClockTimer | null = null;
+  private isPolling = false;
+
+  async initialize(): Promise<void> {
+    const rows = await databaseService.all(
+      `SELECT * FROM orders WHERE status NOT IN (${TERMINAL_STATUSES.map(() => '?').join(', ')})`,
+      TERMINAL_STATUSES
+    );
+
+    rows.forEach(row => {
+      const order = this.mapRow(row);
+      this.workingOrders.set(order.id, order);
+    });
+
+    await this.dropLostPaperOrders();
+
+    this.pollInterval = marketClock.setInterval(() => {
+      this.pollWorkingOrders();
+    }, tradingConfig.orders.pollIntervalMs);
+
+    logger.info(`📋 OrderManager tracking ${this.workingOrders.size} working orders`);
+  }
+
+  stop(): void {
+    if (this.pollInterval) {
+      marketClock.clear(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  async createOrder(order: TradeOrder, context: OrderContext, parent?: ManagedOrder): Promise<ManagedOrder> {
+    const now = marketClock.now();
+    const managed: ManagedOrder = {
+      id: uuidv4(),
+      client_oid: order.client_oid || uuidv4(),
+      broker: context.broker,
+      strategy_id: context.strategy_id,
+      position_id: context.position_id,
+      purpose: context.purpose,
+      product_id: order.product_id,
+      side: order.side,
+      type: order.type,
+      status: 'new',
+      size: parseFloat(order.size || '0'),
+      filled_size: 0,
+      limit_price: order.price ? parseFloat(order.price) : undefined,
+      parent_order_id: parent?.id,
+      reprice_count: parent ? parent.reprice_count + 1 : 0,
+      metadata: context.metadata,
+      created_at: now,
+      updated_at: now
+    };
+
+    this.workingOrders.set(managed.id, managed);
+    await this.save(managed);
+    return managed;
+  }
+
+  // Applies the broker's response to a freshly placed order
+  async recordSubmission(order: ManagedOrder, result: TradeResult): Promise<ManagedOrder> {
+    if (!result.success) {
+      return this.markRejected(order, result.message || 'Order rejected');
+    }
+
+    order.broker_order_id = result.order_id;
+
+    const filledSize = result.filled_size ? parseFloat(result.filled_size) : 0;
+    const filledPrice = result.filled_price ? parseFloat(result.filled_price) : undefined;
+
+    if (!getBrokerAdapter(order.broker).tracksOrders) {
+      // No status feed from this venue - acceptance is the only confirmation we get
+      order.filled_size = filledSize || order.size;
+      order.average_fill_price = filledPrice ?? order.limit_price ?? technicalIndicators.getCurrentPrice(order.product_id) ?? undefined;
+      await this.transition(order, 'filled');
+      return order;
+    }
+
+    if (filledSize > 0) {
+      order.filled_size = filledSize;
+      order.average_fill_price = filledPrice;
+    }
+
+    await this.transition(order, this.statusFromFill(order, 'open'));
+    return order;
+  }
+
+  async markRejected(order: ManagedOrder, message: string): Promise<ManagedOrder> {
+    order.last_error = message;
+    await this.transition(order, 'rejected');
+    return order;
+  }
+
+  async cancelOrder(orderId: string, status: 'cancelled' | 'expired' = 'cancelled'): Promise<ManagedOrder> {
+    const order = this.workingOrders.get(orderId);
+    if (!order) {
+      throw new Error(`Working order ${orderId} not found`);
+    }
+
+    if (order.broker_order_id) {
+      const cancelled = await getBrokerAdapter(order.broker).cancelOrder(order.broker_order_id);
+      if (!cancelled) {
+        throw new Error(`Broker ${order.broker} refused to cancel order ${orderId}`);
+      }
+    }
+
+    await this.transition(order, status);
+    return order;
+  }
+
+  // The paper broker's book lives in memory, so its resting orders are gone after a restart. Left working,
+  // they would never fill or cancel and an entry would block its strategy for good.
+  private async dropLostPaperOrders(): Promise<void> {
+    for (const order of Array.from(this.workingOrders.values())) {
+      if (order.broker !== 'paper') continue;
+      if (order.broker_order_id && await getBrokerAdapter('paper').getOrder(order.broker_order_id)) continue;
+
+      logger.warn(`📋 Paper ${order.purpose} order ${order.id} did not survive the restart - closing it`);
+      await this.transition(order, order.status === 'new' ? 'cancelled' : 'expired');
+    }
+  }
+
+  hasWorkingOrder(strategyId: string, purpose: 'entry' | 'exit'): boolean {
+    return Array.from(this.workingOrders.values()).some(o =>
+      o.strategy_id === strategyId && o.purpose === purpose
+    );
+  }
+
+  getWorkingOrders(): ManagedOrder[] {
+    return Array.from(this.workingOrders.values());
+  }
+
+  // Total filled quantity and volume-weighted price across a position's entry orders (including reprices),
+  // optionally limited to one scale-in leg
+  async getEntryFill(positionId: string, leg?: number): Promise<{ quantity: number; average_price: number } | null> {
+    let sql = `SELECT SUM(filled_size) AS quantity, SUM(filled_size * average_fill_price) AS notional
+       FROM orders WHERE position_id = ? AND purpose = 'entry' AND filled_size > 0`;
+    const params: any[] = [positionId];
+
+    if (leg !== undefined) {
+      sql += ` AND COALESCE(json_extract(metadata, '$.leg'), 0) = ?`;
+      params.push(leg);
+    }
+
+    const row = await databaseService.get(sql, params);
+
+    if (!row?.quantity) {
+      return null;
+    }
+
+    return { quantity: row.quantity, average_price: row.notional / row.quantity };
+  }
+
+  async getOrders(filter: OrderFilter = {}): Promise<ManagedOrder[]> {
+    let sql = 'SELECT * FROM orders WHERE 1=1';
+    const params: any[] = [];
+
+    if (filter.strategy_id) {
+      sql += ' AND strategy_id = ?';
+      params.push(filter.strategy_id);
+    }
+
+    if (filter.position_id) {
+      sql += ' AND position_id = ?';
+      params.push(filter.position_id);
+    }
+
+    if (filter.status) {
+      sql += ' AND status = ?';
+      params.push(filter.status);
+    }
+
+    sql += ' ORDER BY created_at DESC LIMIT ?';
+    params.push(filter.limit || 100);
+
+    const rows = await databaseService.all(sql, params);
+    return rows.map(row => this.mapRow(row));
+  }
+
+  async pollWorkingOrders(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      for (const order of Array.from(this.workingOrders.values())) {
+        try {
+          await this.refreshOrder(order);
+          await this.handleStaleOrder(order);
+        } catch (error) {
+          logger.error(`Failed to refresh order ${order.id}:`, error);
+        }
+      }
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async refreshOrder(order: ManagedOrder): Promise<void> {
+    const adapter = getBrokerAdapter(order.broker);
+    if (!adapter.tracksOrders || !order.broker_order_id) return;
+
+    const status = await adapter.getOrder(order.broker_order_id);
+    if (!status) return;
+
+    const filledDelta = status.filled_size - order.filled_size;
+    if (filledDelta > 0) {
+      order.filled_size = status.filled_size;
+      order.average_fill_price = status.average_filled_price ?? order.average_fill_price;
+    }
+
+    const next = this.mapBrokerStatus(order, status);
+    if (next !== order.status || filledDelta > 0) {
+      await this.transition(order, next);
+    }
+
+    if (filledDelta > 0) {
+      logger.info(`📋 Order ${order.id} filled ${filledDelta} more (${order.filled_size}/${order.size})`);
+      this.emit('fill', order, filledDelta);
+    }
+  }
+
+  // Cancel limit orders that have rested too long; entries get repriced to the market a few times first.
+  // Protective take-profits are meant to rest until the position closes.
+  private async handleStaleOrder(order: ManagedOrder): Promise<void> {
+    if (order.type !== 'limit' || !['open', 'partially_filled'].includes(order.status)) return;
+    if (order.metadata?.protective) return;
+
+    const age = marketClock.nowMs() - order.created_at.getTime();
+    if (age < tradingConfig.orders.limitTimeoutMs) return;
+
+    const remaining = order.size - order.filled_size;
+    const price = technicalIndicators.getCurrentPrice(order.product_id);
+    const reprice = order.purpose === 'entry' && order.reprice_count < tradingConfig.orders.maxReprices && !!price && remaining > 0;
+
+    if (reprice) this.repricing.add(order.id);
+    try {
+      await this.cancelOrder(order.id, 'expired');
+    } catch (error: any) {
+      logger.warn(`Could not cancel stale order ${order.id}: ${error.message}`);
+      return;
+    } finally {
+      this.repricing.delete(order.id);
+    }
+
+    if (!reprice || !price) {
+      logger.warn(`📋 Stale ${order.side} limit ${order.id} expired with ${order.filled_size}/${order.size} filled`);
+      return;
+    }
+
+    const replacement = await this.createOrder({
+      side: order.side,
+      product_id: order.product_id,
+      type: 'limit',
+      price: price.toFixed(2),
+      size: remaining.toFixed(8),
+      client_oid: uuidv4()
+    }, order, order);
+
+    try {
+      const result = await getBrokerAdapter(order.broker).placeOrder({
+        side: replacement.side,
+        product_id: replacement.product_id,
+        type: 'limit',
+        price: price.toFixed(2),
+        size: remaining.toFixed(8),
+        client_oid: replacement.client_oid
+      });
+      await this.recordSubmission(replacement, result);
+
+      logger.info(`📋 Repriced ${order.id} → ${replacement.id} @ ${price.toFixed(2)} (attempt ${replacement.reprice_count})`);
+
+      // Venues without a status feed report the replacement as filled straight away
+      if (replacement.filled_size > 0) {
+        this.emit('fill', replacement, replacement.filled_size);
+      }
+    } catch (error: any) {
+      await this.markRejected(replacement, error.message);
+    }
+  }
+
+  private async transition(order: ManagedOrder, next: OrderStatus): Promise<void> {
+    if (next !== order.status && !ALLOWED_TRANSITIONS[order.status].includes(next)) {
+      logger.warn(`Ignoring invalid order transition ${order.status} → ${next} for ${order.id}`);
+      return;
+    }
+
+    order.status = next;
+    order.updated_at = marketClock.now();
+
+    if (TERMINAL_STATUSES.includes(next)) {
+      this.workingOrders.delete(order.id);
+    }
+
+    await this.save(order);
+    io.emit('order:update', order);
+
+    if (next !== 'filled' && TERMINAL_STATUSES.includes(next) && order.filled_size === 0 && !this.repricing.has(order.id)) {
+      this.emit('unfilled', order);
+    }
+  }
+
+  private mapBrokerStatus(order: ManagedOrder, status: BrokerOrderStatus): OrderStatus {
+    switch (status.status) {
+      case 'filled':
+        return 'filled';
+      case 'rejected':
+        return order.status === 'new' || order.status === 'open' ? 'rejected' : 'cancelled';
+      case 'cancelled':
+        return 'cancelled';
+      default:
+        return this.statusFromFill(order, 'open');
+    }
+  }
+
+  private statusFromFill(order: ManagedOrder, unfilled: OrderStatus): OrderStatus {
+    if (order.filled_size >= order.size) return 'filled';
+    if (order.filled_size > 0) return 'partially_filled';
+    return unfilled;
+  }
+
+  private async save(order: ManagedOrder): Promise<void> {
+    await databaseService.run(
+      `INSERT OR REPLACE INTO orders (
+        id, client_oid, broker, broker_order_id, strategy_id, position_id, purpose,
+        product_id, side, type, status, size, filled_size, average_fill_price, limit_price,
+        parent_order_id, reprice_count, metadata, last_error, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        order.id,
+        order.client_oid,
+        order.broker,
+        order.broker_order_id || null,
+        order.strategy_id,
+        order.position_id || null,
+        order.purpose,
+        order.product_id,
+        order.side,
+        order.type,
+        order.status,
+        order.size,
+        order.filled_size,
+        order.average_fill_price ?? null,
+        order.limit_price ?? null,
+        order.parent_order_id || null,
+        order.reprice_count,
+        order.metadata ? JSON.stringify(order.metadata) : null,
+        order.last_error || null,
+        order.created_at.toISOString(),
+        order.updated_at.toISOString()
+      ]
+    );
+  }
+
+  private mapRow(row: any): ManagedOrder {
+    return {
+      id: row.id,
+      client_oid: row.client_oid,
+      broker: row.broker,
+      broker_order_id: row.broker_order_id || undefined,
+      strategy_id: row.strategy_id,
+      position_id: row.position_id || undefined,
+      purpose: row.purpose,
+      product_id: row.product_id,
+      side: row.side,
+      type: row.type,
+      status: row.status,
+      size: row.size,
+      filled_size: row.filled_size || 0,
+      average_fill_price: row.average_fill_price ?? undefined,
+      limit_price: row.limit_price ?? undefined,
+      parent_order_id: row.parent_order_id || undefined,
+      reprice_count: row.reprice_count || 0,
+      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+      last_error: row.last_error || undefined,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    };
+  }
+}
+
+export const orderManager = new OrderManager();
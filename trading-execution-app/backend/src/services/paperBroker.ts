@@ -0,0 +1,441 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { tradingConfig } from '../config/trading';
+import { TradeOrder, TradeResult, BrokerOrderStatus, BrokerFill, BrokerBalance, Position } from '../types';
+import { BrokerAdapter } from './brokerAdapter';
+import { marketDataStream } from './marketDataStream';
+import { technicalIndicators } from './technicalIndicators';
+
+interface PaperQuote {
+  bid: number;
+  ask: number;
+}
+
+interface PaperHolding {
+  quantity: number;     // Negative for shorts
+  average_price: number;
+}
+
+export interface PaperAccount {
+  cash_balance: number;
+  positions_value: number;
+  total_value: number;
+  realized_pnl: number;
+  unrealized_pnl: number;
+  fees_paid: number;
+  holdings: Array<{
+    currency: string;
+    quantity: number;
+    average_price: number;
+    market_price: number;
+    unrealized_pnl: number;
+  }>;
+}
+
+// Simulated matching engine - fills against live marketDataStream quotes, nothing leaves the process
+export class PaperBroker implements BrokerAdapter {
+  readonly name = 'paper' as const;
+  readonly tracksOrders = true;
+  readonly supportsStopOrders = true;
+  readonly supportsOcoOrders = true;
+  private orders: Map<string, BrokerOrderStatus> = new Map();
+  private untriggeredStops: Map<string, number> = new Map(); // order id → limit price once the stop trips
+  private ocoGroups: Map<string, string> = new Map(); // order id → oco_group; the first fill cancels the rest
+  private fills: BrokerFill[] = [];
+  private cash: number;
+  private holdings: Map<string, PaperHolding> = new Map();
+  private realizedPnl = 0;
+  private feesPaid = 0;
+  private isListening = false;
+
+  constructor() {
+    this.cash = tradingConfig.paper.startingCashUSD;
+  }
+
+  initialize() {
+    if (this.isListening) return;
+
+    // Re-check resting limit orders on every quote for their symbol
+    marketDataStream.on('quote', (quote: { symbol: string; bid: number; ask: number }) => {
+      this.matchRestingOrders(quote.symbol, { bid: quote.bid, ask: quote.ask });
+    });
+
+    this.isListening = true;
+    logger.info(`📝 Paper broker ready with $${this.cash.toFixed(2)} virtual cash`);
+  }
+
+  // Holdings live in memory too, so after a restart they are rebuilt from the open paper positions, bought
+  // out of the starting cash at their entry prices. Closing a restored long then sells what it holds
+  // instead of opening a short.
+  restoreHoldings(positions: Position[]): void {
+    for (const position of positions) {
+      const currency = this.getBaseCurrency(position.asset);
+      const holding = this.holdings.get(currency) || { quantity: 0, average_price: 0 };
+      const signedSize = position.side === 'buy' ? position.quantity : -position.quantity;
+      const quantity = holding.quantity + signedSize;
+      if (Math.abs(quantity) < 1e-12) {
+        this.holdings.delete(currency);
+      } else {
+        this.holdings.set(currency, {
+          quantity,
+          average_price: (holding.average_price * Math.abs(holding.quantity) + position.entry_price * position.quantity)
+            / (Math.abs(holding.quantity) + position.quantity)
+        });
+      }
+      this.cash -= signedSize * position.entry_price;
+    }
+
+    if (positions.length > 0) {
+      logger.info(`📝 Paper broker restored holdings for ${positions.length} open positions`);
+    }
+  }
+
+  async placeOrder(order: TradeOrder): Promise<TradeResult> {
+    const quote = this.getQuote(order.product_id);
+    if (!quote) {
+      return { success: false, message: `No market quote for ${order.product_id}` };
+    }
+
+    if (order.type === 'stop') {
+      return this.placeStopOrder(order, quote);
+    }
+
+    const referencePrice = order.side === 'buy' ? quote.ask : quote.bid;
+    const limitPrice = order.type === 'limit' && order.price ? parseFloat(order.price) : undefined;
+    const size = order.size
+      ? parseFloat(order.size)
+      : parseFloat(order.funds || '0') / (limitPrice || referencePrice);
+
+    if (!(size > 0)) {
+      return { success: false, message: 'Order size must be greater than 0' };
+    }
+
+    const status: BrokerOrderStatus = {
+      order_id: `paper-${uuidv4()}`,
+      client_oid: order.client_oid,
+      product_id: order.product_id,
+      side: order.side,
+      type: order.type,
+      status: 'open',
+      size,
+      filled_size: 0,
+      limit_price: limitPrice,
+      created_at: new Date()
+    };
+    if (order.oco_group) {
+      this.ocoGroups.set(status.order_id, order.oco_group);
+    }
+
+    // Market orders and marketable limits take liquidity immediately
+    const marketable = limitPrice === undefined
+      || (order.side === 'buy' ? quote.ask <= limitPrice : quote.bid >= limitPrice);
+
+    if (marketable) {
+      const fillPrice = this.applySlippage(order.side, referencePrice);
+      const rejection = this.checkBuyingPower(status, fillPrice);
+      if (rejection) {
+        status.status = 'rejected';
+        this.orders.set(status.order_id, status);
+        return { success: false, order_id: status.order_id, message: rejection };
+      }
+
+      this.orders.set(status.order_id, status);
+      this.fillOrder(status, fillPrice, tradingConfig.paper.takerFeeRate);
+    } else {
+      this.orders.set(status.order_id, status);
+      logger.info(`📝 Paper ${order.side} limit ${size} ${order.product_id} @ ${limitPrice} resting`);
+    }
+
+    return {
+      success: true,
+      order_id: status.order_id,
+      filled_size: status.filled_size > 0 ? status.filled_size.toString() : undefined,
+      filled_price: status.average_filled_price ? status.average_filled_price.toString() : undefined
+    };
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    const order = this.orders.get(orderId);
+    if (!order || order.status !== 'open') {
+      return false;
+    }
+
+    order.status = 'cancelled';
+    this.untriggeredStops.delete(orderId);
+    this.ocoGroups.delete(orderId);
+    return true;
+  }
+
+  async getOrder(orderId: string): Promise<BrokerOrderStatus | null> {
+    return this.orders.get(orderId) || null;
+  }
+
+  async getFills(orderId?: string): Promise<BrokerFill[]> {
+    return orderId ? this.fills.filter(f => f.order_id === orderId) : [...this.fills];
+  }
+
+  async getBalances(): Promise<BrokerBalance[]> {
+    const balances: BrokerBalance[] = [{
+      currency: 'USD',
+      balance: this.cash,
+      available: this.cash - this.getReservedCash(),
+      hold: this.getReservedCash()
+    }];
+
+    for (const [currency, holding] of this.holdings) {
+      balances.push({
+        currency,
+        balance: holding.quantity,
+        available: holding.quantity,
+        hold: 0
+      });
+    }
+
+    return balances;
+  }
+
+  getAccount(): PaperAccount {
+    const holdings = Array.from(this.holdings.entries()).map(([currency, holding]) => {
+      const quote = this.getQuote(currency);
+      const marketPrice = quote ? (quote.bid + quote.ask) / 2 : holding.average_price;
+
+      return {
+        currency,
+        quantity: holding.quantity,
+        average_price: holding.average_price,
+        market_price: marketPrice,
+        unrealized_pnl: (marketPrice - holding.average_price) * holding.quantity
+      };
+    });
+
+    const positionsValue = holdings.reduce((sum, h) => sum + h.market_price * h.quantity, 0);
+    const unrealizedPnl = holdings.reduce((sum, h) => sum + h.unrealized_pnl, 0);
+
+    return {
+      cash_balance: this.cash,
+      positions_value: positionsValue,
+      total_value: this.cash + positionsValue,
+      realized_pnl: this.realizedPnl,
+      unrealized_pnl: unrealizedPnl,
+      fees_paid: this.feesPaid,
+      holdings
+    };
+  }
+
+  // Stop-limits rest untriggered until the market trades through stop_price, then work as a limit
+  private placeStopOrder(order: TradeOrder, quote: PaperQuote): TradeResult {
+    const stopPrice = parseFloat(order.stop_price || '');
+    const limitPrice = parseFloat(order.stop_limit_price || '');
+    const size = parseFloat(order.size || '0');
+
+    if (!(stopPrice > 0) || !(limitPrice > 0)) {
+      return { success: false, message: 'Stop orders need stop_price and stop_limit_price' };
+    }
+    if (!(size > 0)) {
+      return { success: false, message: 'Order size must be greater than 0' };
+    }
+
+    const status: BrokerOrderStatus = {
+      order_id: `paper-${uuidv4()}`,
+      client_oid: order.client_oid,
+      product_id: order.product_id,
+      side: order.side,
+      type: 'stop',
+      status: 'open',
+      size,
+      filled_size: 0,
+      stop_price: stopPrice,
+      created_at: new Date()
+    };
+
+    this.orders.set(status.order_id, status);
+    this.untriggeredStops.set(status.order_id, limitPrice);
+    if (order.oco_group) {
+      this.ocoGroups.set(status.order_id, order.oco_group);
+    }
+
+    if (!this.triggerStop(status, quote)) {
+      logger.info(`📝 Paper ${order.side} stop ${size} ${order.product_id} @ ${stopPrice} (limit ${limitPrice}) resting`);
+    }
+
+    return {
+      success: true,
+      order_id: status.order_id,
+      filled_size: status.filled_size > 0 ? status.filled_size.toString() : undefined,
+      filled_price: status.average_filled_price ? status.average_filled_price.toString() : undefined
+    };
+  }
+
+  // Returns true once the stop has tripped (and filled, if its limit was marketable)
+  private triggerStop(order: BrokerOrderStatus, quote: PaperQuote): boolean {
+    const limitPrice = this.untriggeredStops.get(order.order_id);
+    if (limitPrice === undefined) return false;
+
+    const tripped = order.side === 'sell' ? quote.bid <= order.stop_price! : quote.ask >= order.stop_price!;
+    if (!tripped) return false;
+
+    this.untriggeredStops.delete(order.order_id);
+    order.limit_price = limitPrice;
+    logger.info(`📝 Paper stop ${order.order_id} triggered at ${order.stop_price}`);
+
+    // A tripped stop takes liquidity, but never beyond its limit
+    const marketable = order.side === 'sell' ? quote.bid >= limitPrice : quote.ask <= limitPrice;
+    if (marketable) {
+      const slipped = this.applySlippage(order.side, order.side === 'sell' ? quote.bid : quote.ask);
+      const fillPrice = order.side === 'sell' ? Math.max(slipped, limitPrice) : Math.min(slipped, limitPrice);
+      this.fillOrder(order, fillPrice, tradingConfig.paper.takerFeeRate);
+    }
+    return true;
+  }
+
+  private matchRestingOrders(symbol: string, quote: PaperQuote) {
+    for (const order of this.orders.values()) {
+      if (order.status !== 'open') continue;
+      if (this.getBaseCurrency(order.product_id) !== this.getBaseCurrency(symbol)) continue;
+
+      if (this.untriggeredStops.has(order.order_id)) {
+        this.triggerStop(order, quote);
+        continue;
+      }
+
+      if (order.limit_price === undefined) continue;
+
+      const crossed = order.side === 'buy'
+        ? quote.ask <= order.limit_price
+        : quote.bid >= order.limit_price;
+
+      if (crossed) {
+        // Resting orders provide liquidity and fill at their limit
+        this.fillOrder(order, order.limit_price, tradingConfig.paper.makerFeeRate);
+      }
+    }
+  }
+
+  private fillOrder(order: BrokerOrderStatus, price: number, feeRate: number) {
+    const size = order.size - order.filled_size;
+    const fee = price * size * feeRate;
+
+    const fill: BrokerFill = {
+      order_id: order.order_id,
+      product_id: order.product_id,
+      side: order.side,
+      price,
+      size,
+      fee,
+      timestamp: new Date()
+    };
+
+    this.applyFill(fill);
+    order.filled_size = order.size;
+    order.average_filled_price = price;
+    order.status = 'filled';
+
+    logger.info(`📝 Paper ${order.side} ${size} ${order.product_id} filled @ ${price.toFixed(2)} (fee $${fee.toFixed(2)})`);
+    this.cancelOcoSiblings(order.order_id);
+  }
+
+  private cancelOcoSiblings(orderId: string) {
+    const group = this.ocoGroups.get(orderId);
+    if (group === undefined) return;
+
+    this.ocoGroups.delete(orderId);
+    for (const [siblingId, siblingGroup] of Array.from(this.ocoGroups)) {
+      if (siblingGroup !== group) continue;
+
+      const sibling = this.orders.get(siblingId);
+      if (sibling?.status === 'open') {
+        sibling.status = 'cancelled';
+        this.untriggeredStops.delete(siblingId);
+        logger.info(`📝 Paper order ${siblingId} cancelled by its OCO partner ${orderId}`);
+      }
+      this.ocoGroups.delete(siblingId);
+    }
+  }
+
+  private applyFill(fill: BrokerFill) {
+    const currency = this.getBaseCurrency(fill.product_id);
+    const holding = this.holdings.get(currency) || { quantity: 0, average_price: 0 };
+    const signedSize = fill.side === 'buy' ? fill.size : -fill.size;
+
+    // Realize PnL on the part of the fill that reduces the existing holding
+    if (holding.quantity !== 0 && Math.sign(holding.quantity) !== Math.sign(signedSize)) {
+      const closedSize = Math.min(Math.abs(holding.quantity), fill.size);
+      this.realizedPnl += (fill.price - holding.average_price) * closedSize * Math.sign(holding.quantity);
+    }
+
+    const newQuantity = holding.quantity + signedSize;
+    if (Math.abs(newQuantity) < 1e-12) {
+      this.holdings.delete(currency);
+    } else {
+      const sameDirection = Math.sign(holding.quantity) === Math.sign(signedSize) || holding.quantity === 0;
+      const flipped = Math.sign(newQuantity) !== Math.sign(holding.quantity);
+      this.holdings.set(currency, {
+        quantity: newQuantity,
+        average_price: sameDirection
+          ? (holding.average_price * Math.abs(holding.quantity) + fill.price * fill.size) / Math.abs(newQuantity)
+          : flipped ? fill.price : holding.average_price
+      });
+    }
+
+    this.cash -= signedSize * fill.price + fill.fee;
+    this.realizedPnl -= fill.fee;
+    this.feesPaid += fill.fee;
+    this.fills.push(fill);
+  }
+
+  // Buys need the cash; sells that open or add to a short need collateral, with total short exposure
+  // capped at account equity (no leverage). Checked when an order takes liquidity, like the cash check.
+  private checkBuyingPower(order: BrokerOrderStatus, price: number): string | null {
+    if (order.side === 'sell') {
+      const held = this.holdings.get(this.getBaseCurrency(order.product_id))?.quantity || 0;
+      const opening = order.size - Math.max(held, 0);
+      if (opening <= 0) return null;
+
+      const account = this.getAccount();
+      const shortExposure = account.holdings.reduce((sum, h) => sum + Math.max(-h.quantity, 0) * h.market_price, 0);
+      const required = shortExposure + opening * price;
+      return required > account.total_value
+        ? `Insufficient paper collateral: shorts would reach $${required.toFixed(2)}, equity is $${account.total_value.toFixed(2)}`
+        : null;
+    }
+
+    const cost = price * order.size * (1 + tradingConfig.paper.takerFeeRate);
+    const available = this.cash - this.getReservedCash();
+    return cost > available
+      ? `Insufficient paper cash: need $${cost.toFixed(2)}, have $${available.toFixed(2)}`
+      : null;
+  }
+
+  private getReservedCash(): number {
+    let reserved = 0;
+    for (const order of this.orders.values()) {
+      if (order.status === 'open' && order.side === 'buy' && order.limit_price !== undefined) {
+        reserved += order.limit_price * (order.size - order.filled_size);
+      }
+    }
+    return reserved;
+  }
+
+  private applySlippage(side: 'buy' | 'sell', price: number): number {
+    const slippage = tradingConfig.paper.slippageBps / 10000;
+    return side === 'buy' ? price * (1 + slippage) : price * (1 - slippage);
+  }
+
+  private getQuote(productId: string): PaperQuote | null {
+    // Market data is keyed by base symbol (BTC-USD is stored as BTC)
+    const base = this.getBaseCurrency(productId);
+    const quote = marketDataStream.getLatestQuote(base) || marketDataStream.getLatestQuote(productId);
+    if (quote && quote.bid > 0 && quote.ask > 0) {
+      return { bid: quote.bid, ask: quote.ask };
+    }
+
+    const price = technicalIndicators.getCurrentPrice(base) ?? technicalIndicators.getCurrentPrice(productId);
+    return price ? { bid: price, ask: price } : null;
+  }
+
+  private getBaseCurrency(productId: string): string {
+    return productId.split('-')[0];
+  }
+}
+
+export const paperBroker = new PaperBroker();
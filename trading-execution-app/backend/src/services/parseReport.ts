@@ -0,0 +1,116 @@
+import { toPercent } from './strategyDsl';
+import { FieldProvenance, ParseAmbiguity, ParseReport, SpecQuantity, StrategySpec } from '../types';
+
+// What the model says about its own parse, before we check it against the description
+export interface ClaimedReport {
+  provenance?: Record<string, unknown>;
+  confidence?: unknown;
+  ambiguities?: unknown;
+}
+
+export interface SpecField {
+  path: string; // JSON pointer into the spec
+  value: unknown;
+}
+
+// Bookkeeping fields a reviewer never needs to check
+const UNTRACKED_FIELDS = new Set(['/dsl_version', '/name']);
+
+const PROVENANCE_WEIGHT: Record<FieldProvenance, number> = { verbatim: 1, inferred: 0.5, defaulted: 0 };
+
+// Each flagged phrase takes this much off the confidence
+const AMBIGUITY_PENALTY = 0.05;
+
+// Every value in a spec a reviewer might need to check; a quantity counts as one value with its unit
+export function listSpecFields(value: unknown, path: string = ''): SpecField[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, i) => listSpecFields(item, `${path}/${i}`));
+  }
+
+  if (value && typeof value === 'object') {
+    if (isQuantity(value)) return [{ path, value }];
+    return Object.entries(value).flatMap(([key, child]) => listSpecFields(child, `${path}/${key}`));
+  }
+
+  return UNTRACKED_FIELDS.has(path) ? [] : [{ path, value }];
+}
+
+function isQuantity(value: object): value is SpecQuantity {
+  return Object.keys(value).length === 2 && 'value' in value && 'unit' in value;
+}
+
+function isProvenance(value: unknown): value is FieldProvenance {
+  return value === 'verbatim' || value === 'inferred' || value === 'defaulted';
+}
+
+// Whether the description states a number in any form the spec could have taken it from
+// (0.05 fraction is "5%", 2 percent is "2" or "2.0")
+function mentionsNumber(description: string, value: SpecQuantity | number): boolean {
+  const forms = typeof value === 'number'
+    ? [value]
+    : [value.value, ...(['percent', 'fraction', 'bps'].includes(value.unit) ? [toPercent(value as SpecQuantity)] : [])];
+
+  return forms.some(form => {
+    const text = String(parseFloat(form.toFixed(6))).replace('.', '\\.');
+    return new RegExp(`(^|[^\\d.])${text}(\\.0+)?(?!\\.?\\d)`).test(description);
+  });
+}
+
+// Only numbers can be checked mechanically; for everything else the model's own label stands
+function canBeVerbatim(description: string, value: unknown): boolean {
+  if (typeof value === 'number') return mentionsNumber(description, value);
+  if (value && typeof value === 'object' && isQuantity(value)) return mentionsNumber(description, value);
+  return true;
+}
+
+// Checks the model's report against the spec and the description. Unlabelled values count as
+// inferred, "verbatim" numbers the description never states are downgraded, ambiguous phrases
+// that aren't actually in the description are dropped, and confidence is capped by the fields.
+export function buildParseReport(spec: StrategySpec, description: string, claimed: ClaimedReport = {}): ParseReport {
+  const provenance: Record<string, FieldProvenance> = {};
+
+  for (const field of listSpecFields(spec)) {
+    const claimedSource = claimed.provenance?.[field.path];
+    let source: FieldProvenance = isProvenance(claimedSource) ? claimedSource : 'inferred';
+    if (source === 'verbatim' && !canBeVerbatim(description, field.value)) {
+      source = 'inferred';
+    }
+    provenance[field.path] = source;
+  }
+
+  // buildStrategyFields falls back to a fixed size when the spec has none
+  if (spec.position_size_usd === undefined) {
+    provenance['/position_size_usd'] = 'defaulted';
+  }
+
+  const text = description.toLowerCase();
+  const ambiguities: ParseAmbiguity[] = (Array.isArray(claimed.ambiguities) ? claimed.ambiguities as any[] : [])
+    .filter(a =>
+      !!a && typeof a.phrase === 'string' && a.phrase.trim() !== '' && text.includes(a.phrase.toLowerCase()))
+    .map(a => ({
+      phrase: a.phrase,
+      reason: typeof a.reason === 'string' ? a.reason : 'Ambiguous',
+      ...(typeof a.field === 'string' && { field: a.field })
+    }));
+
+  const sources = Object.values(provenance);
+  const fieldScore = sources.reduce((sum, source) => sum + PROVENANCE_WEIGHT[source], 0) / (sources.length || 1);
+  const claimedConfidence = typeof claimed.confidence === 'number' ? Math.min(1, Math.max(0, claimed.confidence)) : 1;
+  const confidence = Math.min(claimedConfidence, fieldScore) * Math.max(0, 1 - AMBIGUITY_PENALTY * ambiguities.length);
+
+  return {
+    confidence: Math.round(confidence * 100) / 100,
+    provenance,
+    ambiguities
+  };
+}
+
+// Report for a spec that was not read from the description at all (fallback parsing)
+export function defaultedParseReport(spec: StrategySpec): ParseReport {
+  const provenance: Record<string, FieldProvenance> = {};
+  for (const field of listSpecFields(spec)) {
+    provenance[field.path] = 'defaulted';
+  }
+
+  return { confidence: 0, provenance, ambiguities: [] };
+}
@@ -0,0 +1,185 @@
+import { v4 as uuidv4 } from 'uuid';
+import { databaseService } from '../config/database';
+import { logger } from '../utils/logger';
+import { PendingSignal } from '../types';
+import { PendingSignalStore, cancellationKey } from './conditionEvaluator';
+import { io } from '../index';
+
+export interface PendingSignalFilter {
+  strategy_id?: string;
+  status?: PendingSignal['status'];
+  limit?: number;
+}
+
+// SQLite-backed delay_days tracking so a restart mid-delay doesn't reset the clock
+export class PendingSignalService implements PendingSignalStore {
+  private pending: Map<string, PendingSignal> = new Map(); // Waiting or matured but unused
+  private cancelled: Set<string> = new Set();
+
+  async initialize(): Promise<void> {
+    const rows = await databaseService.all(
+      "SELECT * FROM pending_signals WHERE status IN ('pending', 'matured') ORDER BY triggered_at ASC"
+    );
+
+    this.pending = new Map(rows.map(row => {
+      const signal = this.mapRow(row);
+      return [signal.id, signal];
+    }));
+
+    // Whether the triggers went false while we were down isn't known, so a signal whose latest row is a
+    // cancellation stays cancelled until they are seen unmet
+    const cancelledRows = await databaseService.all(
+      `SELECT strategy_id, signal_key FROM pending_signals p
+       WHERE status = 'cancelled' AND triggered_at = (
+         SELECT MAX(triggered_at) FROM pending_signals q
+         WHERE q.strategy_id = p.strategy_id AND q.signal_key = p.signal_key
+       )`
+    );
+    this.cancelled = new Set(cancelledRows.map(row => cancellationKey(row.strategy_id, row.signal_key)));
+
+    logger.info(`⏳ Restored ${this.pending.size} pending delayed signals`);
+  }
+
+  findPending(strategyId: string, signalKey: string): PendingSignal | undefined {
+    return Array.from(this.pending.values()).find(s =>
+      s.strategy_id === strategyId && s.signal_key === signalKey
+    );
+  }
+
+  findMatured(strategyId: string): PendingSignal[] {
+    return Array.from(this.pending.values()).filter(s =>
+      s.strategy_id === strategyId && s.status === 'matured'
+    );
+  }
+
+  async createPending(signal: Omit<PendingSignal, 'id' | 'status'>): Promise<PendingSignal> {
+    const pending: PendingSignal = { ...signal, id: uuidv4(), status: 'pending' };
+
+    await databaseService.run(
+      `INSERT INTO pending_signals (
+        id, strategy_id, signal_key, target_asset, action, delay_days,
+        status, triggered_at, matures_at, trigger_snapshot
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        pending.id,
+        pending.strategy_id,
+        pending.signal_key,
+        pending.target_asset || null,
+        pending.action || null,
+        pending.delay_days,
+        pending.status,
+        pending.triggered_at.toISOString(),
+        pending.matures_at.toISOString(),
+        JSON.stringify(pending.trigger_snapshot)
+      ]
+    );
+
+    this.pending.set(pending.id, pending);
+    logger.info(`⏳ Pending signal ${pending.id} for ${pending.strategy_id} matures at ${pending.matures_at.toISOString()}`);
+    io.emit('signal:pending', pending);
+
+    return pending;
+  }
+
+  async markMatured(id: string, maturedAt: Date): Promise<void> {
+    const signal = this.pending.get(id);
+    if (!signal) return;
+
+    await this.resolve(signal, 'matured', maturedAt);
+    logger.info(`✅ Pending signal ${id} matured for ${signal.strategy_id}`);
+    io.emit('signal:matured', signal);
+  }
+
+  async markConsumed(id: string, consumedAt: Date): Promise<void> {
+    const signal = this.pending.get(id);
+    if (!signal) return;
+
+    await this.resolve(signal, 'consumed', consumedAt);
+    logger.info(`🎯 Matured signal ${id} used by an entry for ${signal.strategy_id}`);
+    io.emit('signal:consumed', signal);
+  }
+
+  async expire(id: string, expiredAt: Date): Promise<void> {
+    const signal = this.pending.get(id);
+    if (!signal) return;
+
+    await this.resolve(signal, 'expired', expiredAt);
+    logger.info(`⌛ Pending signal ${id} expired unused for ${signal.strategy_id}`);
+    io.emit('signal:expired', signal);
+  }
+
+  async cancel(id: string): Promise<PendingSignal> {
+    const signal = this.pending.get(id);
+    if (!signal) {
+      throw new Error(`Pending signal ${id} not found`);
+    }
+
+    await this.resolve(signal, 'cancelled', new Date());
+    this.cancelled.add(cancellationKey(signal.strategy_id, signal.signal_key));
+    logger.info(`🚫 Pending signal ${id} cancelled for ${signal.strategy_id}`);
+    io.emit('signal:cancelled', signal);
+
+    return signal;
+  }
+
+  isCancelled(strategyId: string, signalKey: string): boolean {
+    return this.cancelled.has(cancellationKey(strategyId, signalKey));
+  }
+
+  clearCancelled(strategyId: string, signalKey: string): void {
+    this.cancelled.delete(cancellationKey(strategyId, signalKey));
+  }
+
+  async getSignals(filter: PendingSignalFilter = {}): Promise<PendingSignal[]> {
+    let sql = 'SELECT * FROM pending_signals WHERE 1=1';
+    const params: any[] = [];
+
+    if (filter.strategy_id) {
+      sql += ' AND strategy_id = ?';
+      params.push(filter.strategy_id);
+    }
+
+    if (filter.status) {
+      sql += ' AND status = ?';
+      params.push(filter.status);
+    }
+
+    sql += ' ORDER BY triggered_at DESC LIMIT ?';
+    params.push(filter.limit || 100);
+
+    const rows = await databaseService.all(sql, params);
+    return rows.map(row => this.mapRow(row));
+  }
+
+  // A matured signal stays armed until it is consumed, expires or is cancelled
+  private async resolve(signal: PendingSignal, status: Exclude<PendingSignal['status'], 'pending'>, resolvedAt: Date) {
+    await databaseService.run(
+      'UPDATE pending_signals SET status = ?, resolved_at = ? WHERE id = ?',
+      [status, resolvedAt.toISOString(), signal.id]
+    );
+
+    signal.status = status;
+    signal.resolved_at = resolvedAt;
+    if (status !== 'matured') {
+      this.pending.delete(signal.id);
+    }
+  }
+
+  private mapRow(row: any): PendingSignal {
+    return {
+      id: row.id,
+      strategy_id: row.strategy_id,
+      signal_key: row.signal_key,
+      target_asset: row.target_asset || undefined,
+      action: row.action || undefined,
+      delay_days: row.delay_days,
+      status: row.status,
+      triggered_at: new Date(row.triggered_at),
+      matures_at: new Date(row.matures_at),
+      resolved_at: row.resolved_at ? new Date(row.resolved_at) : undefined,
+      trigger_snapshot: row.trigger_snapshot ? JSON.parse(row.trigger_snapshot) : []
+    };
+  }
+}
+
+export const pendingSignalService = new PendingSignalService();
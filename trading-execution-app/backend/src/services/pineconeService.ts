@@ -22,6 +22,11 @@ export class PineconeService {
     return this.pinecone;
   }
 
+  // Demo mode keeps nothing, so callers fall back to in-memory state
+  isPersistent(): boolean {
+    return !this.isDemoMode;
+  }
+
   getExecutionIndex() {
     if (!this.isInitialized && !this.isDemoMode) {
       throw new Error('PineconeService not initialized');
@@ -241,11 +246,16 @@ export class PineconeService {
         asset_1: strategy.asset_1,
         asset_2: strategy.asset_2,
         position_size: strategy.position_size,
+        broker: strategy.broker,
         
         // Complex objects as JSON strings
         entry_conditions: JSON.stringify(strategy.entry_conditions),
         exit_conditions: JSON.stringify(strategy.exit_conditions),
         required_assets: JSON.stringify(strategy.required_assets),
+        sizing: strategy.sizing ? JSON.stringify(strategy.sizing) : undefined,
+        spec: strategy.spec ? JSON.stringify(strategy.spec) : undefined,
+        spec_errors: strategy.spec_errors?.length ? JSON.stringify(strategy.spec_errors) : undefined,
+        parse_report: strategy.parse_report ? JSON.stringify(strategy.parse_report) : undefined,
         
         // Add timestamp
         updated_at: new Date().toISOString()
@@ -286,9 +296,19 @@ export class PineconeService {
         current_price: position.current_price,
         quantity: position.quantity,
         trailing_stop_price: position.trailing_stop_price,
+        initial_stop_price: position.initial_stop_price,
+        stop_rule: position.stop_rule,
         take_profit_price: position.take_profit_price,
         status: position.status,
-        entry_time: position.entry_time.toISOString(),
+        broker: position.broker,
+        coinbase_order_id: position.coinbase_order_id,
+        entry_time: new Date(position.entry_time).toISOString(),
+        entered_quantity: position.entered_quantity,
+        realized_pnl: position.realized_pnl,
+        // Leg state as JSON strings like strategy conditions
+        legs: position.legs ? JSON.stringify(position.legs) : undefined,
+        take_profit_targets: position.take_profit_targets ? JSON.stringify(position.take_profit_targets) : undefined,
+        scale_in_stages: position.scale_in_stages ? JSON.stringify(position.scale_in_stages) : undefined,
         type: 'position',
         updated_at: new Date().toISOString()
       };
@@ -323,7 +343,17 @@ export class PineconeService {
         includeMetadata: true
       });
 
-      return queryResponse.matches?.map((match: any) => match.metadata as any) || [];
+      return queryResponse.matches?.map((match: any) => {
+        const metadata = match.metadata || {};
+        const parse = (value: any) => typeof value === 'string' ? JSON.parse(value) : value;
+
+        return {
+          ...metadata,
+          legs: parse(metadata.legs),
+          take_profit_targets: parse(metadata.take_profit_targets),
+          scale_in_stages: parse(metadata.scale_in_stages)
+        } as Position;
+      }) || [];
     } catch (error) {
       logger.error('Failed to get positions:', error);
       throw error;
@@ -358,11 +388,19 @@ export class PineconeService {
         let entry_conditions = [];
         let exit_conditions = {};
         let required_assets = [];
+        let sizing;
+        let spec;
+        let spec_errors;
+        let parse_report;
         
         try {
           entry_conditions = metadata.entry_conditions ? JSON.parse(metadata.entry_conditions) : [];
           exit_conditions = metadata.exit_conditions ? JSON.parse(metadata.exit_conditions) : {};
           required_assets = metadata.required_assets ? JSON.parse(metadata.required_assets) : [];
+          sizing = metadata.sizing ? JSON.parse(metadata.sizing) : undefined;
+          spec = metadata.spec ? JSON.parse(metadata.spec) : undefined;
+          spec_errors = metadata.spec_errors ? JSON.parse(metadata.spec_errors) : undefined;
+          parse_report = metadata.parse_report ? JSON.parse(metadata.parse_report) : undefined;
         } catch (parseError) {
           logger.warn(`Failed to parse strategy metadata for ${metadata.strategy_id}:`, parseError);
         }
@@ -387,7 +425,12 @@ export class PineconeService {
           entry_conditions,
           exit_conditions,
           required_assets,
-          approved_at: metadata.approved_at
+          approved_at: metadata.approved_at,
+          broker: metadata.broker,
+          sizing,
+          spec,
+          spec_errors,
+          parse_report
         } as ParsedStrategy;
       }) || [];
 
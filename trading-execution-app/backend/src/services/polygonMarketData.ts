@@ -0,0 +1,98 @@
+import { logger } from '../utils/logger';
+import { servicesConfig } from '../config/services';
+import { WebSocketFeed } from './marketDataProvider';
+
+interface PolygonCryptoTrade {
+  ev: 'XT';
+  pair: string; // BTC-USD
+  p: number;    // price
+  s: number;    // size
+  t: number;    // epoch ms
+  x: number;    // exchange id
+}
+
+interface PolygonCryptoQuote {
+  ev: 'XQ';
+  pair: string;
+  bp: number; // bid
+  ap: number; // ask
+  t: number;
+}
+
+// Polygon crypto websocket: trades (XT) priced against the latest quote (XQ) for the pair
+export class PolygonMarketData extends WebSocketFeed {
+  readonly name = 'polygon' as const;
+
+  private books: Map<string, { bid: number; ask: number }> = new Map();
+  private volumes: Map<string, number> = new Map(); // Traded since connect; Polygon does not stream 24h volume
+
+  isConfigured(): boolean {
+    return !!servicesConfig.polygon.apiKey;
+  }
+
+  protected getUrl(): string {
+    return servicesConfig.polygon.websocketUrl;
+  }
+
+  protected onOpen(): void {
+    this.send({ action: 'auth', params: servicesConfig.polygon.apiKey });
+  }
+
+  protected sendSubscription(action: 'subscribe' | 'unsubscribe', productIds: string[]): void {
+    const channels = productIds.flatMap(id => [`XT.${id}`, `XQ.${id}`]);
+    logger.info(`📊 ${action === 'subscribe' ? 'Subscribing to' : 'Unsubscribing from'} ${productIds.length} Polygon pairs: ${productIds.join(', ')}`);
+    this.send({ action, params: channels.join(',') });
+  }
+
+  protected handleMessage(messages: any): void {
+    for (const message of Array.isArray(messages) ? messages : [messages]) {
+      switch (message.ev) {
+        case 'status':
+          this.handleStatus(message);
+          break;
+        case 'XQ':
+          this.updateBook(message as PolygonCryptoQuote);
+          break;
+        case 'XT':
+          this.processTrade(message as PolygonCryptoTrade);
+          break;
+      }
+    }
+  }
+
+  private handleStatus(message: { status: string; message: string }): void {
+    if (message.status === 'auth_success') {
+      this.markConnected();
+    } else if (message.status === 'auth_failed') {
+      logger.error(`❌ Polygon websocket auth failed: ${message.message}`);
+      this.handleDisconnection();
+    }
+  }
+
+  private updateBook(quote: PolygonCryptoQuote): void {
+    if (quote.bp > 0 && quote.ap > 0) {
+      this.books.set(quote.pair, { bid: quote.bp, ask: quote.ap });
+    }
+  }
+
+  private processTrade(trade: PolygonCryptoTrade): void {
+    const volume = (this.volumes.get(trade.pair) || 0) + trade.s;
+    this.volumes.set(trade.pair, volume);
+
+    // A trade without a book can't be validated or used for bid/ask
+    const book = this.books.get(trade.pair);
+    if (!book) return;
+
+    this.emit('quote', {
+      symbol: trade.pair.replace('-USD', ''),
+      price: trade.p,
+      bid: book.bid,
+      ask: book.ask,
+      timestamp: new Date(trade.t),
+      volume,
+      last_size: trade.s
+    });
+  }
+}
+
+export const polygonMarketData = new PolygonMarketData();
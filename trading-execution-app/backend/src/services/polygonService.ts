@@ -1,5 +1,7 @@
 import https from 'https';
 import { logger } from '../utils/logger';
+import { databaseService } from '../config/database';
+import { PriceData } from './candleAggregator';
 
 interface PolygonQuote {
   symbol: string;
@@ -8,6 +10,22 @@ interface PolygonQuote {
   status: string;
 }
 
+export type AggregateTimeframe = '5m' | '1d';
+
+const AGGREGATE_PARAMS: Record<AggregateTimeframe, { multiplier: number; timespan: string }> = {
+  '5m': { multiplier: 5, timespan: 'minute' },
+  '1d': { multiplier: 1, timespan: 'day' }
+};
+
+// How old the newest cached bar may be before we ask Polygon again
+const AGGREGATE_TTL_MS: Record<AggregateTimeframe, number> = {
+  '5m': 5 * 60 * 1000,
+  '1d': 60 * 60 * 1000
+};
+
+// Weekends and holidays leave gaps, so cache coverage is judged with some slack
+const CACHE_COVERAGE_SLACK_MS = 4 * 86400000;
+
 export class PolygonService {
   private apiKey: string | null = null;
   private isInitialized = false;
@@ -23,9 +41,9 @@ export class PolygonService {
     }
 
     try {
-      // Test the API key with a simple request
-      const testQuote = await this.fetchQuote('AAPL');
-      if (testQuote) {
+      // Test the API key with a simple request (fetchQuote refuses to run until initialized)
+      const testQuote = await this.request('/v2/aggs/ticker/AAPL/prev?adjusted=true', 'AAPL');
+      if (testQuote?.results?.length) {
         this.isInitialized = true;
         logger.info('✅ Polygon API initialized successfully');
       } else {
@@ -42,23 +60,146 @@ export class PolygonService {
       return null;
     }
 
-    return new Promise((resolve) => {
-      // Map asset names to Polygon symbols
-      const symbolMap: { [key: string]: string } = {
-        'WTI_CRUDE_OIL': 'CL',   // WTI Crude Oil futures
-        'GOLD': 'GC',            // Gold futures  
-        'SPY': 'SPY',            // S&P 500 ETF
-        'QQQ': 'QQQ',            // Nasdaq ETF
-        'AAPL': 'AAPL',          // Apple stock (for testing)
-        'MSFT': 'MSFT'           // Microsoft stock
+    const polygonSymbol = this.toPolygonSymbol(symbol);
+    const result = await this.request(`/v2/aggs/ticker/${polygonSymbol}/prev?adjusted=true`, symbol);
+
+    if (result?.results && result.results.length > 0) {
+      const quote = result.results[0];
+      return {
+        symbol: symbol,
+        price: quote.c, // Close price
+        timestamp: new Date(quote.t), // Timestamp
+        status: 'OK'
       };
+    }
+
+    if (result) {
+      logger.warn(`No data returned for ${symbol} from Polygon`);
+    }
+    return null;
+  }
+
+  // Daily or 5-minute bars, served from the SQLite cache and topped up from Polygon when stale
+  async getAggregates(
+    symbol: string,
+    timeframe: AggregateTimeframe,
+    from: Date,
+    to: Date = new Date()
+  ): Promise<PriceData[]> {
+    const cached = await this.loadCachedAggregates(symbol, timeframe, from, to);
+
+    if (!this.isInitialized || !this.apiKey) {
+      return cached;
+    }
+
+    const oldest = cached[0]?.timestamp;
+    const newest = cached[cached.length - 1]?.timestamp;
+    const coversStart = oldest && oldest.getTime() - from.getTime() <= CACHE_COVERAGE_SLACK_MS;
+
+    if (coversStart && newest && to.getTime() - newest.getTime() <= AGGREGATE_TTL_MS[timeframe]) {
+      return cached;
+    }
+
+    // Re-fetch from the newest cached bar - it may still have been forming when stored
+    const fetchFrom = coversStart && newest ? newest : from;
+    const fresh = await this.fetchAggregates(symbol, timeframe, fetchFrom, to);
+    if (fresh.length === 0) {
+      return cached;
+    }
+
+    await this.cacheAggregates(symbol, timeframe, fresh);
+    return [...cached.filter(bar => bar.timestamp < fetchFrom), ...fresh];
+  }
 
-      const polygonSymbol = symbolMap[symbol] || symbol;
-      
+  async fetchAggregates(
+    symbol: string,
+    timeframe: AggregateTimeframe,
+    from: Date,
+    to: Date
+  ): Promise<PriceData[]> {
+    const { multiplier, timespan } = AGGREGATE_PARAMS[timeframe];
+    const polygonSymbol = this.toPolygonSymbol(symbol);
+    const result = await this.request(
+      `/v2/aggs/ticker/${polygonSymbol}/range/${multiplier}/${timespan}/${from.getTime()}/${to.getTime()}` +
+      `?adjusted=true&sort=asc&limit=50000`,
+      symbol
+    );
+
+    return (result?.results || []).map((bar: any) => ({
+      timestamp: new Date(bar.t),
+      open: bar.o,
+      high: bar.h,
+      low: bar.l,
+      close: bar.c,
+      volume: bar.v || 0
+    }));
+  }
+
+  private async loadCachedAggregates(
+    symbol: string,
+    timeframe: AggregateTimeframe,
+    from: Date,
+    to: Date
+  ): Promise<PriceData[]> {
+    try {
+      const rows = await databaseService.all(
+        `SELECT timestamp, open, high, low, close, volume FROM price_aggregates
+         WHERE symbol = ? AND timeframe = ? AND timestamp >= ? AND timestamp <= ?
+         ORDER BY timestamp ASC`,
+        [symbol, timeframe, from.toISOString(), to.toISOString()]
+      );
+
+      return rows.map(row => ({
+        timestamp: new Date(row.timestamp),
+        open: row.open,
+        high: row.high,
+        low: row.low,
+        close: row.close,
+        volume: row.volume
+      }));
+    } catch (error) {
+      logger.error(`Failed to load cached ${timeframe} aggregates for ${symbol}:`, error);
+      return [];
+    }
+  }
+
+  private async cacheAggregates(symbol: string, timeframe: AggregateTimeframe, bars: PriceData[]): Promise<void> {
+    try {
+      for (const bar of bars) {
+        await databaseService.run(
+          `INSERT OR REPLACE INTO price_aggregates
+           (symbol, timeframe, timestamp, open, high, low, close, volume, source, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'polygon', ?)`,
+          [symbol, timeframe, bar.timestamp.toISOString(), bar.open, bar.high, bar.low, bar.close, bar.volume, new Date().toISOString()]
+        );
+      }
+    } catch (error) {
+      logger.error(`Failed to cache ${timeframe} aggregates for ${symbol}:`, error);
+    }
+  }
+
+  private toPolygonSymbol(symbol: string): string {
+    // Map asset names to Polygon symbols
+    const symbolMap: { [key: string]: string } = {
+      'WTI_CRUDE_OIL': 'CL',   // WTI Crude Oil futures
+      'GOLD': 'GC',            // Gold futures  
+      'SPY': 'SPY',            // S&P 500 ETF
+      'QQQ': 'QQQ',            // Nasdaq ETF
+      'AAPL': 'AAPL',          // Apple stock (for testing)
+      'MSFT': 'MSFT'           // Microsoft stock
+    };
+
+    return symbolMap[symbol] || symbol;
+  }
+
+  // Resolves to the parsed body, or null on any HTTP/network error
+  private request(path: string, symbol: string): Promise<any | null> {
+    return new Promise((resolve) => {
+      const separator = path.includes('?') ? '&' : '?';
       const options = {
         hostname: 'api.polygon.io',
         port: 443,
-        path: `/v2/aggs/ticker/${polygonSymbol}/prev?adjusted=true&apikey=${this.apiKey}`,
+        path: `${path}${separator}apikey=${this.apiKey}`,
         method: 'GET',
         headers: {
           'Content-Type': 'application/json'
@@ -71,20 +212,7 @@ export class PolygonService {
         res.on('end', () => {
           if (res.statusCode === 200) {
             try {
-              const result = JSON.parse(data);
-              
-              if (result.results && result.results.length > 0) {
-                const quote = result.results[0];
-                resolve({
-                  symbol: symbol,
-                  price: quote.c, // Close price
-                  timestamp: new Date(quote.t), // Timestamp
-                  status: 'OK'
-                });
-              } else {
-                logger.warn(`No data returned for ${symbol} from Polygon`);
-                resolve(null);
-              }
+              resolve(JSON.parse(data));
             } catch (error) {
               logger.error(`Error parsing Polygon response for ${symbol}:`, error);
               resolve(null);
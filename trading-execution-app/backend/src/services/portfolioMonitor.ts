@@ -1,9 +1,17 @@
-import { Position, ParsedStrategy } from '../types';
+import { Position, ParsedStrategy, ReconciliationReport } from '../types';
 import { logger } from '../utils/logger';
 import { io } from '../index';
 import { technicalIndicators } from './technicalIndicators';
 import { pineconeService } from './pineconeService';
 import { strategyManager } from './strategyManager';
+import { calculatePnl } from './tradeHistoryService';
+import { evaluateExit, evaluateScaleIn } from './tradeRules';
+import { ConditionEvaluator, flattenConditions, formatConditionTrace } from './conditionEvaluator';
+import { pendingSignalService } from './pendingSignalService';
+import { paperBroker, PaperAccount } from './paperBroker';
+import { evaluationScheduler, baseSymbol } from './evaluationScheduler';
+import { marketClock, ClockTimer } from './marketClock';
+import { tradingConfig } from '../config/trading';
 import axios from 'axios';
 
 interface Portfolio {
@@ -13,13 +21,20 @@ interface Portfolio {
   open_positions: Position[];
   daily_pnl: number;
   total_pnl: number;
+  paper?: PaperPortfolio;
+}
+
+// Virtual account kept by the paper broker, reported separately from live funds
+interface PaperPortfolio extends PaperAccount {
+  open_positions: Position[];
 }
 
 export class PortfolioMonitor {
   private positions: Map<string, Position> = new Map();
-  private monitoringInterval: NodeJS.Timeout | null = null;
+  private monitoringInterval: ClockTimer | null = null;
   private dailyStartValue: number = 0;
   private currentAsset: string = '';
+  private evaluator = new ConditionEvaluator(technicalIndicators, () => marketClock.now(), pendingSignalService);
 
   async initialize() {
     logger.info('Initializing PortfolioMonitor');
@@ -47,26 +62,52 @@ export class PortfolioMonitor {
   }
 
   private startMonitoring() {
-    // Monitor positions every 5 seconds
-    this.monitoringInterval = setInterval(() => {
-      this.checkAllPositions();
-    }, 5000);
+    // Stops, targets and exit signals are re-checked as soon as an asset they read quotes
+    evaluationScheduler.register('position', {
+      getDependents: symbol => this.getOpenPositions()
+        .filter(position => this.getWatchedSymbols(position).has(symbol))
+        .map(position => position.id),
+      evaluate: async positionId => {
+        const position = this.positions.get(positionId);
+        if (position?.status === 'open') {
+          await this.checkPosition(position);
+        }
+      }
+    });
+
+    // Sweep for time-based stops and portfolio stats
+    this.monitoringInterval = marketClock.setInterval(
+      () => this.checkAllPositions(),
+      tradingConfig.monitoring.sweepIntervalMs
+    );
+  }
+
+  private getWatchedSymbols(position: Position): Set<string> {
+    const signals = strategyManager.getStrategy(position.strategy_id)?.exit_conditions?.exit_signals || [];
+    const assets = [
+      position.asset,
+      ...signals.flatMap(signal => flattenConditions(signal.condition)).flatMap(condition => [
+        condition.primary_asset,
+        condition.secondary_asset,
+        ...(condition.triggers || []).map(trigger => trigger.asset)
+      ])
+    ];
+
+    return new Set(assets.filter((asset): asset is string => !!asset).map(baseSymbol));
   }
 
   private async checkAllPositions() {
-    for (const [id, position] of this.positions) {
-      if (position.status !== 'open') continue;
-      
-      try {
-        await this.checkPosition(position);
-      } catch (error) {
-        logger.error(`Error checking position ${id}:`, error);
-      }
+    for (const position of this.getOpenPositions()) {
+      await evaluationScheduler.run('position', position.id);
     }
 
     // Update portfolio stats
     const portfolio = await this.getPortfolio();
     io.emit('portfolio:update', portfolio);
+
+    // Import riskEngine dynamically to avoid circular dependency
+    const { riskEngine } = await import('./riskEngine');
+    await riskEngine.recordEquity(portfolio.total_value);
   }
 
   private async checkPosition(position: Position) {
@@ -74,69 +115,59 @@ export class PortfolioMonitor {
     if (!currentPrice) return;
 
     position.current_price = currentPrice;
-    const unrealizedPnl = (currentPrice - position.entry_price) * position.quantity;
-
-    // Update trailing stop if needed
-    if (position.side === 'buy' && currentPrice > position.entry_price) {
-      const strategy = strategyManager.getStrategy(position.strategy_id);
-      if (strategy?.exit_conditions.stop_loss.is_trailing) {
-        const newStopPrice = await this.calculateTrailingStop(
-          currentPrice,
-          position.entry_price,
-          strategy.exit_conditions.stop_loss,
-          position.asset
-        );
-
-        if (newStopPrice > position.trailing_stop_price) {
-          position.trailing_stop_price = newStopPrice;
-          await pineconeService.savePosition(position);
-          
-          logger.info(`Updated trailing stop for ${position.asset}: ${newStopPrice}`);
-        }
-      }
-    }
+    const unrealizedPnl = calculatePnl(position.side, position.entry_price, currentPrice, position.quantity);
 
-    // Check exit conditions
-    let shouldExit = false;
-    let exitReason = '';
+    const strategy = strategyManager.getStrategy(position.strategy_id);
+    const decision = await evaluateExit(
+      technicalIndicators,
+      position,
+      strategy?.exit_conditions,
+      currentPrice,
+      marketClock.now(),
+      this.evaluator
+    );
+
+    if (decision.stop_updated) {
+      const previousStop = position.trailing_stop_price;
+      position.trailing_stop_price = decision.trailing_stop_price;
+      position.stop_rule = decision.stop_rule;
+      await pineconeService.savePosition(position);
+
+      io.emit('position:update', {
+        position,
+        reason: 'stop_adjusted',
+        stop_rule: decision.stop_rule,
+        previous_stop_price: previousStop
+      });
+      logger.info(`Moved ${decision.stop_rule} stop for ${position.asset}: ${previousStop} → ${decision.trailing_stop_price}`);
 
-    // Check stop loss
-    if (currentPrice <= position.trailing_stop_price) {
-      shouldExit = true;
-      exitReason = 'Stop loss triggered';
+      // Amend the resting exchange stop to match
+      const { protectiveOrderService } = await import('./protectiveOrderService');
+      await protectiveOrderService.sync(position);
     }
 
-    // Check take profit
-    if (currentPrice >= position.take_profit_price) {
-      shouldExit = true;
-      exitReason = 'Take profit triggered';
-    }
-
-    // Check max hold period
-    const strategy = strategyManager.getStrategy(position.strategy_id);
-    if (strategy?.exit_conditions) {
-      const holdTime = Date.now() - position.entry_time.getTime();
-      let maxHoldMs: number | null = null;
-
-      // Handle both max_hold_days (direct number) and max_hold_period (object) formats
-      if (strategy.exit_conditions.max_hold_days) {
-        maxHoldMs = strategy.exit_conditions.max_hold_days * 86400000; // Convert days to ms
-      } else if (strategy.exit_conditions.max_hold_period) {
-        maxHoldMs = strategy.exit_conditions.max_hold_period.value * 
-          (strategy.exit_conditions.max_hold_period.unit === 'days' ? 86400000 : 3600000);
-      }
-      
-      if (maxHoldMs && holdTime > maxHoldMs) {
-        shouldExit = true;
-        exitReason = 'Max hold period exceeded';
-      }
-    }
+    const shouldExit = decision.shouldExit;
+    const exitReason = decision.reason;
 
     if (shouldExit) {
       logger.info(`Exit signal for position ${position.id}: ${exitReason}`);
+      if (decision.exit_signal) {
+        logger.info(`Strategy exit signal for ${position.asset}:\n${formatConditionTrace(decision.exit_signal)}`);
+      }
       // Import tradeExecutor dynamically to avoid circular dependency
       const { tradeExecutor } = await import('./tradeExecutor');
       await tradeExecutor.closePosition(position, exitReason);
+    } else if (decision.scale_out) {
+      const { level, quantity, reason } = decision.scale_out;
+      logger.info(`Scale-out signal for position ${position.id}: ${reason}`);
+      const { tradeExecutor } = await import('./tradeExecutor');
+      await tradeExecutor.partialClose(position, quantity, reason, level);
+    } else {
+      const stage = evaluateScaleIn(position, currentPrice);
+      if (stage) {
+        const { tradeExecutor } = await import('./tradeExecutor');
+        await tradeExecutor.scaleIn(position, stage);
+      }
     }
 
     // Emit position update
@@ -146,37 +177,6 @@ export class PortfolioMonitor {
     });
   }
 
-  private async calculateTrailingStop(
-    currentPrice: number,
-    entryPrice: number,
-    stopLossConfig: any,
-    asset: string = this.currentAsset
-  ): Promise<number> {
-    let stopDistance: number;
-
-    switch (stopLossConfig.type) {
-      case 'percentage':
-        stopDistance = currentPrice * (stopLossConfig.value / 100);
-        break;
-        
-      case 'atr':
-        try {
-          const atr = await technicalIndicators.calculateATR(asset, 14);
-          stopDistance = atr * stopLossConfig.value;
-        } catch (error) {
-          // Fallback to percentage-based stop
-          logger.warn(`ATR calculation failed for ${asset} trailing stop, using 2%`);
-          stopDistance = currentPrice * 0.02;
-        }
-        break;
-        
-      default:
-        stopDistance = currentPrice * 0.02; // 2% default
-    }
-
-    return parseFloat((currentPrice - stopDistance).toFixed(2));
-  }
-
   async addPosition(position: Position) {
     this.positions.set(position.id, position);
     this.currentAsset = position.asset;
@@ -192,6 +192,17 @@ export class PortfolioMonitor {
     }
   }
 
+  // Quarantined positions stay persisted but are no longer monitored or traded
+  quarantinePosition(positionId: string): Position | undefined {
+    const position = this.positions.get(positionId);
+    if (position) {
+      position.status = 'quarantined';
+      this.positions.delete(positionId);
+      logger.warn(`Quarantined position ${positionId}`);
+    }
+    return position;
+  }
+
   updatePosition(positionId: string, updates: Partial<Position>): void {
     const position = this.positions.get(positionId);
     if (position) {
@@ -215,8 +226,22 @@ export class PortfolioMonitor {
 
   async getPortfolio(): Promise<Portfolio> {
     const { coinbaseService } = await import('./coinbaseService');
+    const paper = this.getPaperPortfolio();
 
     if (!coinbaseService.isConfigured()) {
+      // Paper-only deployments don't need exchange credentials
+      if (tradingConfig.broker.default === 'paper') {
+        return {
+          total_value: paper.total_value,
+          cash_balance: paper.cash_balance,
+          positions_value: paper.positions_value,
+          open_positions: [],
+          daily_pnl: 0,
+          total_pnl: 0,
+          paper
+        };
+      }
+
       throw new Error('Coinbase credentials are missing – set COINBASE_API_KEY, COINBASE_API_SECRET and COINBASE_PASSPHRASE in backend/.env');
     }
 
@@ -249,7 +274,15 @@ export class PortfolioMonitor {
       positions_value: coinbasePortfolio.positions_value,
       open_positions: openPositions,
       daily_pnl: coinbasePortfolio.daily_pnl,
-      total_pnl: 0
+      total_pnl: 0,
+      paper
+    };
+  }
+
+  getPaperPortfolio(): PaperPortfolio {
+    return {
+      ...paperBroker.getAccount(),
+      open_positions: this.getOpenPositions().filter(p => p.broker === 'paper')
     };
   }
 
@@ -264,24 +297,23 @@ export class PortfolioMonitor {
     let totalPnl = 0;
 
     for (const position of openPositions) {
-      const currentValue = position.current_price * position.quantity;
-      const entryValue = position.entry_price * position.quantity;
-      totalPnl += (currentValue - entryValue);
+      totalPnl += calculatePnl(position.side, position.entry_price, position.current_price, position.quantity);
     }
 
     const totalValue = totalPnl; // Use actual P&L
     return totalValue - this.dailyStartValue;
   }
 
-  async syncWithCoinbase(): Promise<void> {
-    // Implement Coinbase API sync
+  async syncWithCoinbase(): Promise<ReconciliationReport> {
     logger.info('Syncing positions with Coinbase...');
-    // This would call Coinbase API to get actual positions
+    // Import reconciliationService dynamically to avoid circular dependency
+    const { reconciliationService } = await import('./reconciliationService');
+    return reconciliationService.run();
   }
 
   stopMonitoring(): void {
     if (this.monitoringInterval) {
-      clearInterval(this.monitoringInterval);
+      marketClock.clear(this.monitoringInterval);
       this.monitoringInterval = null;
     }
     logger.info('Portfolio monitoring stopped');
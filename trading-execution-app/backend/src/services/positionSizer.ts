@@ -0,0 +1,192 @@
+import { logger } from '../utils/logger';
+import { tradingConfig } from '../config/trading';
+import { ParsedStrategy, PositionSizing, SizingMode } from '../types';
+import { technicalIndicators, TechnicalIndicators } from './technicalIndicators';
+import { tradeHistoryService } from './tradeHistoryService';
+import { portfolioMonitor } from './portfolioMonitor';
+import { getBrokerAdapter } from './brokerAdapter';
+import { paperBroker } from './paperBroker';
+import { TIMEFRAME_MS } from './candleAggregator';
+
+const YEAR_MS = 365 * 86400000;
+
+export interface SizingResult {
+  mode: SizingMode;
+  notional_usd: number;
+  quantity: number;
+  detail: string;
+}
+
+export interface SizingInputs {
+  equity?: number;     // Replaces the strategy's broker equity - backtests pass their simulated account
+  stop_price?: number; // Where the entry's stop will sit; atr_risk then risks over this distance instead of ATRs
+}
+
+// Turns a strategy's sizing model into the USD notional of its next entry
+export class PositionSizer {
+  constructor(private indicators: TechnicalIndicators = technicalIndicators) {}
+
+  async calculate(strategy: ParsedStrategy, asset: string, price: number, inputs: SizingInputs = {}): Promise<SizingResult> {
+    const sizing: PositionSizing = strategy.sizing || { mode: 'fixed_usd', value: strategy.position_size };
+    const fixedUSD = strategy.position_size || tradingConfig.positions.defaultSizeUSD;
+
+    let notional: number;
+    let detail: string;
+
+    try {
+      ({ notional, detail } = await this.size(strategy, sizing, asset, price, fixedUSD, inputs));
+    } catch (error: any) {
+      // Models that need history or equity fall back to the flat size until it's available
+      logger.warn(`${sizing.mode} sizing unavailable for ${strategy.strategy_id} (${error.message}) - using $${fixedUSD}`);
+      notional = fixedUSD;
+      detail = `fallback: ${error.message}`;
+    }
+
+    if (notional > tradingConfig.positions.maxPositionSizeUSD) {
+      detail += `, capped from $${notional.toFixed(2)}`;
+      notional = tradingConfig.positions.maxPositionSizeUSD;
+    }
+
+    if (!(notional > 0)) {
+      throw new Error(`${sizing.mode} sizing produced no position (${detail})`);
+    }
+
+    return {
+      mode: sizing.mode,
+      notional_usd: parseFloat(notional.toFixed(2)),
+      quantity: parseFloat((notional / price).toFixed(8)),
+      detail
+    };
+  }
+
+  private async size(
+    strategy: ParsedStrategy,
+    sizing: PositionSizing,
+    asset: string,
+    price: number,
+    fixedUSD: number,
+    inputs: SizingInputs
+  ): Promise<{ notional: number; detail: string }> {
+    switch (sizing.mode) {
+      case 'percent_equity': {
+        const equity = await this.getEquity(strategy, inputs);
+        return {
+          notional: equity * sizing.value / 100,
+          detail: `${sizing.value}% of $${equity.toFixed(2)} equity`
+        };
+      }
+
+      case 'atr_risk': {
+        // Size so that a stop atr_multiplier ATRs away loses value% of equity
+        const equity = await this.getEquity(strategy, inputs);
+        const riskUSD = equity * sizing.value / 100;
+
+        if (inputs.stop_price !== undefined) {
+          const stopDistance = Math.abs(price - inputs.stop_price);
+          if (!(stopDistance > 0)) {
+            throw new Error('stop is at the entry price');
+          }
+          return {
+            notional: riskUSD / stopDistance * price,
+            detail: `risking $${riskUSD.toFixed(2)} over a stop ${stopDistance.toFixed(2)} away`
+          };
+        }
+
+        const stopLoss = strategy.exit_conditions?.stop_loss;
+        const multiplier = sizing.atr_multiplier
+          ?? (stopLoss?.type === 'atr' ? stopLoss.value : 2);
+        const atr = await this.indicators.calculateATR(asset, 14);
+        const stopDistance = atr * multiplier;
+        if (!(stopDistance > 0)) {
+          throw new Error('ATR is zero');
+        }
+
+        return {
+          notional: riskUSD / stopDistance * price,
+          detail: `risking $${riskUSD.toFixed(2)} over a ${multiplier}x ATR stop (${stopDistance.toFixed(2)})`
+        };
+      }
+
+      case 'volatility_target': {
+        const equity = await this.getEquity(strategy, inputs);
+        const volatility = this.getAnnualizedVolatility(asset);
+        return {
+          notional: equity * (sizing.value / 100) / volatility,
+          detail: `targeting ${sizing.value}% vol against ${(volatility * 100).toFixed(1)}% realized`
+        };
+      }
+
+      case 'kelly': {
+        const equity = await this.getEquity(strategy, inputs);
+        const kelly = await this.getKellyFraction(strategy.strategy_id, sizing.min_trades);
+        const fraction = kelly * sizing.value;
+        return {
+          notional: equity * fraction,
+          detail: `${sizing.value}x Kelly (${(kelly * 100).toFixed(1)}%) of $${equity.toFixed(2)} equity`
+        };
+      }
+
+      case 'fixed_usd':
+      default:
+        return {
+          notional: sizing.value || fixedUSD,
+          detail: 'fixed USD'
+        };
+    }
+  }
+
+  // Full Kelly fraction W - (1 - W) / R from the strategy's closed trades
+  async getKellyFraction(strategyId: string, minTrades = tradingConfig.sizing.kellyMinTrades): Promise<number> {
+    const stats = await tradeHistoryService.getTradeStats(strategyId);
+    if (stats.total_trades < minTrades) {
+      throw new Error(`only ${stats.total_trades}/${minTrades} closed trades`);
+    }
+    if (stats.avg_loss === 0) {
+      throw new Error('no losing trades to estimate payoff ratio');
+    }
+
+    const winRate = stats.win_rate / 100;
+    const payoffRatio = stats.avg_profit / Math.abs(stats.avg_loss);
+    if (payoffRatio === 0) {
+      return 0;
+    }
+
+    return Math.max(0, winRate - (1 - winRate) / payoffRatio);
+  }
+
+  // Standard deviation of candle returns scaled to a year
+  getAnnualizedVolatility(asset: string): number {
+    const { volatilityTimeframe, volatilityLookback } = tradingConfig.sizing;
+    const candles = this.indicators.getCandles(asset, volatilityTimeframe).slice(-(volatilityLookback + 1));
+    if (candles.length < volatilityLookback + 1) {
+      throw new Error(`need ${volatilityLookback + 1} ${volatilityTimeframe} candles, have ${candles.length}`);
+    }
+
+    const returns: number[] = [];
+    for (let i = 1; i < candles.length; i++) {
+      returns.push(Math.log(candles[i].close / candles[i - 1].close));
+    }
+
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+    const volatility = Math.sqrt(variance) * Math.sqrt(YEAR_MS / TIMEFRAME_MS[volatilityTimeframe]);
+
+    if (!(volatility > 0)) {
+      throw new Error('realized volatility is zero');
+    }
+    return volatility;
+  }
+
+  // Paper strategies size from the simulated account, not the real portfolio
+  private async getEquity(strategy: ParsedStrategy, inputs: SizingInputs): Promise<number> {
+    const equity = inputs.equity ?? (getBrokerAdapter(strategy.broker).name === 'paper'
+      ? paperBroker.getAccount().total_value
+      : await portfolioMonitor.getTotalValue());
+    if (!(equity > 0)) {
+      throw new Error('equity unavailable');
+    }
+    return equity;
+  }
+}
+
+export const positionSizer = new PositionSizer();
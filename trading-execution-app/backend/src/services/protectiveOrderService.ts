@@ -0,0 +1,173 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { tradingConfig } from '../config/trading';
+import { ManagedOrder, Position, TradeOrder } from '../types';
+import { orderManager } from './orderManager';
+import { getBrokerAdapter } from './brokerAdapter';
+import { strategyManager } from './strategyManager';
+import { getCloseSide, QUANTITY_EPSILON } from './tradeRules';
+
+export type ProtectiveRole = 'stop' | 'take_profit';
+
+// Keeps a resting stop-limit (and optionally a take-profit limit) at the broker for each open position,
+// so exits still happen if this process or its market feed goes away. Both exits hold the full quantity,
+// so the take-profit only rests on venues that link the pair as an OCO; elsewhere, or when the broker
+// refuses it, the monitor watches the target client-side. TradeExecutor also cancels the survivor.
+export class ProtectiveOrderService {
+  private refusedTakeProfits: Set<string> = new Set(); // Positions whose take-profit the broker wouldn't rest
+
+  isEnabled(position: Position): boolean {
+    if (!tradingConfig.protection.nativeStops) return false;
+
+    const adapter = this.getAdapter(position);
+    return adapter.supportsStopOrders && adapter.tracksOrders;
+  }
+
+  getOrders(positionId: string): ManagedOrder[] {
+    return orderManager.getWorkingOrders().filter(o =>
+      o.position_id === positionId && o.purpose === 'exit' && o.metadata?.protective
+    );
+  }
+
+  getRole(order: ManagedOrder): ProtectiveRole | undefined {
+    return order.metadata?.protective;
+  }
+
+  // Places whatever protection the position is missing and replaces orders whose price or size is out of date
+  async sync(position: Position): Promise<void> {
+    if (!this.isEnabled(position) || position.status !== 'open') return;
+
+    const wanted = this.getWantedOrders(position);
+    const working = this.getOrders(position.id);
+
+    for (const order of working) {
+      const role = this.getRole(order)!;
+      const target = wanted[role];
+      const remaining = order.size - order.filled_size;
+
+      const current = target
+        && Math.abs(remaining - position.quantity) <= QUANTITY_EPSILON
+        && order.metadata?.trigger_price === target.trigger_price;
+      if (current) {
+        delete wanted[role];
+        continue;
+      }
+
+      // Amend by cancel/replace; a refused cancel usually means it just filled, so leave it to the fill handler
+      try {
+        await orderManager.cancelOrder(order.id);
+      } catch (error: any) {
+        logger.warn(`🛡️ Could not cancel protective ${role} ${order.id} for ${position.id}: ${error.message}`);
+        delete wanted[role];
+      }
+    }
+
+    for (const role of Object.keys(wanted) as ProtectiveRole[]) {
+      const placed = await this.place(position, role, wanted[role]!.trigger_price);
+      if (!placed && role === 'take_profit') {
+        this.refusedTakeProfits.add(position.id);
+        logger.warn(`🛡️ Take-profit for ${position.id} left to the monitor`);
+      }
+    }
+  }
+
+  // Cancels every protective order; false if any could not be cancelled (it may have filled)
+  async cancelAll(position: Position): Promise<boolean> {
+    let cleared = true;
+    this.refusedTakeProfits.delete(position.id);
+
+    for (const order of this.getOrders(position.id)) {
+      try {
+        await orderManager.cancelOrder(order.id);
+      } catch (error: any) {
+        logger.warn(`🛡️ Could not cancel protective ${this.getRole(order)} ${order.id} for ${position.id}: ${error.message}`);
+        cleared = false;
+      }
+    }
+
+    return cleared;
+  }
+
+  private getWantedOrders(position: Position): Partial<Record<ProtectiveRole, { trigger_price: number }>> {
+    const wanted: Partial<Record<ProtectiveRole, { trigger_price: number }>> = {};
+    if (position.quantity <= QUANTITY_EPSILON) return wanted;
+
+    if (position.trailing_stop_price > 0) {
+      wanted.stop = { trigger_price: position.trailing_stop_price };
+    }
+
+    // Ladders sell in slices, which the monitor handles; a single target can rest at the broker
+    // alongside the stop only if the broker cancels one when the other fills
+    const restTakeProfit = tradingConfig.protection.nativeTakeProfit
+      && this.getAdapter(position).supportsOcoOrders
+      && !this.refusedTakeProfits.has(position.id);
+    if (restTakeProfit && !position.take_profit_targets?.length && position.take_profit_price > 0) {
+      wanted.take_profit = { trigger_price: position.take_profit_price };
+    }
+
+    return wanted;
+  }
+
+  // Returns whether the order is resting (or already filled)
+  private async place(position: Position, role: ProtectiveRole, triggerPrice: number): Promise<boolean> {
+    const side = getCloseSide(position.side);
+    const adapter = this.getAdapter(position);
+    const order: TradeOrder = {
+      side,
+      product_id: position.asset,
+      type: role === 'stop' ? 'stop' : 'limit',
+      size: position.quantity.toFixed(8),
+      client_oid: uuidv4(),
+      oco_group: adapter.supportsOcoOrders ? position.id : undefined
+    };
+
+    if (role === 'stop') {
+      const offset = tradingConfig.protection.stopLimitOffsetPercent / 100;
+      order.stop_price = triggerPrice.toFixed(2);
+      order.stop_limit_price = (side === 'sell' ? triggerPrice * (1 - offset) : triggerPrice * (1 + offset)).toFixed(2);
+    } else {
+      order.price = triggerPrice.toFixed(2);
+    }
+
+    const managed = await orderManager.createOrder(order, {
+      broker: adapter.name,
+      strategy_id: position.strategy_id,
+      purpose: 'exit',
+      position_id: position.id,
+      metadata: {
+        protective: role,
+        trigger_price: triggerPrice,
+        stop_limit_price: order.stop_limit_price ? parseFloat(order.stop_limit_price) : undefined,
+        reason: role === 'stop' ? 'Stop loss triggered (exchange stop)' : 'Take profit triggered (exchange limit)'
+      }
+    });
+
+    try {
+      const result = await adapter.placeOrder(order);
+      await orderManager.recordSubmission(managed, result);
+
+      if (!result.success) {
+        logger.error(`🛡️ Broker refused protective ${role} for ${position.id}: ${result.message}`);
+        return false;
+      }
+
+      logger.info(`🛡️ Protective ${role} for ${position.asset} resting @ ${triggerPrice} (${order.size})`);
+
+      // Marketable on arrival (e.g. the stop was already through the market)
+      if (managed.filled_size > 0) {
+        orderManager.emit('fill', managed, managed.filled_size);
+      }
+      return true;
+    } catch (error: any) {
+      await orderManager.markRejected(managed, error.message);
+      logger.error(`🛡️ Failed to place protective ${role} for ${position.id}:`, error.message);
+      return false;
+    }
+  }
+
+  private getAdapter(position: Position) {
+    return getBrokerAdapter(position.broker || strategyManager.getStrategy(position.strategy_id)?.broker);
+  }
+}
+
+export const protectiveOrderService = new ProtectiveOrderService();
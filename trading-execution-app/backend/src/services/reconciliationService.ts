@@ -0,0 +1,426 @@
+import { v4 as uuidv4 } from 'uuid';
+import { databaseService } from '../config/database';
+import { tradingConfig } from '../config/trading';
+import { logger } from '../utils/logger';
+import {
+  Position,
+  QuarantineRecord,
+  ReconciliationDrift,
+  ReconciliationReport
+} from '../types';
+import { pineconeService } from './pineconeService';
+import { portfolioMonitor } from './portfolioMonitor';
+import { tradeHistoryService, TradeRecord } from './tradeHistoryService';
+import { coinbaseService } from './coinbaseService';
+import { strategyManager } from './strategyManager';
+import { technicalIndicators } from './technicalIndicators';
+import { complianceLogger } from './complianceLogger';
+import { calculateStopLoss, calculateTakeProfit } from './tradeRules';
+import { io } from '../index';
+
+const CASH_CURRENCIES = ['USD', 'USDC'];
+const ADOPTED_STRATEGY_ID = 'reconciliation-adopted';
+
+interface ExchangeHolding {
+  currency: string;
+  quantity: number;
+  price: number; // Derived from the exchange's notional value
+}
+
+export interface AdoptRequest {
+  currency: string;
+  strategy_id?: string;
+  quantity?: number;
+}
+
+export interface QuarantineRequest {
+  position_id?: string;
+  trade_id?: number;
+  reason?: string;
+}
+
+function baseCurrency(asset: string): string {
+  return asset.split('-')[0].toUpperCase();
+}
+
+// Compares persisted positions, open trade rows and exchange balances so drift after a crash is visible
+export class ReconciliationService {
+  private lastReport: ReconciliationReport | null = null;
+
+  async run(): Promise<ReconciliationReport> {
+    const quarantined = await this.getQuarantined();
+    const quarantinedPositions = new Set(quarantined.map(q => q.position_id).filter(Boolean));
+    const quarantinedTrades = new Set(quarantined.map(q => q.trade_id).filter(Boolean));
+
+    // A quarantined position takes every entry leg recorded against it along
+    const positions = (await this.loadPositions()).filter(p => !quarantinedPositions.has(p.id));
+    const trades = (await tradeHistoryService.getOpenTrades()).filter(t =>
+      !quarantinedTrades.has(t.id) && !quarantinedPositions.has(t.metadata?.position_id)
+    );
+    const holdings = await this.loadHoldings();
+
+    const drift = [
+      ...this.compareTrades(positions, trades),
+      ...(holdings ? this.compareHoldings(positions, holdings) : [])
+    ];
+
+    const report: ReconciliationReport = {
+      checked_at: new Date(),
+      exchange_checked: holdings !== null,
+      positions: positions.length,
+      open_trades: trades.length,
+      balances: holdings?.length || 0,
+      drift,
+      quarantined
+    };
+
+    if (drift.length > 0) {
+      logger.warn(`⚠️ Reconciliation found ${drift.length} discrepancies`);
+      drift.forEach(d => logger.warn(`  ${d.type}: ${d.message}`));
+
+      await complianceLogger.logEvent({
+        event_type: 'reconciliation_drift',
+        action: 'reconcile',
+        details: { drift, exchange_checked: report.exchange_checked }
+      });
+      io.emit('reconciliation:drift', report);
+    } else {
+      logger.info(`✅ Reconciliation clean: ${positions.length} positions, ${trades.length} open trades`);
+    }
+
+    this.lastReport = report;
+    return report;
+  }
+
+  getLastReport(): ReconciliationReport | null {
+    return this.lastReport;
+  }
+
+  // Sets a position and/or trade row aside so it is neither monitored nor reported again
+  async quarantine(request: QuarantineRequest): Promise<QuarantineRecord> {
+    if (!request.position_id && !request.trade_id) {
+      throw new Error('position_id or trade_id is required');
+    }
+
+    let position: Position | undefined;
+    let trade: TradeRecord | null = null;
+    let legs: TradeRecord[] = [];
+
+    if (request.position_id) {
+      position = portfolioMonitor.quarantinePosition(request.position_id)
+        || (await this.loadPositions()).find(p => p.id === request.position_id);
+      if (!position) {
+        throw new Error(`Position ${request.position_id} not found`);
+      }
+
+      position.status = 'quarantined';
+      await pineconeService.savePosition(position);
+    }
+
+    if (request.trade_id) {
+      trade = await tradeHistoryService.getTradeById(request.trade_id);
+      if (!trade) {
+        throw new Error(`Trade ${request.trade_id} not found`);
+      }
+    } else if (position) {
+      // The position's open trade rows go with it, or they would come back as missing_position drift
+      legs = this.findLegs(position, await tradeHistoryService.getOpenTrades(position.strategy_id));
+      trade = legs[0] || null;
+    }
+
+    const asset = position?.asset || trade!.symbol;
+    const reason = request.reason || 'Reconciliation drift';
+    const id = await databaseService.insert(
+      `INSERT INTO reconciliation_quarantine (position_id, trade_id, asset, reason, snapshot)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        position?.id || null,
+        trade?.id || null,
+        asset,
+        reason,
+        JSON.stringify({ position, trade, legs })
+      ]
+    );
+
+    await complianceLogger.logEvent({
+      event_type: 'reconciliation_quarantine',
+      strategy_id: position?.strategy_id || trade?.strategy_id,
+      symbol: asset,
+      action: 'quarantine',
+      details: { position_id: position?.id, trade_id: trade?.id, reason }
+    });
+
+    logger.warn(`🚧 Quarantined ${asset} (position ${position?.id || '-'}, trade ${trade?.id || '-'}): ${reason}`);
+
+    return {
+      id,
+      position_id: position?.id,
+      trade_id: trade?.id,
+      asset,
+      reason,
+      snapshot: { position, trade, legs },
+      created_at: new Date()
+    };
+  }
+
+  // Starts tracking an exchange holding that no position accounts for
+  async adopt(request: AdoptRequest): Promise<Position> {
+    const currency = request.currency.toUpperCase();
+    const holdings = await this.loadHoldings();
+    if (!holdings) {
+      throw new Error('Coinbase is not configured - nothing to adopt');
+    }
+
+    const holding = holdings.find(h => h.currency === currency);
+    if (!holding) {
+      throw new Error(`No ${currency} balance on the exchange`);
+    }
+
+    const tracked = this.getTrackedQuantity(await this.loadPositions(), currency);
+    const untracked = holding.quantity - tracked;
+    const quantity = request.quantity ?? untracked;
+    if (quantity <= 0 || quantity > untracked + 1e-9) {
+      throw new Error(`Only ${Math.max(untracked, 0)} ${currency} is untracked`);
+    }
+
+    const strategy = request.strategy_id ? strategyManager.getStrategy(request.strategy_id) : undefined;
+    if (request.strategy_id && !strategy) {
+      throw new Error(`Strategy ${request.strategy_id} not found`);
+    }
+
+    const asset = `${currency}-USD`;
+    const price = technicalIndicators.getCurrentPrice(asset) || holding.price;
+    if (!price) {
+      throw new Error(`No price available for ${asset}`);
+    }
+
+    // Adopted holdings get the strategy's exits, or the house defaults when unassigned
+    const stopLossConfig = strategy?.exit_conditions.stop_loss
+      || { type: 'percentage', value: tradingConfig.risk.defaultStopLossPercent };
+    const takeProfitConfig = strategy?.exit_conditions.take_profit
+      || { type: 'percentage', value: tradingConfig.risk.defaultTakeProfitPercent };
+
+    const stopPrice = await calculateStopLoss(technicalIndicators, price, stopLossConfig, 'buy', asset);
+    const position: Position = {
+      id: uuidv4(),
+      strategy_id: strategy?.strategy_id || ADOPTED_STRATEGY_ID,
+      asset,
+      side: 'buy',
+      entry_price: price,
+      current_price: price,
+      quantity,
+      trailing_stop_price: stopPrice,
+      initial_stop_price: stopPrice,
+      stop_rule: 'initial',
+      take_profit_price: await calculateTakeProfit(technicalIndicators, price, takeProfitConfig, 'buy', asset),
+      status: 'open',
+      entry_time: new Date(),
+      broker: 'coinbase'
+    };
+
+    await pineconeService.savePosition(position);
+    await portfolioMonitor.addPosition(position);
+    await tradeHistoryService.recordTrade({
+      strategy_id: position.strategy_id,
+      symbol: position.asset,
+      side: position.side,
+      entry_price: position.entry_price,
+      quantity: position.quantity,
+      entry_time: position.entry_time,
+      status: 'open',
+      metadata: {
+        position_id: position.id,
+        leg: 0,
+        trailing_stop_price: position.trailing_stop_price,
+        take_profit_price: position.take_profit_price,
+        adopted: true
+      }
+    });
+
+    await complianceLogger.logEvent({
+      event_type: 'reconciliation_adopt',
+      strategy_id: position.strategy_id,
+      symbol: asset,
+      action: 'adopt',
+      details: { position_id: position.id, quantity, price }
+    });
+
+    io.emit('position:update', { position, reason: 'adopted' });
+    logger.info(`📥 Adopted ${quantity} ${currency} at ${price} as position ${position.id}`);
+
+    return position;
+  }
+
+  async getQuarantined(): Promise<QuarantineRecord[]> {
+    const rows = await databaseService.all(
+      'SELECT * FROM reconciliation_quarantine ORDER BY created_at DESC'
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      position_id: row.position_id || undefined,
+      trade_id: row.trade_id || undefined,
+      asset: row.asset,
+      reason: row.reason,
+      snapshot: row.snapshot ? JSON.parse(row.snapshot) : undefined,
+      created_at: new Date(row.created_at)
+    }));
+  }
+
+  // Pinecone is the durable record; in demo mode only the in-memory positions exist
+  private async loadPositions(): Promise<Position[]> {
+    if (!pineconeService.isPersistent()) {
+      return portfolioMonitor.getOpenPositions();
+    }
+    return pineconeService.getActivePositions();
+  }
+
+  private async loadHoldings(): Promise<ExchangeHolding[] | null> {
+    if (!coinbaseService.isConfigured()) {
+      return null;
+    }
+
+    try {
+      const balances = await coinbaseService.getBalances();
+      return balances
+        .filter(b => !CASH_CURRENCIES.includes(b.currency))
+        .map(b => {
+          const quantity = parseFloat(b.balance);
+          return {
+            currency: b.currency,
+            quantity,
+            price: quantity > 0 ? (b.notional_value || 0) / quantity : 0
+          };
+        });
+    } catch (error) {
+      logger.error('Failed to load exchange balances for reconciliation:', error);
+      return null;
+    }
+  }
+
+  // Every open entry leg recorded against the position. Rows from before legs carried a position id are
+  // paired one to one: by entry order id, then by the same strategy/asset/side.
+  private findLegs(position: Position, trades: TradeRecord[]): TradeRecord[] {
+    const legs = trades.filter(t => t.metadata?.position_id === position.id);
+    if (legs.length > 0) {
+      return legs;
+    }
+
+    const unlinked = trades.filter(t => !t.metadata?.position_id);
+    const trade = unlinked.find(t => position.coinbase_order_id && t.order_id === position.coinbase_order_id)
+      || unlinked.find(t =>
+        t.strategy_id === position.strategy_id &&
+        t.symbol === position.asset &&
+        t.side === position.side
+      );
+    return trade ? [trade] : [];
+  }
+
+  private compareTrades(positions: Position[], trades: TradeRecord[]): ReconciliationDrift[] {
+    const drift: ReconciliationDrift[] = [];
+    const unmatched = [...trades];
+
+    for (const position of positions) {
+      const legs = this.findLegs(position, unmatched);
+      if (legs.length === 0) {
+        drift.push({
+          type: 'missing_trade_record',
+          asset: position.asset,
+          position_id: position.id,
+          expected_quantity: position.quantity,
+          message: `Position ${position.id} (${position.quantity} ${position.asset}) has no open trade record`
+        });
+        continue;
+      }
+
+      legs.forEach(leg => unmatched.splice(unmatched.indexOf(leg), 1));
+      const recorded = legs.reduce((sum, leg) => sum + leg.quantity, 0);
+      if (!this.withinTolerance(position.quantity, recorded)) {
+        drift.push({
+          type: 'quantity_mismatch',
+          asset: position.asset,
+          position_id: position.id,
+          trade_id: legs[0].id,
+          expected_quantity: position.quantity,
+          actual_quantity: recorded,
+          message: `Position ${position.id} holds ${position.quantity} ${position.asset} but its trade rows (${legs.map(leg => leg.id).join(', ')}) record ${recorded}`
+        });
+      }
+    }
+
+    for (const trade of unmatched) {
+      drift.push({
+        type: 'missing_position',
+        asset: trade.symbol,
+        trade_id: trade.id,
+        actual_quantity: trade.quantity,
+        message: `Open trade ${trade.id} (${trade.quantity} ${trade.symbol}) has no tracked position`
+      });
+    }
+
+    return drift;
+  }
+
+  // Spot balances only reflect long exposure on exchange-backed brokers
+  private compareHoldings(positions: Position[], holdings: ExchangeHolding[]): ReconciliationDrift[] {
+    const drift: ReconciliationDrift[] = [];
+    const currencies = new Set([
+      ...holdings.map(h => h.currency),
+      ...positions.filter(p => this.isExchangeLong(p)).map(p => baseCurrency(p.asset))
+    ]);
+
+    for (const currency of currencies) {
+      const tracked = this.getTrackedQuantity(positions, currency);
+      const held = holdings.find(h => h.currency === currency)?.quantity || 0;
+
+      if (tracked > 0 && held <= 0) {
+        positions
+          .filter(p => this.isExchangeLong(p) && baseCurrency(p.asset) === currency)
+          .forEach(p => drift.push({
+            type: 'orphaned_position',
+            asset: p.asset,
+            position_id: p.id,
+            expected_quantity: p.quantity,
+            actual_quantity: 0,
+            message: `Position ${p.id} expects ${p.quantity} ${currency} but the exchange holds none`
+          }));
+      } else if (tracked <= 0 && held > 0) {
+        drift.push({
+          type: 'untracked_holding',
+          asset: `${currency}-USD`,
+          expected_quantity: 0,
+          actual_quantity: held,
+          message: `Exchange holds ${held} ${currency} that no position tracks`
+        });
+      } else if (!this.withinTolerance(tracked, held)) {
+        drift.push({
+          type: 'quantity_mismatch',
+          asset: `${currency}-USD`,
+          expected_quantity: tracked,
+          actual_quantity: held,
+          message: `Positions track ${tracked} ${currency} but the exchange holds ${held}`
+        });
+      }
+    }
+
+    return drift;
+  }
+
+  private getTrackedQuantity(positions: Position[], currency: string): number {
+    return positions
+      .filter(p => this.isExchangeLong(p) && baseCurrency(p.asset) === currency)
+      .reduce((sum, p) => sum + p.quantity, 0);
+  }
+
+  private isExchangeLong(position: Position): boolean {
+    return position.side === 'buy' && position.broker !== 'paper';
+  }
+
+  private withinTolerance(expected: number, actual: number): boolean {
+    const scale = Math.max(Math.abs(expected), Math.abs(actual));
+    if (scale === 0) return true;
+    return Math.abs(expected - actual) / scale * 100 <= tradingConfig.reconciliation.quantityTolerancePercent;
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
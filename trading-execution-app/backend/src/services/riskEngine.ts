@@ -0,0 +1,262 @@
+import { databaseService } from '../config/database';
+import { tradingConfig } from '../config/trading';
+import { logger } from '../utils/logger';
+import { BrokerName, ExposureSnapshot, Position, RiskDecision, RiskRejection } from '../types';
+import { portfolioMonitor } from './portfolioMonitor';
+import { getBrokerAdapter } from './brokerAdapter';
+import { paperBroker } from './paperBroker';
+import { orderManager } from './orderManager';
+import { technicalIndicators } from './technicalIndicators';
+import { complianceLogger } from './complianceLogger';
+import { marketClock } from './marketClock';
+
+// Paper strategies trade against the simulated account, everything else against the real portfolio
+export type EquityAccount = 'portfolio' | 'paper';
+
+const HIGH_WATER_MARK_KEYS: Record<EquityAccount, string> = {
+  portfolio: 'equity_high_water_mark',
+  paper: 'paper_equity_high_water_mark'
+};
+
+export interface ProposedTrade {
+  strategy_id: string;
+  asset: string;
+  side: 'buy' | 'sell';
+  notional_usd: number;
+  broker?: BrokerName;  // The strategy's broker; decides whose equity the percentage limits use
+  position_id?: string; // Set when adding to an open position rather than opening a new one
+}
+
+function signedNotional(side: 'buy' | 'sell', notional: number): number {
+  return side === 'sell' ? -notional : notional;
+}
+
+// Portfolio-level limits checked before any new entry is sent to a broker
+export class RiskEngine {
+  private highWaterMarks: Record<EquityAccount, number> = { portfolio: 0, paper: 0 };
+  private lastRejectionLog: Map<string, number> = new Map(); // strategy + failed checks → last compliance record
+
+  async initialize(): Promise<void> {
+    for (const account of Object.keys(HIGH_WATER_MARK_KEYS) as EquityAccount[]) {
+      const row = await databaseService.get(
+        'SELECT value FROM risk_state WHERE key = ?',
+        [HIGH_WATER_MARK_KEYS[account]]
+      );
+      this.highWaterMarks[account] = row?.value || 0;
+    }
+    logger.info(`🛡️ Risk engine ready (equity high-water mark $${this.highWaterMarks.portfolio.toFixed(2)}, paper $${this.highWaterMarks.paper.toFixed(2)})`);
+  }
+
+  // Fed from the portfolio monitor so peaks between trades are not missed
+  async recordEquity(equity: number, account: EquityAccount = 'portfolio'): Promise<void> {
+    if (!(equity > this.highWaterMarks[account])) return;
+
+    this.highWaterMarks[account] = equity;
+    await databaseService.run(
+      `INSERT INTO risk_state (key, value, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+      [HIGH_WATER_MARK_KEYS[account], equity, new Date().toISOString()]
+    );
+  }
+
+  getEquityAccount(broker?: BrokerName): EquityAccount {
+    return getBrokerAdapter(broker).name === 'paper' ? 'paper' : 'portfolio';
+  }
+
+  async getExposure(account: EquityAccount = 'portfolio'): Promise<ExposureSnapshot> {
+    const byAsset: Record<string, number> = {};
+    const add = (asset: string, amount: number) => {
+      byAsset[asset] = (byAsset[asset] || 0) + amount;
+    };
+
+    const positions = portfolioMonitor.getOpenPositions();
+    for (const position of positions) {
+      const price = position.current_price || position.entry_price;
+      add(position.asset, signedNotional(position.side, price * position.quantity));
+    }
+
+    // Unfilled entry orders will become exposure as soon as they fill
+    for (const order of orderManager.getWorkingOrders()) {
+      if (order.purpose !== 'entry') continue;
+      const price = order.limit_price || technicalIndicators.getCurrentPrice(order.product_id) || 0;
+      add(order.product_id, signedNotional(order.side, price * (order.size - order.filled_size)));
+    }
+
+    const exposure: ExposureSnapshot = {
+      gross_usd: Object.values(byAsset).reduce((sum, value) => sum + Math.abs(value), 0),
+      net_usd: Object.values(byAsset).reduce((sum, value) => sum + value, 0),
+      by_asset: byAsset,
+      open_positions: positions.length
+    };
+
+    const equity = await this.getEquity(account);
+    if (equity !== undefined) {
+      await this.recordEquity(equity, account);
+      const highWaterMark = this.highWaterMarks[account];
+      exposure.equity = equity;
+      exposure.high_water_mark = highWaterMark;
+      exposure.drawdown_percent = highWaterMark > 0
+        ? (highWaterMark - equity) / highWaterMark * 100
+        : 0;
+    }
+
+    return exposure;
+  }
+
+  async evaluate(trade: ProposedTrade): Promise<RiskDecision> {
+    const account = this.getEquityAccount(trade.broker);
+    const exposure = await this.getExposure(account);
+    const rejections: RiskRejection[] = [];
+    const reject = (rejection: RiskRejection) => rejections.push(rejection);
+    const { positions, risk } = tradingConfig;
+
+    if (!trade.position_id && exposure.open_positions >= positions.maxPositions) {
+      reject({
+        check: 'max_positions',
+        limit: positions.maxPositions,
+        actual: exposure.open_positions,
+        message: `${exposure.open_positions} positions already open (max ${positions.maxPositions})`
+      });
+    }
+
+    if (trade.notional_usd > positions.maxPositionSizeUSD) {
+      reject({
+        check: 'position_size',
+        limit: positions.maxPositionSizeUSD,
+        actual: trade.notional_usd,
+        message: `Position size $${trade.notional_usd.toFixed(2)} exceeds $${positions.maxPositionSizeUSD}`
+      });
+    }
+
+    const delta = signedNotional(trade.side, trade.notional_usd);
+    const assetAfter = (exposure.by_asset[trade.asset] || 0) + delta;
+    const grossAfter = exposure.gross_usd - Math.abs(exposure.by_asset[trade.asset] || 0) + Math.abs(assetAfter);
+    const netAfter = exposure.net_usd + delta;
+
+    if (grossAfter > risk.maxGrossExposureUSD) {
+      reject({
+        check: 'gross_exposure',
+        limit: risk.maxGrossExposureUSD,
+        actual: grossAfter,
+        message: `Gross exposure would reach $${grossAfter.toFixed(2)} (max $${risk.maxGrossExposureUSD})`
+      });
+    }
+
+    if (Math.abs(netAfter) > risk.maxNetExposureUSD) {
+      reject({
+        check: 'net_exposure',
+        limit: risk.maxNetExposureUSD,
+        actual: netAfter,
+        message: `Net exposure would reach $${netAfter.toFixed(2)} (max ±$${risk.maxNetExposureUSD})`
+      });
+    }
+
+    // Percentage limits need equity; without it the trade can't be checked, so it is blocked
+    if (exposure.equity !== undefined && exposure.equity > 0) {
+      const concentration = Math.abs(assetAfter) / exposure.equity * 100;
+      if (concentration > risk.maxAssetConcentrationPercent) {
+        reject({
+          check: 'concentration',
+          limit: risk.maxAssetConcentrationPercent,
+          actual: concentration,
+          message: `${trade.asset} would be ${concentration.toFixed(1)}% of equity (max ${risk.maxAssetConcentrationPercent}%)`
+        });
+      }
+
+      if (exposure.drawdown_percent! >= risk.maxDrawdownPercent) {
+        reject({
+          check: 'drawdown',
+          limit: risk.maxDrawdownPercent,
+          actual: exposure.drawdown_percent!,
+          message: `Equity is ${exposure.drawdown_percent!.toFixed(2)}% below its high-water mark (max ${risk.maxDrawdownPercent}%)`
+        });
+      }
+    } else {
+      reject({
+        check: 'equity',
+        limit: 0,
+        actual: exposure.equity ?? 0,
+        message: `${account === 'paper' ? 'Paper account' : 'Portfolio'} equity unavailable - concentration and drawdown can't be checked`
+      });
+    }
+
+    const correlated = await this.getCorrelatedPositions(trade);
+    if (correlated.length >= risk.maxCorrelatedPositions) {
+      reject({
+        check: 'correlation',
+        limit: risk.maxCorrelatedPositions,
+        actual: correlated.length,
+        message: `${correlated.length} open positions move with ${trade.asset} (${correlated.map(p => p.asset).join(', ')})`
+      });
+    }
+
+    const decision: RiskDecision = {
+      approved: rejections.length === 0,
+      rejections,
+      exposure
+    };
+
+    if (!decision.approved) {
+      const key = `${trade.strategy_id}|${rejections.map(r => r.check).join(',')}`;
+      const lastLogged = this.lastRejectionLog.get(key);
+      if (lastLogged !== undefined && marketClock.nowMs() - lastLogged < risk.rejectionAlertCooldownMs) {
+        logger.debug(`🛡️ Risk engine rejected ${trade.side} ${trade.asset} for ${trade.strategy_id} again: ${rejections.map(r => r.check).join(', ')}`);
+        return decision;
+      }
+
+      this.lastRejectionLog.set(key, marketClock.nowMs());
+      await complianceLogger.logEvent({
+        event_type: 'risk_rejection',
+        strategy_id: trade.strategy_id,
+        symbol: trade.asset,
+        action: `enter_${trade.side}`,
+        details: { trade, rejections },
+        risk_assessment: decision,
+        approval_status: 'rejected'
+      });
+      logger.warn(`🛡️ Risk engine rejected ${trade.side} ${trade.asset} for ${trade.strategy_id}: ${rejections.map(r => r.check).join(', ')}`);
+    }
+
+    return decision;
+  }
+
+  // Positions whose returns track the candidate in the same direction (opposite-side positions hedge)
+  private async getCorrelatedPositions(trade: ProposedTrade): Promise<Position[]> {
+    const { correlationThreshold, correlationPeriod } = tradingConfig.risk;
+    const correlated: Position[] = [];
+
+    for (const position of portfolioMonitor.getOpenPositions()) {
+      if (position.id === trade.position_id) continue;
+
+      let correlation = 1;
+      if (position.asset !== trade.asset) {
+        try {
+          correlation = await technicalIndicators.calculateCorrelation(trade.asset, position.asset, correlationPeriod);
+        } catch (error) {
+          // Not enough history to tell; don't count it
+          continue;
+        }
+      }
+
+      const directional = position.side === trade.side ? correlation : -correlation;
+      if (directional >= correlationThreshold) {
+        correlated.push(position);
+      }
+    }
+
+    return correlated;
+  }
+
+  private async getEquity(account: EquityAccount): Promise<number | undefined> {
+    try {
+      return account === 'paper'
+        ? paperBroker.getAccount().total_value
+        : await portfolioMonitor.getTotalValue();
+    } catch (error: any) {
+      logger.warn(`Could not read ${account} equity: ${error.message}`);
+      return undefined;
+    }
+  }
+}
+
+export const riskEngine = new RiskEngine();
@@ -0,0 +1,36 @@
+export type SequenceCheck =
+  | { status: 'ok' }
+  | { status: 'gap'; missed: number }
+  | { status: 'out_of_order' };
+
+// Per-stream ordering and continuity checks. Venue sequence numbers count every book event, so they
+// prove ordering but not completeness; consecutive trade ids are what reveal skipped messages.
+export class SequenceTracker {
+  private sequences: Map<string, number> = new Map();
+  private tradeIds: Map<string, number> = new Map();
+
+  checkSequence(stream: string, sequence: number): SequenceCheck {
+    const last = this.sequences.get(stream);
+    if (last !== undefined && sequence <= last) {
+      return { status: 'out_of_order' };
+    }
+
+    this.sequences.set(stream, sequence);
+    return { status: 'ok' };
+  }
+
+  checkTradeId(stream: string, tradeId: number): SequenceCheck {
+    const last = this.tradeIds.get(stream);
+    if (last !== undefined && tradeId <= last) {
+      return { status: 'out_of_order' };
+    }
+
+    this.tradeIds.set(stream, tradeId);
+
+    if (last !== undefined && tradeId > last + 1) {
+      return { status: 'gap', missed: tradeId - last - 1 };
+    }
+
+    return { status: 'ok' };
+  }
+}
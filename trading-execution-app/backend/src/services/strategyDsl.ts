@@ -0,0 +1,353 @@
+import Ajv from 'ajv';
+import { ConditionEvaluator } from './conditionEvaluator';
+import {
+  EntryCondition,
+  ExitCondition,
+  ParsedStrategy,
+  SpecCondition,
+  SpecQuantity,
+  StrategySpec
+} from '../types';
+
+export const STRATEGY_DSL_VERSION = 1;
+
+const MAX_STOP_PERCENT = 50;
+const MAX_MOVE_PERCENT = 100;
+
+const quantity = {
+  type: 'object',
+  required: ['value', 'unit'],
+  additionalProperties: false,
+  properties: {
+    value: { type: 'number', exclusiveMinimum: 0 },
+    unit: { enum: ['percent', 'fraction', 'bps'] }
+  }
+};
+
+const moveTimeframe = { enum: ['1h', '4h', '1d'] };
+const asset = { type: 'string', minLength: 1 };
+
+// JSON Schema for dsl_version 1. Also sent to the model so it knows the exact shape to produce.
+export const strategySpecSchema = {
+  type: 'object',
+  required: ['dsl_version', 'name', 'target', 'entry', 'exit'],
+  additionalProperties: false,
+  properties: {
+    dsl_version: { const: STRATEGY_DSL_VERSION },
+    name: { type: 'string', minLength: 1 },
+    target: {
+      type: 'object',
+      required: ['asset', 'action'],
+      additionalProperties: false,
+      properties: {
+        asset,
+        action: { enum: ['buy', 'sell'] }
+      }
+    },
+    entry: { $ref: '#/$defs/condition' },
+    delay_days: { type: 'integer', minimum: 0, maximum: 30 },
+    exit: {
+      type: 'object',
+      required: ['stop_loss', 'take_profit'],
+      additionalProperties: false,
+      properties: {
+        stop_loss: {
+          type: 'object',
+          required: ['distance', 'trailing'],
+          additionalProperties: false,
+          properties: { distance: quantity, trailing: { type: 'boolean' } }
+        },
+        take_profit: {
+          type: 'object',
+          required: ['distance'],
+          additionalProperties: false,
+          properties: { distance: quantity }
+        },
+        max_hold: {
+          type: 'object',
+          required: ['value', 'unit'],
+          additionalProperties: false,
+          properties: {
+            value: { type: 'number', exclusiveMinimum: 0 },
+            unit: { enum: ['hours', 'days'] }
+          }
+        },
+        signals: {
+          type: 'array',
+          maxItems: 10,
+          items: {
+            type: 'object',
+            required: ['name', 'when'],
+            additionalProperties: false,
+            properties: {
+              name: { type: 'string', minLength: 1 },
+              when: { $ref: '#/$defs/condition' }
+            }
+          }
+        }
+      }
+    },
+    position_size_usd: { type: 'number', exclusiveMinimum: 0 }
+  },
+  $defs: {
+    // Exactly one key per node, so validation errors point at the branch that is wrong
+    condition: {
+      type: 'object',
+      minProperties: 1,
+      maxProperties: 1,
+      additionalProperties: false,
+      properties: {
+        all: { type: 'array', minItems: 1, items: { $ref: '#/$defs/condition' } },
+        any: { type: 'array', minItems: 1, items: { $ref: '#/$defs/condition' } },
+        not: { $ref: '#/$defs/condition' },
+        at_least: {
+          type: 'object',
+          required: ['count', 'of'],
+          additionalProperties: false,
+          properties: {
+            count: { type: 'integer', minimum: 1 },
+            of: { type: 'array', minItems: 1, items: { $ref: '#/$defs/condition' } }
+          }
+        },
+        move: {
+          type: 'object',
+          required: ['asset', 'direction', 'threshold', 'timeframe'],
+          additionalProperties: false,
+          properties: {
+            asset,
+            direction: { enum: ['up', 'down', 'any'] },
+            threshold: quantity,
+            timeframe: moveTimeframe
+          }
+        },
+        correlation: {
+          type: 'object',
+          required: ['asset', 'with', 'min_correlation', 'timeframe'],
+          additionalProperties: false,
+          properties: {
+            asset,
+            with: asset,
+            min_correlation: { type: 'number', exclusiveMinimum: 0, maximum: 1 },
+            move: quantity,
+            timeframe: moveTimeframe
+          }
+        },
+        indicator: {
+          type: 'object',
+          required: ['asset', 'name', 'operator', 'timeframe'],
+          additionalProperties: false,
+          properties: {
+            asset,
+            name: { enum: ['rsi', 'sma_crossover', 'ema_crossover', 'macd', 'bollinger_bands', 'vwap', 'stochastic'] },
+            operator: { enum: ['above', 'below', 'crosses_above', 'crosses_below'] },
+            value: { type: 'number' },
+            period: { type: 'integer', minimum: 1 },
+            fast_period: { type: 'integer', minimum: 1 },
+            slow_period: { type: 'integer', minimum: 1 },
+            signal_period: { type: 'integer', minimum: 1 },
+            std_dev: { type: 'number', exclusiveMinimum: 0 },
+            band: { enum: ['upper', 'middle', 'lower'] },
+            timeframe: { enum: ['1m', '5m', '1h', '4h', '1d'] }
+          }
+        }
+      }
+    }
+  }
+};
+
+export type SpecValidation =
+  | { valid: true; spec: StrategySpec }
+  | { valid: false; errors: string[] };
+
+const ajv = new Ajv({ allErrors: true });
+const validateSchema = ajv.compile(strategySpecSchema);
+
+export function toPercent(quantity: SpecQuantity): number {
+  switch (quantity.unit) {
+    case 'fraction':
+      return quantity.value * 100;
+    case 'bps':
+      return quantity.value / 100;
+    default:
+      return quantity.value;
+  }
+}
+
+export function validateStrategySpec(input: unknown): SpecValidation {
+  const version = (input as StrategySpec | null)?.dsl_version;
+  if (typeof version === 'number' && version !== STRATEGY_DSL_VERSION) {
+    return { valid: false, errors: [`Unsupported dsl_version ${version} (supported: ${STRATEGY_DSL_VERSION})`] };
+  }
+
+  if (!validateSchema(input)) {
+    const errors = (validateSchema.errors || []).map(error => `${error.instancePath || '/'} ${error.message}`);
+    return { valid: false, errors };
+  }
+
+  // Ranges that only make sense once units are normalized
+  const spec = input as unknown as StrategySpec;
+  const errors: string[] = [];
+
+  const stop = toPercent(spec.exit.stop_loss.distance);
+  if (stop > MAX_STOP_PERCENT) {
+    errors.push(`/exit/stop_loss/distance is ${stop}% - must be at most ${MAX_STOP_PERCENT}%`);
+  }
+
+  const checkRanges = (node: SpecCondition, path: string) => {
+    if ('move' in node && toPercent(node.move.threshold) > MAX_MOVE_PERCENT) {
+      errors.push(`${path}/move/threshold is ${toPercent(node.move.threshold)}% - must be at most ${MAX_MOVE_PERCENT}%`);
+    }
+    if ('correlation' in node && node.correlation.move && toPercent(node.correlation.move) > MAX_MOVE_PERCENT) {
+      errors.push(`${path}/correlation/move is ${toPercent(node.correlation.move)}% - must be at most ${MAX_MOVE_PERCENT}%`);
+    }
+    if ('at_least' in node && node.at_least.count > node.at_least.of.length) {
+      errors.push(`${path}/at_least/count is ${node.at_least.count} but only ${node.at_least.of.length} conditions are listed`);
+    }
+    if ('indicator' in node) {
+      const { fast_period, slow_period } = node.indicator;
+      if (fast_period !== undefined && slow_period !== undefined && fast_period >= slow_period) {
+        errors.push(`${path}/indicator fast_period must be shorter than slow_period`);
+      }
+    }
+  };
+
+  walkSpec(spec.entry, '/entry', checkRanges);
+  spec.exit.signals?.forEach((signal, i) => walkSpec(signal.when, `/exit/signals/${i}/when`, checkRanges));
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, spec };
+}
+
+function walkSpec(node: SpecCondition, path: string, visit: (node: SpecCondition, path: string) => void): void {
+  visit(node, path);
+
+  if ('all' in node) node.all.forEach((child, i) => walkSpec(child, `${path}/all/${i}`, visit));
+  if ('any' in node) node.any.forEach((child, i) => walkSpec(child, `${path}/any/${i}`, visit));
+  if ('not' in node) walkSpec(node.not, `${path}/not`, visit);
+  if ('at_least' in node) node.at_least.of.forEach((child, i) => walkSpec(child, `${path}/at_least/of/${i}`, visit));
+}
+
+export function getSpecAssets(spec: StrategySpec): string[] {
+  const assets = new Set<string>();
+
+  const collect = (node: SpecCondition) => {
+    if ('move' in node) assets.add(node.move.asset);
+    if ('correlation' in node) {
+      assets.add(node.correlation.asset);
+      assets.add(node.correlation.with);
+    }
+    if ('indicator' in node) assets.add(node.indicator.asset);
+  };
+
+  walkSpec(spec.entry, '', collect);
+  spec.exit.signals?.forEach(signal => walkSpec(signal.when, '', collect));
+  assets.add(spec.target.asset);
+
+  return Array.from(assets);
+}
+
+// Strategy fields the rest of the system reads, derived from a validated spec
+export function buildStrategyFields(spec: StrategySpec): Pick<ParsedStrategy, 'entry_conditions' | 'exit_conditions' | 'required_assets' | 'position_size'> {
+  const entry: EntryCondition = {
+    type: 'strategy_dsl',
+    target_asset: spec.target.asset,
+    action: spec.target.action,
+    delay_days: spec.delay_days
+  };
+
+  const exit: ExitCondition = {
+    stop_loss: {
+      type: 'percentage',
+      value: toPercent(spec.exit.stop_loss.distance),
+      is_trailing: spec.exit.stop_loss.trailing
+    },
+    take_profit: {
+      type: 'percentage',
+      value: toPercent(spec.exit.take_profit.distance)
+    },
+    max_hold_period: spec.exit.max_hold,
+    exit_signals: spec.exit.signals?.map(signal => ({ name: signal.name, condition: toEntryTree(signal.when) }))
+  };
+
+  return {
+    entry_conditions: entry,
+    exit_conditions: exit,
+    required_assets: getSpecAssets(spec),
+    position_size: spec.position_size_usd || 100
+  };
+}
+
+// Specs become EntryCondition trees, so their leaves run through the same checks as flat conditions
+export function toEntryTree(node: SpecCondition): EntryCondition {
+  if ('all' in node) return { type: 'all', conditions: node.all.map(toEntryTree) };
+  if ('any' in node) return { type: 'any', conditions: node.any.map(toEntryTree) };
+  if ('not' in node) return { type: 'not', conditions: [toEntryTree(node.not)] };
+  if ('at_least' in node) {
+    return { type: 'at_least', min_met: node.at_least.count, conditions: node.at_least.of.map(toEntryTree) };
+  }
+
+  return toEntryCondition(node);
+}
+
+function toEntryCondition(node: SpecCondition): EntryCondition {
+  if ('move' in node) {
+    return {
+      type: 'percentage_move',
+      primary_asset: node.move.asset,
+      direction: node.move.direction,
+      threshold: toPercent(node.move.threshold),
+      timeframe: node.move.timeframe
+    };
+  }
+
+  if ('correlation' in node) {
+    return {
+      type: 'correlation',
+      primary_asset: node.correlation.asset,
+      secondary_asset: node.correlation.with,
+      threshold: node.correlation.move ? toPercent(node.correlation.move) : 0,
+      timeframe: node.correlation.timeframe,
+      additional_params: { correlation_threshold: node.correlation.min_correlation }
+    };
+  }
+
+  if ('indicator' in node) {
+    const { asset, ...indicator } = node.indicator;
+    return {
+      type: 'technical_indicator',
+      primary_asset: asset,
+      additional_params: { indicator }
+    };
+  }
+
+  throw new Error(`Unknown strategy DSL node: ${JSON.stringify(node)}`);
+}
+
+// Built once per spec; edits that keep the spec keep its tree
+const specTrees = new WeakMap<StrategySpec, EntryCondition>();
+
+// The condition tree a strategy enters on: its spec under a root group carrying the target and delay,
+// or its flat entry condition
+export function getEntryTree(strategy: ParsedStrategy): EntryCondition {
+  const spec = strategy.spec;
+  if (!spec) {
+    return strategy.entry_conditions;
+  }
+
+  let tree = specTrees.get(spec);
+  if (!tree) {
+    tree = {
+      type: 'all',
+      label: spec.name,
+      conditions: [toEntryTree(spec.entry)],
+      target_asset: spec.target.asset,
+      action: spec.target.action,
+      delay_days: spec.delay_days
+    };
+    specTrees.set(spec, tree);
+  }
+  return tree;
+}
+
+export async function evaluateStrategyEntry(strategy: ParsedStrategy, evaluator: ConditionEvaluator): Promise<boolean> {
+  return evaluator.evaluate(getEntryTree(strategy), strategy.strategy_id);
+}
@@ -1,8 +1,9 @@
 import { pineconeService } from './pineconeService';
 import { aiParser } from './aiParser';
 import { logger } from '../utils/logger';
-import { Strategy, ParsedStrategy } from '../types';
+import { Strategy, ParsedStrategy, BrokerName, PositionSizing, TakeProfitLevel, ScaleInStage, StopRules } from '../types';
 import { io } from '../index';
+import { validateStrategySpec } from './strategyDsl';
 
 export class StrategyManager {
   private strategies: Map<string, ParsedStrategy> = new Map();
@@ -70,6 +71,11 @@ export class StrategyManager {
       stop_loss_percent: number;
       take_profit_percent: number;
       position_size?: number;
+      broker?: BrokerName;
+      sizing?: PositionSizing;
+      take_profit_ladder?: TakeProfitLevel[];
+      scale_in?: ScaleInStage[];
+      stop_rules?: StopRules;
     }
   ): Promise<ParsedStrategy> {
     const strategy = this.strategies.get(strategyId);
@@ -82,12 +88,36 @@ export class StrategyManager {
       throw new Error('Stop loss is required and must be greater than 0');
     }
 
+    // Re-checked here rather than trusted from parse time, in case the schema has tightened since
+    if (strategy.spec) {
+      const validation = validateStrategySpec(strategy.spec);
+      if (!validation.valid) {
+        throw new Error(`Strategy spec failed validation: ${validation.errors.join('; ')}`);
+      }
+    } else if (strategy.spec_errors?.length) {
+      throw new Error(`Strategy spec failed validation: ${strategy.spec_errors.join('; ')}`);
+    }
+
     // Update strategy with modifications
     const approvedStrategy: ParsedStrategy = {
       ...strategy,
       stop_loss_percent: modifications.stop_loss_percent,
       take_profit_percent: modifications.take_profit_percent,
       position_size: modifications.position_size || 100,
+      broker: modifications.broker || strategy.broker,
+      sizing: modifications.sizing || strategy.sizing,
+      entry_conditions: {
+        ...strategy.entry_conditions,
+        scale_in: modifications.scale_in || strategy.entry_conditions.scale_in
+      },
+      exit_conditions: {
+        ...strategy.exit_conditions,
+        stop_loss: {
+          ...strategy.exit_conditions.stop_loss,
+          ...modifications.stop_rules
+        },
+        take_profit_ladder: modifications.take_profit_ladder || strategy.exit_conditions.take_profit_ladder
+      },
       status: 'active',
       approved_at: new Date().toISOString()
     };
@@ -112,6 +142,11 @@ export class StrategyManager {
       stop_loss_percent: number;
       take_profit_percent: number;
       position_size?: number;
+      broker?: BrokerName;
+      sizing?: PositionSizing;
+      take_profit_ladder?: TakeProfitLevel[];
+      scale_in?: ScaleInStage[];
+      stop_rules?: StopRules;
     }
   ): Promise<ParsedStrategy> {
     const strategy = this.strategies.get(strategyId);
@@ -130,6 +165,20 @@ export class StrategyManager {
       stop_loss_percent: modifications.stop_loss_percent,
       take_profit_percent: modifications.take_profit_percent,
       position_size: modifications.position_size || strategy.position_size || 100,
+      broker: modifications.broker || strategy.broker,
+      sizing: modifications.sizing || strategy.sizing,
+      entry_conditions: {
+        ...strategy.entry_conditions,
+        scale_in: modifications.scale_in || strategy.entry_conditions.scale_in
+      },
+      exit_conditions: {
+        ...strategy.exit_conditions,
+        stop_loss: {
+          ...strategy.exit_conditions.stop_loss,
+          ...modifications.stop_rules
+        },
+        take_profit_ladder: modifications.take_profit_ladder || strategy.exit_conditions.take_profit_ladder
+      },
       // Keep existing status and approval date
     };
 
@@ -196,8 +245,8 @@ export class StrategyManager {
       throw new Error('Strategy not found');
     }
 
-    // Re-parse with comments
-    const reparsed = await aiParser.parseStrategy(strategy, comments);
+    // Re-parse with comments; a re-parse asks for a new answer even when the text is unchanged
+    const reparsed = await aiParser.parseStrategy(strategy, comments, { refresh: true });
     
     // Update local copy
     this.strategies.set(strategyId, {
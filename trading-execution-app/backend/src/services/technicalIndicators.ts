@@ -1,39 +1,96 @@
 import { logger } from '../utils/logger';
 import { polygonService } from './polygonService';
-
-interface PriceData {
-  timestamp: Date;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
+import { databaseService } from '../config/database';
+import { tradingConfig } from '../config/trading';
+import { Timeframe } from '../types';
+import { CandleAggregator, PriceData } from './candleAggregator';
+import { marketClock } from './marketClock';
+
+export { PriceData };
+
+const DEFAULT_TIMEFRAME: Timeframe = '1m';
+const BACKFILL_PAGE_SIZE = 5000;
+const INTRADAY_LOOKBACK_DAYS = 5;
+const DAILY_LOOKBACK_DAYS = 30;
+const REMOTE_REFRESH_MS = 60000;
+const DAY_MS = 86400000;
+
+export interface TechnicalIndicatorsOptions {
+  clock?: () => Date;          // Simulated time for backtests
+  useRemoteQuotes?: boolean;   // Fetch traditional assets from Polygon when history is stale
 }
 
 export class TechnicalIndicators {
-  private priceHistory: Map<string, PriceData[]> = new Map();
-  private readonly MAX_HISTORY = 1000; // Keep last 1000 candles
+  private candles = new CandleAggregator();
+  private latestTicks: Map<string, PriceData> = new Map();
+  private degradedSymbols: Set<string> = new Set();
+  private lastRemoteRefresh: Map<string, number> = new Map();
   private readonly TRADITIONAL_ASSETS = ['WTI_CRUDE_OIL', 'GOLD', 'SPY', 'QQQ', 'AAPL', 'MSFT'];
+  private clock: () => Date;
+  private useRemoteQuotes: boolean;
+
+  constructor(options: TechnicalIndicatorsOptions = {}) {
+    this.clock = options.clock || (() => marketClock.now());
+    this.useRemoteQuotes = options.useRemoteQuotes ?? true;
+  }
 
+  // Accepts ticks (open = high = low = close) or bars; both are rolled into every candle timeframe
   addPriceData(symbol: string, data: PriceData) {
-    if (!this.priceHistory.has(symbol)) {
-      this.priceHistory.set(symbol, []);
+    this.candles.addBar(symbol, data);
+
+    const latest = this.latestTicks.get(symbol);
+    if (!latest || data.timestamp >= latest.timestamp) {
+      this.latestTicks.set(symbol, data);
     }
+  }
+
+  getCandles(symbol: string, timeframe: Timeframe = DEFAULT_TIMEFRAME): PriceData[] {
+    return this.candles.getCandles(this.resolveSymbol(symbol), timeframe);
+  }
+
+  // Rebuild candles from recorded ticks so indicators have history right after a restart
+  async backfill(hours: number = tradingConfig.monitoring.candleBackfillHours): Promise<number> {
+    const since = new Date(this.clock().getTime() - hours * 3600000).toISOString();
+    let lastId = 0;
+    let total = 0;
+
+    try {
+      while (true) {
+        const rows = await databaseService.all(
+          `SELECT id, symbol, price, timestamp FROM market_data
+           WHERE timestamp >= ? AND id > ?
+           ORDER BY id ASC
+           LIMIT ?`,
+          [since, lastId, BACKFILL_PAGE_SIZE]
+        );
+
+        for (const row of rows) {
+          // market_data.volume is the rolling 24h volume, not the trade size
+          this.addPriceData(row.symbol, {
+            timestamp: new Date(row.timestamp),
+            open: row.price,
+            high: row.price,
+            low: row.price,
+            close: row.price,
+            volume: 0
+          });
+        }
 
-    const history = this.priceHistory.get(symbol)!;
-    history.push(data);
+        total += rows.length;
+        if (rows.length < BACKFILL_PAGE_SIZE) break;
+        lastId = rows[rows.length - 1].id;
+      }
 
-    // Maintain max history
-    if (history.length > this.MAX_HISTORY) {
-      history.shift();
+      logger.info(`🕯️ Backfilled candles from ${total} market data ticks (last ${hours}h)`);
+    } catch (error) {
+      logger.error('Failed to backfill candles from market data:', error);
     }
+
+    return total;
   }
 
-  async calculateATR(symbol: string, period: number = 14): Promise<number> {
-    const history = this.priceHistory.get(symbol);
-    if (!history || history.length < period + 1) {
-      throw new Error(`Insufficient data for ATR calculation: ${symbol}`);
-    }
+  async calculateATR(symbol: string, period: number = 14, timeframe: Timeframe = DEFAULT_TIMEFRAME): Promise<number> {
+    const history = this.getBars(symbol, period + 1, 0, 'ATR', timeframe);
 
     const trueRanges: number[] = [];
     
@@ -56,11 +113,16 @@ export class TechnicalIndicators {
     return atr;
   }
 
-  async calculateCorrelation(asset1: string, asset2: string, period: number = 20): Promise<number> {
-    const history1 = this.priceHistory.get(asset1);
-    const history2 = this.priceHistory.get(asset2);
+  async calculateCorrelation(
+    asset1: string,
+    asset2: string,
+    period: number = 20,
+    timeframe: Timeframe = DEFAULT_TIMEFRAME
+  ): Promise<number> {
+    const history1 = this.getCandles(asset1, timeframe);
+    const history2 = this.getCandles(asset2, timeframe);
 
-    if (!history1 || !history2 || history1.length < period || history2.length < period) {
+    if (history1.length < period || history2.length < period) {
       throw new Error('Insufficient data for correlation calculation');
     }
 
@@ -98,17 +160,163 @@ export class TechnicalIndicators {
     return correlation;
   }
 
+  // Indicator methods read `timeframe` candles as of `offset` candles ago so callers can detect crossovers
+
+  async calculateSMA(
+    symbol: string,
+    period: number = 20,
+    timeframe: Timeframe = DEFAULT_TIMEFRAME,
+    offset: number = 0
+  ): Promise<number> {
+    const closes = this.getCloses(symbol, period, offset, 'SMA', timeframe);
+    return average(closes.slice(-period));
+  }
+
+  async calculateEMA(
+    symbol: string,
+    period: number = 20,
+    timeframe: Timeframe = DEFAULT_TIMEFRAME,
+    offset: number = 0
+  ): Promise<number> {
+    const closes = this.getCloses(symbol, period, offset, 'EMA', timeframe);
+    const series = emaSeries(closes, period);
+    return series[series.length - 1];
+  }
+
+  async calculateRSI(
+    symbol: string,
+    period: number = 14,
+    timeframe: Timeframe = DEFAULT_TIMEFRAME,
+    offset: number = 0
+  ): Promise<number> {
+    const closes = this.getCloses(symbol, period + 1, offset, 'RSI', timeframe);
+
+    // Wilder smoothing over all available history
+    let avgGain = 0;
+    let avgLoss = 0;
+    for (let i = 1; i <= period; i++) {
+      const change = closes[i] - closes[i - 1];
+      avgGain += Math.max(change, 0) / period;
+      avgLoss += Math.max(-change, 0) / period;
+    }
+
+    for (let i = period + 1; i < closes.length; i++) {
+      const change = closes[i] - closes[i - 1];
+      avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+      avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    }
+
+    if (avgLoss === 0) {
+      return avgGain === 0 ? 50 : 100;
+    }
+    return 100 - 100 / (1 + avgGain / avgLoss);
+  }
+
+  async calculateMACD(
+    symbol: string,
+    fastPeriod: number = 12,
+    slowPeriod: number = 26,
+    signalPeriod: number = 9,
+    timeframe: Timeframe = DEFAULT_TIMEFRAME,
+    offset: number = 0
+  ): Promise<{ macd: number; signal: number; histogram: number }> {
+    const closes = this.getCloses(symbol, slowPeriod + signalPeriod - 1, offset, 'MACD', timeframe);
+
+    // Align the fast EMA with the slow EMA, which starts (slow - fast) bars later
+    const fast = emaSeries(closes, fastPeriod).slice(slowPeriod - fastPeriod);
+    const slow = emaSeries(closes, slowPeriod);
+    const macdLine = slow.map((value, i) => fast[i] - value);
+    const signalLine = emaSeries(macdLine, signalPeriod);
+
+    const macd = macdLine[macdLine.length - 1];
+    const signal = signalLine[signalLine.length - 1];
+    return { macd, signal, histogram: macd - signal };
+  }
+
+  async calculateBollingerBands(
+    symbol: string,
+    period: number = 20,
+    stdDevMultiplier: number = 2,
+    timeframe: Timeframe = DEFAULT_TIMEFRAME,
+    offset: number = 0
+  ): Promise<{ upper: number; middle: number; lower: number }> {
+    const closes = this.getCloses(symbol, period, offset, 'Bollinger Bands', timeframe).slice(-period);
+    const middle = average(closes);
+    const stdDev = Math.sqrt(average(closes.map(c => (c - middle) ** 2)));
+
+    return {
+      upper: middle + stdDev * stdDevMultiplier,
+      middle,
+      lower: middle - stdDev * stdDevMultiplier
+    };
+  }
+
+  // Volume-weighted typical price over the last `period` bars (all history when omitted)
+  async calculateVWAP(
+    symbol: string,
+    period?: number,
+    timeframe: Timeframe = DEFAULT_TIMEFRAME,
+    offset: number = 0
+  ): Promise<number> {
+    const bars = this.getBars(symbol, period || 1, offset, 'VWAP', timeframe);
+    const window = period ? bars.slice(-period) : bars;
+
+    let priceVolume = 0;
+    let volume = 0;
+    for (const bar of window) {
+      const typicalPrice = (bar.high + bar.low + bar.close) / 3;
+      priceVolume += typicalPrice * bar.volume;
+      volume += bar.volume;
+    }
+
+    // Ticks without volume fall back to the plain average price
+    return volume > 0
+      ? priceVolume / volume
+      : average(window.map(bar => (bar.high + bar.low + bar.close) / 3));
+  }
+
+  async calculateStochastic(
+    symbol: string,
+    kPeriod: number = 14,
+    dPeriod: number = 3,
+    timeframe: Timeframe = DEFAULT_TIMEFRAME,
+    offset: number = 0
+  ): Promise<{ k: number; d: number }> {
+    const bars = this.getBars(symbol, kPeriod + dPeriod - 1, offset, 'Stochastic', timeframe);
+
+    const kValues: number[] = [];
+    for (let end = bars.length - dPeriod + 1; end <= bars.length; end++) {
+      const window = bars.slice(end - kPeriod, end);
+      const highest = Math.max(...window.map(b => b.high));
+      const lowest = Math.min(...window.map(b => b.low));
+      const close = window[window.length - 1].close;
+      kValues.push(highest === lowest ? 50 : ((close - lowest) / (highest - lowest)) * 100);
+    }
+
+    return { k: kValues[kValues.length - 1], d: average(kValues) };
+  }
+
   async getPercentageMove(symbol: string, timeframe: string): Promise<number> {
-    const history = this.priceHistory.get(symbol);
-    if (!history || history.length === 0) {
+    const history = this.getCandles(symbol, '1m');
+    const latest = this.latestTicks.get(this.resolveSymbol(symbol));
+    if (history.length === 0 || !latest) {
       throw new Error(`No price data for ${symbol}`);
     }
 
-    const currentPrice = history[history.length - 1].close;
+    const currentPrice = latest.close;
     let comparePrice: number;
 
+    // Session-based assets compare against the previous session's close rather than 24h ago
+    if (timeframe === '1d' && this.TRADITIONAL_ASSETS.includes(symbol)) {
+      const days = this.getCandles(symbol, '1d');
+      if (days.length >= 2) {
+        const previousClose = days[days.length - 2].close;
+        return ((currentPrice - previousClose) / previousClose) * 100;
+      }
+    }
+
     // Get price from timeframe ago
-    const now = new Date();
+    const now = this.clock();
     let hoursAgo: number;
 
     switch(timeframe) {
@@ -120,10 +328,14 @@ export class TechnicalIndicators {
 
     const compareTime = new Date(now.getTime() - hoursAgo * 60 * 60 * 1000);
     
-    // Find closest price to compare time
-    const compareData = history.find(p => 
-      Math.abs(p.timestamp.getTime() - compareTime.getTime()) < 60000 // Within 1 minute
-    );
+    // Close of the last minute candle that had started by the compare time
+    let compareData: PriceData | undefined;
+    for (let i = history.length - 1; i >= 0; i--) {
+      if (history[i].timestamp <= compareTime) {
+        compareData = history[i];
+        break;
+      }
+    }
 
     if (!compareData) {
       // Use oldest available if we don't have enough history
@@ -137,10 +349,9 @@ export class TechnicalIndicators {
 
   async getCurrentPriceAsync(symbol: string): Promise<number | null> {
     // Check if we have recent cached data first
-    const history = this.priceHistory.get(symbol);
-    if (history && history.length > 0) {
-      const latest = history[history.length - 1];
-      const age = (new Date().getTime() - latest.timestamp.getTime()) / 1000;
+    const latest = this.latestTicks.get(this.resolveSymbol(symbol));
+    if (latest) {
+      const age = (this.clock().getTime() - latest.timestamp.getTime()) / 1000;
       
       // If data is fresh (less than 10 seconds old), use it
       if (age <= 10) {
@@ -149,8 +360,15 @@ export class TechnicalIndicators {
     }
 
     // For traditional assets, fetch from Polygon
-    if (this.TRADITIONAL_ASSETS.includes(symbol)) {
+    if (this.useRemoteQuotes && this.TRADITIONAL_ASSETS.includes(symbol)) {
       try {
+        await this.refreshTraditionalAsset(symbol);
+        const refreshed = this.latestTicks.get(symbol);
+        if (refreshed) {
+          return refreshed.close;
+        }
+
+        // Fall back to the previous close when no aggregates are available
         const quote = await polygonService.fetchQuote(symbol);
         if (quote && quote.price) {
           // Add to price history for future calculations
@@ -170,46 +388,136 @@ export class TechnicalIndicators {
     }
 
     // For crypto assets, return cached value or null
-    return history && history.length > 0 ? history[history.length - 1].close : null;
+    return latest ? latest.close : null;
   }
 
   // Synchronous version for backwards compatibility
   getCurrentPrice(symbol: string): number | null {
-    const history = this.priceHistory.get(symbol);
-    if (!history || history.length === 0) {
-      return null;
-    }
-    return history[history.length - 1].close;
+    return this.latestTicks.get(this.resolveSymbol(symbol))?.close ?? null;
   }
 
   getSpread(symbol: string): number | null {
-    const history = this.priceHistory.get(symbol);
-    if (!history || history.length === 0) {
+    const history = this.getCandles(symbol, '1m');
+    if (history.length === 0) {
       return null;
     }
     
     const latest = history[history.length - 1];
-    // Approximate spread from high-low
+    // Approximate spread from the current minute's high-low
     return ((latest.high - latest.low) / latest.close) * 100;
   }
 
+  // Symbols whose feed skipped ticks count as stale until the gap is repaired
+  setDataQuality(symbol: string, healthy: boolean): void {
+    if (healthy) {
+      this.degradedSymbols.delete(symbol);
+    } else {
+      this.degradedSymbols.add(symbol);
+    }
+  }
+
   // Helper to check data freshness
   isDataFresh(symbol: string, maxAgeSeconds: number = 5): boolean {
-    const history = this.priceHistory.get(symbol);
-    if (!history || history.length === 0) {
+    const resolved = this.resolveSymbol(symbol);
+    const latest = this.latestTicks.get(resolved);
+    if (!latest || this.degradedSymbols.has(resolved)) {
       return false;
     }
 
-    const latest = history[history.length - 1];
-    const age = (new Date().getTime() - latest.timestamp.getTime()) / 1000;
+    const age = (this.clock().getTime() - latest.timestamp.getTime()) / 1000;
     
     return age <= maxAgeSeconds;
   }
 
+  // Pull completed Polygon 5-minute bars (and daily bars before them on first load) into the candles
+  private async refreshTraditionalAsset(symbol: string): Promise<void> {
+    const now = this.clock();
+    if (now.getTime() - (this.lastRemoteRefresh.get(symbol) || 0) < REMOTE_REFRESH_MS) {
+      return;
+    }
+    this.lastRemoteRefresh.set(symbol, now.getTime());
+
+    const latest = this.latestTicks.get(symbol);
+    const intraday = (await polygonService.getAggregates(
+      symbol,
+      '5m',
+      new Date(now.getTime() - INTRADAY_LOOKBACK_DAYS * DAY_MS),
+      now
+    )).filter(bar => bar.timestamp.getTime() + 5 * 60000 <= now.getTime());
+
+    if (!latest) {
+      // Daily bars only for days the intraday window doesn't cover, so nothing is counted twice
+      const firstIntradayDay = Math.floor((intraday[0]?.timestamp.getTime() ?? now.getTime()) / DAY_MS) * DAY_MS;
+      const daily = await polygonService.getAggregates(
+        symbol,
+        '1d',
+        new Date(now.getTime() - DAILY_LOOKBACK_DAYS * DAY_MS),
+        now
+      );
+
+      daily
+        .filter(bar => bar.timestamp.getTime() < firstIntradayDay)
+        .forEach(bar => this.addPriceData(symbol, bar));
+    }
+
+    for (const bar of intraday) {
+      if (!latest || bar.timestamp > latest.timestamp) {
+        this.addPriceData(symbol, bar);
+      }
+    }
+  }
+
+  private getBars(
+    symbol: string,
+    required: number,
+    offset: number,
+    indicator: string,
+    timeframe: Timeframe
+  ): PriceData[] {
+    const history = this.getCandles(symbol, timeframe);
+    if (history.length - offset < required) {
+      throw new Error(`Insufficient data for ${indicator} calculation: ${symbol}`);
+    }
+    return offset > 0 ? history.slice(0, history.length - offset) : history;
+  }
+
+  private getCloses(
+    symbol: string,
+    required: number,
+    offset: number,
+    indicator: string,
+    timeframe: Timeframe
+  ): number[] {
+    return this.getBars(symbol, required, offset, indicator, timeframe).map(p => p.close);
+  }
+
+  // The live stream records Coinbase products by base symbol (BTC-USD arrives as BTC)
+  private resolveSymbol(symbol: string): string {
+    if (this.candles.hasSymbol(symbol)) return symbol;
+    const base = symbol.replace('-USD', '');
+    return this.candles.hasSymbol(base) ? base : symbol;
+  }
+
   async ensurePriceData(symbol: string): Promise<boolean> {
     const currentPrice = await this.getCurrentPriceAsync(symbol);
     return currentPrice !== null;
   }
 }
 
-export const technicalIndicators = new TechnicalIndicators(); 
\ No newline at end of file
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// EMA seeded with the SMA of the first `period` values; one entry per value from index period - 1
+function emaSeries(values: number[], period: number): number[] {
+  const k = 2 / (period + 1);
+  const series = [average(values.slice(0, period))];
+
+  for (let i = period; i < values.length; i++) {
+    series.push(values[i] * k + series[series.length - 1] * (1 - k));
+  }
+  return series;
+}
+
+// A replay builds its history from the recording alone; today's remote quotes would overwrite the past
+export const technicalIndicators = new TechnicalIndicators({ useRemoteQuotes: !tradingConfig.replay.path });
\ No newline at end of file
@@ -1,44 +1,42 @@
-import axios from 'axios';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger';
 import { io } from '../index';
-import { ParsedStrategy, Position, TradeSignal, OrderRequest, OrderResponse } from '../types';
+import { ParsedStrategy, Position, TradeSignal, OrderResponse, TradeOrder, TradeResult, BrokerName, ManagedOrder, ScaleInPlan } from '../types';
 import { pineconeService } from './pineconeService';
 import { notificationService } from './notificationService';
 import { technicalIndicators } from './technicalIndicators';
 import { portfolioMonitor } from './portfolioMonitor';
 import { conditionMonitor } from './conditionMonitor';
 import { strategyManager } from './strategyManager';
-
-interface TradeOrder {
-  side: 'buy' | 'sell';
-  product_id: string;
-  type: 'limit' | 'market' | 'stop';
-  price?: string;
-  size?: string;
-  funds?: string;
-  stop_price?: string;
-  stop_limit_price?: string;
-  client_oid?: string;
-}
-
-interface TradeResult {
-  success: boolean;
-  order_id?: string;
-  message?: string;
-  filled_size?: string;
-  filled_price?: string;
-}
+import { tradeHistoryService, calculatePnl } from './tradeHistoryService';
+import { getBrokerAdapter } from './brokerAdapter';
+import { orderManager } from './orderManager';
+import { riskEngine } from './riskEngine';
+import { positionSizer } from './positionSizer';
+import { marketClock } from './marketClock';
+import { pendingSignalService } from './pendingSignalService';
+import { consumeMaturedSignals } from './conditionEvaluator';
+import {
+  getEntrySide,
+  getCloseSide,
+  getTradingAsset,
+  calculateStopLoss,
+  calculateTakeProfit,
+  buildTakeProfitTargets,
+  buildScaleInPlan,
+  getInitialEntryFraction,
+  QUANTITY_EPSILON
+} from './tradeRules';
+import { protectiveOrderService } from './protectiveOrderService';
+import { orderBookService } from './orderBook';
+import { tradingConfig } from '../config/trading';
 
 export class TradeExecutor {
-  private webhookUrl: string;
-  private activeOrders: Map<string, TradeOrder> = new Map();
   private readonly MAX_RETRIES = 3;
   private readonly RETRY_DELAY = 1000;
-
-  constructor() {
-    this.webhookUrl = process.env.WEBHOOK_URL!;
-  }
+  private fillQueue: Promise<void> = Promise.resolve(); // Serializes position updates from fills
+  private entriesInFlight: Set<string> = new Set(); // Strategies whose entry is between signal and working order
+  private lastFailureAlert: Map<string, number> = new Map(); // strategy + signal → last 'Trade Execution Failed' alert
 
   async initialize(): Promise<void> {
     logger.info('TradeExecutor service initialized');
@@ -51,54 +49,141 @@ export class TradeExecutor {
     });
   }
 
+  listenForFills(): void {
+    orderManager.on('fill', (order: ManagedOrder, filledDelta: number) => {
+      if (order.purpose === 'entry') {
+        this.queueEntryFill(order).catch(error => {
+          logger.error(`Failed to apply fill for order ${order.id}:`, error);
+        });
+      } else if (order.metadata?.protective) {
+        this.queueProtectiveFill(order, filledDelta).catch(error => {
+          logger.error(`Failed to apply protective fill for order ${order.id}:`, error);
+        });
+      }
+    });
+
+    // A scale-in order that dies unfilled frees its stage so the next check can try again
+    orderManager.on('unfilled', (order: ManagedOrder) => {
+      const leg: number = order.metadata?.leg ?? 0;
+      if (order.purpose !== 'entry' || leg === 0) return;
+
+      const position = portfolioMonitor.getOpenPositions().find(p => p.id === order.position_id);
+      const stage = position?.scale_in_stages?.find(s => s.stage === leg);
+      if (!position || stage?.status !== 'submitted') return;
+
+      stage.status = 'waiting';
+      logger.warn(`Scale-in stage ${leg} for ${position.id} reopened after order ${order.id} was ${order.status}`);
+      pineconeService.savePosition(position).catch(error => {
+        logger.error(`Failed to save position ${position.id}:`, error);
+      });
+    });
+  }
+
   private async handleEntrySignal(data: any): Promise<void> {
-    const { strategy, timestamp } = data;
+    const { strategy } = data;
     
     try {
-      await this.executeTrade(strategy, 'enter', 'Entry conditions met');
+      await this.enterOnce(strategy.strategy_id, () => this.executeTrade(strategy, 'enter', 'Entry conditions met'));
     } catch (error) {
       logger.error('Failed to handle entry signal:', error);
     }
   }
 
+  // Runs enter unless the strategy already has an entry on its way. Quotes can signal the same entry several
+  // times a second, and the pre-trade checks only see an entry once its order is working, so the guard is
+  // taken before anything is awaited. Returns false when the signal was dropped.
+  async enterOnce(strategyId: string, enter: () => Promise<unknown>): Promise<boolean> {
+    if (this.entriesInFlight.has(strategyId)) {
+      logger.info(`Entry for ${strategyId} already in progress - ignoring repeat signal`);
+      return false;
+    }
+
+    this.entriesInFlight.add(strategyId);
+    try {
+      await enter();
+      return true;
+    } finally {
+      this.entriesInFlight.delete(strategyId);
+    }
+  }
+
   async executeTrade(
     strategy: ParsedStrategy,
     signal: 'enter' | 'exit',
     reason: string
   ): Promise<void> {
     try {
-      // Pre-trade validation
-      this.validatePreTrade(strategy);
-
-      const asset = strategy.required_assets[0]; // Primary trading asset
+      const asset = getTradingAsset(strategy);
+      const entrySide = getEntrySide(strategy);
+      const orderSide = signal === 'enter' ? entrySide : getCloseSide(entrySide);
       const currentPrice = technicalIndicators.getCurrentPrice(asset);
       
       if (!currentPrice) {
         throw new Error('No current price available');
       }
 
-      // Calculate position details
-      const positionSize = strategy.position_size || 100; // $100 default
-      const quantity = (positionSize / currentPrice).toFixed(8);
+      // Calculate position details from the strategy's sizing model
+      const sizing = await positionSizer.calculate(strategy, asset, currentPrice);
+      logger.info(`Sized ${strategy.strategy_id} at $${sizing.notional_usd} (${sizing.mode}: ${sizing.detail})`);
+
+      // Staged entries send only the first tranche now; the rest waits for its trigger
+      const entryFraction = getInitialEntryFraction(strategy.entry_conditions.scale_in);
+
+      // Pre-trade validation; a thin book scales the whole position down
+      const liquidityScale = this.validatePreTrade(strategy, asset, orderSide, sizing.notional_usd * entryFraction);
+      if (liquidityScale < 1) {
+        sizing.notional_usd *= liquidityScale;
+        sizing.quantity *= liquidityScale;
+        sizing.detail += `, resized to ${(liquidityScale * 100).toFixed(0)}% for book depth`;
+      }
+
+      const positionSize = sizing.notional_usd * entryFraction;
+      const quantity = (sizing.quantity * entryFraction).toFixed(8);
+
+      if (signal === 'enter') {
+        const decision = await riskEngine.evaluate({
+          strategy_id: strategy.strategy_id,
+          asset,
+          side: entrySide,
+          notional_usd: positionSize,
+          broker: strategy.broker
+        });
+
+        if (!decision.approved) {
+          throw new Error(`Risk limits exceeded: ${decision.rejections.map(r => r.message).join('; ')}`);
+        }
+      }
 
       // Calculate stop loss and take profit prices
-      const stopLossPrice = await this.calculateStopLoss(
+      const stopLossPrice = await calculateStopLoss(
+        technicalIndicators,
         currentPrice,
         strategy.exit_conditions.stop_loss,
-        'buy',
+        entrySide,
         asset
       );
 
-      const takeProfitPrice = await this.calculateTakeProfit(
+      const takeProfitTargets = await buildTakeProfitTargets(
+        technicalIndicators,
         currentPrice,
-        strategy.exit_conditions.take_profit,
-        'buy',
+        strategy.exit_conditions.take_profit_ladder,
+        entrySide,
         asset
       );
 
+      const takeProfitPrice = takeProfitTargets
+        ? takeProfitTargets[takeProfitTargets.length - 1].price
+        : await calculateTakeProfit(
+          technicalIndicators,
+          currentPrice,
+          strategy.exit_conditions.take_profit,
+          entrySide,
+          asset
+        );
+
       // Create order
       const order: TradeOrder = {
-        side: signal === 'enter' ? 'buy' : 'sell',
+        side: orderSide,
         product_id: asset,
         type: 'limit',
         price: currentPrice.toFixed(2),
@@ -106,81 +191,73 @@ export class TradeExecutor {
         client_oid: uuidv4()
       };
 
-      // Execute with retries
-      const result = await this.executeWithRetries(order);
+      // Track the order through its lifecycle; the position follows its fills
+      const broker = getBrokerAdapter(strategy.broker).name;
+      const managed = await orderManager.createOrder(order, {
+        broker,
+        strategy_id: strategy.strategy_id,
+        purpose: signal === 'enter' ? 'entry' : 'exit',
+        position_id: signal === 'enter' ? uuidv4() : undefined,
+        metadata: {
+          leg: 0,
+          trailing_stop_price: stopLossPrice,
+          take_profit_price: takeProfitPrice,
+          take_profit_targets: takeProfitTargets,
+          planned_quantity: sizing.quantity,
+          reason,
+          sizing
+        }
+      });
 
-      if (!result.success) {
-        throw new Error(`Trade execution failed: ${result.message}`);
+      // Execute with retries on the strategy's broker
+      let result: TradeResult;
+      try {
+        result = await this.executeWithRetries(order, broker);
+      } catch (error: any) {
+        await orderManager.markRejected(managed, error.message);
+        throw error;
       }
 
-      // Create position record
+      await orderManager.recordSubmission(managed, result);
+
       if (signal === 'enter') {
-        const position: Position = {
-          id: uuidv4(),
-          strategy_id: strategy.strategy_id,
-          asset: asset,
-          side: 'buy',
-          entry_price: parseFloat(result.filled_price || currentPrice.toString()),
-          current_price: currentPrice,
-          quantity: parseFloat(result.filled_size || quantity),
-          trailing_stop_price: stopLossPrice,
-          take_profit_price: takeProfitPrice,
-          status: 'open',
-          entry_time: new Date(),
-          coinbase_order_id: result.order_id
-        };
+        // The delayed signals behind this entry are used up now that it's in
+        await consumeMaturedSignals(pendingSignalService, strategy.strategy_id, marketClock.now());
+
+        if (managed.filled_size > 0) {
+          await this.queueEntryFill(managed);
+        } else {
+          logger.info(`Entry order ${managed.id} working: ${entrySide} ${quantity} ${asset} @ ${order.price} - position opens on first fill`);
+        }
+      }
 
-        // Save position
-        await pineconeService.savePosition(position);
-        await portfolioMonitor.addPosition(position);
+    } catch (error: any) {
+      logger.error('Trade execution failed:', error);
 
-        // Send notifications
+      // Send critical alert, once per cooldown while the same strategy keeps failing
+      const alertKey = `${strategy.strategy_id}|${signal}`;
+      const lastAlert = this.lastFailureAlert.get(alertKey);
+      if (lastAlert === undefined || marketClock.nowMs() - lastAlert >= tradingConfig.risk.rejectionAlertCooldownMs) {
+        this.lastFailureAlert.set(alertKey, marketClock.nowMs());
         await notificationService.sendNotification({
-          type: 'trade',
-          title: 'Position Opened',
-          message: `Opened ${position.asset} position at $${position.entry_price}`,
+          type: 'error',
+          title: 'Trade Execution Failed',
+          message: error.message,
           metadata: {
-            strategy: strategy.strategy_name,
-            asset: position.asset,
-            side: 'buy',
-            price: position.entry_price,
-            quantity: position.quantity,
-            reason: reason
+            strategy: strategy.strategy_id,
+            signal,
+            reason
           },
           timestamp: new Date()
         });
-
-        // Emit to frontend
-        io.emit('trade:executed', {
-          type: 'entry',
-          position,
-          strategy: strategy.strategy_name
-        });
-
-        logger.info(`Position opened for strategy ${strategy.strategy_id}: ${asset} @ ${position.entry_price}`);
       }
 
-    } catch (error: any) {
-      logger.error('Trade execution failed:', error);
-      
-      // Send critical alert
-      await notificationService.sendNotification({
-        type: 'error',
-        title: 'Trade Execution Failed',
-        message: error.message,
-        metadata: {
-          strategy: strategy.strategy_id,
-          signal,
-          reason
-        },
-        timestamp: new Date()
-      });
-
       throw error;
     }
   }
 
-  private validatePreTrade(strategy: ParsedStrategy) {
+  // Returns the share of the intended notional to send: 1, or less when the book can't absorb all of it
+  private validatePreTrade(strategy: ParsedStrategy, asset: string, side: 'buy' | 'sell', notionalUsd: number): number {
     // Validate stop loss is set
     if (!strategy.stop_loss_percent || strategy.stop_loss_percent <= 0) {
       throw new Error('CRITICAL: Stop loss not set - trade blocked');
@@ -207,121 +284,289 @@ export class TradeExecutor {
       throw new Error('Position already open for this strategy');
     }
 
+    if (orderManager.hasWorkingOrder(strategy.strategy_id, 'entry')) {
+      throw new Error('Entry order already working for this strategy');
+    }
+
     // Check daily loss limit
     const dailyPnL = portfolioMonitor.getDailyPnL();
     if (dailyPnL < -2000) { // $2000 daily loss limit
       throw new Error('Daily loss limit exceeded - trading halted');
     }
+
+    return this.checkMarketImpact(asset, side, notionalUsd);
   }
 
-  private async calculateStopLoss(
-    entryPrice: number,
-    stopLossConfig: any,
-    side: 'buy' | 'sell',
-    asset: string
-  ): Promise<number> {
-    let stopPrice: number;
-
-    switch (stopLossConfig.type) {
-      case 'percentage':
-        const percentage = stopLossConfig.value / 100;
-        stopPrice = side === 'buy' 
-          ? entryPrice * (1 - percentage)
-          : entryPrice * (1 + percentage);
-        break;
-        
-      case 'atr':
-        try {
-          // Properly await ATR calculation
-          const atr = await technicalIndicators.calculateATR(asset, 14);
-          const atrMultiplier = stopLossConfig.value || 2.0;
-          
-          stopPrice = side === 'buy'
-            ? entryPrice - (atr * atrMultiplier)
-            : entryPrice + (atr * atrMultiplier);
-        } catch (error) {
-          // Fallback to percentage-based stop
-          logger.warn(`ATR calculation failed for ${asset}, using 2% stop loss`);
-          stopPrice = side === 'buy'
-            ? entryPrice * 0.98
-            : entryPrice * 1.02;
-        }
-        break;
-        
-      default:
-        // Default 2% stop loss
-        stopPrice = side === 'buy'
-          ? entryPrice * 0.98
-          : entryPrice * 1.02;
+  // Sweeps the live L2 book for the order's notional; resizes or blocks orders that would move the price too far
+  private checkMarketImpact(asset: string, side: 'buy' | 'sell', notionalUsd: number): number {
+    const { maxSlippagePercent, slippageAction, minResizePercent } = tradingConfig.liquidity;
+
+    const book = orderBookService.getBook(asset);
+    if (!book) {
+      // Assets without a depth feed keep the top-of-book spread check only
+      logger.warn(`No live order book for ${asset} - market impact not checked`);
+      return 1;
+    }
+
+    const estimate = book.estimateSlippage(side, notionalUsd);
+    if (!estimate) {
+      throw new Error(`Order book for ${asset} has an empty side - trade blocked`);
+    }
+
+    if (estimate.fully_fillable && estimate.slippage_percent <= maxSlippagePercent) {
+      return 1;
     }
 
-    return parseFloat(stopPrice.toFixed(2));
+    const impact = estimate.fully_fillable
+      ? `${estimate.slippage_percent.toFixed(3)}%`
+      : `beyond the visible book ($${estimate.fillable_usd.toFixed(2)} available)`;
+
+    if (slippageAction === 'reject') {
+      throw new Error(`Expected market impact of $${notionalUsd.toFixed(2)} ${side} ${asset} is ${impact} (max ${maxSlippagePercent}%) - trade blocked`);
+    }
+
+    const allowed = book.getMaxNotional(side, maxSlippagePercent);
+    const scale = Math.min(1, allowed / notionalUsd);
+    if (scale * 100 < minResizePercent) {
+      throw new Error(`Only $${allowed.toFixed(2)} of $${notionalUsd.toFixed(2)} ${side} ${asset} fits within ${maxSlippagePercent}% impact - trade blocked`);
+    }
+
+    logger.warn(`📉 Resized ${side} ${asset} from $${notionalUsd.toFixed(2)} to $${allowed.toFixed(2)}: expected impact ${impact} (max ${maxSlippagePercent}%)`);
+    return scale;
   }
 
-  private async calculateTakeProfit(
-    entryPrice: number,
-    takeProfitConfig: any,
-    side: 'buy' | 'sell',
-    asset: string
-  ): Promise<number> {
-    let targetPrice: number;
-
-    switch (takeProfitConfig.type) {
-      case 'percentage':
-        const percentage = takeProfitConfig.value / 100;
-        targetPrice = side === 'buy'
-          ? entryPrice * (1 + percentage)
-          : entryPrice * (1 - percentage);
-        break;
-        
-      case 'atr':
-        try {
-          // Properly await ATR calculation
-          const atr = await technicalIndicators.calculateATR(asset, 14);
-          const atrMultiplier = takeProfitConfig.value || 3.0;
-          
-          targetPrice = side === 'buy'
-            ? entryPrice + (atr * atrMultiplier)
-            : entryPrice - (atr * atrMultiplier);
-        } catch (error) {
-          // Fallback to percentage-based target
-          logger.warn(`ATR calculation failed for ${asset}, using 5% take profit`);
-          targetPrice = side === 'buy'
-            ? entryPrice * 1.05
-            : entryPrice * 0.95;
-        }
-        break;
-        
-      default:
-        // Default 5% take profit
-        targetPrice = side === 'buy'
-          ? entryPrice * 1.05
-          : entryPrice * 0.95;
+  private queueEntryFill(order: ManagedOrder): Promise<void> {
+    const next = this.fillQueue.then(() => this.applyEntryFill(order));
+    this.fillQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private queueProtectiveFill(order: ManagedOrder, filledDelta: number): Promise<void> {
+    const next = this.fillQueue.then(() => this.applyProtectiveFill(order, filledDelta));
+    this.fillQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  // A resting stop or take-profit filled at the broker: book the exit without sending another order
+  private async applyProtectiveFill(order: ManagedOrder, filledDelta: number): Promise<void> {
+    const position = portfolioMonitor.getOpenPositions().find(p => p.id === order.position_id);
+    if (!position) {
+      logger.warn(`Protective order ${order.id} filled but position ${order.position_id} is no longer open`);
+      return;
+    }
+
+    const exitPrice = order.average_fill_price ?? order.limit_price ?? position.current_price;
+    const reason = order.metadata?.reason || 'Protective order filled';
+    const quantity = Math.min(filledDelta, position.quantity);
+
+    if (position.quantity - quantity <= QUANTITY_EPSILON) {
+      // One cancels the other
+      await protectiveOrderService.cancelAll(position);
+      await this.finalizeClose(position, exitPrice, reason);
+      return;
+    }
+
+    await this.bookPartialExit(position, quantity, exitPrice, reason);
+    await this.syncProtection(position);
+  }
+
+  private async syncProtection(position: Position): Promise<void> {
+    await protectiveOrderService.sync(position).catch(error => {
+      logger.error(`Failed to update protective orders for ${position.id}:`, error);
+    });
+  }
+
+  // Opens the position on the first entry fill and resizes it as partial fills and scale-in legs arrive
+  private async applyEntryFill(order: ManagedOrder): Promise<void> {
+    if (!order.position_id) return;
+
+    const leg: number = order.metadata?.leg ?? 0;
+    const fill = await orderManager.getEntryFill(order.position_id);
+    const legFill = await orderManager.getEntryFill(order.position_id, leg);
+    if (!fill || !legFill) return;
+
+    const existing = portfolioMonitor.getOpenPositions().find(p => p.id === order.position_id);
+    if (existing) {
+      // Exits already taken stay taken; only the entered side grows
+      const exited = (existing.entered_quantity ?? existing.quantity) - existing.quantity;
+      existing.entered_quantity = fill.quantity;
+      existing.quantity = fill.quantity - exited;
+      existing.entry_price = fill.average_price;
+      this.upsertEntryLeg(existing, leg, legFill.quantity, legFill.average_price);
+
+      const stage = existing.scale_in_stages?.find(s => s.stage === leg);
+      if (stage) {
+        stage.status = 'filled';
+      }
+
+      await pineconeService.savePosition(existing);
+      await tradeHistoryService.recordEntryLeg(existing, leg, legFill.average_price, legFill.quantity, order.broker_order_id).catch(error => {
+        logger.error('Failed to record entry leg:', error);
+      });
+
+      io.emit('position:update', { position: existing, reason: leg > 0 ? 'scale_in' : 'partial_fill' });
+      logger.info(`Position ${existing.id} now ${existing.quantity} ${existing.asset} @ ${fill.average_price.toFixed(2)}`);
+      await this.syncProtection(existing);
+      return;
+    }
+
+    if (leg > 0) {
+      logger.warn(`Scale-in fill for ${order.position_id} arrived after the position closed`);
+      return;
+    }
+
+    const strategy = strategyManager.getStrategy(order.strategy_id);
+    const currentPrice = technicalIndicators.getCurrentPrice(order.product_id);
+    const position: Position = {
+      id: order.position_id,
+      strategy_id: order.strategy_id,
+      asset: order.product_id,
+      side: order.side,
+      entry_price: fill.average_price,
+      current_price: currentPrice ?? fill.average_price,
+      quantity: fill.quantity,
+      trailing_stop_price: order.metadata?.trailing_stop_price,
+      initial_stop_price: order.metadata?.trailing_stop_price,
+      stop_rule: 'initial',
+      take_profit_price: order.metadata?.take_profit_price,
+      status: 'open',
+      entry_time: marketClock.now(),
+      coinbase_order_id: order.broker_order_id,
+      broker: order.broker,
+      entered_quantity: fill.quantity,
+      realized_pnl: 0,
+      legs: [],
+      take_profit_targets: order.metadata?.take_profit_targets,
+      scale_in_stages: buildScaleInPlan(
+        strategy?.entry_conditions.scale_in,
+        fill.average_price,
+        order.metadata?.planned_quantity ?? fill.quantity,
+        order.side
+      )
+    };
+    this.upsertEntryLeg(position, 0, fill.quantity, fill.average_price);
+
+    // Save position
+    await pineconeService.savePosition(position);
+    await portfolioMonitor.addPosition(position);
+    await tradeHistoryService.recordEntryLeg(position, 0, fill.average_price, fill.quantity, order.broker_order_id).catch(error => {
+      logger.error('Failed to record position entry:', error);
+    });
+
+    // Send notifications
+    await notificationService.sendNotification({
+      type: 'trade',
+      title: 'Position Opened',
+      message: `Opened ${position.side === 'sell' ? 'short ' : ''}${position.asset} position at $${position.entry_price}`,
+      metadata: {
+        strategy: strategy?.strategy_name || order.strategy_id,
+        asset: position.asset,
+        side: position.side,
+        price: position.entry_price,
+        quantity: position.quantity,
+        reason: order.metadata?.reason
+      },
+      timestamp: new Date()
+    });
+
+    // Emit to frontend
+    io.emit('trade:executed', {
+      type: 'entry',
+      position,
+      strategy: strategy?.strategy_name || order.strategy_id
+    });
+
+    logger.info(`Position opened for strategy ${order.strategy_id}: ${position.side} ${position.asset} @ ${position.entry_price}`);
+    await this.syncProtection(position);
+  }
+
+  private upsertEntryLeg(position: Position, leg: number, quantity: number, price: number): void {
+    position.legs = position.legs || [];
+    const existing = position.legs.find(l => l.kind === 'entry' && l.leg === leg);
+    if (existing) {
+      existing.quantity = quantity;
+      existing.price = price;
+      return;
+    }
+
+    position.legs.push({ kind: 'entry', leg, quantity, price, timestamp: new Date() });
+  }
+
+  // Adds a staged entry to an open position; the position grows as the order fills
+  async scaleIn(position: Position, stage: ScaleInPlan): Promise<void> {
+    const currentPrice = technicalIndicators.getCurrentPrice(position.asset);
+    if (!currentPrice) return;
+
+    stage.status = 'submitted';
+
+    const broker = getBrokerAdapter(position.broker || strategyManager.getStrategy(position.strategy_id)?.broker).name;
+    const decision = await riskEngine.evaluate({
+      strategy_id: position.strategy_id,
+      asset: position.asset,
+      side: position.side,
+      notional_usd: stage.quantity * currentPrice,
+      broker,
+      position_id: position.id
+    });
+
+    if (!decision.approved) {
+      stage.status = 'skipped';
+      await pineconeService.savePosition(position);
+      logger.warn(`Scale-in stage ${stage.stage} for ${position.id} skipped: ${decision.rejections.map(r => r.message).join('; ')}`);
+      return;
     }
 
-    return parseFloat(targetPrice.toFixed(2));
+    const order: TradeOrder = {
+      side: position.side,
+      product_id: position.asset,
+      type: 'limit',
+      price: currentPrice.toFixed(2),
+      size: stage.quantity.toFixed(8),
+      client_oid: uuidv4()
+    };
+
+    const managed = await orderManager.createOrder(order, {
+      broker,
+      strategy_id: position.strategy_id,
+      purpose: 'entry',
+      position_id: position.id,
+      metadata: { leg: stage.stage, reason: `Scale-in stage ${stage.stage}` }
+    });
+
+    let result: TradeResult;
+    try {
+      result = await this.executeWithRetries(order, broker);
+    } catch (error: any) {
+      await orderManager.markRejected(managed, error.message);
+      stage.status = 'waiting'; // Try again on the next check
+      logger.error(`Scale-in stage ${stage.stage} for ${position.id} failed:`, error.message);
+      return;
+    }
+
+    await orderManager.recordSubmission(managed, result);
+    await pineconeService.savePosition(position);
+    logger.info(`Scale-in stage ${stage.stage} for ${position.id}: ${position.side} ${order.size} ${position.asset} @ ${order.price}`);
+
+    if (managed.filled_size > 0) {
+      await this.queueEntryFill(managed);
+    }
   }
 
-  private async executeWithRetries(order: TradeOrder): Promise<TradeResult> {
+  private async executeWithRetries(order: TradeOrder, brokerName?: BrokerName): Promise<TradeResult> {
+    const broker = getBrokerAdapter(brokerName);
     let lastError: any;
     
     for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
       try {
-        logger.info(`Executing trade attempt ${attempt}/${this.MAX_RETRIES}`);
+        logger.info(`Executing trade attempt ${attempt}/${this.MAX_RETRIES} via ${broker.name}`);
         
-        const response = await axios.post(this.webhookUrl, order, {
-          timeout: 10000, // 10 second timeout
-          headers: {
-            'Content-Type': 'application/json',
-            'X-Client-ID': 'trading-execution-app'
-          }
-        });
+        const result = await broker.placeOrder(order);
 
-        if (response.data.success) {
-          return response.data;
+        if (result.success) {
+          return result;
         }
 
-        lastError = new Error(response.data.message || 'Trade execution failed');
+        lastError = new Error(result.message || 'Trade execution failed');
         
       } catch (error: any) {
         lastError = error;
@@ -342,77 +587,134 @@ export class TradeExecutor {
     return null;
   }
 
-  private async sendWebhookRequest(orderRequest: OrderRequest): Promise<OrderResponse> {
-    // Legacy method kept for compatibility
-    const webhookUrl = process.env.WEBHOOK_URL;
-    if (!webhookUrl) {
-      throw new Error('WEBHOOK_URL not configured');
+  // Sends a market order closing quantity of the position and returns the exit price
+  private async submitExit(position: Position, quantity: number, reason: string): Promise<number> {
+    const currentPrice = technicalIndicators.getCurrentPrice(position.asset);
+    if (!currentPrice) {
+      throw new Error('No current price for position close');
     }
-    
-    return {
-      order_id: 'mock-order-id',
-      status: 'pending',
-      timestamp: new Date()
+
+    // Sell to close a long, buy to cover a short
+    const order: TradeOrder = {
+      side: getCloseSide(position.side),
+      product_id: position.asset,
+      type: 'market', // Market order for immediate execution
+      size: quantity.toFixed(8),
+      client_oid: uuidv4()
     };
-  }
 
-  async closePosition(position: Position, reason: string): Promise<void> {
+    // Close on the venue that opened the position
+    const brokerName = getBrokerAdapter(position.broker || strategyManager.getStrategy(position.strategy_id)?.broker).name;
+    const managed = await orderManager.createOrder(order, {
+      broker: brokerName,
+      strategy_id: position.strategy_id,
+      purpose: 'exit',
+      position_id: position.id,
+      metadata: { reason }
+    });
+
+    let result: TradeResult;
     try {
-      const currentPrice = technicalIndicators.getCurrentPrice(position.asset);
-      if (!currentPrice) {
-        throw new Error('No current price for position close');
-      }
+      result = await this.executeWithRetries(order, brokerName);
+    } catch (error: any) {
+      await orderManager.markRejected(managed, error.message);
+      throw error;
+    }
 
-      const order: TradeOrder = {
-        side: 'sell',
-        product_id: position.asset,
-        type: 'market', // Market order for immediate execution
-        size: position.quantity.toString(),
-        client_oid: uuidv4()
-      };
+    await orderManager.recordSubmission(managed, result);
+
+    if (!result.success) {
+      throw new Error(`Position close failed: ${result.message}`);
+    }
 
-      const result = await this.executeWithRetries(order);
+    return parseFloat(result.filled_price || currentPrice.toString());
+  }
+
+  // Books an exit leg against the position's average entry
+  private recordExitLeg(position: Position, quantity: number, exitPrice: number, reason: string): number {
+    const pnl = calculatePnl(position.side, position.entry_price, exitPrice, quantity);
+    const exitLegs = (position.legs || []).filter(l => l.kind === 'exit').length;
+
+    position.legs = [
+      ...(position.legs || []),
+      { kind: 'exit', leg: exitLegs, quantity, price: exitPrice, realized_pnl: pnl, reason, timestamp: new Date() }
+    ];
+    position.realized_pnl = (position.realized_pnl || 0) + pnl;
+    return pnl;
+  }
 
-      if (!result.success) {
-        throw new Error(`Position close failed: ${result.message}`);
+  // Closes part of a position, e.g. at a take-profit ladder level
+  async partialClose(position: Position, quantity: number, reason: string, level?: number): Promise<void> {
+    const target = level !== undefined ? position.take_profit_targets?.find(t => t.level === level) : undefined;
+    if (target) {
+      target.filled = true; // Claimed up front so the next check doesn't fire the level again
+    }
+
+    try {
+      // Resting protective orders hold the quantity at the broker; they're re-placed for the remainder below
+      if (!(await protectiveOrderService.cancelAll(position))) {
+        throw new Error('protective orders could not be cancelled');
       }
 
-      // Update position
-      position.status = 'closed';
-      position.exit_time = new Date();
-      position.exit_price = parseFloat(result.filled_price || currentPrice.toString());
-      position.pnl = (position.exit_price - position.entry_price) * position.quantity;
+      const exitPrice = await this.submitExit(position, quantity, reason);
+      await this.bookPartialExit(position, quantity, exitPrice, reason);
+    } catch (error: any) {
+      if (target) {
+        target.filled = false;
+      }
+      logger.error(`Failed to scale out of position ${position.id}:`, error);
+    }
 
-      // Save updated position
-      await pineconeService.savePosition(position);
-      await portfolioMonitor.closePosition(position.id);
+    await this.syncProtection(position);
+  }
 
-      // Send notifications
-      await notificationService.sendNotification({
-        type: 'trade',
-        title: 'Position Closed',
-        message: `Closed ${position.asset} position at $${position.exit_price}, PnL: $${position.pnl.toFixed(2)}`,
-        metadata: {
-          strategy: position.strategy_id,
-          asset: position.asset,
-          side: 'sell',
-          price: position.exit_price,
-          quantity: position.quantity,
-          pnl: position.pnl,
-          reason: reason
-        },
-        timestamp: new Date()
-      });
+  private async bookPartialExit(position: Position, quantity: number, exitPrice: number, reason: string): Promise<void> {
+    const pnl = this.recordExitLeg(position, quantity, exitPrice, reason);
+    position.quantity -= quantity;
 
-      // Emit to frontend
-      io.emit('trade:executed', {
-        type: 'exit',
-        position,
-        pnl: position.pnl,
+    await pineconeService.savePosition(position);
+    await tradeHistoryService.recordExitLeg(position, quantity, exitPrice, new Date(), reason).catch(error => {
+      logger.error('Failed to record exit leg:', error);
+    });
+
+    await notificationService.sendNotification({
+      type: 'trade',
+      title: 'Position Scaled Out',
+      message: `Closed ${quantity} ${position.asset} at $${exitPrice}, PnL: $${pnl.toFixed(2)} (${position.quantity} left)`,
+      metadata: {
+        strategy: position.strategy_id,
+        asset: position.asset,
+        price: exitPrice,
+        quantity,
+        pnl,
         reason
-      });
+      },
+      timestamp: new Date()
+    });
 
-      logger.info(`Position closed: ${position.asset} @ ${position.exit_price}, PnL: $${position.pnl.toFixed(2)}`);
+    io.emit('position:update', { position, reason: 'scale_out', realized_pnl: pnl });
+    logger.info(`Scaled out of ${position.asset}: ${quantity} @ ${exitPrice}, PnL: $${pnl.toFixed(2)}, ${position.quantity} remaining`);
+  }
+
+  async closePosition(position: Position, reason: string): Promise<void> {
+    try {
+      // Stop a partially filled entry (or pending scale-in) from growing the position we're closing
+      const workingEntries = orderManager.getWorkingOrders()
+        .filter(o => o.position_id === position.id && o.purpose === 'entry');
+      for (const working of workingEntries) {
+        await orderManager.cancelOrder(working.id).catch(error => {
+          logger.warn(`Failed to cancel working entry ${working.id}: ${error.message}`);
+        });
+      }
+
+      // Pull resting protective orders first so the broker can't close the position twice
+      if (!(await protectiveOrderService.cancelAll(position))) {
+        logger.warn(`Protective order for ${position.id} could not be cancelled - leaving the close to its fill`);
+        return;
+      }
+
+      const exitPrice = await this.submitExit(position, position.quantity, reason);
+      await this.finalizeClose(position, exitPrice, reason);
 
     } catch (error: any) {
       logger.error('Failed to close position:', error);
@@ -433,6 +735,52 @@ export class TradeExecutor {
     }
   }
 
+  // Books the final exit leg and retires the position
+  private async finalizeClose(position: Position, exitPrice: number, reason: string): Promise<void> {
+    const closeSide = getCloseSide(position.side);
+    this.recordExitLeg(position, position.quantity, exitPrice, reason);
+
+    // Update position; pnl covers every exit leg, not just the remainder
+    position.status = 'closed';
+    position.exit_time = marketClock.now();
+    position.exit_price = exitPrice;
+    position.pnl = position.realized_pnl ?? 0;
+
+    // Save updated position
+    await pineconeService.savePosition(position);
+    await portfolioMonitor.closePosition(position.id);
+    await tradeHistoryService.recordPositionExit(position, reason).catch(error => {
+      logger.error('Failed to record position exit:', error);
+    });
+
+    // Send notifications
+    await notificationService.sendNotification({
+      type: 'trade',
+      title: 'Position Closed',
+      message: `Closed ${position.asset} position at $${position.exit_price}, PnL: $${position.pnl.toFixed(2)}`,
+      metadata: {
+        strategy: position.strategy_id,
+        asset: position.asset,
+        side: closeSide,
+        price: position.exit_price,
+        quantity: position.quantity,
+        pnl: position.pnl,
+        reason: reason
+      },
+      timestamp: new Date()
+    });
+
+    // Emit to frontend
+    io.emit('trade:executed', {
+      type: 'exit',
+      position,
+      pnl: position.pnl,
+      reason
+    });
+
+    logger.info(`Position closed: ${position.asset} @ ${position.exit_price}, PnL: $${position.pnl.toFixed(2)}`);
+  }
+
   async emergencyCloseAll(reason: string): Promise<void> {
     logger.warn('EMERGENCY CLOSE ALL POSITIONS INITIATED');
     
@@ -42,6 +42,12 @@ export interface TradeStats {
   avg_trade_duration: number; // in hours
 }
 
+// Realized PnL for a round trip; shorts profit when the exit is below the entry
+export function calculatePnl(side: 'buy' | 'sell', entryPrice: number, exitPrice: number, quantity: number): number {
+  const direction = side === 'sell' ? -1 : 1;
+  return (exitPrice - entryPrice) * quantity * direction;
+}
+
 export class TradeHistoryService {
   
   async recordTrade(trade: TradeRecord): Promise<number> {
@@ -344,34 +350,117 @@ export class TradeHistoryService {
       status: 'open',
       order_id: position.coinbase_order_id,
       metadata: {
+        position_id: position.id,
+        leg: 0,
         trailing_stop_price: position.trailing_stop_price,
         take_profit_price: position.take_profit_price
       }
     });
   }
 
-  async recordPositionExit(position: Position): Promise<void> {
-    if (!position.exit_time || !position.exit_price || position.pnl === undefined) {
-      throw new Error('Position exit data incomplete');
+  // One open row per entry leg; partial fills resize it, net of anything already closed from that leg
+  async recordEntryLeg(position: Position, leg: number, entryPrice: number, filledQuantity: number, orderId?: string): Promise<void> {
+    const closed = await databaseService.get(
+      `SELECT COALESCE(SUM(quantity), 0) AS quantity FROM trades
+       WHERE status = 'closed' AND json_extract(metadata, '$.position_id') = ?
+         AND COALESCE(json_extract(metadata, '$.leg'), 0) = ?`,
+      [position.id, leg]
+    );
+    const open = await databaseService.get(
+      `SELECT id FROM trades
+       WHERE status = 'open' AND json_extract(metadata, '$.position_id') = ?
+         AND COALESCE(json_extract(metadata, '$.leg'), 0) = ?`,
+      [position.id, leg]
+    );
+
+    const quantity = filledQuantity - (closed?.quantity || 0);
+
+    if (open) {
+      await this.updateTrade(open.id, { entry_price: entryPrice, quantity });
+      return;
     }
 
-    // Find the trade record by position ID or order ID
-    const trades = await this.getTrades({
+    await this.recordTrade({
       strategy_id: position.strategy_id,
       symbol: position.asset,
-      status: 'open'
+      side: position.side,
+      entry_price: entryPrice,
+      quantity,
+      entry_time: new Date(),
+      status: 'open',
+      order_id: orderId,
+      metadata: {
+        position_id: position.id,
+        leg,
+        trailing_stop_price: position.trailing_stop_price,
+        take_profit_price: position.take_profit_price
+      }
     });
+  }
 
-    const trade = trades.find(t => 
-      t.order_id === position.coinbase_order_id ||
-      (t.entry_price === position.entry_price && t.quantity === position.quantity)
+  // Closes quantity against the position's open legs oldest first, splitting a leg that is only partly closed
+  async recordExitLeg(position: Position, quantity: number, exitPrice: number, exitTime: Date, reason: string): Promise<void> {
+    const rows = await databaseService.all(
+      `SELECT * FROM trades
+       WHERE status = 'open' AND (json_extract(metadata, '$.position_id') = ? OR (order_id IS NOT NULL AND order_id = ?))
+       ORDER BY entry_time ASC, id ASC`,
+      [position.id, position.coinbase_order_id || null]
     );
 
-    if (trade) {
-      await this.closeTrade(trade.id!, position.exit_price, position.exit_time, position.pnl);
-    } else {
+    if (rows.length === 0) {
       logger.warn(`Trade record not found for position ${position.id}`);
+      return;
     }
+
+    let remaining = quantity;
+    for (const row of rows) {
+      if (remaining <= 1e-8) break;
+
+      const metadata = row.metadata ? JSON.parse(row.metadata) : {};
+      const taken = Math.min(remaining, row.quantity);
+      const pnl = calculatePnl(row.side, row.entry_price, exitPrice, taken);
+      remaining -= taken;
+
+      if (row.quantity - taken <= 1e-8) {
+        await this.updateTrade(row.id, {
+          exit_price: exitPrice,
+          exit_time: exitTime,
+          pnl,
+          status: 'closed',
+          metadata: { ...metadata, exit_reason: reason }
+        });
+        continue;
+      }
+
+      // Partly closed leg: the open row keeps the rest, the closed piece becomes its own row
+      await this.updateTrade(row.id, { quantity: row.quantity - taken });
+      await this.recordTrade({
+        strategy_id: row.strategy_id,
+        symbol: row.symbol,
+        side: row.side,
+        entry_price: row.entry_price,
+        exit_price: exitPrice,
+        quantity: taken,
+        entry_time: new Date(row.entry_time),
+        exit_time: exitTime,
+        pnl,
+        status: 'closed',
+        order_id: row.order_id || undefined,
+        metadata: { ...metadata, split_from: row.id, exit_reason: reason }
+      });
+    }
+
+    if (remaining > 1e-8) {
+      logger.warn(`Exit of ${quantity} ${position.asset} exceeded open trade records for position ${position.id} by ${remaining}`);
+    }
+  }
+
+  async recordPositionExit(position: Position, reason: string = 'Position closed'): Promise<void> {
+    if (!position.exit_time || !position.exit_price || position.pnl === undefined) {
+      throw new Error('Position exit data incomplete');
+    }
+
+    await this.recordExitLeg(position, position.quantity, position.exit_price, position.exit_time, reason);
   }
 }
 
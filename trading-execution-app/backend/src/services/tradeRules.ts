@@ -0,0 +1,437 @@
+import { logger } from '../utils/logger';
+import { TechnicalIndicators } from './technicalIndicators';
+import { ConditionEvaluator } from './conditionEvaluator';
+import {
+  ConditionTrace,
+  ParsedStrategy,
+  ExitCondition,
+  Position,
+  TakeProfitLevel,
+  TakeProfitTarget,
+  ScaleInStage,
+  ScaleInPlan,
+  StopRule
+} from '../types';
+
+// Position rules shared by live execution (TradeExecutor / PortfolioMonitor) and the backtest engine
+
+export interface ExitDecision {
+  shouldExit: boolean;
+  reason: string;
+  trailing_stop_price: number;
+  stop_updated: boolean;
+  stop_rule?: StopRule;    // Rule that moved the stop when stop_updated
+  scale_out?: {            // Close part of the position at a take-profit ladder level
+    level: number;
+    quantity: number;
+    reason: string;
+  };
+  exit_signal?: ConditionTrace; // The strategy exit signal that closed the position
+}
+
+// Prefix of the close reason when a strategy exit signal fires, as opposed to a stop, target or max hold
+export const EXIT_SIGNAL_REASON = 'Exit signal triggered';
+
+// Quantities below this are treated as fully closed
+export const QUANTITY_EPSILON = 1e-8;
+
+// Ladders whose size_percent adds up to within this of 100 close the whole position on their last level
+const LADDER_TOLERANCE_PERCENT = 0.01;
+
+// Strategies whose entry action is 'sell' open short positions
+export function getEntrySide(strategy: ParsedStrategy): 'buy' | 'sell' {
+  return strategy.entry_conditions.action === 'sell' ? 'sell' : 'buy';
+}
+
+export function getCloseSide(side: 'buy' | 'sell'): 'buy' | 'sell' {
+  return side === 'buy' ? 'sell' : 'buy';
+}
+
+// Multi-asset strategies list their triggers first, so prefer the explicit target
+export function getTradingAsset(strategy: ParsedStrategy): string {
+  return strategy.entry_conditions.target_asset
+    || strategy.entry_conditions.primary_asset
+    || strategy.required_assets[0];
+}
+
+export async function calculateStopLoss(
+  indicators: TechnicalIndicators,
+  entryPrice: number,
+  stopLossConfig: any,
+  side: 'buy' | 'sell',
+  asset: string
+): Promise<number> {
+  let stopPrice: number;
+
+  switch (stopLossConfig.type) {
+    case 'percentage':
+      const percentage = stopLossConfig.value / 100;
+      stopPrice = side === 'buy'
+        ? entryPrice * (1 - percentage)
+        : entryPrice * (1 + percentage);
+      break;
+
+    case 'atr':
+      try {
+        // Properly await ATR calculation
+        const atr = await indicators.calculateATR(asset, 14);
+        const atrMultiplier = stopLossConfig.value || 2.0;
+
+        stopPrice = side === 'buy'
+          ? entryPrice - (atr * atrMultiplier)
+          : entryPrice + (atr * atrMultiplier);
+      } catch (error) {
+        // Fallback to percentage-based stop
+        logger.warn(`ATR calculation failed for ${asset}, using 2% stop loss`);
+        stopPrice = side === 'buy'
+          ? entryPrice * 0.98
+          : entryPrice * 1.02;
+      }
+      break;
+
+    default:
+      // Default 2% stop loss
+      stopPrice = side === 'buy'
+        ? entryPrice * 0.98
+        : entryPrice * 1.02;
+  }
+
+  return parseFloat(stopPrice.toFixed(2));
+}
+
+export async function calculateTakeProfit(
+  indicators: TechnicalIndicators,
+  entryPrice: number,
+  takeProfitConfig: any,
+  side: 'buy' | 'sell',
+  asset: string
+): Promise<number> {
+  let targetPrice: number;
+
+  switch (takeProfitConfig.type) {
+    case 'percentage':
+      const percentage = takeProfitConfig.value / 100;
+      targetPrice = side === 'buy'
+        ? entryPrice * (1 + percentage)
+        : entryPrice * (1 - percentage);
+      break;
+
+    case 'atr':
+      try {
+        // Properly await ATR calculation
+        const atr = await indicators.calculateATR(asset, 14);
+        const atrMultiplier = takeProfitConfig.value || 3.0;
+
+        targetPrice = side === 'buy'
+          ? entryPrice + (atr * atrMultiplier)
+          : entryPrice - (atr * atrMultiplier);
+      } catch (error) {
+        // Fallback to percentage-based target
+        logger.warn(`ATR calculation failed for ${asset}, using 5% take profit`);
+        targetPrice = side === 'buy'
+          ? entryPrice * 1.05
+          : entryPrice * 0.95;
+      }
+      break;
+
+    default:
+      // Default 5% take profit
+      targetPrice = side === 'buy'
+        ? entryPrice * 1.05
+        : entryPrice * 0.95;
+  }
+
+  return parseFloat(targetPrice.toFixed(2));
+}
+
+export async function calculateTrailingStop(
+  indicators: TechnicalIndicators,
+  currentPrice: number,
+  side: 'buy' | 'sell',
+  stopLossConfig: any,
+  asset: string
+): Promise<number> {
+  let stopDistance: number;
+
+  switch (stopLossConfig.type) {
+    case 'percentage':
+      stopDistance = currentPrice * (stopLossConfig.value / 100);
+      break;
+
+    case 'atr':
+      try {
+        const atr = await indicators.calculateATR(asset, 14);
+        stopDistance = atr * stopLossConfig.value;
+      } catch (error) {
+        // Fallback to percentage-based stop
+        logger.warn(`ATR calculation failed for ${asset} trailing stop, using 2%`);
+        stopDistance = currentPrice * 0.02;
+      }
+      break;
+
+    default:
+      stopDistance = currentPrice * 0.02; // 2% default
+  }
+
+  const stopPrice = side === 'sell' ? currentPrice + stopDistance : currentPrice - stopDistance;
+  return parseFloat(stopPrice.toFixed(2));
+}
+
+// Chandelier exit: an ATR multiple off the extreme of the last period candles
+export async function calculateChandelierStop(
+  indicators: TechnicalIndicators,
+  asset: string,
+  side: 'buy' | 'sell',
+  config: { period: number; multiplier: number }
+): Promise<number> {
+  const candles = indicators.getCandles(asset).slice(-config.period);
+  if (candles.length < config.period) {
+    throw new Error(`Insufficient data for chandelier stop: need ${config.period} candles, have ${candles.length}`);
+  }
+
+  const atr = await indicators.calculateATR(asset, config.period);
+  const stopPrice = side === 'sell'
+    ? Math.min(...candles.map(c => c.low)) + atr * config.multiplier
+    : Math.max(...candles.map(c => c.high)) - atr * config.multiplier;
+
+  return parseFloat(stopPrice.toFixed(2));
+}
+
+// Stop level proposed by each configured rule at currentPrice; evaluateExit keeps the tightest one
+export async function getStopCandidates(
+  indicators: TechnicalIndicators,
+  position: Position,
+  stopLoss: ExitCondition['stop_loss'],
+  currentPrice: number,
+  now: Date
+): Promise<Array<{ rule: StopRule; price: number }>> {
+  const direction = position.side === 'sell' ? -1 : 1;
+  const entryPrice = position.entry_price;
+  const profitPercent = direction * (currentPrice - entryPrice) / entryPrice * 100;
+  const fromEntry = (percent: number) => parseFloat((entryPrice * (1 + direction * percent / 100)).toFixed(2));
+  const candidates: Array<{ rule: StopRule; price: number }> = [];
+
+  // Plain trail only starts once the position is in profit
+  if (stopLoss.is_trailing && profitPercent > 0) {
+    candidates.push({
+      rule: 'trailing',
+      price: await calculateTrailingStop(indicators, currentPrice, position.side, stopLoss, position.asset)
+    });
+  }
+
+  if (stopLoss.breakeven && profitPercent >= stopLoss.breakeven.trigger_percent) {
+    candidates.push({ rule: 'breakeven', price: fromEntry(stopLoss.breakeven.offset_percent || 0) });
+  }
+
+  const tiers = (stopLoss.profit_lock || []).filter(tier => profitPercent >= tier.trigger_percent);
+  if (tiers.length > 0) {
+    candidates.push({ rule: 'profit_lock', price: fromEntry(Math.max(...tiers.map(tier => tier.lock_percent))) });
+  }
+
+  if (stopLoss.chandelier) {
+    try {
+      candidates.push({
+        rule: 'chandelier',
+        price: await calculateChandelierStop(indicators, position.asset, position.side, stopLoss.chandelier)
+      });
+    } catch (error) {
+      // Not enough candles yet; the other rules still apply
+    }
+  }
+
+  if (stopLoss.time_decay) {
+    const { start_after_hours, decay_hours, target_percent = 0 } = stopLoss.time_decay;
+    const decayingHours = (now.getTime() - new Date(position.entry_time).getTime()) / 3600000 - start_after_hours;
+
+    if (decayingHours > 0) {
+      // Slide linearly from the entry stop to the target so stale positions give back less
+      const initialStop = position.initial_stop_price
+        ?? await calculateStopLoss(indicators, entryPrice, stopLoss, position.side, position.asset);
+      const progress = decay_hours > 0 ? Math.min(1, decayingHours / decay_hours) : 1;
+      const target = fromEntry(target_percent);
+      candidates.push({
+        rule: 'time_decay',
+        price: parseFloat((initialStop + (target - initialStop) * progress).toFixed(2))
+      });
+    }
+  }
+
+  return candidates;
+}
+
+// Prices each ladder level from the entry price; undefined when the strategy has a single target
+export async function buildTakeProfitTargets(
+  indicators: TechnicalIndicators,
+  entryPrice: number,
+  ladder: TakeProfitLevel[] | undefined,
+  side: 'buy' | 'sell',
+  asset: string
+): Promise<TakeProfitTarget[] | undefined> {
+  if (!ladder?.length) return undefined;
+
+  const targets: TakeProfitTarget[] = [];
+  for (const [level, step] of ladder.entries()) {
+    targets.push({
+      level,
+      price: await calculateTakeProfit(indicators, entryPrice, step, side, asset),
+      size_percent: step.size_percent,
+      filled: false
+    });
+  }
+  return targets;
+}
+
+// Share of the sized position sent on the entry signal itself
+export function getInitialEntryFraction(stages: ScaleInStage[] | undefined): number {
+  return stages?.length ? stages[0].size_percent / 100 : 1;
+}
+
+// Add-on stages after the first, triggered relative to the first fill
+export function buildScaleInPlan(
+  stages: ScaleInStage[] | undefined,
+  firstFillPrice: number,
+  plannedQuantity: number,
+  side: 'buy' | 'sell'
+): ScaleInPlan[] | undefined {
+  if (!stages || stages.length < 2) return undefined;
+
+  const direction = side === 'sell' ? -1 : 1;
+  return stages.slice(1).map((stage, index) => ({
+    stage: index + 1,
+    trigger_percent: stage.trigger_percent,
+    trigger_price: parseFloat((firstFillPrice * (1 + direction * stage.trigger_percent / 100)).toFixed(2)),
+    quantity: plannedQuantity * stage.size_percent / 100,
+    status: 'waiting'
+  }));
+}
+
+// Next staged entry whose trigger has been reached, if any
+export function evaluateScaleIn(position: Position, currentPrice: number): ScaleInPlan | null {
+  const next = position.scale_in_stages?.find(stage => stage.status === 'waiting' || stage.status === 'submitted');
+  if (!next || next.status !== 'waiting') return null;
+
+  // Positive triggers add as price moves in the position's favour, negative ones on pullbacks
+  const favourable = (position.side === 'sell' ? -1 : 1) * (currentPrice - next.trigger_price);
+  const reached = next.trigger_percent >= 0 ? favourable >= 0 : favourable <= 0;
+  return reached ? next : null;
+}
+
+export function getMaxHoldMs(exitConditions: ExitCondition): number | null {
+  // Handle both max_hold_days (direct number) and max_hold_period (object) formats
+  if (exitConditions.max_hold_days) {
+    return exitConditions.max_hold_days * 86400000; // Convert days to ms
+  }
+  if (exitConditions.max_hold_period) {
+    return exitConditions.max_hold_period.value *
+      (exitConditions.max_hold_period.unit === 'days' ? 86400000 : 3600000);
+  }
+  return null;
+}
+
+// Trails the stop and decides whether the position should be closed at currentPrice. Exit signals
+// are only checked when an evaluator is given and no price rule has already closed the position.
+export async function evaluateExit(
+  indicators: TechnicalIndicators,
+  position: Position,
+  exitConditions: ExitCondition | undefined,
+  currentPrice: number,
+  now: Date,
+  evaluator?: ConditionEvaluator
+): Promise<ExitDecision> {
+  const isShort = position.side === 'sell';
+  let trailingStopPrice = position.trailing_stop_price;
+  let stopRule: StopRule | undefined;
+
+  // Stops only ratchet in the position's favour: up for longs, down for shorts
+  if (exitConditions?.stop_loss) {
+    const candidates = await getStopCandidates(indicators, position, exitConditions.stop_loss, currentPrice, now);
+    for (const candidate of candidates) {
+      const improves = isShort
+        ? candidate.price < trailingStopPrice
+        : candidate.price > trailingStopPrice;
+
+      if (improves) {
+        trailingStopPrice = candidate.price;
+        stopRule = candidate.rule;
+      }
+    }
+  }
+
+  let shouldExit = false;
+  let reason = '';
+
+  // Check stop loss
+  if (isShort ? currentPrice >= trailingStopPrice : currentPrice <= trailingStopPrice) {
+    const activeRule = stopRule || position.stop_rule;
+    shouldExit = true;
+    reason = activeRule && activeRule !== 'initial'
+      ? `Stop loss triggered (${activeRule.replace('_', ' ')} stop)`
+      : 'Stop loss triggered';
+  }
+
+  // Check take profit; laddered positions scale out level by level instead
+  const targets = position.take_profit_targets;
+  let scaleOut: ExitDecision['scale_out'];
+
+  if (targets?.length) {
+    const next = targets.find(t => !t.filled);
+    if (next && (isShort ? currentPrice <= next.price : currentPrice >= next.price)) {
+      const entered = position.entered_quantity ?? position.quantity;
+      const quantity = Math.min(position.quantity, entered * next.size_percent / 100);
+      const levelReason = `Take profit level ${next.level + 1} triggered`;
+
+      // The last level takes whatever is left only when the levels add up to the whole position;
+      // otherwise the remainder is left to the stop rules and max hold
+      const laddersAll = targets.reduce((sum, t) => sum + t.size_percent, 0) >= 100 - LADDER_TOLERANCE_PERCENT;
+      const isLast = next === targets[targets.length - 1];
+      if ((isLast && laddersAll) || position.quantity - quantity <= QUANTITY_EPSILON) {
+        shouldExit = true;
+        reason = levelReason;
+      } else {
+        scaleOut = { level: next.level, quantity, reason: levelReason };
+      }
+    }
+  } else if (isShort ? currentPrice <= position.take_profit_price : currentPrice >= position.take_profit_price) {
+    shouldExit = true;
+    reason = 'Take profit triggered';
+  }
+
+  // Check max hold period
+  if (exitConditions) {
+    const holdTime = now.getTime() - new Date(position.entry_time).getTime();
+    const maxHoldMs = getMaxHoldMs(exitConditions);
+
+    if (maxHoldMs && holdTime > maxHoldMs) {
+      shouldExit = true;
+      reason = 'Max hold period exceeded';
+    }
+  }
+
+  // Check strategy exit signals; the first that holds closes the position
+  let exitSignal: ConditionTrace | undefined;
+  if (!shouldExit && evaluator && exitConditions?.exit_signals?.length) {
+    for (const [index, signal] of exitConditions.exit_signals.entries()) {
+      const trace = await evaluator.evaluateTree(
+        { ...signal.condition, label: signal.condition.label || signal.name },
+        position.strategy_id,
+        `exit/${position.id}/${index}`
+      );
+      if (trace.result) {
+        shouldExit = true;
+        reason = `${EXIT_SIGNAL_REASON}: ${signal.name}`;
+        exitSignal = trace;
+        break;
+      }
+    }
+  }
+
+  return {
+    shouldExit,
+    reason,
+    trailing_stop_price: trailingStopPrice,
+    stop_updated: stopRule !== undefined,
+    stop_rule: stopRule,
+    scale_out: shouldExit ? undefined : scaleOut,
+    exit_signal: exitSignal
+  };
+}
@@ -0,0 +1,62 @@
+import axios from 'axios';
+import { logger } from '../utils/logger';
+import { tradingConfig } from '../config/trading';
+import { TradeOrder, TradeResult, BrokerOrderStatus, BrokerFill, BrokerBalance } from '../types';
+import { BrokerAdapter } from './brokerAdapter';
+import { coinbaseService } from './coinbaseService';
+
+// Forwards orders to the external execution webhook (the original execution path)
+export class WebhookBroker implements BrokerAdapter {
+  readonly name = 'webhook' as const;
+  readonly tracksOrders = false;
+  readonly supportsStopOrders = false;
+  readonly supportsOcoOrders = false;
+
+  async placeOrder(order: TradeOrder): Promise<TradeResult> {
+    const webhookUrl = tradingConfig.webhook.url;
+    if (!webhookUrl) {
+      throw new Error('WEBHOOK_URL not configured');
+    }
+
+    const response = await axios.post(webhookUrl, order, {
+      timeout: 10000, // 10 second timeout
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Client-ID': 'trading-execution-app'
+      }
+    });
+
+    return response.data;
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    // The webhook only accepts new orders
+    logger.warn(`Webhook broker cannot cancel order ${orderId}`);
+    return false;
+  }
+
+  async getOrder(_orderId: string): Promise<BrokerOrderStatus | null> {
+    return null;
+  }
+
+  async getFills(_orderId?: string): Promise<BrokerFill[]> {
+    return [];
+  }
+
+  async getBalances(): Promise<BrokerBalance[]> {
+    // Webhook orders settle into the Coinbase trading portfolio
+    if (!coinbaseService.isConfigured()) {
+      return [];
+    }
+
+    const balances = await coinbaseService.getBalances();
+    return balances.map(balance => ({
+      currency: balance.currency,
+      balance: parseFloat(balance.balance),
+      available: parseFloat(balance.available),
+      hold: parseFloat(balance.hold)
+    }));
+  }
+}
+
+export const webhookBroker = new WebhookBroker();
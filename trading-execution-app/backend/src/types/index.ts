@@ -22,10 +22,53 @@ export interface ParsedStrategy extends Strategy {
   approved_at?: string;
   stop_loss_percent?: number;
   take_profit_percent?: number;
+  broker?: BrokerName; // Falls back to tradingConfig.broker.default
+  sizing?: PositionSizing; // Falls back to fixed position_size USD
+  spec?: StrategySpec; // Source of entry_conditions, exit_conditions and required_assets when parsed through the DSL
+  spec_errors?: string[]; // Validation failures; a strategy with any cannot be approved
+  parse_report?: ParseReport; // What the parser read, guessed and defaulted, for review before approval
 }
 
+// Where a parsed value came from: quoted from the description, reasoned from it, or filled in without it
+export type FieldProvenance = 'verbatim' | 'inferred' | 'defaulted';
+
+export interface ParseAmbiguity {
+  phrase: string; // Exact text from the description
+  reason: string;
+  field?: string; // Spec field it affects, as a JSON pointer
+}
+
+export interface ParseReport {
+  confidence: number; // 0-1
+  provenance: Record<string, FieldProvenance>; // Keyed by JSON pointer into the spec, e.g. /exit/stop_loss/distance
+  ambiguities: ParseAmbiguity[];
+}
+
+export type SizingMode = 'fixed_usd' | 'percent_equity' | 'atr_risk' | 'volatility_target' | 'kelly';
+
+export interface PositionSizing {
+  mode: SizingMode;
+  // fixed_usd: USD notional (defaults to position_size)
+  // percent_equity: % of equity
+  // atr_risk: % of equity lost if price moves atr_multiplier ATRs against the position
+  // volatility_target: annualized volatility % the position should contribute to equity
+  // kelly: fraction of the full Kelly stake (e.g. 0.25 for quarter Kelly)
+  value: number;
+  atr_multiplier?: number;  // atr_risk only, defaults to the ATR stop multiplier or 2
+  min_trades?: number;      // kelly only, closed trades required before Kelly is trusted
+}
+
+export type ConditionGroupType = 'all' | 'any' | 'not' | 'at_least';
+
 export interface EntryCondition {
-  type: 'percentage_move' | 'correlation' | 'single_correlation' | 'multi_asset_correlation' | 'technical_indicator';
+  // strategy_dsl entries are evaluated from ParsedStrategy.spec; only the target, action, delay and scale-in live here
+  type: 'percentage_move' | 'correlation' | 'single_correlation' | 'multi_asset_correlation' | 'technical_indicator' | 'strategy_dsl' | ConditionGroupType;
+
+  // For group nodes: children are any entry condition, groups included. not takes exactly one child,
+  // at_least needs min_met of its children. delay_days on a group delays the whole group.
+  conditions?: EntryCondition[];
+  min_met?: number;
+  label?: string; // Shown in evaluation traces instead of the generated description
   
   // For single asset strategies
   primary_asset?: string;
@@ -43,12 +86,142 @@ export interface EntryCondition {
   target_asset?: string;
   action?: 'buy' | 'sell';
   delay_days?: number;
+  scale_in?: ScaleInStage[]; // Staged entry; the first stage is filled on the signal itself
   
   additional_params?: {
     correlation_threshold?: number;
     atr_multiplier?: number;
-    indicator?: string;
+    indicator?: IndicatorCondition;
+  };
+}
+
+// Per-node outcome of one entry evaluation, for debugging why a strategy did or did not fire
+export interface ConditionTrace {
+  path: string; // Child indexes from the root, e.g. entry/0/1
+  type: EntryCondition['type'];
+  label: string;
+  result: boolean | null; // null when short-circuited, held by a pending delay, or unknown
+  unknown?: boolean; // Evaluated, but the data to decide it was missing (never counts as met or unmet)
+  children?: ConditionTrace[];
+}
+
+// Strategy DSL (versioned by dsl_version). Every threshold carries its unit and is normalized to percent
+// when compiled, and every leaf names its timeframe. See services/strategyDsl.ts for the JSON Schema.
+export type SpecUnit = 'percent' | 'fraction' | 'bps';
+
+export interface SpecQuantity {
+  value: number;
+  unit: SpecUnit; // 2 percent = 0.02 fraction = 200 bps
+}
+
+export interface SpecMove {
+  asset: string;
+  direction: 'up' | 'down' | 'any';
+  threshold: SpecQuantity;
+  timeframe: '1h' | '4h' | '1d';
+}
+
+// `with` moves by more than `move` while its correlation with `asset` is at least min_correlation
+export interface SpecCorrelation {
+  asset: string;
+  with: string;
+  min_correlation: number; // Absolute coefficient, 0-1
+  move?: SpecQuantity; // Without a move the leaf holds on the correlation alone
+  timeframe: '1h' | '4h' | '1d';
+}
+
+export interface SpecIndicator extends Omit<IndicatorCondition, 'timeframe'> {
+  asset: string;
+  timeframe: Timeframe;
+}
+
+export type SpecCondition =
+  | { all: SpecCondition[] }
+  | { any: SpecCondition[] }
+  | { not: SpecCondition }
+  | { at_least: { count: number; of: SpecCondition[] } }
+  | { move: SpecMove }
+  | { correlation: SpecCorrelation }
+  | { indicator: SpecIndicator };
+
+export interface StrategySpec {
+  dsl_version: number;
+  name: string;
+  target: {
+    asset: string;
+    action: 'buy' | 'sell';
   };
+  entry: SpecCondition;
+  delay_days?: number; // Enter this many days after the entry condition first holds
+  exit: {
+    stop_loss: { distance: SpecQuantity; trailing: boolean };
+    take_profit: { distance: SpecQuantity };
+    max_hold?: { value: number; unit: 'hours' | 'days' };
+    signals?: Array<{ name: string; when: SpecCondition }>; // Close early when a condition holds
+  };
+  position_size_usd?: number;
+}
+
+export type IndicatorName =
+  | 'rsi'
+  | 'sma_crossover'
+  | 'ema_crossover'
+  | 'macd'
+  | 'bollinger_bands'
+  | 'vwap'
+  | 'stochastic';
+
+export type Timeframe = '1m' | '5m' | '1h' | '4h' | '1d';
+
+export type IndicatorOperator = 'above' | 'below' | 'crosses_above' | 'crosses_below';
+
+// Each indicator compares a line against a reference:
+//   rsi             RSI vs value (default 30)
+//   sma/ema_crossover  fast MA vs slow MA
+//   macd            MACD line vs signal line (or value, e.g. 0)
+//   bollinger_bands close vs band (default lower for below/crosses_above, upper otherwise)
+//   vwap            close vs VWAP
+//   stochastic      %K vs value (or %D when value is omitted)
+export interface IndicatorCondition {
+  name: IndicatorName;
+  operator: IndicatorOperator;
+  value?: number;
+  period?: number;          // RSI, Bollinger, VWAP lookback, stochastic %K
+  fast_period?: number;     // Crossovers and MACD
+  slow_period?: number;
+  signal_period?: number;   // MACD signal line, stochastic %D
+  std_dev?: number;         // Bollinger band width
+  band?: 'upper' | 'middle' | 'lower';
+  timeframe?: Timeframe;    // Candle size, defaults to 1m
+}
+
+// A delay_days entry waiting to mature; the snapshot records the triggers when they first fired
+export interface PendingSignal {
+  id: string;
+  strategy_id: string;
+  signal_key: string;
+  target_asset?: string;
+  action?: 'buy' | 'sell';
+  delay_days: number;
+  status: 'pending' | 'matured' | 'consumed' | 'expired' | 'cancelled';
+  triggered_at: Date;
+  matures_at: Date;
+  resolved_at?: Date;
+  trigger_snapshot: TriggerSnapshot[];
+}
+
+export interface TriggerSnapshot {
+  asset: string;
+  direction: 'up' | 'down';
+  threshold_percent: number;
+  percent_move: number;
+  price: number | null;
+}
+
+// An exit on market conditions rather than price levels, evaluated like an entry condition
+export interface ExitSignal {
+  name: string;
+  condition: EntryCondition;
 }
 
 export interface ExitCondition {
@@ -56,6 +229,23 @@ export interface ExitCondition {
     type: 'percentage' | 'atr' | 'fixed';
     value: number;
     is_trailing: boolean;
+    breakeven?: {
+      trigger_percent: number;     // Favourable move from entry that arms it
+      offset_percent?: number;     // Lock this much profit instead of exactly breakeven
+    };
+    profit_lock?: Array<{
+      trigger_percent: number;
+      lock_percent: number;        // Stop moves to entry + lock_percent once trigger_percent is reached
+    }>;
+    chandelier?: {
+      period: number;              // Candles for the highest high / lowest low and ATR
+      multiplier: number;
+    };
+    time_decay?: {
+      start_after_hours: number;
+      decay_hours: number;         // Time for the stop to travel from its initial level to the target
+      target_percent?: number;     // Where it ends relative to entry (0 = breakeven)
+    };
   };
   take_profit: {
     type: 'percentage' | 'atr' | 'fixed';
@@ -66,6 +256,51 @@ export interface ExitCondition {
     unit: 'hours' | 'days';
   };
   max_hold_days?: number; // Alternative format for days only
+  take_profit_ladder?: TakeProfitLevel[]; // Replaces take_profit; the last level closes whatever is left
+  // Close the position when any of these holds, e.g. the trigger asset reversing or a correlation decaying
+  exit_signals?: ExitSignal[];
+}
+
+// Stop management rules that can be set at approval on top of the parsed stop_loss
+export type StopRules = Pick<ExitCondition['stop_loss'], 'breakeven' | 'profit_lock' | 'chandelier' | 'time_decay'>;
+
+export type StopRule = 'initial' | 'trailing' | 'breakeven' | 'profit_lock' | 'chandelier' | 'time_decay';
+
+export interface TakeProfitLevel {
+  type: 'percentage' | 'atr';
+  value: number;
+  size_percent: number; // Share of the entered quantity closed at this level
+}
+
+export interface ScaleInStage {
+  trigger_percent: number; // Move from the first fill in the position's favour (negative adds on pullbacks)
+  size_percent: number;    // Share of the sized position bought at this stage
+}
+
+// Ladder level priced at entry
+export interface TakeProfitTarget {
+  level: number;
+  price: number;
+  size_percent: number;
+  filled: boolean;
+}
+
+export interface ScaleInPlan {
+  stage: number;
+  trigger_percent: number;
+  trigger_price: number;
+  quantity: number;
+  status: 'waiting' | 'submitted' | 'filled' | 'skipped'; // skipped when the risk engine refuses the add
+}
+
+export interface PositionLeg {
+  kind: 'entry' | 'exit';
+  leg: number;            // Entry stage, or sequence of the exit
+  quantity: number;
+  price: number;
+  realized_pnl?: number;  // Exit legs only, against the position's average entry
+  reason?: string;
+  timestamp: Date;
 }
 
 export interface Position {
@@ -73,17 +308,25 @@ export interface Position {
   strategy_id: string;
   asset: string;
   side: 'buy' | 'sell';
-  entry_price: number;
+  entry_price: number;    // Average across entry legs
   current_price: number;
-  quantity: number;
+  quantity: number;       // Remaining open quantity; shrinks as exit legs fill
   trailing_stop_price: number;
+  initial_stop_price?: number;  // Stop set at entry, the starting point for time decay
+  stop_rule?: StopRule;         // Rule behind the current stop level
   take_profit_price: number;
-  status: 'open' | 'closed';
+  status: 'open' | 'closed' | 'quarantined';
   entry_time: Date;
   exit_time?: Date;
   exit_price?: number;
   pnl?: number;
   coinbase_order_id?: string;
+  broker?: BrokerName;
+  entered_quantity?: number;  // Filled across all entry legs
+  realized_pnl?: number;      // Booked by partial closes so far
+  legs?: PositionLeg[];
+  take_profit_targets?: TakeProfitTarget[];
+  scale_in_stages?: ScaleInPlan[];
 }
 
 export interface TradeSignal {
@@ -93,6 +336,7 @@ export interface TradeSignal {
   side: 'buy' | 'sell';
   reason: string;
   confidence: number;
+  notional_usd?: number; // Intended size, used to estimate market impact
 }
 
 export interface MarketData {
@@ -129,4 +373,220 @@ export interface NotificationMessage {
   message: string;
   metadata?: Record<string, any>;
   timestamp: Date;
-} 
\ No newline at end of file
+} 
+
+export type BrokerName = 'webhook' | 'coinbase' | 'paper';
+
+// Who answers the strategy parser: OpenAI, an OpenAI-compatible local server, or offline rules and fixtures
+export type LLMProviderName = 'openai' | 'local' | 'fixture';
+
+export type MarketDataSource = 'coinbase' | 'polygon';
+
+// Continuity of a symbol's feed on the active venue; degraded symbols fail the freshness check
+export interface DataQuality {
+  symbol: string;
+  status: 'ok' | 'degraded';
+  gaps: number;
+  missed_trades: number;
+  out_of_order: number;
+  last_gap_at?: Date;
+  recovered_at?: Date;
+  recovered_by?: 'snapshot' | 'trades' | 'failover';
+}
+
+// Resting USD within within_percent of mid on each side of a venue's L2 book
+export interface BookDepth {
+  symbol: string;
+  source: MarketDataSource;
+  mid: number;
+  spread_percent: number;
+  within_percent: number;
+  bid_usd: number;
+  ask_usd: number;
+  updated_at: Date;
+}
+
+// Expected fill of a market order of notional_usd swept through the visible book
+export interface SlippageEstimate {
+  symbol: string;
+  side: 'buy' | 'sell';
+  notional_usd: number;
+  fillable_usd: number;       // Less than notional_usd when the visible book runs out
+  fully_fillable: boolean;
+  mid_price: number;
+  average_price: number | null;
+  worst_price: number;
+  slippage_percent: number;   // Average fill vs mid
+  levels_consumed: number;
+}
+
+export interface ProviderHealth {
+  source: MarketDataSource;
+  connected: boolean;
+  active: boolean;                    // Venue whose trades currently drive prices and candles
+  score: number;                      // 0-100; below tradingConfig.marketData.minHealthScore the venue is skipped
+  last_message_age_ms: number | null;
+  recent_disconnects: number;         // Within the last 10 minutes
+  error_rate: number;                 // Decaying share of quotes that failed validation
+}
+
+export type ReplaySpeed = '1' | '10' | 'max';
+
+export interface ReplayStatus {
+  path: string;
+  speed: ReplaySpeed;
+  state: 'idle' | 'running' | 'finished' | 'failed';
+  frames: number;              // Frames fed back so far
+  replay_time: Date | null;    // Simulated clock
+  started_at: Date | null;     // Wall clock
+}
+
+export interface TradeOrder {
+  side: 'buy' | 'sell';
+  product_id: string;
+  type: 'limit' | 'market' | 'stop';
+  price?: string;
+  size?: string;
+  funds?: string;
+  stop_price?: string;
+  stop_limit_price?: string;
+  client_oid?: string;
+  oco_group?: string; // Orders sharing a group cancel each other at the broker when one fills (supportsOcoOrders)
+}
+
+export interface TradeResult {
+  success: boolean;
+  order_id?: string;
+  message?: string;
+  filled_size?: string;
+  filled_price?: string;
+}
+
+export interface BrokerOrderStatus {
+  order_id: string;
+  client_oid?: string;
+  product_id: string;
+  side: 'buy' | 'sell';
+  type: TradeOrder['type'];
+  status: 'open' | 'filled' | 'cancelled' | 'rejected';
+  size: number;
+  filled_size: number;
+  average_filled_price?: number;
+  limit_price?: number;
+  stop_price?: number;
+  created_at: Date;
+}
+
+export type OrderStatus = 'new' | 'open' | 'partially_filled' | 'filled' | 'cancelled' | 'rejected' | 'expired';
+
+// An order as tracked by OrderManager across its lifecycle
+export interface ManagedOrder {
+  id: string;
+  client_oid: string;
+  broker: BrokerName;
+  broker_order_id?: string;
+  strategy_id: string;
+  position_id?: string;
+  purpose: 'entry' | 'exit';
+  product_id: string;
+  side: 'buy' | 'sell';
+  type: TradeOrder['type'];
+  status: OrderStatus;
+  size: number;
+  filled_size: number;
+  average_fill_price?: number;
+  limit_price?: number;
+  parent_order_id?: string;   // Set when this order reprices a stale one
+  reprice_count: number;
+  metadata?: Record<string, any>;
+  last_error?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface BrokerFill {
+  order_id: string;
+  product_id: string;
+  side: 'buy' | 'sell';
+  price: number;
+  size: number;
+  fee: number;
+  timestamp: Date;
+}
+
+export interface BrokerBalance {
+  currency: string;
+  balance: number;
+  available: number;
+  hold: number;
+}
+
+export type ReconciliationDriftType =
+  | 'missing_trade_record'   // Position persisted in Pinecone with no open trade row
+  | 'missing_position'       // Open trade row with no persisted position
+  | 'orphaned_position'      // Tracked position the exchange holds nothing for
+  | 'untracked_holding'      // Exchange balance no position accounts for
+  | 'quantity_mismatch';     // Both sides exist but the sizes disagree
+
+export interface ReconciliationDrift {
+  type: ReconciliationDriftType;
+  asset: string;
+  position_id?: string;
+  trade_id?: number;
+  expected_quantity?: number; // What we track locally
+  actual_quantity?: number;   // What the other source reports
+  message: string;
+}
+
+export interface QuarantineRecord {
+  id: number;
+  position_id?: string;
+  trade_id?: number;
+  asset: string;
+  reason: string;
+  snapshot?: any;
+  created_at: Date;
+}
+
+export interface ReconciliationReport {
+  checked_at: Date;
+  exchange_checked: boolean;
+  positions: number;
+  open_trades: number;
+  balances: number;
+  drift: ReconciliationDrift[];
+  quarantined: QuarantineRecord[];
+}
+
+export type RiskCheck =
+  | 'max_positions'
+  | 'position_size'
+  | 'gross_exposure'
+  | 'net_exposure'
+  | 'concentration'
+  | 'correlation'
+  | 'drawdown'
+  | 'equity';
+
+export interface RiskRejection {
+  check: RiskCheck;
+  limit: number;
+  actual: number;
+  message: string;
+}
+
+export interface ExposureSnapshot {
+  gross_usd: number;
+  net_usd: number;
+  by_asset: Record<string, number>; // Signed notional; shorts are negative
+  open_positions: number;
+  equity?: number;
+  high_water_mark?: number;
+  drawdown_percent?: number;
+}
+
+export interface RiskDecision {
+  approved: boolean;
+  rejections: RiskRejection[];
+  exposure: ExposureSnapshot;
+}
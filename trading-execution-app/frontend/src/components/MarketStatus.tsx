@@ -39,8 +39,20 @@ export function MarketStatus() {
       }));
     });
 
+    socket.on('market:failover', (event: any) => {
+      setMonitoringStatus((prev: any) => ({
+        ...prev,
+        market_data: {
+          ...prev?.market_data,
+          active_source: event.to,
+          providers: event.providers,
+        },
+      }));
+    });
+
     return () => {
       socket.off('monitor:stats');
+      socket.off('market:failover');
     };
   }, [socket]);
 
@@ -81,6 +93,20 @@ export function MarketStatus() {
             
             {monitoringStatus && (
               <>
+                {monitoringStatus.market_data?.active_source && (
+                  <div className="flex justify-between">
+                    <span>Price Source</span>
+                    <span className="capitalize">{monitoringStatus.market_data.active_source}</span>
+                  </div>
+                )}
+
+                {monitoringStatus.market_data?.providers?.map((provider: any) => (
+                  <div key={provider.source} className="flex justify-between text-gray-500">
+                    <span className="capitalize pl-2">{provider.source}</span>
+                    <span>{provider.connected ? `health ${provider.score}` : 'down'}</span>
+                  </div>
+                ))}
+
                 <div className="flex justify-between">
                   <span>Monitoring</span>
                   <Badge variant={monitoringStatus.monitoring?.active ? 'default' : 'secondary'}>
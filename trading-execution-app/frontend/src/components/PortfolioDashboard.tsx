@@ -32,7 +32,7 @@ export function PortfolioDashboard() {
       setPositions(
         positions.map((p) =>
           p.id === position.id
-            ? { ...position, unrealized_pnl }
+            ? { ...position, unrealized_pnl: unrealized_pnl ?? p.unrealized_pnl }
             : p
         )
       );
@@ -128,6 +128,47 @@ export function PortfolioDashboard() {
         </div>
       </div>
 
+      {/* Paper Trading Account */}
+      {portfolio.paper && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <div className="flex items-center justify-between pb-2">
+            <h3 className="text-lg font-bold">Paper Trading</h3>
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+              Simulated
+            </span>
+          </div>
+          <div className="grid gap-4 md:grid-cols-4">
+            <div>
+              <div className="text-sm text-gray-500">Total Value</div>
+              <div className="text-xl font-bold">{formatCurrency(portfolio.paper.total_value)}</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">Realized P&L</div>
+              <div className={`text-xl font-bold ${
+                portfolio.paper.realized_pnl >= 0 ? 'text-green-600' : 'text-red-600'
+              }`}>
+                {formatCurrency(portfolio.paper.realized_pnl)}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">Unrealized P&L</div>
+              <div className={`text-xl font-bold ${
+                portfolio.paper.unrealized_pnl >= 0 ? 'text-green-600' : 'text-red-600'
+              }`}>
+                {formatCurrency(portfolio.paper.unrealized_pnl)}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">Virtual Cash</div>
+              <div className="text-xl font-bold">{formatCurrency(portfolio.paper.cash_balance)}</div>
+              <div className="text-xs text-gray-500 mt-1">
+                Fees paid: {formatCurrency(portfolio.paper.fees_paid)}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Open Positions */}
       <div className="bg-white rounded-lg shadow">
         <div className="p-6">
@@ -167,10 +208,16 @@ export function PortfolioDashboard() {
                         <span className="text-sm bg-gray-100 px-2 py-1 rounded">
                           {formatCurrency(position.trailing_stop_price || position.stop_loss_price || 0)}
                         </span>
+                        {position.stop_rule && position.stop_rule !== 'initial' && (
+                          <span className="ml-1 text-xs text-gray-500">{position.stop_rule.replace('_', ' ')}</span>
+                        )}
                       </td>
                       <td className="py-2">
                         <span className="text-sm bg-gray-100 px-2 py-1 rounded">
-                          {formatCurrency(position.take_profit_price || 0)}
+                          {formatCurrency(
+                            position.take_profit_targets?.find(target => !target.filled)?.price
+                              || position.take_profit_price || 0
+                          )}
                         </span>
                       </td>
                       <td className="py-2">
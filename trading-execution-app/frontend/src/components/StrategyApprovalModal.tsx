@@ -3,15 +3,180 @@ import { useStore } from '../store';
 import { useMutation } from '@tanstack/react-query';
 import { api } from '../lib/api';
 import { RefreshCw } from 'lucide-react';
+import { EntryCondition, FieldProvenance, ParseReport, SizingMode, SpecCondition, SpecQuantity } from '../types';
+
+// Label and default for the value each sizing model takes
+const SIZING_MODES: Record<SizingMode, { label: string; valueLabel: string; defaultValue: string }> = {
+  fixed_usd: { label: 'Fixed USD', valueLabel: 'Position Size ($)', defaultValue: '100' },
+  percent_equity: { label: '% of Equity', valueLabel: 'Equity %', defaultValue: '2' },
+  atr_risk: { label: 'ATR Risk per Trade', valueLabel: 'Equity % risked to the ATR stop', defaultValue: '0.5' },
+  volatility_target: { label: 'Volatility Target', valueLabel: 'Target annual vol %', defaultValue: '10' },
+  kelly: { label: 'Fractional Kelly', valueLabel: 'Kelly fraction (0-1)', defaultValue: '0.25' },
+};
+
+function formatQuantity(quantity: SpecQuantity): string {
+  return quantity.unit === 'percent' ? `${quantity.value}%` : `${quantity.value} ${quantity.unit}`;
+}
+
+const PROVENANCE_STYLES: Record<FieldProvenance, string> = {
+  verbatim: 'bg-green-100 text-green-800',
+  inferred: 'bg-yellow-100 text-yellow-800',
+  defaulted: 'bg-red-100 text-red-800',
+};
+
+// Flags every value at or under path that the parser did not quote from the description
+function ProvenanceFlags({ report, path }: { report?: ParseReport; path: string }) {
+  const flagged = Object.entries(report?.provenance || {})
+    .filter(([field, source]) => source !== 'verbatim' && (field === path || field.startsWith(`${path}/`)));
+  if (flagged.length === 0) return null;
+
+  return (
+    <span className="inline-flex flex-wrap gap-1 ml-2">
+      {flagged.map(([field, source]) => (
+        <span key={field} title={field} className={`px-1 rounded text-xs ${PROVENANCE_STYLES[source]}`}>
+          {field.split('/').pop()}: {source}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+// Marks each ambiguous phrase where it appears in the description
+function HighlightedDescription({ text, phrases }: { text: string; phrases: string[] }) {
+  if (phrases.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`(${phrases.map(phrase => phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1 ? <mark key={index} className="bg-yellow-200 rounded px-0.5">{part}</mark> : part
+      )}
+    </>
+  );
+}
+
+// Renders a DSL condition tree as nested AND/OR/NOT groups
+function SpecConditionView({ node, path, report }: { node: SpecCondition; path: string; report?: ParseReport }) {
+  if ('all' in node || 'any' in node) {
+    const key = 'all' in node ? 'all' : 'any';
+    const children = 'all' in node ? node.all : node.any;
+    return (
+      <div className="space-y-1">
+        <p className="text-xs font-semibold text-gray-600">{key === 'all' ? 'ALL of' : 'ANY of'}</p>
+        <div className="pl-3 border-l-2 border-gray-300 space-y-1">
+          {children.map((child, index) => (
+            <SpecConditionView key={index} node={child} path={`${path}/${key}/${index}`} report={report} />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if ('not' in node) {
+    return (
+      <div className="space-y-1">
+        <p className="text-xs font-semibold text-gray-600">NOT</p>
+        <div className="pl-3 border-l-2 border-red-200">
+          <SpecConditionView node={node.not} path={`${path}/not`} report={report} />
+        </div>
+      </div>
+    );
+  }
+
+  if ('at_least' in node) {
+    return (
+      <div className="space-y-1">
+        <p className="text-xs font-semibold text-gray-600">
+          AT LEAST {node.at_least.count} of
+          <ProvenanceFlags report={report} path={`${path}/at_least/count`} />
+        </p>
+        <div className="pl-3 border-l-2 border-gray-300 space-y-1">
+          {node.at_least.of.map((child, index) => (
+            <SpecConditionView key={index} node={child} path={`${path}/at_least/of/${index}`} report={report} />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  let text: string;
+  if ('move' in node) {
+    text = `${node.move.asset} ${node.move.direction} more than ${formatQuantity(node.move.threshold)} over ${node.move.timeframe}`;
+  } else if ('correlation' in node) {
+    text = node.correlation.move
+      ? `${node.correlation.with} moves more than ${formatQuantity(node.correlation.move)} over ${node.correlation.timeframe} ` +
+        `while correlated with ${node.correlation.asset} at r ≥ ${node.correlation.min_correlation}`
+      : `${node.correlation.with} correlated with ${node.correlation.asset} at r ≥ ${node.correlation.min_correlation} (${node.correlation.timeframe})`;
+  } else {
+    const { asset, name, operator, value, timeframe } = node.indicator;
+    text = `${asset} ${name.toUpperCase()} ${operator.replace('_', ' ')}${value !== undefined ? ` ${value}` : ''} (${timeframe})`;
+  }
+
+  return (
+    <div className="text-sm bg-white px-2 py-1 rounded">
+      {text}
+      <ProvenanceFlags report={report} path={path} />
+    </div>
+  );
+}
+
+const GROUP_LABELS: Record<string, (condition: EntryCondition) => string> = {
+  all: () => 'ALL of',
+  any: () => 'ANY of',
+  not: () => 'NOT',
+  at_least: condition => `AT LEAST ${condition.min_met} of`,
+};
+
+// Renders an entry_conditions tree; leaves show their type and the fields that identify them
+function EntryConditionTreeView({ condition }: { condition: EntryCondition }) {
+  const groupLabel = GROUP_LABELS[condition.type];
+  if (groupLabel) {
+    return (
+      <div className="space-y-1">
+        <p className="text-xs font-semibold text-gray-600">{condition.label || groupLabel(condition)}</p>
+        <div className={`pl-3 border-l-2 space-y-1 ${condition.type === 'not' ? 'border-red-200' : 'border-gray-300'}`}>
+          {(condition.conditions || []).map((child, index) => <EntryConditionTreeView key={index} condition={child} />)}
+        </div>
+      </div>
+    );
+  }
+
+  const indicator = condition.additional_params?.indicator;
+  const details = [
+    condition.primary_asset,
+    condition.direction,
+    condition.threshold !== undefined ? `${condition.threshold}%` : undefined,
+    condition.secondary_asset && `with ${condition.secondary_asset}`,
+    ...(condition.triggers || []).map(trigger => `${trigger.asset} ${trigger.direction}`),
+    indicator && `${indicator.name.toUpperCase()} ${indicator.operator.replace('_', ' ')}${indicator.value !== undefined ? ` ${indicator.value}` : ''}`,
+    condition.timeframe,
+  ].filter(Boolean);
+
+  return (
+    <div className="flex items-center gap-2 text-sm bg-white px-2 py-1 rounded">
+      <span className="bg-green-100 text-green-800 px-1 rounded text-xs">{condition.type}</span>
+      <span>{condition.label || details.join(' ')}</span>
+    </div>
+  );
+}
 
 export function StrategyApprovalModal() {
   const { pendingStrategy, showApprovalModal, setShowApprovalModal, setPendingStrategy, socket } = useStore();
   const [stopLoss, setStopLoss] = useState('');
   const [takeProfit, setTakeProfit] = useState('');
   const [positionSize, setPositionSize] = useState('100');
+  const [sizingMode, setSizingMode] = useState<SizingMode>('fixed_usd');
+  const [sizingValue, setSizingValue] = useState(SIZING_MODES.fixed_usd.defaultValue);
   const [enableTrailing, setEnableTrailing] = useState(true);
+  const [paperTrading, setPaperTrading] = useState(false);
   const [comments, setComments] = useState('');
   const [isReparsing, setIsReparsing] = useState(false);
+  const [reviewedFlags, setReviewedFlags] = useState(false);
+
+  // A new parse brings new guesses to review
+  useEffect(() => {
+    setReviewedFlags(false);
+  }, [pendingStrategy?.parse_report]);
 
   const approveMutation = useMutation({
     mutationFn: async (data: any) => {
@@ -23,6 +188,9 @@ export function StrategyApprovalModal() {
       setStopLoss('');
       setTakeProfit('');
       setPositionSize('100');
+      setSizingMode('fixed_usd');
+      setSizingValue(SIZING_MODES.fixed_usd.defaultValue);
+      setPaperTrading(false);
       setComments('');
     },
   });
@@ -85,6 +253,11 @@ export function StrategyApprovalModal() {
 
   if (!pendingStrategy || !showApprovalModal) return null;
 
+  const report = pendingStrategy.parse_report;
+  const needsReview = !!report && (
+    report.ambiguities.length > 0 || Object.values(report.provenance).includes('defaulted')
+  );
+
   const handleApprove = () => {
     if (!stopLoss || parseFloat(stopLoss) <= 0) {
       alert('Please enter a valid stop loss percentage.');
@@ -95,7 +268,11 @@ export function StrategyApprovalModal() {
       stop_loss_percent: parseFloat(stopLoss),
       take_profit_percent: parseFloat(takeProfit) || 0,
       position_size: parseFloat(positionSize),
+      ...(sizingMode !== 'fixed_usd' && {
+        sizing: { mode: sizingMode, value: parseFloat(sizingValue) }
+      }),
       enable_trailing: enableTrailing,
+      ...(paperTrading && { broker: 'paper' }),
     });
   };
 
@@ -112,10 +289,42 @@ export function StrategyApprovalModal() {
           <div>
             <label className="block text-sm font-medium mb-1">Original Strategy Description</label>
             <div className="mt-1 p-3 bg-gray-100 rounded-md text-sm">
-              {pendingStrategy.description}
+              <HighlightedDescription
+                text={pendingStrategy.description}
+                phrases={report?.ambiguities.map(ambiguity => ambiguity.phrase) || []}
+              />
             </div>
           </div>
 
+          {/* Parse Report */}
+          {report && (
+            <div className="p-3 border rounded-md space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">Parser confidence</span>
+                <span className={`px-2 py-1 rounded text-xs ${
+                  report.confidence >= 0.8 ? 'bg-green-100 text-green-800'
+                    : report.confidence >= 0.5 ? 'bg-yellow-100 text-yellow-800'
+                    : 'bg-red-100 text-red-800'
+                }`}>
+                  {Math.round(report.confidence * 100)}%
+                </span>
+                <span className="text-xs text-gray-500">
+                  Values marked inferred or defaulted were not stated in the description
+                </span>
+              </div>
+              {report.ambiguities.length > 0 && (
+                <ul className="text-sm space-y-1">
+                  {report.ambiguities.map((ambiguity, index) => (
+                    <li key={index} className="bg-yellow-50 border border-yellow-200 rounded px-2 py-1">
+                      <mark className="bg-yellow-200 rounded px-0.5">"{ambiguity.phrase}"</mark>: {ambiguity.reason}
+                      {ambiguity.field && <span className="text-xs text-gray-500"> ({ambiguity.field})</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           {/* Parsed Conditions */}
           <div className="relative">
             {isReparsing && (
@@ -139,7 +348,48 @@ export function StrategyApprovalModal() {
               </button>
             </div>
             <div className="mt-1 p-3 bg-gray-100 rounded-md space-y-2">
-              {pendingStrategy.entry_conditions ? (
+              {pendingStrategy.spec_errors && pendingStrategy.spec_errors.length > 0 && (
+                <div className="p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+                  <p className="font-medium">The parsed spec is invalid and cannot be approved. Re-parse with comments to fix:</p>
+                  <ul className="list-disc pl-5">
+                    {pendingStrategy.spec_errors.map((error, index) => <li key={index}>{error}</li>)}
+                  </ul>
+                </div>
+              )}
+              {pendingStrategy.spec ? (
+                <>
+                  <div className="flex items-center gap-2">
+                    <span className="bg-blue-100 text-blue-800 px-2 py-1 rounded text-xs">
+                      DSL v{pendingStrategy.spec.dsl_version}
+                    </span>
+                    <span className="text-sm font-medium">
+                      {pendingStrategy.spec.target.action.toUpperCase()} {pendingStrategy.spec.target.asset}
+                    </span>
+                    <ProvenanceFlags report={report} path="/target" />
+                  </div>
+                  <SpecConditionView node={pendingStrategy.spec.entry} path="/entry" report={report} />
+                  {pendingStrategy.spec.delay_days ? (
+                    <p className="text-sm text-gray-600">
+                      Execute {pendingStrategy.spec.delay_days} day(s) after the conditions first hold
+                      <ProvenanceFlags report={report} path="/delay_days" />
+                    </p>
+                  ) : null}
+                </>
+              ) : pendingStrategy.entry_conditions && GROUP_LABELS[pendingStrategy.entry_conditions.type] ? (
+                <>
+                  {pendingStrategy.entry_conditions.target_asset && (
+                    <span className="text-sm font-medium">
+                      {pendingStrategy.entry_conditions.action?.toUpperCase()} {pendingStrategy.entry_conditions.target_asset}
+                    </span>
+                  )}
+                  <EntryConditionTreeView condition={pendingStrategy.entry_conditions} />
+                  {pendingStrategy.entry_conditions.delay_days ? (
+                    <p className="text-sm text-gray-600">
+                      Execute {pendingStrategy.entry_conditions.delay_days} day(s) after the conditions first hold
+                    </p>
+                  ) : null}
+                </>
+              ) : pendingStrategy.entry_conditions ? (
                 <>
                   <div className="flex items-center gap-2">
                     <span className="bg-blue-100 text-blue-800 px-2 py-1 rounded text-xs">
@@ -178,6 +428,14 @@ export function StrategyApprovalModal() {
                         </p>
                       )}
                     </div>
+                  ) : pendingStrategy.entry_conditions.additional_params?.indicator ? (
+                    /* Technical indicator trigger */
+                    <p className="text-sm">
+                      Trigger: {pendingStrategy.entry_conditions.additional_params.indicator.name.toUpperCase()}{' '}
+                      {pendingStrategy.entry_conditions.additional_params.indicator.operator.replace('_', ' ')}
+                      {pendingStrategy.entry_conditions.additional_params.indicator.value !== undefined &&
+                        ` ${pendingStrategy.entry_conditions.additional_params.indicator.value}`}
+                    </p>
                   ) : (
                     /* Single asset trigger */
                     <p className="text-sm">
@@ -208,26 +466,80 @@ export function StrategyApprovalModal() {
                   Stop Loss: {pendingStrategy.exit_conditions.stop_loss.value}x{' '}
                   {pendingStrategy.exit_conditions.stop_loss.type?.toUpperCase() || 'PERCENTAGE'}
                   {pendingStrategy.exit_conditions.stop_loss.is_trailing && ' (Trailing)'}
+                  <ProvenanceFlags report={report} path="/exit/stop_loss" />
                 </p>
               ) : (
                 <p className="text-sm text-gray-500">Stop Loss: Not specified</p>
               )}
+
+              {pendingStrategy.exit_conditions?.stop_loss?.breakeven && (
+                <p className="text-sm">
+                  Breakeven Stop: after +{pendingStrategy.exit_conditions.stop_loss.breakeven.trigger_percent}%
+                </p>
+              )}
+
+              {pendingStrategy.exit_conditions?.stop_loss?.profit_lock?.map((tier, index) => (
+                <p key={index} className="text-sm">
+                  Profit Lock: +{tier.lock_percent}% once +{tier.trigger_percent}%
+                </p>
+              ))}
+
+              {pendingStrategy.exit_conditions?.stop_loss?.chandelier && (
+                <p className="text-sm">
+                  Chandelier Stop: {pendingStrategy.exit_conditions.stop_loss.chandelier.multiplier}x ATR
+                  over {pendingStrategy.exit_conditions.stop_loss.chandelier.period} candles
+                </p>
+              )}
+
+              {pendingStrategy.exit_conditions?.stop_loss?.time_decay && (
+                <p className="text-sm">
+                  Time-Decay Stop: tightens after {pendingStrategy.exit_conditions.stop_loss.time_decay.start_after_hours}h
+                  over {pendingStrategy.exit_conditions.stop_loss.time_decay.decay_hours}h
+                </p>
+              )}
               
               {pendingStrategy.exit_conditions?.take_profit ? (
                 <p className="text-sm">
                   Take Profit: {pendingStrategy.exit_conditions.take_profit.value}x{' '}
                   {pendingStrategy.exit_conditions.take_profit.type?.toUpperCase() || 'PERCENTAGE'}
+                  <ProvenanceFlags report={report} path="/exit/take_profit" />
                 </p>
               ) : (
                 <p className="text-sm text-gray-500">Take Profit: Not specified</p>
               )}
+
+              {pendingStrategy.exit_conditions?.take_profit_ladder?.map((level, index) => (
+                <p key={index} className="text-sm">
+                  Take Profit Level {index + 1}: {level.value}x {level.type.toUpperCase()} ({level.size_percent}% of position)
+                </p>
+              ))}
+
+              {pendingStrategy.entry_conditions?.scale_in?.map((stage, index) => (
+                <p key={index} className="text-sm">
+                  Entry Stage {index + 1}: {stage.size_percent}%
+                  {index > 0 && ` at ${stage.trigger_percent > 0 ? '+' : ''}${stage.trigger_percent}% from first fill`}
+                </p>
+              ))}
               
               {pendingStrategy.exit_conditions?.max_hold_period && (
                 <p className="text-sm">
                   Max Hold: {pendingStrategy.exit_conditions.max_hold_period.value}{' '}
                   {pendingStrategy.exit_conditions.max_hold_period.unit}
+                  <ProvenanceFlags report={report} path="/exit/max_hold" />
                 </p>
               )}
+
+              {pendingStrategy.spec?.exit.signals?.map((signal, index) => (
+                <div key={index} className="space-y-1">
+                  <p className="text-sm">Exit Signal: {signal.name}</p>
+                  <SpecConditionView node={signal.when} path={`/exit/signals/${index}/when`} report={report} />
+                </div>
+              )) ?? pendingStrategy.exit_conditions?.exit_signals?.map((signal, index) => (
+                <div key={index} className="space-y-1">
+                  <p className="text-sm">Exit Signal: {signal.name}</p>
+                  <EntryConditionTreeView condition={signal.condition} />
+                </div>
+              ))}
             </div>
           </div>
 
@@ -293,6 +605,7 @@ export function StrategyApprovalModal() {
             <div>
               <label htmlFor="position-size" className="block text-sm font-medium mb-1">
                 Position Size ($)
+                <ProvenanceFlags report={report} path="/position_size_usd" />
               </label>
               <input
                 id="position-size"
@@ -317,6 +630,59 @@ export function StrategyApprovalModal() {
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="sizing-mode" className="block text-sm font-medium mb-1">
+                Sizing Model
+              </label>
+              <select
+                id="sizing-mode"
+                value={sizingMode}
+                onChange={(e) => {
+                  const mode = e.target.value as SizingMode;
+                  setSizingMode(mode);
+                  setSizingValue(SIZING_MODES[mode].defaultValue);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                {(Object.keys(SIZING_MODES) as SizingMode[]).map((mode) => (
+                  <option key={mode} value={mode}>{SIZING_MODES[mode].label}</option>
+                ))}
+              </select>
+            </div>
+            {sizingMode !== 'fixed_usd' && (
+              <div>
+                <label htmlFor="sizing-value" className="block text-sm font-medium mb-1">
+                  {SIZING_MODES[sizingMode].valueLabel}
+                </label>
+                <input
+                  id="sizing-value"
+                  type="number"
+                  step="0.01"
+                  value={sizingValue}
+                  onChange={(e) => setSizingValue(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Falls back to the fixed position size until equity or trade history is available
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center">
+            <input
+              id="paper-trading"
+              type="checkbox"
+              checked={paperTrading}
+              onChange={(e) => setPaperTrading(e.target.checked)}
+              className="mr-2"
+            />
+            <label htmlFor="paper-trading" className="text-sm">
+              Paper trade only (simulated fills, no real orders)
+            </label>
+          </div>
+
           {/* Re-parse Comments */}
           <div>
             <label htmlFor="comments" className="block text-sm font-medium mb-1">
@@ -333,6 +699,23 @@ export function StrategyApprovalModal() {
           </div>
         </div>
 
+        {needsReview && (
+          <label className="mt-4 flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={reviewedFlags}
+              onChange={(e) => setReviewedFlags(e.target.checked)}
+            />
+            I have reviewed the ambiguous phrases and defaulted values above
+          </label>
+        )}
+
+        {approveMutation.isError && (
+          <p className="mt-4 text-sm text-red-600">
+            {(approveMutation.error as any)?.response?.data?.error || 'Approval failed'}
+          </p>
+        )}
+
         <div className="flex justify-end gap-3 mt-6">
           <button
             onClick={() => setShowApprovalModal(false)}
@@ -349,7 +732,7 @@ export function StrategyApprovalModal() {
           </button>
           <button
             onClick={handleApprove}
-            disabled={!stopLoss || approveMutation.isPending}
+            disabled={!stopLoss || approveMutation.isPending || !!pendingStrategy.spec_errors?.length || (needsReview && !reviewedFlags)}
             className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
           >
             Approve & Activate
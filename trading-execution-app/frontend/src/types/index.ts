@@ -22,10 +22,39 @@ export interface ParsedStrategy extends Strategy {
   approved_at?: string;
   stop_loss_percent?: number;
   take_profit_percent?: number;
+  broker?: 'webhook' | 'coinbase' | 'paper';
+  sizing?: PositionSizing;
+  spec?: StrategySpec;
+  spec_errors?: string[];
+  parse_report?: ParseReport;
+}
+
+// verbatim: quoted from the description, inferred: reasoned from it, defaulted: not in it at all
+export type FieldProvenance = 'verbatim' | 'inferred' | 'defaulted';
+
+export interface ParseReport {
+  confidence: number;
+  provenance: Record<string, FieldProvenance>; // JSON pointer into the spec
+  ambiguities: Array<{ phrase: string; reason: string; field?: string }>;
+}
+
+export type SizingMode = 'fixed_usd' | 'percent_equity' | 'atr_risk' | 'volatility_target' | 'kelly';
+
+export interface PositionSizing {
+  mode: SizingMode;
+  value: number;
+  atr_multiplier?: number;
+  min_trades?: number;
 }
 
 export interface EntryCondition {
-  type: 'percentage_move' | 'correlation' | 'single_correlation' | 'multi_asset_correlation' | 'technical_indicator';
+  type: 'percentage_move' | 'correlation' | 'single_correlation' | 'multi_asset_correlation' | 'technical_indicator' | 'strategy_dsl'
+    | 'all' | 'any' | 'not' | 'at_least';
+
+  // Group nodes
+  conditions?: EntryCondition[];
+  min_met?: number;
+  label?: string;
   
   // For single asset strategies
   primary_asset?: string;
@@ -43,11 +72,55 @@ export interface EntryCondition {
   target_asset?: string;
   action?: 'buy' | 'sell';
   delay_days?: number;
+  scale_in?: ScaleInStage[];
   
   additional_params?: {
     correlation_threshold?: number;
     atr_multiplier?: number;
+    indicator?: IndicatorCondition;
+  };
+}
+
+// Strategy DSL v1 (see the backend's services/strategyDsl.ts)
+export interface SpecQuantity {
+  value: number;
+  unit: 'percent' | 'fraction' | 'bps';
+}
+
+export type SpecCondition =
+  | { all: SpecCondition[] }
+  | { any: SpecCondition[] }
+  | { not: SpecCondition }
+  | { at_least: { count: number; of: SpecCondition[] } }
+  | { move: { asset: string; direction: 'up' | 'down' | 'any'; threshold: SpecQuantity; timeframe: string } }
+  | { correlation: { asset: string; with: string; min_correlation: number; move?: SpecQuantity; timeframe: string } }
+  | { indicator: IndicatorCondition & { asset: string; timeframe: string } };
+
+export interface StrategySpec {
+  dsl_version: number;
+  name: string;
+  target: { asset: string; action: 'buy' | 'sell' };
+  entry: SpecCondition;
+  delay_days?: number;
+  exit: {
+    stop_loss: { distance: SpecQuantity; trailing: boolean };
+    take_profit: { distance: SpecQuantity };
+    max_hold?: { value: number; unit: 'hours' | 'days' };
+    signals?: Array<{ name: string; when: SpecCondition }>;
   };
+  position_size_usd?: number;
+}
+
+export interface IndicatorCondition {
+  name: 'rsi' | 'sma_crossover' | 'ema_crossover' | 'macd' | 'bollinger_bands' | 'vwap' | 'stochastic';
+  operator: 'above' | 'below' | 'crosses_above' | 'crosses_below';
+  value?: number;
+  period?: number;
+  fast_period?: number;
+  slow_period?: number;
+  signal_period?: number;
+  std_dev?: number;
+  band?: 'upper' | 'middle' | 'lower';
 }
 
 export interface ExitCondition {
@@ -55,6 +128,10 @@ export interface ExitCondition {
     type: 'percentage' | 'atr' | 'fixed';
     value: number;
     is_trailing: boolean;
+    breakeven?: { trigger_percent: number; offset_percent?: number };
+    profit_lock?: Array<{ trigger_percent: number; lock_percent: number }>;
+    chandelier?: { period: number; multiplier: number };
+    time_decay?: { start_after_hours: number; decay_hours: number; target_percent?: number };
   };
   take_profit: {
     type: 'percentage' | 'atr' | 'fixed';
@@ -65,6 +142,26 @@ export interface ExitCondition {
     unit: 'hours' | 'days';
   };
   max_hold_days?: number; // Alternative format for days only
+  take_profit_ladder?: TakeProfitLevel[];
+  exit_signals?: Array<{ name: string; condition: EntryCondition }>;
+}
+
+export interface TakeProfitLevel {
+  type: 'percentage' | 'atr';
+  value: number;
+  size_percent: number;
+}
+
+export interface ScaleInStage {
+  trigger_percent: number;
+  size_percent: number;
+}
+
+export interface TakeProfitTarget {
+  level: number;
+  price: number;
+  size_percent: number;
+  filled: boolean;
 }
 
 export interface Position {
@@ -75,7 +172,7 @@ export interface Position {
   entry_price: number;
   current_price?: number;
   quantity: number;
-  status: 'open' | 'closed';
+  status: 'open' | 'closed' | 'quarantined';
   entry_time: string;
   exit_time?: string;
   exit_price?: number;
@@ -83,7 +180,12 @@ export interface Position {
   stop_loss_price?: number;
   take_profit_price?: number;
   trailing_stop_price?: number;
+  stop_rule?: 'initial' | 'trailing' | 'breakeven' | 'profit_lock' | 'chandelier' | 'time_decay';
   unrealized_pnl?: number;
+  broker?: 'webhook' | 'coinbase' | 'paper';
+  entered_quantity?: number;
+  realized_pnl?: number;
+  take_profit_targets?: TakeProfitTarget[];
 }
 
 export interface TradingUpdate {
@@ -98,6 +200,17 @@ export interface Portfolio {
   positions_value: number;
   daily_pnl: number;
   open_positions: Position[];
+  paper?: PaperPortfolio;
+}
+
+export interface PaperPortfolio {
+  cash_balance: number;
+  positions_value: number;
+  total_value: number;
+  realized_pnl: number;
+  unrealized_pnl: number;
+  fees_paid: number;
+  open_positions: Position[];
 }
 
 export interface TradeSignal {